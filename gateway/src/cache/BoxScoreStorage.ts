@@ -49,7 +49,7 @@ export async function storeBoxScore(gameId: string, boxScore: BoxScoreResponse):
 
   // Reject empty box scores (ESPN race condition protection)
   const league = gameId.split('_')[0];
-  if ((league === 'nba' || league === 'ncaam') &&
+  if ((league === 'nba' || league === 'ncaam' || league === 'wnba' || league === 'ncaaw') &&
       (boxScore.boxScore.homeTeam as any).starters?.length < 5) {
     logger.warn('BoxScoreStorage: Rejecting empty box score', { gameId });
     return;
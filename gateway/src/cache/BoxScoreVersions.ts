@@ -0,0 +1,191 @@
+/**
+ * BoxScoreVersions - Versioned box score snapshots for live deltas
+ *
+ * Every time a box score is served, its content is compared with the latest
+ * snapshot for that game. Changed content gets a new, monotonically increasing
+ * version (millisecond timestamp based, so versions keep increasing across
+ * restarts). Clients send back the version they hold and receive a compact
+ * JSON Patch (RFC 6902) instead of the full payload.
+ *
+ * Patches are row-level: a changed PlayerLine, NHL skater/goalie line, MLB
+ * batter/pitcher or NFL group is replaced whole, as are team totals.
+ *
+ * Snapshots are kept in memory and bounded per game and overall; a version
+ * that has been evicted (or predates a restart) yields null so the caller
+ * falls back to a full payload.
+ */
+
+import { BoxScoreResponse } from '../types';
+import { logger } from '../utils/logger';
+
+const MAX_VERSIONS_PER_GAME = 20;
+const MAX_TRACKED_GAMES = 500;
+
+export interface PatchOperation {
+  op: 'add' | 'remove' | 'replace';
+  path: string;
+  value?: unknown;
+}
+
+export interface BoxScorePatch {
+  version: number;
+  since: number;
+  patch: PatchOperation[];
+}
+
+interface Snapshot {
+  version: number;
+  content: string;  // JSON without lastUpdated, for change detection
+  boxScore: BoxScoreResponse;
+}
+
+// Insertion-ordered so the least recently updated game is evicted first
+const snapshots = new Map<string, Snapshot[]>();
+
+/**
+ * Escape a key for use in a JSON Pointer
+ */
+function pointerKey(key: string | number): string {
+  return String(key).replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function contentOf(boxScore: BoxScoreResponse): string {
+  const { lastUpdated: _lastUpdated, ...content } = boxScore;
+  return JSON.stringify(content);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Row identity for arrays of box score rows (players by id, NFL groups by name)
+ */
+function rowKey(row: unknown): string | undefined {
+  if (!row || typeof row !== 'object') return undefined;
+  const record = row as { id?: unknown; name?: unknown };
+  if (typeof record.id === 'string') return record.id;
+  if (typeof record.name === 'string') return record.name;
+  return undefined;
+}
+
+/**
+ * Diff two team box scores. Row arrays with the same row order get per-row
+ * replaces; anything else that changed is replaced whole.
+ */
+function diffTeam(
+  path: string,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  ops: PatchOperation[]
+): void {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  for (const key of keys) {
+    const keyPath = `${path}/${pointerKey(key)}`;
+    const a = before[key];
+    const b = after[key];
+
+    if (!(key in after)) {
+      ops.push({ op: 'remove', path: keyPath });
+      continue;
+    }
+    if (!(key in before)) {
+      ops.push({ op: 'add', path: keyPath, value: b });
+      continue;
+    }
+    if (isEqual(a, b)) continue;
+
+    const sameRows = Array.isArray(a) && Array.isArray(b)
+      && a.length === b.length
+      && a.every((row, i) => rowKey(row) !== undefined && rowKey(row) === rowKey(b[i]));
+
+    if (sameRows) {
+      (b as unknown[]).forEach((row, i) => {
+        if (!isEqual((a as unknown[])[i], row)) {
+          ops.push({ op: 'replace', path: `${keyPath}/${i}`, value: row });
+        }
+      });
+    } else {
+      ops.push({ op: 'replace', path: keyPath, value: b });
+    }
+  }
+}
+
+/**
+ * Compute a row-level JSON Patch that turns `before` into `after`
+ */
+export function diffBoxScores(before: BoxScoreResponse, after: BoxScoreResponse): PatchOperation[] {
+  const ops: PatchOperation[] = [];
+
+  if (!isEqual(before.game, after.game)) {
+    ops.push({ op: 'replace', path: '/game', value: after.game });
+  }
+
+  for (const side of ['homeTeam', 'awayTeam'] as const) {
+    diffTeam(
+      `/boxScore/${side}`,
+      before.boxScore[side] as unknown as Record<string, unknown>,
+      after.boxScore[side] as unknown as Record<string, unknown>,
+      ops
+    );
+  }
+
+  if (ops.length > 0 && before.lastUpdated !== after.lastUpdated) {
+    ops.push({ op: 'replace', path: '/lastUpdated', value: after.lastUpdated });
+  }
+
+  return ops;
+}
+
+/**
+ * Record the box score being served and return its version.
+ * Unchanged content keeps the current version.
+ */
+export function recordBoxScoreVersion(gameId: string, boxScore: BoxScoreResponse): number {
+  const history = snapshots.get(gameId) ?? [];
+  const latest = history[history.length - 1];
+  const content = contentOf(boxScore);
+
+  if (latest && latest.content === content) {
+    return latest.version;
+  }
+
+  const version = Math.max(Date.now(), (latest?.version ?? 0) + 1);
+  // Deep copy so later in-place enrichment can't alter the stored snapshot
+  history.push({ version, content, boxScore: JSON.parse(JSON.stringify(boxScore)) });
+  if (history.length > MAX_VERSIONS_PER_GAME) {
+    history.shift();
+  }
+
+  // Re-insert to mark as most recently updated
+  snapshots.delete(gameId);
+  snapshots.set(gameId, history);
+
+  if (snapshots.size > MAX_TRACKED_GAMES) {
+    const oldest = snapshots.keys().next().value;
+    if (oldest !== undefined) snapshots.delete(oldest);
+  }
+
+  logger.debug('BoxScoreVersions: New version', { gameId, version, retained: history.length });
+  return version;
+}
+
+/**
+ * Build a patch from a client's version to the latest snapshot.
+ * Returns null when the version is unknown (too old, or from before a restart).
+ */
+export function getBoxScorePatch(gameId: string, sinceVersion: number): BoxScorePatch | null {
+  const history = snapshots.get(gameId);
+  if (!history?.length) return null;
+
+  const base = history.find(s => s.version === sinceVersion);
+  if (!base) return null;
+
+  const latest = history[history.length - 1];
+  return {
+    version: latest.version,
+    since: sinceVersion,
+    patch: base === latest ? [] : diffBoxScores(base.boxScore, latest.boxScore),
+  };
+}
@@ -8,6 +8,7 @@
  * - Historical: 24h+ (won't change)
  * - Standings: 18-24h (change overnight)
  * - Schedule: 24h (rarely changes)
+ * - Matchup preview: 1h before tip-off, 24h once the game has started
  */
 
 import { Game, BoxScoreResponse } from '../types';
@@ -22,6 +23,8 @@ export interface CacheTTLs {
   finalBoxScore: number;
   standings: number;
   schedule: number;
+  scheduledPreview: number;
+  startedPreview: number;
   // No-games TTLs (new for schedule-driven approach)
   noGamesVerified: number;
   noGamesOffSeason: number;
@@ -39,6 +42,8 @@ export const DEFAULT_CACHE_TTLS: CacheTTLs = {
   finalBoxScore: 7 * 24 * 60 * 60,       // 7 days (effectively permanent)
   standings: 18 * 60 * 60,               // 18 hours
   schedule: 24 * 60 * 60,                // 24 hours
+  scheduledPreview: 60 * 60,             // 1 hour (earlier games may finish)
+  startedPreview: 24 * 60 * 60,          // 24 hours (built from games before this one)
   // No-games TTLs - avoid re-checking ESPN for dates with no games
   noGamesVerified: 24 * 60 * 60,         // 24 hours (verified via game_dates index)
   noGamesOffSeason: 7 * 24 * 60 * 60,    // 7 days (off-season, won't change)
@@ -86,8 +91,10 @@ export function getScoreboardTTL(games: Game[], requestDate: string): number {
  * 1. Live game -> 90s (active updates)
  * 2. Final, same day -> 6 hours (corrections possible)
  * 3. Final, historical -> 7 days (permanent)
+ *
+ * Play-by-play follows the same lifecycle and uses this TTL too.
  */
-export function getBoxScoreTTL(boxScore: BoxScoreResponse): number {
+export function getBoxScoreTTL(boxScore: Pick<BoxScoreResponse, 'game'>): number {
   if (boxScore.game.status === 'live') {
     return DEFAULT_CACHE_TTLS.liveBoxScore;
   }
@@ -124,6 +131,13 @@ export function getScheduleTTL(): number {
   return DEFAULT_CACHE_TTLS.schedule;
 }
 
+/**
+ * Get TTL for a matchup preview
+ */
+export function getPreviewTTL(status: Game['status']): number {
+  return status === 'scheduled' ? DEFAULT_CACHE_TTLS.scheduledPreview : DEFAULT_CACHE_TTLS.startedPreview;
+}
+
 /**
  * Get TTL for "no games" responses based on reason
  * 
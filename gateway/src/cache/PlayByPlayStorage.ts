@@ -0,0 +1,147 @@
+/**
+ * PlayByPlayStorage - Persistent storage for final play-by-play
+ *
+ * Mirrors BoxScoreStorage: plays for a final game don't change,
+ * so they are stored permanently instead of re-fetching the summary.
+ *
+ * Storage backends:
+ * 1. Redis (if available) - fast access
+ * 2. JSON files (fallback) - survives restarts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getRedisClient, isRedisAvailable } from './redis';
+import { PlaysResponse } from '../types';
+import { logger } from '../utils/logger';
+
+const STORAGE_DIR = path.join(__dirname, '../../data/plays');
+const REDIS_PREFIX = 'plays:permanent:';
+const REDIS_TTL = 30 * 24 * 60 * 60; // 30 days in Redis (backup)
+
+/**
+ * Ensure storage directory exists
+ */
+function ensureStorageDir(): void {
+  if (!fs.existsSync(STORAGE_DIR)) {
+    fs.mkdirSync(STORAGE_DIR, { recursive: true });
+  }
+}
+
+/**
+ * Get file path for a game's plays
+ */
+function getFilePath(gameId: string): string {
+  const safeId = gameId.replace(/[^a-zA-Z0-9_-]/g, '_');
+  return path.join(STORAGE_DIR, `${safeId}.json`);
+}
+
+/**
+ * Store final play-by-play permanently
+ */
+export async function storePlays(gameId: string, plays: PlaysResponse): Promise<void> {
+  if (plays.game.status !== 'final') {
+    logger.debug('PlayByPlayStorage: Skipping non-final game', { gameId, status: plays.game.status });
+    return;
+  }
+
+  // Reject empty play lists (ESPN can mark a game final before plays are published)
+  if (plays.plays.length === 0) {
+    logger.warn('PlayByPlayStorage: Rejecting empty play-by-play', { gameId });
+    return;
+  }
+
+  const data = {
+    ...plays,
+    storedAt: new Date().toISOString(),
+  };
+
+  if (isRedisAvailable()) {
+    try {
+      const client = getRedisClient();
+      if (client) {
+        await client.setEx(`${REDIS_PREFIX}${gameId}`, REDIS_TTL, JSON.stringify(data));
+        logger.debug('PlayByPlayStorage: Stored in Redis', { gameId });
+      }
+    } catch (error) {
+      logger.warn('PlayByPlayStorage: Failed to store in Redis', { gameId, error });
+    }
+  }
+
+  // Always store to file as permanent backup
+  try {
+    ensureStorageDir();
+    const filePath = getFilePath(gameId);
+    fs.writeFileSync(filePath, JSON.stringify(data));
+    logger.debug('PlayByPlayStorage: Stored to file', { gameId, filePath });
+  } catch (error) {
+    logger.error('PlayByPlayStorage: Failed to store to file', { gameId, error });
+  }
+}
+
+/**
+ * Retrieve stored play-by-play
+ */
+export async function getStoredPlays(gameId: string): Promise<PlaysResponse | null> {
+  if (isRedisAvailable()) {
+    try {
+      const client = getRedisClient();
+      if (client) {
+        const data = await client.get(`${REDIS_PREFIX}${gameId}`);
+        if (data) {
+          logger.debug('PlayByPlayStorage: Retrieved from Redis', { gameId });
+          return JSON.parse(data);
+        }
+      }
+    } catch (error) {
+      logger.warn('PlayByPlayStorage: Failed to retrieve from Redis', { gameId, error });
+    }
+  }
+
+  try {
+    const filePath = getFilePath(gameId);
+    if (fs.existsSync(filePath)) {
+      const data = fs.readFileSync(filePath, 'utf-8');
+      logger.debug('PlayByPlayStorage: Retrieved from file', { gameId });
+      return JSON.parse(data);
+    }
+  } catch (error) {
+    logger.warn('PlayByPlayStorage: Failed to retrieve from file', { gameId, error });
+  }
+
+  return null;
+}
+
+/**
+ * Delete stored play-by-play (for clearing corrupted data)
+ */
+export async function deleteStoredPlays(gameId: string): Promise<boolean> {
+  let deleted = false;
+
+  if (isRedisAvailable()) {
+    try {
+      const client = getRedisClient();
+      if (client) {
+        await client.del(`${REDIS_PREFIX}${gameId}`);
+        await client.del(`plays:${gameId}`);
+        logger.info('PlayByPlayStorage: Deleted from Redis', { gameId });
+        deleted = true;
+      }
+    } catch (error) {
+      logger.warn('PlayByPlayStorage: Failed to delete from Redis', { gameId, error });
+    }
+  }
+
+  try {
+    const filePath = getFilePath(gameId);
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+      logger.info('PlayByPlayStorage: Deleted file', { gameId, filePath });
+      deleted = true;
+    }
+  } catch (error) {
+    logger.error('PlayByPlayStorage: Failed to delete file', { gameId, error });
+  }
+
+  return deleted;
+}
@@ -0,0 +1,75 @@
+import { diffBoxScores, recordBoxScoreVersion, getBoxScorePatch } from '../BoxScoreVersions';
+import { BoxScoreResponse, NBATeamBoxScore, PlayerLine } from '../../types';
+
+function player(id: string, points: number): PlayerLine {
+  return { id, name: id, isStarter: true, stats: { points } };
+}
+
+function team(teamId: string, points: number[]): NBATeamBoxScore {
+  return {
+    teamId,
+    teamName: teamId,
+    starters: points.map((p, i) => player(`${teamId}_p${i}`, p)),
+    bench: [],
+    dnp: [],
+    teamTotals: { points: points.reduce((sum, p) => sum + p, 0) },
+  };
+}
+
+function boxScore(home: number[], away: number[], lastUpdated = '2026-01-15T01:00:00Z'): BoxScoreResponse {
+  const homeScore = home.reduce((sum, p) => sum + p, 0);
+  const awayScore = away.reduce((sum, p) => sum + p, 0);
+  return {
+    game: {
+      id: 'nba_1',
+      startTime: '2026-01-15T00:30:00Z',
+      status: 'live',
+      homeTeam: { id: 'nba_13', abbrev: 'LAL', name: 'Lakers', city: 'Los Angeles', score: homeScore },
+      awayTeam: { id: 'nba_2', abbrev: 'BOS', name: 'Celtics', city: 'Boston', score: awayScore },
+    },
+    boxScore: { homeTeam: team('home', home), awayTeam: team('away', away) },
+    lastUpdated,
+  };
+}
+
+describe('diffBoxScores', () => {
+  it('returns no operations for identical content', () => {
+    expect(diffBoxScores(boxScore([10, 5], [8]), boxScore([10, 5], [8], 'later'))).toEqual([]);
+  });
+
+  it('replaces only the changed player row and team totals', () => {
+    const ops = diffBoxScores(boxScore([10, 5], [8]), boxScore([10, 7], [8], 'later'));
+    const paths = ops.map(op => op.path);
+
+    expect(paths).toContain('/game');
+    expect(paths).toContain('/boxScore/homeTeam/starters/1');
+    expect(paths).toContain('/boxScore/homeTeam/teamTotals');
+    expect(paths).toContain('/lastUpdated');
+    expect(paths).not.toContain('/boxScore/homeTeam/starters/0');
+    expect(paths.some(path => path.startsWith('/boxScore/awayTeam'))).toBe(false);
+  });
+
+  it('replaces the whole array when rows are added', () => {
+    const ops = diffBoxScores(boxScore([10], [8]), boxScore([10, 2], [8]));
+    expect(ops).toContainEqual(expect.objectContaining({ op: 'replace', path: '/boxScore/homeTeam/starters' }));
+  });
+});
+
+describe('box score versions', () => {
+  it('keeps the version for unchanged content and patches from an old version', () => {
+    const v1 = recordBoxScoreVersion('nba_versions', boxScore([10], [8]));
+    expect(recordBoxScoreVersion('nba_versions', boxScore([10], [8], 'later'))).toBe(v1);
+
+    const v2 = recordBoxScoreVersion('nba_versions', boxScore([12], [8]));
+    expect(v2).toBeGreaterThan(v1);
+
+    const delta = getBoxScorePatch('nba_versions', v1);
+    expect(delta?.version).toBe(v2);
+    expect(delta?.patch.map(op => op.path)).toContain('/boxScore/homeTeam/starters/0');
+  });
+
+  it('returns null for unknown versions', () => {
+    recordBoxScoreVersion('nba_unknown', boxScore([10], [8]));
+    expect(getBoxScorePatch('nba_unknown', 1)).toBeNull();
+  });
+});
@@ -120,6 +120,31 @@ export async function setCached<T>(
   }
 }
 
+/**
+ * A provider-served payload cached together with the name of the provider
+ * that served it, so cache hits report that provider rather than whichever
+ * one is currently first for the league
+ */
+export interface CachedResult<T> {
+  data: T;
+  provider: string;
+}
+
+export async function getCachedResult<T>(key: string): Promise<CachedResult<T> | null> {
+  const cached = await getCached<CachedResult<T>>(key);
+
+  // Entries written before the provider was cached alongside are misses
+  return cached && typeof cached.provider === 'string' ? cached : null;
+}
+
+export async function setCachedResult<T>(
+  key: string,
+  result: CachedResult<T>,
+  ttlSeconds: number
+): Promise<void> {
+  await setCached(key, { data: result.data, provider: result.provider }, ttlSeconds);
+}
+
 export async function deleteCached(key: string): Promise<void> {
   if (!redisAvailable) {
     return;
@@ -144,7 +169,11 @@ export async function clearCachePattern(pattern: string): Promise<void> {
     const client = getRedisClient();
     if (!client) return;
     
-    const keys = await client.keys(pattern);
+    // SCAN rather than KEYS so a clear never blocks Redis for the whole keyspace
+    const keys: string[] = [];
+    for await (const key of client.scanIterator({ MATCH: pattern, COUNT: 100 })) {
+      keys.push(key);
+    }
     
     if (keys.length > 0) {
       await client.del(keys);
@@ -160,12 +189,18 @@ export const cacheKeys = {
   scoreboard: (league: string, date: string) => `scoreboard:${league}:${date}`,
   game: (gameId: string) => `game:${gameId}`,
   boxScore: (gameId: string) => `boxscore:${gameId}`,
+  plays: (gameId: string) => `plays:${gameId}`,
+  preview: (gameId: string, meetings: number) => `preview:${gameId}:${meetings}`,
   standings: (league: string, season: string) => `standings:${league}:${season}`,
   rankings: (league: string, pollType: string) => `rankings:${league}:${pollType}`,
   roster: (teamId: string) => `roster:${teamId}`,
+  teamSchedule: (teamId: string, season: string) => `team-schedule:${teamId}:${season}`,
   schedule: (league: string, startDate: string, endDate: string) =>
     `schedule:${league}:${startDate}:${endDate}`,
   health: () => 'health:status',
   playerStatCentral: (playerId: string) => `player:stat-central:${playerId}`,
   playerGameLog: (playerId: string, season: number) => `player:game-log:${playerId}:${season}`,
+  playerSplits: (playerId: string, season: number) => `player:splits:${playerId}:${season}`,
+  leaders: (league: string, season: number, stat: string, filters: string) =>
+    `leaders:${league}:${season}:${stat}:${filters}`,
 };
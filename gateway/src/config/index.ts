@@ -1,4 +1,5 @@
 import dotenv from 'dotenv';
+import * as path from 'path';
 
 dotenv.config();
 
@@ -10,6 +11,26 @@ function requireEnv(name: string): string {
   return value;
 }
 
+function parseProviderList(value: string): string[] {
+  return value.split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+}
+
+/**
+ * Per-league provider overrides from PROVIDERS_<LEAGUE> (e.g. PROVIDERS_NBA=espn,fixtures)
+ */
+function parseLeagueProviderOverrides(): Record<string, string[]> {
+  const overrides: Record<string, string[]> = {};
+  for (const [key, value] of Object.entries(process.env)) {
+    const match = key.match(/^PROVIDERS_([A-Z_]+)$/);
+    if (match && value) {
+      overrides[match[1].toLowerCase()] = parseProviderList(value);
+    }
+  }
+  return overrides;
+}
+
+const defaultProviders = parseProviderList(process.env.PROVIDERS || 'espn');
+
 export const config = {
   // Server
   port: parseInt(process.env.PORT || '3001', 10),
@@ -21,8 +42,19 @@ export const config = {
   // Redis
   redisUrl: process.env.REDIS_URL || 'redis://localhost:6379',
 
-  // Data Provider (ESPN is the only provider)
-  provider: 'espn',
+  // Data Providers - ordered failover list, overridable per league
+  provider: defaultProviders[0] || 'espn',
+  providers: {
+    default: defaultProviders,
+    byLeague: parseLeagueProviderOverrides(),
+  },
+
+  // Recorded ESPN fixtures (FIXTURES_RECORD=true captures live responses;
+  // the 'fixtures' provider replays them without network access)
+  fixtures: {
+    dir: process.env.FIXTURES_DIR || path.join(__dirname, '../../data/fixtures'),
+    record: process.env.FIXTURES_RECORD === 'true',
+  },
 
   // ESPN Rate Limits
   espn: {
@@ -30,6 +62,10 @@ export const config = {
     requestsPerMinute: parseInt(process.env.ESPN_REQUESTS_PER_MINUTE || '60', 10),
   },
 
+  // Schedule store backend: 'postgres' shares league_seasons/games/game_dates
+  // across instances; 'json' keeps data/schedule-store.json for local development
+  scheduleStore: (process.env.SCHEDULE_STORE || (process.env.DATABASE_URL ? 'postgres' : 'json')) as 'postgres' | 'json',
+
   // Cache TTLs (seconds)
   cacheTtl: {
     liveGame: parseInt(process.env.CACHE_TTL_LIVE_GAME || '15', 10),
@@ -39,6 +75,7 @@ export const config = {
     roster: parseInt(process.env.CACHE_TTL_ROSTER || '86400', 10), // 24 hours
     schedule: parseInt(process.env.CACHE_TTL_SCHEDULE || '43200', 10), // 12 hours
     playerStats: parseInt(process.env.CACHE_TTL_PLAYER_STATS || '300', 10), // 5 minutes
+    leaders: parseInt(process.env.CACHE_TTL_LEADERS || '3600', 10), // 1 hour, cleared on ingestion
   },
 
   // Rate Limiting
@@ -48,6 +85,24 @@ export const config = {
   // Logging
   logLevel: process.env.LOG_LEVEL || (process.env.NODE_ENV === 'production' ? 'info' : 'debug'),
 
+  // Push notifications: 'apns' delivers through Apple, 'log' only logs (development)
+  notifications: {
+    sender: (process.env.NOTIFICATION_SENDER || 'log') as 'apns' | 'log',
+    apns: {
+      keyId: process.env.APNS_KEY_ID || '',
+      teamId: process.env.APNS_TEAM_ID || '',
+      bundleId: process.env.APNS_BUNDLE_ID || '',
+      // .p8 contents; escaped newlines are allowed so the key fits on one line
+      privateKey: (process.env.APNS_PRIVATE_KEY || '').replace(/\\n/g, '\n'),
+    },
+  },
+
+  // Admin routes: Supabase users with profiles.role = 'admin', or cron
+  // callers sending ADMIN_API_KEY in the X-Admin-Key header
+  admin: {
+    apiKey: process.env.ADMIN_API_KEY || '',
+  },
+
   // Supabase Auth
   supabase: {
     url: requireEnv('SUPABASE_URL'),
@@ -56,15 +111,19 @@ export const config = {
 };
 
 // League configurations
+// timeZone is where the league's days turn over: scoreboard slates and season
+// phase boundaries are both grouped by US/Eastern calendar date
 export const leagueConfig = {
-  nba: { espnPath: 'basketball/nba', name: 'NBA' },
-  nfl: { espnPath: 'football/nfl', name: 'NFL' },
-  nhl: { espnPath: 'hockey/nhl', name: 'NHL' },
-  mlb: { espnPath: 'baseball/mlb', name: 'MLB' },
-  ncaam: { espnPath: 'basketball/mens-college-basketball', name: 'NCAAM' },
-  ncaaf: { espnPath: 'football/college-football', name: 'NCAAF' },
-  pga: { espnPath: 'golf/pga', name: 'PGA Tour' },
-  korn_ferry: { espnPath: 'golf/korn-ferry', name: 'Korn Ferry Tour' },
+  nba: { espnPath: 'basketball/nba', name: 'NBA', timeZone: 'America/New_York' },
+  nfl: { espnPath: 'football/nfl', name: 'NFL', timeZone: 'America/New_York' },
+  nhl: { espnPath: 'hockey/nhl', name: 'NHL', timeZone: 'America/New_York' },
+  mlb: { espnPath: 'baseball/mlb', name: 'MLB', timeZone: 'America/New_York' },
+  ncaam: { espnPath: 'basketball/mens-college-basketball', name: 'NCAAM', timeZone: 'America/New_York' },
+  ncaaf: { espnPath: 'football/college-football', name: 'NCAAF', timeZone: 'America/New_York' },
+  wnba: { espnPath: 'basketball/wnba', name: 'WNBA', timeZone: 'America/New_York' },
+  ncaaw: { espnPath: 'basketball/womens-college-basketball', name: 'NCAAW', timeZone: 'America/New_York' },
+  pga: { espnPath: 'golf/pga', name: 'PGA Tour', timeZone: 'America/New_York' },
+  korn_ferry: { espnPath: 'golf/korn-ferry', name: 'Korn Ferry Tour', timeZone: 'America/New_York' },
 };
 
 export type LeagueId = keyof typeof leagueConfig;
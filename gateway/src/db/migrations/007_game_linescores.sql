@@ -0,0 +1,10 @@
+-- 007_game_linescores.sql
+-- Store period-by-period scores (quarters, halves, periods or innings, overtime included)
+-- Written by scheduleSync from competitor linescores on the ESPN scoreboard
+
+BEGIN;
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS home_linescore JSONB;
+ALTER TABLE games ADD COLUMN IF NOT EXISTS away_linescore JSONB;
+
+COMMIT;
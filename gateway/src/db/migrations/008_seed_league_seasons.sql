@@ -0,0 +1,27 @@
+-- 008_seed_league_seasons.sql
+-- league_seasons is the source of truth for season boundaries (previously hardcoded
+-- in the schedule store). Seeds the seasons not already in schema.sql; existing rows,
+-- including admin edits, are left untouched. Later seasons come from the season
+-- calendar job or POST /v1/admin/seasons.
+
+BEGIN;
+
+INSERT INTO league_seasons (
+    id,
+    league_id,
+    season_label,
+    start_date,
+    end_date,
+    preseason_start,
+    postseason_end,
+    status,
+    schedule_source
+)
+VALUES
+    ('nhl_2025-26',   'nhl',   '2025-26', '2025-10-07', '2026-04-17', '2025-09-21', '2026-06-20', 'regular', 'espn'),
+    ('ncaaw_2025-26', 'ncaaw', '2025-26', '2025-11-03', '2026-03-15', '2025-11-03', '2026-04-05', 'regular', 'espn'),
+    ('wnba_2026',     'wnba',  '2026',    '2026-05-08', '2026-09-13', '2026-04-25', '2026-10-20', 'regular', 'espn'),
+    ('mlb_2026',      'mlb',   '2026',    '2026-03-26', '2026-09-27', '2026-02-20', '2026-11-07', 'regular', 'espn')
+ON CONFLICT (id) DO NOTHING;
+
+COMMIT;
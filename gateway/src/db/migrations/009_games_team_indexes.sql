@@ -0,0 +1,9 @@
+-- 009_games_team_indexes.sql
+-- Support per-team schedule lookups (GET /v1/teams/:id/schedule)
+
+BEGIN;
+
+CREATE INDEX IF NOT EXISTS idx_games_home_team_season ON games(home_team_id, season_id);
+CREATE INDEX IF NOT EXISTS idx_games_away_team_season ON games(away_team_id, season_id);
+
+COMMIT;
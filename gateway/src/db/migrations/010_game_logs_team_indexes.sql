@@ -0,0 +1,9 @@
+-- 010_game_logs_team_indexes.sql
+-- Support team season averages for matchup previews (GET /v1/games/:id/preview)
+
+BEGIN;
+
+CREATE INDEX IF NOT EXISTS idx_nba_game_logs_team_season ON nba_player_game_logs(team_id, season);
+CREATE INDEX IF NOT EXISTS idx_nfl_game_logs_team_season ON nfl_player_game_logs(team_id, season);
+
+COMMIT;
@@ -0,0 +1,247 @@
+-- Migration: NHL Player Stats System
+-- Adds tables for NHL player game logs, season summaries and career summaries
+-- Skaters and goalies share the game log table (player_type) and get separate summary tables
+
+-- =====================
+-- NHL PLAYER GAME LOGS
+-- Individual game performance records (skater or goalie line)
+-- =====================
+
+CREATE TABLE IF NOT EXISTS nhl_player_game_logs (
+    player_id VARCHAR(100) NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+    game_id VARCHAR(100) NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+    season INTEGER NOT NULL,                    -- e.g., 2025 for 2025-26 season
+    game_date DATE NOT NULL,
+    team_id VARCHAR(100),
+    opponent_team_id VARCHAR(100),
+    is_home BOOLEAN,
+    is_starter BOOLEAN DEFAULT false,
+    player_type VARCHAR(10) NOT NULL CHECK (player_type IN ('skater', 'goalie')),
+    position VARCHAR(10),
+
+    -- Time
+    toi_seconds INTEGER DEFAULT 0,              -- Time on ice
+
+    -- Skater stats (NULL for goalies)
+    goals INTEGER,
+    assists INTEGER,
+    points INTEGER,
+    plus_minus INTEGER,
+    pim INTEGER,                                -- Penalty minutes
+    shots INTEGER,                              -- Shots on goal
+    hits INTEGER,
+    blocked_shots INTEGER,
+    faceoff_wins INTEGER,
+    faceoff_losses INTEGER,
+    pp_goals INTEGER,
+    sh_goals INTEGER,
+    pp_assists INTEGER,
+    sh_assists INTEGER,
+    shifts INTEGER,
+
+    -- Goalie stats (NULL for skaters)
+    saves INTEGER,
+    shots_against INTEGER,
+    goals_against INTEGER,
+    ev_saves INTEGER,
+    pp_saves INTEGER,
+    sh_saves INTEGER,
+    ev_shots_against INTEGER,
+    pp_shots_against INTEGER,
+    sh_shots_against INTEGER,
+    decision VARCHAR(5),                        -- W, L, OTL
+
+    -- Metadata
+    dnp_reason VARCHAR(200),                    -- Scratch reason if applicable
+    updated_at TIMESTAMP DEFAULT NOW(),
+
+    PRIMARY KEY (player_id, game_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_nhl_game_logs_player_season ON nhl_player_game_logs(player_id, season);
+CREATE INDEX IF NOT EXISTS idx_nhl_game_logs_game_date ON nhl_player_game_logs(player_id, season, game_date DESC);
+CREATE INDEX IF NOT EXISTS idx_nhl_game_logs_game ON nhl_player_game_logs(game_id);
+CREATE INDEX IF NOT EXISTS idx_nhl_game_logs_team_season ON nhl_player_game_logs(team_id, season);
+
+DROP TRIGGER IF EXISTS update_nhl_game_logs_updated_at ON nhl_player_game_logs;
+CREATE TRIGGER update_nhl_game_logs_updated_at
+    BEFORE UPDATE ON nhl_player_game_logs
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================
+-- NHL SKATER SEASON SUMMARY
+-- Precomputed season aggregates per skater
+-- =====================
+
+CREATE TABLE IF NOT EXISTS nhl_skater_season_summary (
+    player_id VARCHAR(100) NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+    season INTEGER NOT NULL,
+    team_id VARCHAR(100),                       -- 'TOTAL' across all teams
+
+    games_played INTEGER DEFAULT 0,
+    goals INTEGER DEFAULT 0,
+    assists INTEGER DEFAULT 0,
+    points INTEGER DEFAULT 0,
+    plus_minus INTEGER DEFAULT 0,
+    pim INTEGER DEFAULT 0,
+    shots INTEGER DEFAULT 0,
+    hits INTEGER DEFAULT 0,
+    blocked_shots INTEGER DEFAULT 0,
+    faceoff_wins INTEGER DEFAULT 0,
+    faceoff_losses INTEGER DEFAULT 0,
+    pp_goals INTEGER DEFAULT 0,
+    sh_goals INTEGER DEFAULT 0,
+    pp_assists INTEGER DEFAULT 0,
+    sh_assists INTEGER DEFAULT 0,
+    toi_seconds_total INTEGER DEFAULT 0,
+
+    -- Derived
+    shooting_pct NUMERIC(5,3),                  -- goals / shots
+    faceoff_pct NUMERIC(5,3),                   -- wins / (wins + losses)
+    points_per_game NUMERIC(5,2),
+    toi_per_game_seconds INTEGER,
+
+    updated_at TIMESTAMP DEFAULT NOW(),
+
+    UNIQUE (player_id, season, team_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_nhl_skater_season_player ON nhl_skater_season_summary(player_id);
+CREATE INDEX IF NOT EXISTS idx_nhl_skater_season_season ON nhl_skater_season_summary(season);
+
+DROP TRIGGER IF EXISTS update_nhl_skater_season_updated_at ON nhl_skater_season_summary;
+CREATE TRIGGER update_nhl_skater_season_updated_at
+    BEFORE UPDATE ON nhl_skater_season_summary
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================
+-- NHL GOALIE SEASON SUMMARY
+-- Precomputed season aggregates per goalie
+-- =====================
+
+CREATE TABLE IF NOT EXISTS nhl_goalie_season_summary (
+    player_id VARCHAR(100) NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+    season INTEGER NOT NULL,
+    team_id VARCHAR(100),                       -- 'TOTAL' across all teams
+
+    games_played INTEGER DEFAULT 0,
+    games_started INTEGER DEFAULT 0,
+    wins INTEGER DEFAULT 0,
+    losses INTEGER DEFAULT 0,
+    ot_losses INTEGER DEFAULT 0,
+    shutouts INTEGER DEFAULT 0,
+    saves INTEGER DEFAULT 0,
+    shots_against INTEGER DEFAULT 0,
+    goals_against INTEGER DEFAULT 0,
+    toi_seconds_total INTEGER DEFAULT 0,
+
+    -- Derived
+    save_pct NUMERIC(5,3),                      -- saves / shots against
+    gaa NUMERIC(5,2),                           -- goals against per 60 minutes
+
+    updated_at TIMESTAMP DEFAULT NOW(),
+
+    UNIQUE (player_id, season, team_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_nhl_goalie_season_player ON nhl_goalie_season_summary(player_id);
+CREATE INDEX IF NOT EXISTS idx_nhl_goalie_season_season ON nhl_goalie_season_summary(season);
+
+DROP TRIGGER IF EXISTS update_nhl_goalie_season_updated_at ON nhl_goalie_season_summary;
+CREATE TRIGGER update_nhl_goalie_season_updated_at
+    BEFORE UPDATE ON nhl_goalie_season_summary
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================
+-- NHL CAREER SUMMARIES
+-- Historical season-by-season career stats
+-- =====================
+
+CREATE TABLE IF NOT EXISTS nhl_skater_career_summary (
+    player_id VARCHAR(100) NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+    season INTEGER NOT NULL,
+    team_id VARCHAR(100),                       -- 'TOTAL' if played for multiple teams
+
+    games_played INTEGER DEFAULT 0,
+    goals INTEGER DEFAULT 0,
+    assists INTEGER DEFAULT 0,
+    points INTEGER DEFAULT 0,
+    plus_minus INTEGER DEFAULT 0,
+    pim INTEGER DEFAULT 0,
+    shots INTEGER DEFAULT 0,
+    hits INTEGER DEFAULT 0,
+    blocked_shots INTEGER DEFAULT 0,
+    faceoff_wins INTEGER DEFAULT 0,
+    faceoff_losses INTEGER DEFAULT 0,
+    pp_goals INTEGER DEFAULT 0,
+    sh_goals INTEGER DEFAULT 0,
+    pp_assists INTEGER DEFAULT 0,
+    sh_assists INTEGER DEFAULT 0,
+    toi_seconds_total INTEGER DEFAULT 0,
+    shooting_pct NUMERIC(5,3),
+    faceoff_pct NUMERIC(5,3),
+    points_per_game NUMERIC(5,2),
+    toi_per_game_seconds INTEGER,
+
+    updated_at TIMESTAMP DEFAULT NOW(),
+
+    UNIQUE (player_id, season, team_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_nhl_skater_career_player ON nhl_skater_career_summary(player_id);
+
+CREATE TABLE IF NOT EXISTS nhl_goalie_career_summary (
+    player_id VARCHAR(100) NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+    season INTEGER NOT NULL,
+    team_id VARCHAR(100),                       -- 'TOTAL' if played for multiple teams
+
+    games_played INTEGER DEFAULT 0,
+    games_started INTEGER DEFAULT 0,
+    wins INTEGER DEFAULT 0,
+    losses INTEGER DEFAULT 0,
+    ot_losses INTEGER DEFAULT 0,
+    shutouts INTEGER DEFAULT 0,
+    saves INTEGER DEFAULT 0,
+    shots_against INTEGER DEFAULT 0,
+    goals_against INTEGER DEFAULT 0,
+    toi_seconds_total INTEGER DEFAULT 0,
+    save_pct NUMERIC(5,3),
+    gaa NUMERIC(5,2),
+
+    updated_at TIMESTAMP DEFAULT NOW(),
+
+    UNIQUE (player_id, season, team_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_nhl_goalie_career_player ON nhl_goalie_career_summary(player_id);
+
+DROP TRIGGER IF EXISTS update_nhl_skater_career_updated_at ON nhl_skater_career_summary;
+CREATE TRIGGER update_nhl_skater_career_updated_at
+    BEFORE UPDATE ON nhl_skater_career_summary
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_nhl_goalie_career_updated_at ON nhl_goalie_career_summary;
+CREATE TRIGGER update_nhl_goalie_career_updated_at
+    BEFORE UPDATE ON nhl_goalie_career_summary
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================
+-- ROW LEVEL SECURITY
+-- Gateway uses the service role key, which bypasses RLS
+-- =====================
+
+ALTER TABLE public.nhl_player_game_logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.nhl_skater_season_summary ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.nhl_goalie_season_summary ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.nhl_skater_career_summary ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.nhl_goalie_career_summary ENABLE ROW LEVEL SECURITY;
+
+-- =====================
+-- COMMENTS
+-- =====================
+
+COMMENT ON TABLE nhl_player_game_logs IS 'Individual game lines for NHL players. player_type selects the skater or goalie columns.';
+COMMENT ON TABLE nhl_skater_season_summary IS 'Precomputed season aggregates for NHL skaters, recomputed from nhl_player_game_logs.';
+COMMENT ON TABLE nhl_goalie_season_summary IS 'Precomputed season aggregates for NHL goalies, recomputed from nhl_player_game_logs.';
+COMMENT ON TABLE nhl_skater_career_summary IS 'Career historical season-by-season summaries for NHL skaters.';
+COMMENT ON TABLE nhl_goalie_career_summary IS 'Career historical season-by-season summaries for NHL goalies.';
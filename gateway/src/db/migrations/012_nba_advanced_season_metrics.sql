@@ -0,0 +1,14 @@
+-- 012_nba_advanced_season_metrics.sql
+-- Advanced metrics on basketball season summaries, filled by recomputeSeasonSummary
+-- Percentages are 0-1 decimals like fg_pct
+
+BEGIN;
+
+ALTER TABLE nba_player_season_summary
+    ADD COLUMN IF NOT EXISTS ts_pct NUMERIC(5,3),          -- points / (2 * (fga + 0.44 * fta))
+    ADD COLUMN IF NOT EXISTS efg_pct NUMERIC(5,3),         -- (fgm + 0.5 * fg3m) / fga
+    ADD COLUMN IF NOT EXISTS usage_pct NUMERIC(5,3),       -- share of team possessions used while on the floor
+    ADD COLUMN IF NOT EXISTS ast_to_ratio NUMERIC(5,2),
+    ADD COLUMN IF NOT EXISTS game_score_avg NUMERIC(5,1);  -- Hollinger game score per game
+
+COMMIT;
@@ -0,0 +1,50 @@
+-- 013_notification_subscriptions.sql
+-- Push notifications for game events (start, close late, overtime, final)
+-- Rows are owned by profiles; the gateway reads and writes them with the service role
+
+BEGIN;
+
+-- =====================
+-- DEVICE TOKENS
+-- One row per registered device; a token moves to whichever user registered it last
+-- =====================
+
+CREATE TABLE IF NOT EXISTS public.device_tokens (
+    token VARCHAR(200) PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    platform VARCHAR(10) NOT NULL DEFAULT 'ios' CHECK (platform IN ('ios')),
+    environment VARCHAR(10) NOT NULL DEFAULT 'production' CHECK (environment IN ('production', 'sandbox')),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    last_seen_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_tokens_user ON public.device_tokens(user_id);
+
+-- =====================
+-- NOTIFICATION SUBSCRIPTIONS
+-- A user follows a team (every game) or a single game, for a set of events
+-- =====================
+
+CREATE TABLE IF NOT EXISTS public.notification_subscriptions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    target_type VARCHAR(10) NOT NULL CHECK (target_type IN ('team', 'game')),
+    target_id VARCHAR(100) NOT NULL,            -- e.g., nba_13 or nba_401810365
+    events TEXT[] NOT NULL DEFAULT ARRAY['game_start', 'close_late', 'overtime', 'final'],
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    UNIQUE (user_id, target_type, target_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_subscriptions_target
+    ON public.notification_subscriptions(target_type, target_id);
+
+-- =====================
+-- ROW LEVEL SECURITY
+-- Gateway uses the service role key, which bypasses RLS
+-- =====================
+
+ALTER TABLE public.device_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_subscriptions ENABLE ROW LEVEL SECURITY;
+
+COMMIT;
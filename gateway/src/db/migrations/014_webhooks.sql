@@ -0,0 +1,57 @@
+-- 014_webhooks.sql
+-- Outbound webhooks for partner dashboards: admin-managed subscriptions and
+-- the dead-letter log of deliveries that exhausted their retries
+
+BEGIN;
+
+-- =====================
+-- WEBHOOK SUBSCRIPTIONS
+-- Filters are optional and combine with AND; no filters = every game
+-- =====================
+
+CREATE TABLE IF NOT EXISTS public.webhook_subscriptions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    url TEXT NOT NULL,
+    secret VARCHAR(200) NOT NULL,               -- HMAC-SHA256 signing secret
+    description VARCHAR(200),
+    league VARCHAR(20),                         -- e.g., nba
+    team_id VARCHAR(100),                       -- e.g., nba_13 (home or away)
+    game_id VARCHAR(100),                       -- e.g., nba_401810365
+    events TEXT[] NOT NULL DEFAULT ARRAY['game.status', 'game.score'],
+    active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_active ON public.webhook_subscriptions(active);
+
+-- =====================
+-- WEBHOOK DEAD LETTERS
+-- One row per delivery that failed every attempt; replayable from /v1/admin
+-- =====================
+
+CREATE TABLE IF NOT EXISTS public.webhook_dead_letters (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    subscription_id UUID NOT NULL REFERENCES public.webhook_subscriptions(id) ON DELETE CASCADE,
+    event_id UUID NOT NULL,
+    event_type VARCHAR(50) NOT NULL,
+    payload JSONB NOT NULL,
+    attempts INTEGER NOT NULL,
+    last_status INTEGER,                        -- HTTP status of the last attempt (NULL for network errors)
+    last_error TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    replayed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_dead_letters_subscription
+    ON public.webhook_dead_letters(subscription_id, created_at DESC);
+
+-- =====================
+-- ROW LEVEL SECURITY
+-- Gateway uses the service role key, which bypasses RLS
+-- =====================
+
+ALTER TABLE public.webhook_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_dead_letters ENABLE ROW LEVEL SECURITY;
+
+COMMIT;
@@ -0,0 +1,65 @@
+-- 015_admin_roles_audit.sql
+-- Admin role on profiles and an audit log of mutating /v1/admin calls
+-- Only the service role (the gateway, SQL console) can grant or revoke the admin role
+
+BEGIN;
+
+-- =====================
+-- PROFILE ROLE
+-- =====================
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS role VARCHAR(10) NOT NULL DEFAULT 'user'
+  CHECK (role IN ('user', 'admin'));
+
+-- Users may update their own profile through PostgREST (003), so block
+-- changes to role from anything but the service role
+CREATE OR REPLACE FUNCTION public.protect_profile_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.role := 'user';
+    ELSIF NEW.role IS DISTINCT FROM OLD.role THEN
+      RAISE EXCEPTION 'profiles.role can only be changed by an administrator';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = '';
+
+DROP TRIGGER IF EXISTS protect_profile_role ON public.profiles;
+CREATE TRIGGER protect_profile_role
+  BEFORE INSERT OR UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_profile_role();
+
+-- =====================
+-- ADMIN AUDIT LOG
+-- One row per mutating admin request, written after the response is sent
+-- =====================
+
+CREATE TABLE IF NOT EXISTS public.admin_audit_log (
+    id BIGSERIAL PRIMARY KEY,
+    actor_type VARCHAR(10) NOT NULL CHECK (actor_type IN ('user', 'api_key')),
+    actor_id VARCHAR(100) NOT NULL,
+    method VARCHAR(10) NOT NULL,
+    route VARCHAR(200) NOT NULL,
+    params JSONB NOT NULL DEFAULT '{}'::jsonb,
+    status_code INTEGER NOT NULL,
+    outcome VARCHAR(10) NOT NULL CHECK (outcome IN ('success', 'failure')),
+    error TEXT,
+    duration_ms INTEGER NOT NULL,
+    request_id VARCHAR(50),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created
+    ON public.admin_audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_actor
+    ON public.admin_audit_log(actor_id, created_at DESC);
+
+-- Gateway-only (service role); no policies
+ALTER TABLE public.admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+COMMIT;
@@ -0,0 +1,49 @@
+-- 016_api_keys.sql
+-- API keys for third-party consumers, with per-key rate limits, daily quotas
+-- and league scopes, plus daily usage counters
+-- Keys are stored as SHA-256 hashes; the raw key is shown once on creation
+
+BEGIN;
+
+-- =====================
+-- API KEYS
+-- =====================
+
+CREATE TABLE IF NOT EXISTS public.api_keys (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(100) NOT NULL,
+    key_prefix VARCHAR(20) NOT NULL,
+    key_hash CHAR(64) NOT NULL UNIQUE,
+    -- NULL allows every league
+    allowed_leagues TEXT[],
+    rate_limit_per_minute INTEGER NOT NULL DEFAULT 60 CHECK (rate_limit_per_minute > 0),
+    -- NULL means no daily quota
+    daily_quota INTEGER CHECK (daily_quota > 0),
+    active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    last_used_at TIMESTAMPTZ
+);
+
+-- =====================
+-- DAILY USAGE
+-- Counters per key and UTC day; the gateway flushes in-memory counts every minute
+-- =====================
+
+CREATE TABLE IF NOT EXISTS public.api_key_usage (
+    api_key_id UUID NOT NULL REFERENCES public.api_keys(id) ON DELETE CASCADE,
+    usage_date DATE NOT NULL,
+    requests INTEGER NOT NULL DEFAULT 0,
+    rejected INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (api_key_id, usage_date)
+);
+
+-- =====================
+-- ROW LEVEL SECURITY
+-- Gateway uses the service role key, which bypasses RLS
+-- =====================
+
+ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.api_key_usage ENABLE ROW LEVEL SECURITY;
+
+COMMIT;
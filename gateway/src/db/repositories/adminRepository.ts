@@ -0,0 +1,72 @@
+/**
+ * Admin repository
+ * Profile roles for admin access and the admin audit log
+ */
+
+import { query } from '../pool';
+
+// =====================
+// Types
+// =====================
+
+export type ProfileRole = 'user' | 'admin';
+
+export interface AdminAuditEntry {
+  id: string;
+  actor_type: 'user' | 'api_key';
+  actor_id: string;
+  method: string;
+  route: string;
+  params: Record<string, unknown>;
+  status_code: number;
+  outcome: 'success' | 'failure';
+  error: string | null;
+  duration_ms: number;
+  request_id: string | null;
+  created_at: Date;
+}
+
+// =====================
+// Roles
+// =====================
+
+/**
+ * A user's role, or null when they have no profile
+ */
+export async function getProfileRole(userId: string): Promise<ProfileRole | null> {
+  const rows = await query<{ role: ProfileRole }>(`SELECT role FROM profiles WHERE id = $1`, [userId]);
+  return rows[0]?.role ?? null;
+}
+
+// =====================
+// Audit Log
+// =====================
+
+export async function insertAdminAuditEntry(
+  entry: Omit<AdminAuditEntry, 'id' | 'created_at'>
+): Promise<void> {
+  await query(
+    `INSERT INTO admin_audit_log
+       (actor_type, actor_id, method, route, params, status_code, outcome, error, duration_ms, request_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+    [
+      entry.actor_type, entry.actor_id, entry.method, entry.route, JSON.stringify(entry.params),
+      entry.status_code, entry.outcome, entry.error, entry.duration_ms, entry.request_id,
+    ]
+  );
+}
+
+/**
+ * Audit entries newest first, optionally for one actor
+ */
+export async function getAdminAuditLog(params: { actorId?: string; limit: number }): Promise<AdminAuditEntry[]> {
+  return params.actorId
+    ? await query<AdminAuditEntry>(
+      `SELECT * FROM admin_audit_log WHERE actor_id = $1 ORDER BY created_at DESC LIMIT $2`,
+      [params.actorId, params.limit]
+    )
+    : await query<AdminAuditEntry>(
+      `SELECT * FROM admin_audit_log ORDER BY created_at DESC LIMIT $1`,
+      [params.limit]
+    );
+}
@@ -0,0 +1,201 @@
+/**
+ * API key repository
+ * Third-party API keys (stored hashed) and their daily usage counters
+ */
+
+import { query, getClient } from '../pool';
+
+// =====================
+// Types
+// =====================
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  key_prefix: string;
+  key_hash: string;
+  allowed_leagues: string[] | null;
+  rate_limit_per_minute: number;
+  daily_quota: number | null;
+  active: boolean;
+  created_at: Date;
+  updated_at: Date;
+  last_used_at: Date | null;
+}
+
+export interface ApiKeyInput {
+  name: string;
+  allowed_leagues?: string[] | null;
+  rate_limit_per_minute?: number;
+  daily_quota?: number | null;
+  active?: boolean;
+}
+
+export interface ApiKeyUsage {
+  api_key_id: string;
+  usage_date: string;
+  requests: number;
+  rejected: number;
+}
+
+const UPDATABLE_COLUMNS = ['name', 'allowed_leagues', 'rate_limit_per_minute', 'daily_quota', 'active'] as const;
+
+// =====================
+// Keys
+// =====================
+
+export async function getApiKeys(): Promise<ApiKey[]> {
+  return await query<ApiKey>(`SELECT * FROM api_keys ORDER BY created_at`);
+}
+
+export async function getApiKey(id: string): Promise<ApiKey | null> {
+  const rows = await query<ApiKey>(`SELECT * FROM api_keys WHERE id = $1`, [id]);
+  return rows[0] || null;
+}
+
+/**
+ * Look up an active key by the SHA-256 hex hash of the raw key
+ */
+export async function getActiveApiKeyByHash(keyHash: string): Promise<ApiKey | null> {
+  const rows = await query<ApiKey>(`SELECT * FROM api_keys WHERE key_hash = $1 AND active = true`, [keyHash]);
+  return rows[0] || null;
+}
+
+export async function createApiKey(
+  input: ApiKeyInput & { key_prefix: string; key_hash: string }
+): Promise<ApiKey> {
+  const rows = await query<ApiKey>(
+    `INSERT INTO api_keys (name, key_prefix, key_hash, allowed_leagues, rate_limit_per_minute, daily_quota, active)
+     VALUES ($1, $2, $3, $4, COALESCE($5, 60), $6, COALESCE($7, true))
+     RETURNING *`,
+    [
+      input.name, input.key_prefix, input.key_hash, input.allowed_leagues ?? null,
+      input.rate_limit_per_minute ?? null, input.daily_quota ?? null, input.active ?? null,
+    ]
+  );
+  return rows[0];
+}
+
+/**
+ * Update the given fields (null clears scopes/quota); returns null when the
+ * key does not exist
+ */
+export async function updateApiKey(id: string, changes: Partial<ApiKeyInput>): Promise<ApiKey | null> {
+  const values: unknown[] = [id];
+  const sets: string[] = [];
+  for (const column of UPDATABLE_COLUMNS) {
+    if (changes[column] !== undefined) {
+      values.push(changes[column]);
+      sets.push(`${column} = $${values.length}`);
+    }
+  }
+  if (sets.length === 0) return getApiKey(id);
+
+  const rows = await query<ApiKey>(
+    `UPDATE api_keys SET ${sets.join(', ')}, updated_at = NOW()
+     WHERE id = $1
+     RETURNING *`,
+    values
+  );
+  return rows[0] || null;
+}
+
+export async function deleteApiKey(id: string): Promise<boolean> {
+  const rows = await query(`DELETE FROM api_keys WHERE id = $1 RETURNING id`, [id]);
+  return rows.length > 0;
+}
+
+// =====================
+// Usage
+// =====================
+
+/**
+ * Requests counted so far on a UTC day, 0 when none
+ */
+export async function getApiKeyRequestCount(apiKeyId: string, usageDate: string): Promise<number> {
+  const rows = await query<{ requests: number }>(
+    `SELECT requests FROM api_key_usage WHERE api_key_id = $1 AND usage_date = $2`,
+    [apiKeyId, usageDate]
+  );
+  return rows[0]?.requests ?? 0;
+}
+
+/**
+ * Today's stored request counts for a set of keys (keys without a row are omitted)
+ */
+export async function getApiKeyRequestCounts(
+  apiKeyIds: string[],
+  usageDate: string
+): Promise<Array<{ api_key_id: string; requests: number }>> {
+  if (apiKeyIds.length === 0) return [];
+
+  return await query<{ api_key_id: string; requests: number }>(
+    `SELECT api_key_id, requests FROM api_key_usage WHERE api_key_id = ANY($1::uuid[]) AND usage_date = $2`,
+    [apiKeyIds, usageDate]
+  );
+}
+
+/**
+ * Add counter increments and bump last_used_at for keys that made requests,
+ * in one transaction so a failed flush can be retried without double counting.
+ * Increments for keys deleted since are dropped.
+ */
+export async function addApiKeyUsage(increments: ApiKeyUsage[]): Promise<void> {
+  if (increments.length === 0) return;
+
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    await client.query(
+      `INSERT INTO api_key_usage (api_key_id, usage_date, requests, rejected)
+       SELECT u.* FROM UNNEST($1::uuid[], $2::date[], $3::int[], $4::int[])
+         AS u(api_key_id, usage_date, requests, rejected)
+       WHERE EXISTS (SELECT 1 FROM api_keys WHERE id = u.api_key_id)
+       ON CONFLICT (api_key_id, usage_date) DO UPDATE
+       SET requests = api_key_usage.requests + EXCLUDED.requests,
+           rejected = api_key_usage.rejected + EXCLUDED.rejected`,
+      [
+        increments.map(row => row.api_key_id),
+        increments.map(row => row.usage_date),
+        increments.map(row => row.requests),
+        increments.map(row => row.rejected),
+      ]
+    );
+
+    const usedKeyIds = [...new Set(increments.filter(row => row.requests > 0).map(row => row.api_key_id))];
+    if (usedKeyIds.length > 0) {
+      await client.query(`UPDATE api_keys SET last_used_at = NOW() WHERE id = ANY($1::uuid[])`, [usedKeyIds]);
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Daily counters for the last `days` UTC days (today included), newest first,
+ * optionally for one key
+ */
+export async function getApiKeyUsage(params: { apiKeyId?: string; days: number }): Promise<ApiKeyUsage[]> {
+  const values: unknown[] = [params.days];
+  let keyFilter = '';
+  if (params.apiKeyId) {
+    values.push(params.apiKeyId);
+    keyFilter = `AND api_key_id = $${values.length}`;
+  }
+
+  return await query<ApiKeyUsage>(
+    `SELECT api_key_id, to_char(usage_date, 'YYYY-MM-DD') AS usage_date, requests, rejected
+     FROM api_key_usage
+     WHERE usage_date > (NOW() AT TIME ZONE 'UTC')::date - $1::int
+     ${keyFilter}
+     ORDER BY usage_date DESC, api_key_id`,
+    values
+  );
+}
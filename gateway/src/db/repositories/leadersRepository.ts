@@ -0,0 +1,216 @@
+/**
+ * Leaders repository
+ * Ranked league leaders from the precomputed season summary tables
+ */
+
+import { query } from '../pool';
+
+// =====================
+// Types
+// =====================
+
+export interface LeaderStatDefinition {
+  label: string;
+  /** Season table (and row filter) this stat is ranked from */
+  source: LeaderSource;
+  /** Per-game value (or rate, for percentage stats) */
+  perGame: string;
+  /** Season total, or null for rate stats */
+  total: string | null;
+  /** Lower is better (e.g. goals against average) */
+  ascending?: boolean;
+  /** Share of the league-high games played needed to qualify (default 0.7) */
+  minGamesShare?: number;
+  /** Attempts needed per game played to qualify, for percentage stats */
+  minAttemptsPerGame?: { attempts: string; perGame: number };
+}
+
+type LeaderSource = 'nba' | 'nhl_skater' | 'nhl_goalie' | 'nfl';
+
+export interface LeaderRow {
+  player_id: string;
+  display_name: string;
+  position: string | null;
+  team_id: string | null;
+  headshot_url: string | null;
+  games_played: number;
+  per_game: string | number | null;
+  total: string | number | null;
+}
+
+export interface LeadersQuery {
+  league: string;
+  season: number;
+  stat: string;
+  position?: string;
+  teamId?: string;
+  minGames?: number;
+  limit: number;
+}
+
+export interface LeadersResult {
+  definition: LeaderStatDefinition;
+  minGames: number;
+  perGame: LeaderRow[];
+  totals: LeaderRow[];
+}
+
+// =====================
+// Stat Catalog
+// =====================
+
+const SOURCE_TABLES: Record<LeaderSource, string> = {
+  nba: 'nba_player_season_summary',
+  nhl_skater: 'nhl_skater_season_summary',
+  nhl_goalie: 'nhl_goalie_season_summary',
+  nfl: 'nfl_player_season_summary',
+};
+
+/** stats_json numeric lookup for NFL season rows */
+const nfl = (key: string) => `COALESCE((s.stats_json->>'${key}')::numeric, 0)`;
+
+const BASKETBALL_STATS: Record<string, LeaderStatDefinition> = {
+  ppg: { label: 'Points', source: 'nba', perGame: 's.points_total::numeric / s.games_played', total: 's.points_total' },
+  rpg: { label: 'Rebounds', source: 'nba', perGame: 's.reb::numeric / s.games_played', total: 's.reb' },
+  apg: { label: 'Assists', source: 'nba', perGame: 's.ast::numeric / s.games_played', total: 's.ast' },
+  spg: { label: 'Steals', source: 'nba', perGame: 's.stl::numeric / s.games_played', total: 's.stl' },
+  bpg: { label: 'Blocks', source: 'nba', perGame: 's.blk::numeric / s.games_played', total: 's.blk' },
+  mpg: { label: 'Minutes', source: 'nba', perGame: 's.minutes_total::numeric / s.games_played', total: 's.minutes_total' },
+  fg3m: { label: '3-Pointers Made', source: 'nba', perGame: 's.fg3m::numeric / s.games_played', total: 's.fg3m' },
+  fg_pct: {
+    label: 'Field Goal %', source: 'nba', perGame: 's.fg_pct * 100', total: null,
+    minAttemptsPerGame: { attempts: 's.fga', perGame: 5 },
+  },
+  fg3_pct: {
+    label: '3-Point %', source: 'nba', perGame: 's.fg3_pct * 100', total: null,
+    minAttemptsPerGame: { attempts: 's.fg3a', perGame: 2 },
+  },
+  ft_pct: {
+    label: 'Free Throw %', source: 'nba', perGame: 's.ft_pct * 100', total: null,
+    minAttemptsPerGame: { attempts: 's.fta', perGame: 2 },
+  },
+};
+
+const HOCKEY_STATS: Record<string, LeaderStatDefinition> = {
+  goals: { label: 'Goals', source: 'nhl_skater', perGame: 's.goals::numeric / s.games_played', total: 's.goals' },
+  assists: { label: 'Assists', source: 'nhl_skater', perGame: 's.assists::numeric / s.games_played', total: 's.assists' },
+  points: { label: 'Points', source: 'nhl_skater', perGame: 's.points::numeric / s.games_played', total: 's.points' },
+  plus_minus: { label: 'Plus/Minus', source: 'nhl_skater', perGame: 's.plus_minus::numeric / s.games_played', total: 's.plus_minus' },
+  shots: { label: 'Shots', source: 'nhl_skater', perGame: 's.shots::numeric / s.games_played', total: 's.shots' },
+  pp_goals: { label: 'Power Play Goals', source: 'nhl_skater', perGame: 's.pp_goals::numeric / s.games_played', total: 's.pp_goals' },
+  faceoff_pct: {
+    label: 'Faceoff %', source: 'nhl_skater', perGame: 's.faceoff_pct * 100', total: null,
+    minAttemptsPerGame: { attempts: '(s.faceoff_wins + s.faceoff_losses)', perGame: 5 },
+  },
+  wins: { label: 'Wins', source: 'nhl_goalie', perGame: 's.wins::numeric / s.games_played', total: 's.wins', minGamesShare: 0.3 },
+  shutouts: { label: 'Shutouts', source: 'nhl_goalie', perGame: 's.shutouts::numeric / s.games_played', total: 's.shutouts', minGamesShare: 0.3 },
+  save_pct: { label: 'Save %', source: 'nhl_goalie', perGame: 's.save_pct * 100', total: null, minGamesShare: 0.3 },
+  gaa: { label: 'Goals Against Average', source: 'nhl_goalie', perGame: 's.gaa', total: null, ascending: true, minGamesShare: 0.3 },
+};
+
+const FOOTBALL_STATS: Record<string, LeaderStatDefinition> = {
+  passing_yards: { label: 'Passing Yards', source: 'nfl', perGame: `${nfl('passing_yards')} / s.games_played`, total: nfl('passing_yards') },
+  passing_tds: { label: 'Passing Touchdowns', source: 'nfl', perGame: `${nfl('passing_tds')} / s.games_played`, total: nfl('passing_tds') },
+  rushing_yards: { label: 'Rushing Yards', source: 'nfl', perGame: `${nfl('rushing_yards')} / s.games_played`, total: nfl('rushing_yards') },
+  rushing_tds: { label: 'Rushing Touchdowns', source: 'nfl', perGame: `${nfl('rushing_tds')} / s.games_played`, total: nfl('rushing_tds') },
+  receptions: { label: 'Receptions', source: 'nfl', perGame: `${nfl('receptions')} / s.games_played`, total: nfl('receptions') },
+  receiving_yards: { label: 'Receiving Yards', source: 'nfl', perGame: `${nfl('receiving_yards')} / s.games_played`, total: nfl('receiving_yards') },
+  receiving_tds: { label: 'Receiving Touchdowns', source: 'nfl', perGame: `${nfl('receiving_tds')} / s.games_played`, total: nfl('receiving_tds') },
+  total_tackles: { label: 'Tackles', source: 'nfl', perGame: `${nfl('total_tackles')} / s.games_played`, total: nfl('total_tackles') },
+  sacks: { label: 'Sacks', source: 'nfl', perGame: `${nfl('sacks')} / s.games_played`, total: nfl('sacks') },
+  def_interceptions: { label: 'Interceptions', source: 'nfl', perGame: `${nfl('def_interceptions')} / s.games_played`, total: nfl('def_interceptions') },
+  completion_pct: {
+    label: 'Completion %', source: 'nfl', perGame: `${nfl('completion_pct')} * 100`, total: null,
+    minAttemptsPerGame: { attempts: nfl('attempts'), perGame: 14 },
+  },
+};
+
+/** Stat catalog per league; leagues without season summaries have no leaders */
+export const LEADER_STATS: Record<string, Record<string, LeaderStatDefinition>> = {
+  nba: BASKETBALL_STATS,
+  wnba: BASKETBALL_STATS,
+  ncaam: BASKETBALL_STATS,
+  ncaaw: BASKETBALL_STATS,
+  nhl: HOCKEY_STATS,
+  nfl: FOOTBALL_STATS,
+  ncaaf: FOOTBALL_STATS,
+};
+
+const DEFAULT_MIN_GAMES_SHARE = 0.7;
+
+// =====================
+// Read Operations
+// =====================
+
+/**
+ * Ranked leaders for one stat. Per-game leaders require the minimum games
+ * (and attempts, for percentages); total leaders only need one game.
+ */
+export async function getLeaders(params: LeadersQuery): Promise<LeadersResult | null> {
+  const definition = LEADER_STATS[params.league]?.[params.stat];
+  if (!definition) return null;
+
+  const table = SOURCE_TABLES[definition.source];
+
+  // Shared filters: $1 league, $2 season, then optional position/team
+  const values: Array<string | number> = [params.league, params.season];
+  const filters = [`p.sport = $1`, `s.season = $2`, `s.team_id = 'TOTAL'`, `s.games_played > 0`];
+  if (params.position) {
+    values.push(params.position.toUpperCase());
+    filters.push(`UPPER(p.position) = $${values.length}`);
+  }
+  if (params.teamId) {
+    values.push(params.teamId);
+    filters.push(`p.current_team_id = $${values.length}`);
+  }
+  const from = `FROM ${table} s JOIN players p ON p.id = s.player_id WHERE ${filters.join(' AND ')}`;
+
+  const minGames = params.minGames ?? await defaultMinGames(table, params.league, params.season,
+    definition.minGamesShare ?? DEFAULT_MIN_GAMES_SHARE);
+
+  const attemptsFilter = definition.minAttemptsPerGame
+    ? `AND ${definition.minAttemptsPerGame.attempts} >= s.games_played * ${definition.minAttemptsPerGame.perGame}`
+    : '';
+
+  const select = `SELECT s.player_id, p.display_name, p.position, p.current_team_id AS team_id,
+      p.headshot_url, s.games_played,
+      ${definition.perGame} AS per_game,
+      ${definition.total ?? 'NULL'} AS total`;
+
+  const perGame = await query<LeaderRow>(
+    `${select}
+     ${from}
+       AND s.games_played >= $${values.length + 1}
+       AND ${definition.perGame} IS NOT NULL
+       ${attemptsFilter}
+     ORDER BY per_game ${definition.ascending ? 'ASC' : 'DESC'}, s.games_played DESC
+     LIMIT $${values.length + 2}`,
+    [...values, minGames, params.limit]
+  );
+
+  const totals = definition.total
+    ? await query<LeaderRow>(
+      `${select}
+       ${from}
+       ORDER BY total DESC, s.games_played ASC
+       LIMIT $${values.length + 1}`,
+      [...values, params.limit]
+    )
+    : [];
+
+  return { definition, minGames, perGame, totals };
+}
+
+/**
+ * Qualifying games: a share of the most games any player in the league has
+ * played this season (a proxy for team games played so far)
+ */
+async function defaultMinGames(table: string, league: string, season: number, share: number): Promise<number> {
+  const rows = await query<{ max_games: number | null }>(
+    `SELECT MAX(s.games_played)::int AS max_games
+     FROM ${table} s JOIN players p ON p.id = s.player_id
+     WHERE p.sport = $1 AND s.season = $2 AND s.team_id = 'TOTAL'`,
+    [league, season]
+  );
+  return Math.max(1, Math.floor((rows[0]?.max_games ?? 0) * share));
+}
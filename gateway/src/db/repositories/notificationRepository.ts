@@ -0,0 +1,140 @@
+/**
+ * Notification repository
+ * Device tokens and game event subscriptions for push notifications
+ */
+
+import { query } from '../pool';
+
+// =====================
+// Types
+// =====================
+
+export const GAME_EVENT_TYPES = ['game_start', 'close_late', 'overtime', 'final'] as const;
+export type GameEventType = typeof GAME_EVENT_TYPES[number];
+
+export interface DeviceToken {
+  token: string;
+  user_id: string;
+  platform: 'ios';
+  environment: 'production' | 'sandbox';
+  created_at: Date;
+  last_seen_at: Date;
+}
+
+export interface NotificationSubscription {
+  id: string;
+  user_id: string;
+  target_type: 'team' | 'game';
+  target_id: string;
+  events: GameEventType[];
+  created_at: Date;
+}
+
+// =====================
+// Device Tokens
+// =====================
+
+/**
+ * Register (or refresh) a device token for a user
+ */
+export async function upsertDeviceToken(
+  userId: string,
+  token: string,
+  environment: DeviceToken['environment']
+): Promise<DeviceToken> {
+  const rows = await query<DeviceToken>(
+    `INSERT INTO device_tokens (token, user_id, environment)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (token) DO UPDATE
+     SET user_id = EXCLUDED.user_id,
+         environment = EXCLUDED.environment,
+         last_seen_at = NOW()
+     RETURNING *`,
+    [token, userId, environment]
+  );
+  return rows[0];
+}
+
+/**
+ * Remove a device token; scoped to a user unless userId is omitted
+ * (APNs reported it unregistered). Returns whether a row was deleted.
+ */
+export async function deleteDeviceToken(token: string, userId?: string): Promise<boolean> {
+  const rows = userId
+    ? await query(`DELETE FROM device_tokens WHERE token = $1 AND user_id = $2 RETURNING token`, [token, userId])
+    : await query(`DELETE FROM device_tokens WHERE token = $1 RETURNING token`, [token]);
+  return rows.length > 0;
+}
+
+// =====================
+// Subscriptions
+// =====================
+
+export async function getSubscriptionsForUser(userId: string): Promise<NotificationSubscription[]> {
+  return await query<NotificationSubscription>(
+    `SELECT * FROM notification_subscriptions WHERE user_id = $1 ORDER BY created_at`,
+    [userId]
+  );
+}
+
+/**
+ * Create a subscription, or replace the event list of an existing one
+ */
+export async function upsertSubscription(
+  userId: string,
+  targetType: NotificationSubscription['target_type'],
+  targetId: string,
+  events: GameEventType[]
+): Promise<NotificationSubscription> {
+  const rows = await query<NotificationSubscription>(
+    `INSERT INTO notification_subscriptions (user_id, target_type, target_id, events)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (user_id, target_type, target_id) DO UPDATE
+     SET events = EXCLUDED.events
+     RETURNING *`,
+    [userId, targetType, targetId, events]
+  );
+  return rows[0];
+}
+
+export async function deleteSubscription(userId: string, subscriptionId: string): Promise<boolean> {
+  const rows = await query(
+    `DELETE FROM notification_subscriptions WHERE id = $1 AND user_id = $2 RETURNING id`,
+    [subscriptionId, userId]
+  );
+  return rows.length > 0;
+}
+
+/**
+ * Device tokens of every user subscribed to an event for a game, either
+ * directly or through one of its teams. Each device appears once.
+ */
+export async function getDeviceTokensForGameEvent(
+  gameId: string,
+  teamIds: string[],
+  event: GameEventType
+): Promise<DeviceToken[]> {
+  return await query<DeviceToken>(
+    `SELECT DISTINCT d.*
+     FROM notification_subscriptions s
+     JOIN device_tokens d ON d.user_id = s.user_id
+     WHERE $3 = ANY(s.events)
+       AND ((s.target_type = 'game' AND s.target_id = $1)
+         OR (s.target_type = 'team' AND s.target_id = ANY($2)))`,
+    [gameId, teamIds, event]
+  );
+}
+
+/**
+ * Whether anyone is subscribed to a league's teams or games, so the event
+ * detector can skip leagues nobody follows
+ */
+export async function hasSubscriptionsForLeague(league: string): Promise<boolean> {
+  const rows = await query<{ exists: boolean }>(
+    `SELECT EXISTS (
+       SELECT 1 FROM notification_subscriptions WHERE target_id LIKE $1
+     ) AS exists`,
+    [`${league}\\_%`]
+  );
+  return rows[0]?.exists ?? false;
+}
@@ -65,6 +65,11 @@ export interface NBASeasonSummary {
   ppg?: number;
   rpg?: number;
   apg?: number;
+  ts_pct?: number;
+  efg_pct?: number;
+  usage_pct?: number;
+  ast_to_ratio?: number;
+  game_score_avg?: number;
 }
 
 export interface NBAGameLog {
@@ -320,7 +325,9 @@ export async function upsertNBAGameLog(log: NBAGameLog): Promise<void> {
 }
 
 /**
- * Recompute and upsert season summary for a player
+ * Recompute and upsert season summary for a player.
+ * Advanced metrics follow utils/advancedStats; usage compares the player's
+ * possessions used to their team's in the games they played.
  */
 export async function recomputeSeasonSummary(
   playerId: string,
@@ -329,11 +336,21 @@ export async function recomputeSeasonSummary(
   // Aggregate from game logs
   await query(
     `
+    WITH team_games AS (
+      SELECT game_id, team_id,
+             SUM(minutes) AS tm_minutes,
+             SUM(fga) + 0.44 * SUM(fta) + SUM(tov) AS tm_used
+      FROM nba_player_game_logs
+      WHERE game_id IN (SELECT game_id FROM nba_player_game_logs WHERE player_id = $1 AND season = $2)
+        AND dnp_reason IS NULL
+      GROUP BY game_id, team_id
+    )
     INSERT INTO nba_player_season_summary (
       player_id, season, team_id, games_played, games_started,
       minutes_total, points_total, fgm, fga, fg3m, fg3a, ftm, fta,
       oreb, dreb, reb, ast, stl, blk, tov, pf,
-      fg_pct, fg3_pct, ft_pct, ppg, rpg, apg
+      fg_pct, fg3_pct, ft_pct, ppg, rpg, apg,
+      ts_pct, efg_pct, usage_pct, ast_to_ratio, game_score_avg
     )
     SELECT
       player_id,
@@ -362,8 +379,17 @@ export async function recomputeSeasonSummary(
       CASE WHEN SUM(fta) > 0 THEN SUM(ftm)::numeric / SUM(fta) ELSE NULL END as ft_pct,
       CASE WHEN COUNT(*) > 0 THEN SUM(points)::numeric / COUNT(*) ELSE 0 END as ppg,
       CASE WHEN COUNT(*) > 0 THEN SUM(reb)::numeric / COUNT(*) ELSE 0 END as rpg,
-      CASE WHEN COUNT(*) > 0 THEN SUM(ast)::numeric / COUNT(*) ELSE 0 END as apg
-    FROM nba_player_game_logs
+      CASE WHEN COUNT(*) > 0 THEN SUM(ast)::numeric / COUNT(*) ELSE 0 END as apg,
+      CASE WHEN SUM(fga) + SUM(fta) > 0
+        THEN SUM(points)::numeric / (2 * (SUM(fga) + 0.44 * SUM(fta))) ELSE NULL END as ts_pct,
+      CASE WHEN SUM(fga) > 0 THEN (SUM(fgm) + 0.5 * SUM(fg3m))::numeric / SUM(fga) ELSE NULL END as efg_pct,
+      SUM(fga + 0.44 * fta + tov) * SUM(t.tm_minutes) / 5
+        / NULLIF(SUM(minutes) * SUM(t.tm_used), 0) as usage_pct,
+      CASE WHEN SUM(tov) > 0 THEN SUM(ast)::numeric / SUM(tov) ELSE SUM(ast) END as ast_to_ratio,
+      AVG(points + 0.4 * fgm - 0.7 * fga - 0.4 * (fta - ftm) + 0.7 * oreb + 0.3 * dreb
+          + stl + 0.7 * ast + 0.7 * blk - 0.4 * pf - tov) as game_score_avg
+    FROM nba_player_game_logs g
+    LEFT JOIN team_games t ON t.game_id = g.game_id AND t.team_id = g.team_id
     WHERE player_id = $1 AND season = $2
       AND dnp_reason IS NULL  -- Exclude DNP games
     GROUP BY player_id, season
@@ -393,6 +419,11 @@ export async function recomputeSeasonSummary(
       ppg = EXCLUDED.ppg,
       rpg = EXCLUDED.rpg,
       apg = EXCLUDED.apg,
+      ts_pct = EXCLUDED.ts_pct,
+      efg_pct = EXCLUDED.efg_pct,
+      usage_pct = EXCLUDED.usage_pct,
+      ast_to_ratio = EXCLUDED.ast_to_ratio,
+      game_score_avg = EXCLUDED.game_score_avg,
       updated_at = NOW()
     `,
     [playerId, season]
@@ -667,6 +698,65 @@ export async function getNBASplits(
   return splits;
 }
 
+/**
+ * One game log line with the context splits group by
+ */
+export interface NBASplitGameLine {
+  game_date: Date | string;
+  is_home: boolean | null;
+  is_starter: boolean | null;
+  opponent_team_id: string | null;
+  opponent_abbreviation: string | null;
+  won: boolean | null;          // null when the game has no final score
+  rest_days: number | null;     // Days off since the previous game log; null for the first
+  dnp_reason: string | null;
+  minutes: number | null;
+  points: number;
+  fgm: number;
+  fga: number;
+  fg3m: number;
+  fg3a: number;
+  ftm: number;
+  fta: number;
+  reb: number;
+  ast: number;
+  stl: number;
+  blk: number;
+  tov: number;
+  plus_minus: number | null;
+}
+
+/**
+ * Get a season's game log lines with result and rest context for splits.
+ * Rest days are measured across every log line (DNPs included) so a
+ * player returning from a scratch isn't credited with the extra rest.
+ */
+export async function getNBASplitGameLines(
+  playerId: string,
+  season: number
+): Promise<NBASplitGameLine[]> {
+  return await query<NBASplitGameLine>(
+    `SELECT
+       gl.game_date, gl.is_home, gl.is_starter, gl.opponent_team_id,
+       t.abbreviation AS opponent_abbreviation,
+       CASE
+         WHEN g.status <> 'final' OR g.home_score IS NULL OR g.away_score IS NULL THEN NULL
+         WHEN gl.is_home THEN g.home_score > g.away_score
+         ELSE g.away_score > g.home_score
+       END AS won,
+       (gl.game_date - LAG(gl.game_date) OVER (ORDER BY gl.game_date)) - 1 AS rest_days,
+       gl.dnp_reason, gl.minutes, gl.points,
+       gl.fgm, gl.fga, gl.fg3m, gl.fg3a, gl.ftm, gl.fta,
+       gl.reb, gl.ast, gl.stl, gl.blk, gl.tov, gl.plus_minus
+     FROM nba_player_game_logs gl
+     LEFT JOIN games g ON g.id = gl.game_id
+     LEFT JOIN teams t ON t.id = gl.opponent_team_id
+     WHERE gl.player_id = $1 AND gl.season = $2
+     ORDER BY gl.game_date ASC`,
+    [playerId, season]
+  );
+}
+
 export interface HistoricalSeasonRow {
   season: number;
   team_id: string | null;
@@ -894,6 +984,32 @@ export interface NFLGameLog {
   updated_at?: Date;
 }
 
+// Per-game rates (averages, ratings) can't be summed into season totals
+const NFL_RATE_STAT = /(_avg|_pct|_rating|qbr)$/;
+
+/**
+ * Season rates derived from summed counting stats
+ */
+function deriveNFLRateStats(totals: Record<string, number>): Record<string, number> {
+  const rate = (num: number | undefined, den: number | undefined, digits: number) =>
+    num !== undefined && den ? Math.round((num / den) * 10 ** digits) / 10 ** digits : undefined;
+
+  const derived: Record<string, number | undefined> = {
+    completion_pct: rate(totals.completions, totals.attempts, 3),
+    passing_avg: rate(totals.passing_yards, totals.attempts, 1),
+    rushing_avg: rate(totals.rushing_yards, totals.carries, 1),
+    receiving_avg: rate(totals.receiving_yards, totals.receptions, 1),
+    fg_pct: rate(totals.field_goals_made, totals.field_goals_attempted, 3),
+    punt_avg: rate(totals.punt_yards, totals.punts, 1),
+  };
+
+  const result: Record<string, number> = {};
+  for (const [key, value] of Object.entries(derived)) {
+    if (value !== undefined) result[key] = value;
+  }
+  return result;
+}
+
 /**
  * Upsert NFL game log entry
  */
@@ -932,8 +1048,8 @@ export async function recomputeNFLSeasonSummary(
   season: number
 ): Promise<void> {
   // Get all game logs for this player/season
-  const gameLogs = await query<{ position_category: string; stats_json: any }>(
-    `SELECT position_category, stats_json
+  const gameLogs = await query<{ position_category: string; is_starter: boolean | null; stats_json: Record<string, unknown> | string }>(
+    `SELECT position_category, is_starter, stats_json
      FROM nfl_player_game_logs
      WHERE player_id = $1 AND season = $2 AND dnp_reason IS NULL`,
     [playerId, season]
@@ -951,16 +1067,20 @@ export async function recomputeNFLSeasonSummary(
   const positionCategory = Object.entries(positionCounts)
     .sort((a, b) => b[1] - a[1])[0]?.[0] || 'UNKNOWN';
 
-  // Aggregate stats based on position
+  // Aggregate stats: sum counting stats, keep the best long gain
   const aggregatedStats: Record<string, number> = {};
   for (const log of gameLogs) {
-    const stats = typeof log.stats_json === 'string' ? JSON.parse(log.stats_json) : log.stats_json;
+    const stats: Record<string, unknown> = typeof log.stats_json === 'string' ? JSON.parse(log.stats_json) : log.stats_json;
     for (const [key, value] of Object.entries(stats)) {
-      if (typeof value === 'number') {
+      if (typeof value !== 'number') continue;
+      if (key.endsWith('_long')) {
+        aggregatedStats[key] = Math.max(aggregatedStats[key] ?? value, value);
+      } else if (!NFL_RATE_STAT.test(key)) {
         aggregatedStats[key] = (aggregatedStats[key] || 0) + value;
       }
     }
   }
+  Object.assign(aggregatedStats, deriveNFLRateStats(aggregatedStats));
 
   await query(
     `
@@ -978,7 +1098,7 @@ export async function recomputeNFLSeasonSummary(
     `,
     [
       playerId, season, gameLogs.length,
-      gameLogs.filter(g => (typeof g.stats_json === 'object' ? g.stats_json : JSON.parse(g.stats_json)).is_starter).length,
+      gameLogs.filter(g => g.is_starter).length,
       positionCategory, JSON.stringify(aggregatedStats)
     ]
   );
@@ -1040,7 +1160,14 @@ export async function getPlayerPositionCategory(playerId: string): Promise<strin
   const player = await getPlayerById(playerId);
   if (!player?.position) return null;
 
-  const position = player.position.toUpperCase();
+  return toNFLPositionCategory(player.position);
+}
+
+/**
+ * Map a detailed NFL position (e.g. "OLB", "FS") to its position category
+ */
+export function toNFLPositionCategory(rawPosition: string): string {
+  const position = rawPosition.toUpperCase();
 
   // Map detailed positions to categories
   if (['QB'].includes(position)) return 'QB';
@@ -1054,3 +1181,309 @@ export async function getPlayerPositionCategory(playerId: string): Promise<strin
 
   return position;
 }
+
+// =====================
+// NHL Stats Operations
+// =====================
+
+export interface NHLGameLog {
+  player_id: string;
+  game_id: string;
+  season: number;
+  game_date: Date;
+  team_id?: string;
+  opponent_team_id?: string;
+  is_home?: boolean;
+  is_starter?: boolean;
+  player_type: 'skater' | 'goalie';
+  position?: string;
+  toi_seconds: number;
+  // Skater stats
+  goals?: number;
+  assists?: number;
+  points?: number;
+  plus_minus?: number;
+  pim?: number;
+  shots?: number;
+  hits?: number;
+  blocked_shots?: number;
+  faceoff_wins?: number;
+  faceoff_losses?: number;
+  pp_goals?: number;
+  sh_goals?: number;
+  pp_assists?: number;
+  sh_assists?: number;
+  shifts?: number;
+  // Goalie stats
+  saves?: number;
+  shots_against?: number;
+  goals_against?: number;
+  ev_saves?: number;
+  pp_saves?: number;
+  sh_saves?: number;
+  ev_shots_against?: number;
+  pp_shots_against?: number;
+  sh_shots_against?: number;
+  decision?: string;
+  dnp_reason?: string;
+  updated_at?: Date;
+}
+
+export interface NHLSkaterSeasonSummary {
+  player_id: string;
+  season: number;
+  team_id?: string;
+  games_played: number;
+  goals: number;
+  assists: number;
+  points: number;
+  plus_minus: number;
+  pim: number;
+  shots: number;
+  hits: number;
+  blocked_shots: number;
+  faceoff_wins: number;
+  faceoff_losses: number;
+  pp_goals: number;
+  sh_goals: number;
+  pp_assists: number;
+  sh_assists: number;
+  toi_seconds_total: number;
+  shooting_pct: number | null;
+  faceoff_pct: number | null;
+  points_per_game: number | null;
+  toi_per_game_seconds: number | null;
+  updated_at?: Date;
+}
+
+export interface NHLGoalieSeasonSummary {
+  player_id: string;
+  season: number;
+  team_id?: string;
+  games_played: number;
+  games_started: number;
+  wins: number;
+  losses: number;
+  ot_losses: number;
+  shutouts: number;
+  saves: number;
+  shots_against: number;
+  goals_against: number;
+  toi_seconds_total: number;
+  save_pct: number | null;
+  gaa: number | null;
+  updated_at?: Date;
+}
+
+const NHL_GAME_LOG_COLUMNS = [
+  'player_id', 'game_id', 'season', 'game_date', 'team_id', 'opponent_team_id',
+  'is_home', 'is_starter', 'player_type', 'position', 'toi_seconds',
+  'goals', 'assists', 'points', 'plus_minus', 'pim', 'shots', 'hits', 'blocked_shots',
+  'faceoff_wins', 'faceoff_losses', 'pp_goals', 'sh_goals', 'pp_assists', 'sh_assists', 'shifts',
+  'saves', 'shots_against', 'goals_against', 'ev_saves', 'pp_saves', 'sh_saves',
+  'ev_shots_against', 'pp_shots_against', 'sh_shots_against', 'decision', 'dnp_reason',
+] as const;
+
+/**
+ * Upsert NHL game log entry
+ */
+export async function upsertNHLGameLog(log: NHLGameLog): Promise<void> {
+  const updates = NHL_GAME_LOG_COLUMNS
+    .filter(col => col !== 'player_id' && col !== 'game_id')
+    .map(col => `${col} = EXCLUDED.${col}`)
+    .join(',\n      ');
+
+  await query(
+    `
+    INSERT INTO nhl_player_game_logs (${NHL_GAME_LOG_COLUMNS.join(', ')})
+    VALUES (${NHL_GAME_LOG_COLUMNS.map((_, i) => `$${i + 1}`).join(', ')})
+    ON CONFLICT (player_id, game_id) DO UPDATE
+    SET
+      ${updates},
+      updated_at = NOW()
+    `,
+    NHL_GAME_LOG_COLUMNS.map(col => log[col] ?? null)
+  );
+}
+
+/**
+ * Recompute and upsert NHL season summaries for a player.
+ * Skater and goalie lines aggregate into their own tables; a player with
+ * only one kind of line gets only that summary.
+ */
+export async function recomputeNHLSeasonSummary(
+  playerId: string,
+  season: number
+): Promise<void> {
+  await query(
+    `
+    INSERT INTO nhl_skater_season_summary (
+      player_id, season, team_id, games_played,
+      goals, assists, points, plus_minus, pim, shots, hits, blocked_shots,
+      faceoff_wins, faceoff_losses, pp_goals, sh_goals, pp_assists, sh_assists,
+      toi_seconds_total, shooting_pct, faceoff_pct, points_per_game, toi_per_game_seconds
+    )
+    SELECT
+      player_id,
+      season,
+      'TOTAL' as team_id,
+      COUNT(*) as games_played,
+      SUM(goals), SUM(assists), SUM(points), SUM(plus_minus), SUM(pim),
+      SUM(shots), SUM(hits), SUM(blocked_shots),
+      SUM(faceoff_wins), SUM(faceoff_losses),
+      SUM(pp_goals), SUM(sh_goals), SUM(pp_assists), SUM(sh_assists),
+      SUM(toi_seconds) as toi_seconds_total,
+      CASE WHEN SUM(shots) > 0 THEN SUM(goals)::numeric / SUM(shots) ELSE NULL END as shooting_pct,
+      CASE WHEN SUM(faceoff_wins + faceoff_losses) > 0
+        THEN SUM(faceoff_wins)::numeric / SUM(faceoff_wins + faceoff_losses) ELSE NULL END as faceoff_pct,
+      SUM(points)::numeric / COUNT(*) as points_per_game,
+      ROUND(SUM(toi_seconds)::numeric / COUNT(*)) as toi_per_game_seconds
+    FROM nhl_player_game_logs
+    WHERE player_id = $1 AND season = $2 AND player_type = 'skater'
+      AND dnp_reason IS NULL
+    GROUP BY player_id, season
+    ON CONFLICT (player_id, season, team_id) DO UPDATE
+    SET
+      games_played = EXCLUDED.games_played,
+      goals = EXCLUDED.goals,
+      assists = EXCLUDED.assists,
+      points = EXCLUDED.points,
+      plus_minus = EXCLUDED.plus_minus,
+      pim = EXCLUDED.pim,
+      shots = EXCLUDED.shots,
+      hits = EXCLUDED.hits,
+      blocked_shots = EXCLUDED.blocked_shots,
+      faceoff_wins = EXCLUDED.faceoff_wins,
+      faceoff_losses = EXCLUDED.faceoff_losses,
+      pp_goals = EXCLUDED.pp_goals,
+      sh_goals = EXCLUDED.sh_goals,
+      pp_assists = EXCLUDED.pp_assists,
+      sh_assists = EXCLUDED.sh_assists,
+      toi_seconds_total = EXCLUDED.toi_seconds_total,
+      shooting_pct = EXCLUDED.shooting_pct,
+      faceoff_pct = EXCLUDED.faceoff_pct,
+      points_per_game = EXCLUDED.points_per_game,
+      toi_per_game_seconds = EXCLUDED.toi_per_game_seconds,
+      updated_at = NOW()
+    `,
+    [playerId, season]
+  );
+
+  await query(
+    `
+    INSERT INTO nhl_goalie_season_summary (
+      player_id, season, team_id, games_played, games_started,
+      wins, losses, ot_losses, shutouts, saves, shots_against, goals_against,
+      toi_seconds_total, save_pct, gaa
+    )
+    SELECT
+      player_id,
+      season,
+      'TOTAL' as team_id,
+      COUNT(*) as games_played,
+      SUM(CASE WHEN is_starter THEN 1 ELSE 0 END) as games_started,
+      SUM(CASE WHEN decision = 'W' THEN 1 ELSE 0 END) as wins,
+      SUM(CASE WHEN decision = 'L' THEN 1 ELSE 0 END) as losses,
+      SUM(CASE WHEN decision = 'OTL' THEN 1 ELSE 0 END) as ot_losses,
+      SUM(CASE WHEN decision = 'W' AND goals_against = 0 THEN 1 ELSE 0 END) as shutouts,
+      SUM(saves), SUM(shots_against), SUM(goals_against),
+      SUM(toi_seconds) as toi_seconds_total,
+      CASE WHEN SUM(shots_against) > 0 THEN SUM(saves)::numeric / SUM(shots_against) ELSE NULL END as save_pct,
+      CASE WHEN SUM(toi_seconds) > 0 THEN SUM(goals_against)::numeric * 3600 / SUM(toi_seconds) ELSE NULL END as gaa
+    FROM nhl_player_game_logs
+    WHERE player_id = $1 AND season = $2 AND player_type = 'goalie'
+      AND dnp_reason IS NULL
+    GROUP BY player_id, season
+    ON CONFLICT (player_id, season, team_id) DO UPDATE
+    SET
+      games_played = EXCLUDED.games_played,
+      games_started = EXCLUDED.games_started,
+      wins = EXCLUDED.wins,
+      losses = EXCLUDED.losses,
+      ot_losses = EXCLUDED.ot_losses,
+      shutouts = EXCLUDED.shutouts,
+      saves = EXCLUDED.saves,
+      shots_against = EXCLUDED.shots_against,
+      goals_against = EXCLUDED.goals_against,
+      toi_seconds_total = EXCLUDED.toi_seconds_total,
+      save_pct = EXCLUDED.save_pct,
+      gaa = EXCLUDED.gaa,
+      updated_at = NOW()
+    `,
+    [playerId, season]
+  );
+
+  logger.debug('Recomputed NHL season summary', { playerId, season });
+}
+
+/**
+ * Get NHL skater season summary
+ */
+export async function getNHLSkaterSeasonSummary(
+  playerId: string,
+  season: number
+): Promise<NHLSkaterSeasonSummary | null> {
+  const rows = await query<NHLSkaterSeasonSummary>(
+    `SELECT * FROM nhl_skater_season_summary
+     WHERE player_id = $1 AND season = $2 AND team_id = 'TOTAL'
+     LIMIT 1`,
+    [playerId, season]
+  );
+  return rows[0] || null;
+}
+
+/**
+ * Get NHL goalie season summary
+ */
+export async function getNHLGoalieSeasonSummary(
+  playerId: string,
+  season: number
+): Promise<NHLGoalieSeasonSummary | null> {
+  const rows = await query<NHLGoalieSeasonSummary>(
+    `SELECT * FROM nhl_goalie_season_summary
+     WHERE player_id = $1 AND season = $2 AND team_id = 'TOTAL'
+     LIMIT 1`,
+    [playerId, season]
+  );
+  return rows[0] || null;
+}
+
+/**
+ * Get NHL game logs for a season
+ */
+export async function getNHLGameLogs(
+  playerId: string,
+  season: number,
+  limit: number = 82
+): Promise<NHLGameLog[]> {
+  return await query<NHLGameLog>(
+    `SELECT * FROM nhl_player_game_logs
+     WHERE player_id = $1 AND season = $2
+     ORDER BY game_date DESC
+     LIMIT $3`,
+    [playerId, season, limit]
+  );
+}
+
+/**
+ * Get NHL career summaries (skater and goalie seasons)
+ */
+export async function getNHLCareerSummaries(
+  playerId: string
+): Promise<{ skater: NHLSkaterSeasonSummary[]; goalie: NHLGoalieSeasonSummary[] }> {
+  const [skater, goalie] = await Promise.all([
+    query<NHLSkaterSeasonSummary>(
+      `SELECT * FROM nhl_skater_career_summary
+       WHERE player_id = $1 AND team_id = 'TOTAL'
+       ORDER BY season DESC`,
+      [playerId]
+    ),
+    query<NHLGoalieSeasonSummary>(
+      `SELECT * FROM nhl_goalie_career_summary
+       WHERE player_id = $1 AND team_id = 'TOTAL'
+       ORDER BY season DESC`,
+      [playerId]
+    ),
+  ]);
+  return { skater, goalie };
+}
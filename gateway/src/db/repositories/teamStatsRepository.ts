@@ -0,0 +1,107 @@
+/**
+ * Team stats repository
+ * Team-level aggregates derived from the player game log tables
+ */
+
+import { query } from '../pool';
+
+// =====================
+// Types
+// =====================
+
+export interface TeamBoxAverages {
+  gamesLogged: number;
+  /** Per-game team totals (sum of the team's player lines), plus shooting percentages */
+  stats: Record<string, number>;
+}
+
+// Rate stats can't be summed across players
+const NON_ADDITIVE_NFL_STAT = /(pct|avg|average|long|rating|qbr)$/i;
+
+// =====================
+// Read Operations
+// =====================
+
+/**
+ * NBA per-game team averages for a season, from games before `beforeDate`
+ */
+export async function getNBATeamAverages(
+  teamId: string,
+  season: number,
+  beforeDate: string
+): Promise<TeamBoxAverages | null> {
+  const rows = await query<Record<string, string | number | null>>(
+    `SELECT
+       COUNT(*)::int AS games,
+       ROUND(AVG(points), 1) AS points,
+       ROUND(AVG(reb), 1) AS reb,
+       ROUND(AVG(oreb), 1) AS oreb,
+       ROUND(AVG(ast), 1) AS ast,
+       ROUND(AVG(stl), 1) AS stl,
+       ROUND(AVG(blk), 1) AS blk,
+       ROUND(AVG(tov), 1) AS tov,
+       ROUND(SUM(fgm)::numeric / NULLIF(SUM(fga), 0), 3) AS fg_pct,
+       ROUND(SUM(fg3m)::numeric / NULLIF(SUM(fg3a), 0), 3) AS fg3_pct,
+       ROUND(SUM(ftm)::numeric / NULLIF(SUM(fta), 0), 3) AS ft_pct
+     FROM (
+       SELECT game_id,
+         SUM(points) AS points, SUM(reb) AS reb, SUM(oreb) AS oreb, SUM(ast) AS ast,
+         SUM(stl) AS stl, SUM(blk) AS blk, SUM(tov) AS tov,
+         SUM(fgm) AS fgm, SUM(fga) AS fga, SUM(fg3m) AS fg3m, SUM(fg3a) AS fg3a,
+         SUM(ftm) AS ftm, SUM(fta) AS fta
+       FROM nba_player_game_logs
+       WHERE team_id = $1 AND season = $2 AND game_date < $3
+       GROUP BY game_id
+     ) per_game`,
+    [teamId, season, beforeDate]
+  );
+
+  const { games, ...averages } = rows[0] ?? {};
+  if (!games) return null;
+
+  const stats: Record<string, number> = {};
+  for (const [key, value] of Object.entries(averages)) {
+    if (value !== null && value !== undefined) {
+      stats[key] = Number(value);
+    }
+  }
+  return { gamesLogged: Number(games), stats };
+}
+
+/**
+ * NFL per-game team averages for a season, from games before `beforeDate`.
+ * Sums each counting stat in stats_json across the team's players.
+ */
+export async function getNFLTeamAverages(
+  teamId: string,
+  season: number,
+  beforeDate: string
+): Promise<TeamBoxAverages | null> {
+  const rows = await query<{ games: number; key: string | null; total: string | null }>(
+    `WITH team_logs AS (
+       SELECT game_id, stats_json
+       FROM nfl_player_game_logs
+       WHERE team_id = $1 AND season = $2 AND game_date < $3 AND dnp_reason IS NULL
+     )
+     SELECT
+       (SELECT COUNT(DISTINCT game_id) FROM team_logs)::int AS games,
+       stat.key,
+       SUM((stat.value #>> '{}')::numeric) AS total
+     FROM team_logs
+     CROSS JOIN LATERAL jsonb_each(team_logs.stats_json) AS stat
+     WHERE jsonb_typeof(stat.value) = 'number'
+     GROUP BY stat.key`,
+    [teamId, season, beforeDate]
+  );
+
+  const games = rows[0]?.games ?? 0;
+  if (!games) return null;
+
+  const stats: Record<string, number> = {};
+  for (const row of rows) {
+    if (row.key && row.total !== null && !NON_ADDITIVE_NFL_STAT.test(row.key)) {
+      stats[row.key] = Math.round((Number(row.total) / games) * 10) / 10;
+    }
+  }
+  return { gamesLogged: games, stats };
+}
@@ -0,0 +1,178 @@
+/**
+ * Webhook repository
+ * Admin-managed webhook subscriptions and the delivery dead-letter log
+ */
+
+import { query } from '../pool';
+import type { WebhookEvent } from '../../webhooks/webhookEvents';
+
+// =====================
+// Types
+// =====================
+
+export const WEBHOOK_EVENT_TYPES = ['game.status', 'game.score'] as const;
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  secret: string;
+  description: string | null;
+  league: string | null;
+  team_id: string | null;
+  game_id: string | null;
+  events: WebhookEventType[];
+  active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface WebhookSubscriptionInput {
+  url: string;
+  secret: string;
+  description?: string | null;
+  league?: string | null;
+  team_id?: string | null;
+  game_id?: string | null;
+  events: WebhookEventType[];
+  active?: boolean;
+}
+
+export interface WebhookDeadLetter {
+  id: string;
+  subscription_id: string;
+  event_id: string;
+  event_type: WebhookEventType;
+  payload: WebhookEvent;
+  attempts: number;
+  last_status: number | null;
+  last_error: string | null;
+  created_at: Date;
+  replayed_at: Date | null;
+}
+
+const UPDATABLE_COLUMNS = ['url', 'secret', 'description', 'league', 'team_id', 'game_id', 'events', 'active'] as const;
+
+// =====================
+// Subscriptions
+// =====================
+
+export async function getWebhookSubscriptions(activeOnly = false): Promise<WebhookSubscription[]> {
+  return await query<WebhookSubscription>(
+    `SELECT * FROM webhook_subscriptions
+     ${activeOnly ? 'WHERE active = true' : ''}
+     ORDER BY created_at`
+  );
+}
+
+export async function getWebhookSubscription(id: string): Promise<WebhookSubscription | null> {
+  const rows = await query<WebhookSubscription>(`SELECT * FROM webhook_subscriptions WHERE id = $1`, [id]);
+  return rows[0] || null;
+}
+
+export async function createWebhookSubscription(input: WebhookSubscriptionInput): Promise<WebhookSubscription> {
+  const rows = await query<WebhookSubscription>(
+    `INSERT INTO webhook_subscriptions (url, secret, description, league, team_id, game_id, events, active)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     RETURNING *`,
+    [
+      input.url, input.secret, input.description ?? null, input.league ?? null,
+      input.team_id ?? null, input.game_id ?? null, input.events, input.active ?? true,
+    ]
+  );
+  return rows[0];
+}
+
+/**
+ * Update the given fields; returns null when the subscription does not exist
+ */
+export async function updateWebhookSubscription(
+  id: string,
+  changes: Partial<WebhookSubscriptionInput>
+): Promise<WebhookSubscription | null> {
+  const values: unknown[] = [id];
+  const sets: string[] = [];
+  for (const column of UPDATABLE_COLUMNS) {
+    if (changes[column] !== undefined) {
+      values.push(changes[column]);
+      sets.push(`${column} = $${values.length}`);
+    }
+  }
+  if (sets.length === 0) return getWebhookSubscription(id);
+
+  const rows = await query<WebhookSubscription>(
+    `UPDATE webhook_subscriptions SET ${sets.join(', ')}, updated_at = NOW()
+     WHERE id = $1
+     RETURNING *`,
+    values
+  );
+  return rows[0] || null;
+}
+
+export async function deleteWebhookSubscription(id: string): Promise<boolean> {
+  const rows = await query(`DELETE FROM webhook_subscriptions WHERE id = $1 RETURNING id`, [id]);
+  return rows.length > 0;
+}
+
+// =====================
+// Dead Letters
+// =====================
+
+/**
+ * Record a failed delivery; returns false (and stores nothing) when the
+ * subscription was deleted while the delivery was retrying
+ */
+export async function insertWebhookDeadLetter(
+  letter: Omit<WebhookDeadLetter, 'id' | 'created_at' | 'replayed_at'>
+): Promise<boolean> {
+  const rows = await query(
+    `INSERT INTO webhook_dead_letters
+       (subscription_id, event_id, event_type, payload, attempts, last_status, last_error)
+     SELECT $1, $2, $3, $4, $5, $6, $7
+     WHERE EXISTS (SELECT 1 FROM webhook_subscriptions WHERE id = $1)
+     RETURNING id`,
+    [
+      letter.subscription_id, letter.event_id, letter.event_type, JSON.stringify(letter.payload),
+      letter.attempts, letter.last_status, letter.last_error,
+    ]
+  );
+  return rows.length > 0;
+}
+
+/**
+ * Dead letters newest first, optionally for one subscription and/or only
+ * those not yet replayed
+ */
+export async function getWebhookDeadLetters(params: {
+  subscriptionId?: string;
+  pendingOnly?: boolean;
+  limit: number;
+}): Promise<WebhookDeadLetter[]> {
+  const values: unknown[] = [];
+  const filters: string[] = [];
+  if (params.subscriptionId) {
+    values.push(params.subscriptionId);
+    filters.push(`subscription_id = $${values.length}`);
+  }
+  if (params.pendingOnly) {
+    filters.push('replayed_at IS NULL');
+  }
+  values.push(params.limit);
+
+  return await query<WebhookDeadLetter>(
+    `SELECT * FROM webhook_dead_letters
+     ${filters.length > 0 ? `WHERE ${filters.join(' AND ')}` : ''}
+     ORDER BY created_at DESC
+     LIMIT $${values.length}`,
+    values
+  );
+}
+
+export async function getWebhookDeadLetter(id: string): Promise<WebhookDeadLetter | null> {
+  const rows = await query<WebhookDeadLetter>(`SELECT * FROM webhook_dead_letters WHERE id = $1`, [id]);
+  return rows[0] || null;
+}
+
+export async function markWebhookDeadLetterReplayed(id: string): Promise<void> {
+  await query(`UPDATE webhook_dead_letters SET replayed_at = NOW() WHERE id = $1`, [id]);
+}
@@ -116,6 +116,8 @@ CREATE TABLE IF NOT EXISTS games (
     away_team_id VARCHAR(100) REFERENCES teams(id),
     home_score INTEGER,
     away_score INTEGER,
+    home_linescore JSONB,                  -- Score per period incl. overtime, e.g. [28, 31, 25, 30, 8]
+    away_linescore JSONB,
     status VARCHAR(50),                     -- 'scheduled', 'live', 'final'
     period VARCHAR(20),
     clock VARCHAR(20),
@@ -131,6 +133,8 @@ CREATE INDEX IF NOT EXISTS idx_games_scoreboard_date ON games(scoreboard_date);
 CREATE INDEX IF NOT EXISTS idx_games_league_date ON games(league_id, game_date);
 CREATE INDEX IF NOT EXISTS idx_games_league_scoreboard_date ON games(league_id, scoreboard_date);
 CREATE INDEX IF NOT EXISTS idx_games_season ON games(season_id);
+CREATE INDEX IF NOT EXISTS idx_games_home_team_season ON games(home_team_id, season_id);
+CREATE INDEX IF NOT EXISTS idx_games_away_team_season ON games(away_team_id, season_id);
 CREATE INDEX IF NOT EXISTS idx_games_status ON games(status);
 
 -- =====================
@@ -433,3 +437,22 @@ ON CONFLICT (id) DO UPDATE SET
     postseason_end = EXCLUDED.postseason_end,
     status = EXCLUDED.status,
     metadata = EXCLUDED.metadata;
+
+-- NHL, NCAAW, WNBA, MLB seasons (later seasons are discovered by the season calendar job)
+INSERT INTO league_seasons (
+    id,
+    league_id,
+    season_label,
+    start_date,
+    end_date,
+    preseason_start,
+    postseason_end,
+    status,
+    schedule_source
+)
+VALUES
+    ('nhl_2025-26',   'nhl',   '2025-26', '2025-10-07', '2026-04-17', '2025-09-21', '2026-06-20', 'regular', 'espn'),
+    ('ncaaw_2025-26', 'ncaaw', '2025-26', '2025-11-03', '2026-03-15', '2025-11-03', '2026-04-05', 'regular', 'espn'),
+    ('wnba_2026',     'wnba',  '2026',    '2026-05-08', '2026-09-13', '2026-04-25', '2026-10-20', 'regular', 'espn'),
+    ('mlb_2026',      'mlb',   '2026',    '2026-03-26', '2026-09-27', '2026-02-20', '2026-11-07', 'regular', 'espn')
+ON CONFLICT (id) DO NOTHING;
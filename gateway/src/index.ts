@@ -8,12 +8,14 @@ import { logger } from './utils/logger';
 import { errorHandler } from './middleware/errorHandler';
 import { requestLogger } from './middleware/requestLogger';
 import { cacheMiddleware } from './middleware/cacheMiddleware';
+import { apiKeyAuth } from './middleware/apiKeyAuth';
 
 // Routes
 import { healthRouter } from './routes/health';
 import { scoreboardRouter } from './routes/scoreboard';
 import { gamesRouter } from './routes/games';
 import { standingsRouter } from './routes/standings';
+import { leadersRouter } from './routes/leaders';
 import { teamsRouter } from './routes/teams';
 import { leaguesRouter } from './routes/leagues';
 import { adminRouter } from './routes/admin';
@@ -21,13 +23,18 @@ import playerRouter from './routes/playerRoutes';
 import { golfRouter } from './routes/golf';
 import { teamColorsRouter } from './routes/teamColors';
 import authRouter from './routes/auth';
+import { meRouter } from './routes/me';
 
 // Initialize Redis
 import { initializeRedis, isRedisAvailable } from './cache/redis';
 
 // Schedulers
 import { scheduleScheduleSync } from './jobs/scheduleSync';
+import { scheduleSeasonCalendar } from './jobs/seasonCalendar';
 import { schedulePlayerIngestion } from './jobs/schedulePlayerIngestion';
+import { scheduleGameNotifications } from './jobs/gameNotifications';
+import { scheduleWebhookDelivery } from './jobs/webhookDelivery';
+import { scheduleApiKeyUsageFlush, flushApiKeyUsage } from './jobs/apiKeyUsage';
 
 const app = express();
 
@@ -36,22 +43,29 @@ app.use(helmet());
 app.use(cors({
   origin: config.corsOrigins,
   methods: ['GET', 'PATCH'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Client-Version', 'X-Device-ID'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Client-Version', 'X-Device-ID', 'X-API-Key'],
 }));
 
 // Compression
 app.use(compression());
 
-// Rate limiting
+// Rate limiting (per IP). Runs before API key lookup so requests with invalid
+// keys are limited too; requests whose key verified are uncounted once they
+// finish, as per-key limits apply to them instead.
 const limiter = rateLimit({
   windowMs: config.rateLimitWindowMs,
   max: config.rateLimitMaxRequests,
   message: { error: 'Too many requests', message: 'Please try again later' },
   standardHeaders: true,
   legacyHeaders: false,
+  skipSuccessfulRequests: true,
+  requestWasSuccessful: (req) => req.apiKey !== undefined,
 });
 app.use('/v1', limiter);
 
+// API keys: third-party callers get per-key limits, quotas and league scopes
+app.use('/v1', apiKeyAuth);
+
 // Body parsing
 app.use(express.json());
 
@@ -67,12 +81,14 @@ app.use('/v1/leagues', leaguesRouter);
 app.use('/v1/scoreboard', scoreboardRouter);
 app.use('/v1/games', gamesRouter);
 app.use('/v1/standings', standingsRouter);
+app.use('/v1/leaders', leadersRouter);
 app.use('/v1/teams', teamsRouter);
 app.use('/v1/players', playerRouter);
 app.use('/v1/golf', golfRouter);
 app.use('/v1/team-colors', teamColorsRouter);
 app.use('/v1/admin', adminRouter);
 app.use('/v1/auth', authRouter);
+app.use('/v1/me', meRouter);
 
 // Error handling
 app.use(errorHandler);
@@ -91,25 +107,41 @@ async function startServer() {
     // Graceful shutdown
     process.on('SIGTERM', async () => {
       logger.info('SIGTERM received, shutting down...');
+      await flushApiKeyUsage();
       process.exit(0);
     });
 
     process.on('SIGINT', async () => {
       logger.info('SIGINT received, shutting down...');
+      await flushApiKeyUsage();
       process.exit(0);
     });
 
     app.listen(config.port, () => {
       logger.info(`Gateway server running on port ${config.port}`);
       logger.info(`Environment: ${config.nodeEnv}`);
-      logger.info('Data provider: ESPN');
+      logger.info(`Data providers: ${config.providers.default.join(' -> ')}`, {
+        leagueOverrides: config.providers.byLeague,
+      });
 
       // Start scheduled jobs
+      scheduleSeasonCalendar();
+      logger.info('Scheduler: seasonCalendar wired (daily at 03:00 UTC)');
+
       scheduleScheduleSync();
       logger.info('Scheduler: scheduleSync wired (daily at 04:00 UTC)');
 
       schedulePlayerIngestion();
       logger.info('Scheduler: playerIngestion wired (hourly at :30)');
+
+      scheduleGameNotifications();
+      logger.info('Scheduler: gameNotifications wired (every 5 minutes)');
+
+      scheduleWebhookDelivery();
+      logger.info('Scheduler: webhookDelivery wired (every 5 minutes)');
+
+      scheduleApiKeyUsageFlush();
+      logger.info('Scheduler: apiKeyUsage wired (every minute)');
     });
   } catch (error) {
     logger.error('Failed to start server:', error);
@@ -0,0 +1,87 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonScheduleStore, GameRecord, readScheduleFile } from '../scheduleStore';
+
+function game(id: string, overrides: Partial<GameRecord> = {}): GameRecord {
+  return {
+    id,
+    leagueId: 'nba',
+    seasonId: 'nba_2025-26',
+    gameDate: '2026-01-16',
+    scoreboardDate: '2026-01-15',
+    startTimeUtc: '2026-01-16T00:30:00Z',
+    homeTeamId: 'nba_13',
+    awayTeamId: 'nba_2',
+    status: 'final',
+    externalIds: { espn: id.replace('nba_', '') },
+    lastRefreshedAt: new Date('2026-01-16T04:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('JsonScheduleStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'schedule-'));
+    filePath = path.join(dir, 'schedule-store.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('resolves the stored season covering a date', async () => {
+    const store = new JsonScheduleStore(filePath);
+    expect(await store.getAllSeasons()).toEqual([]);
+
+    await store.upsertSeason({
+      id: 'nba_2025-26',
+      leagueId: 'nba',
+      seasonLabel: '2025-26',
+      startDate: '2025-10-21',
+      endDate: '2026-04-12',
+      preseasonStart: '2025-10-02',
+      postseasonEnd: '2026-06-21',
+      status: 'regular',
+      scheduleSource: 'espn',
+    });
+
+    expect((await store.getSeasonForDate('nba', '2026-01-15'))?.id).toBe('nba_2025-26');
+    expect(await store.getSeasonForDate('nba', '2026-08-01')).toBeUndefined();
+  });
+
+  it('reports new games and merges external IDs on update', async () => {
+    const store = new JsonScheduleStore(filePath);
+
+    expect(await store.upsertGame(game('nba_1'))).toBe(true);
+    expect(await store.upsertGame(game('nba_1', { externalIds: { other: 'x1' } }))).toBe(false);
+
+    expect((await store.getGame('nba_1'))?.externalIds).toEqual({ espn: '1', other: 'x1' });
+    expect(await store.getGamesForDate('nba', '2026-01-15')).toHaveLength(1);
+  });
+
+  it('round-trips through the JSON file with dates restored', async () => {
+    const store = new JsonScheduleStore(filePath);
+    await store.upsertGame(game('nba_1'));
+    await store.upsertGameDateEntry({
+      leagueId: 'nba',
+      seasonId: 'nba_2025-26',
+      scoreboardDate: '2026-01-15',
+      gameCount: 1,
+      hasLiveGames: false,
+      allGamesFinal: true,
+      lastRefreshedAt: new Date('2026-01-16T04:00:00Z'),
+    });
+    await store.flush();
+
+    const reloaded = new JsonScheduleStore(filePath);
+    const entry = await reloaded.getGameDateEntry('nba', '2026-01-15');
+
+    expect(entry?.gameCount).toBe(1);
+    expect(entry?.lastRefreshedAt).toBeInstanceOf(Date);
+    expect(readScheduleFile(filePath).games[0].lastRefreshedAt).toBeInstanceOf(Date);
+  });
+});
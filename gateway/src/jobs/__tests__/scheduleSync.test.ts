@@ -0,0 +1,119 @@
+import * as pool from '../../db/pool';
+import { config } from '../../config';
+import { Game } from '../../types';
+import * as scheduleStore from '../scheduleStore';
+import { runDailyScheduleSync, storeScoreboardGames } from '../scheduleSync';
+
+/**
+ * Minimal stand-in for the games/teams/game_dates tables that enforces the
+ * games -> teams foreign keys like Postgres does
+ */
+function fakeDatabase() {
+  const teams = new Set(['nba_13', 'nba_2']);  // migration 006 seeds NBA teams only
+  const games = new Map<string, Record<string, unknown>>();
+  const gameDates: unknown[][] = [];
+  const statements: string[] = [];
+
+  function run(sql: string, params: unknown[] = []): Record<string, unknown>[] {
+    statements.push(sql.trim().split(/\s+/).slice(0, 3).join(' '));
+
+    if (sql.includes('INSERT INTO teams')) {
+      teams.add(params[0] as string);
+      return [];
+    }
+    if (sql.includes('INSERT INTO games')) {
+      for (const teamId of [params[6], params[7]]) {
+        if (!teams.has(teamId as string)) {
+          throw new Error('insert or update on table "games" violates foreign key constraint "games_home_team_id_fkey"');
+        }
+      }
+      const inserted = !games.has(params[0] as string);
+      games.set(params[0] as string, {
+        id: params[0], league_id: params[1], season_id: params[2], game_date: params[3],
+        scoreboard_date: params[4], start_time_utc: params[5], home_team_id: params[6],
+        away_team_id: params[7], status: params[10], external_ids: {}, last_refreshed_at: params[15],
+      });
+      return [{ inserted }];
+    }
+    if (sql.includes('FROM games')) {
+      return [...games.values()].filter(game => game.league_id === params[0] && game.scoreboard_date === params[1]);
+    }
+    if (sql.includes('INSERT INTO game_dates')) {
+      gameDates.push(params);
+    }
+    return [];
+  }
+
+  return { teams, games, gameDates, statements, run };
+}
+
+function nhlGame(): Game {
+  return {
+    id: 'nhl_401802655',
+    startTime: '2026-01-16T00:00:00Z',
+    status: 'final',
+    homeTeam: { id: 'nhl_6', abbrev: 'EDM', name: 'Oilers', city: 'Edmonton', score: 4 },
+    awayTeam: { id: 'nhl_21', abbrev: 'TOR', name: 'Maple Leafs', city: 'Toronto', score: 3 },
+  };
+}
+
+describe('storeScoreboardGames with the Postgres store', () => {
+  const originalBackend = config.scheduleStore;
+  let db: ReturnType<typeof fakeDatabase>;
+
+  beforeAll(() => {
+    config.scheduleStore = 'postgres';
+  });
+
+  afterAll(() => {
+    config.scheduleStore = originalBackend;
+  });
+
+  beforeEach(() => {
+    db = fakeDatabase();
+    jest.spyOn(pool, 'query').mockImplementation(async (sql, params) => db.run(sql, params) as never[]);
+    jest.spyOn(pool, 'getClient').mockImplementation(async () => ({
+      query: async (sql: string, params?: unknown[]) => ({ rows: db.run(sql, params) }),
+      release: () => undefined,
+    }) as never);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('creates a non-NBA date\'s teams before its games', async () => {
+    const result = await storeScoreboardGames('nhl', '2026-01-15', 'nhl_2025-26', [nhlGame()]);
+
+    expect(result).toEqual({ gamesUpserted: 1, errors: [] });
+    expect(db.teams.has('nhl_6')).toBe(true);
+    expect(db.teams.has('nhl_21')).toBe(true);
+    expect(db.statements.indexOf('INSERT INTO teams')).toBeLessThan(db.statements.indexOf('INSERT INTO games'));
+    expect(db.statements).toContain('COMMIT');
+  });
+
+  it('indexes the date with its games', async () => {
+    await storeScoreboardGames('nhl', '2026-01-15', 'nhl_2025-26', [nhlGame()]);
+
+    // league_id, season_id, scoreboard_date, game_count, ...
+    expect(db.gameDates).toHaveLength(1);
+    expect(db.gameDates[0].slice(0, 4)).toEqual(['nhl', 'nhl_2025-26', '2026-01-15', 1]);
+  });
+});
+
+describe('runDailyScheduleSync', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('syncs every league the player ingestion job reads from the games table', async () => {
+    const getSeasonForDate = jest.fn(async () => undefined);
+    jest.spyOn(scheduleStore, 'getScheduleStore').mockReturnValue({ getSeasonForDate } as never);
+
+    const summaries = await runDailyScheduleSync();
+
+    const leagues = getSeasonForDate.mock.calls.map(call => (call as unknown[])[0]);
+    expect(leagues).toEqual(expect.arrayContaining(['nba', 'nfl', 'ncaaf', 'nhl']));
+    expect(summaries).toHaveLength(leagues.length);
+  });
+});
@@ -0,0 +1,122 @@
+import * as providers from '../../providers';
+import { Game } from '../../types';
+import { diffGame, diffScoreboard, getScoreboardPollerStats, ScoreboardStreamEvent, subscribeToScoreboard } from '../scoreboardPoller';
+
+function game(id: string, overrides: Partial<Game> = {}): Game {
+  return {
+    id,
+    startTime: '2026-01-16T00:30:00Z',
+    status: 'live',
+    period: 'Q3',
+    clock: '5:12',
+    homeTeam: { id: 'nba_13', abbrev: 'LAL', name: 'Lakers', city: 'Los Angeles', score: 70 },
+    awayTeam: { id: 'nba_2', abbrev: 'BOS', name: 'Celtics', city: 'Boston', score: 68 },
+    ...overrides,
+  };
+}
+
+function scoreboard(games: Game[]) {
+  return { league: 'nba', date: '2026-01-15', lastUpdated: '2026-01-16T01:30:00Z', games };
+}
+
+describe('diffGame', () => {
+  it('returns null when nothing changed', () => {
+    expect(diffGame(game('nba_1'), game('nba_1'))).toBeNull();
+  });
+
+  it('returns only the changed score and clock fields', () => {
+    const before = game('nba_1');
+    const after = game('nba_1', {
+      clock: '4:40',
+      homeTeam: { ...before.homeTeam, score: 73 },
+    });
+
+    expect(diffGame(before, after)).toEqual({ gameId: 'nba_1', clock: '4:40', homeScore: 73 });
+  });
+
+  it('reports status, period and overtime transitions', () => {
+    const before = game('nba_1', { period: 'Q4', clock: '0.0' });
+    const after = game('nba_1', { status: 'final', period: 'OT', clock: '0.0', overtimePeriods: 1 });
+
+    expect(diffGame(before, after)).toEqual({
+      gameId: 'nba_1',
+      status: 'final',
+      period: 'OT',
+      overtimePeriods: 1,
+    });
+  });
+});
+
+describe('diffScoreboard', () => {
+  it('separates changed games from newly listed ones', () => {
+    const previous = scoreboard([game('nba_1'), game('nba_2')]);
+    const current = scoreboard([
+      game('nba_1', { clock: '5:00' }),
+      game('nba_2'),
+      game('nba_3', { status: 'scheduled' }),
+    ]);
+
+    const { changes, added } = diffScoreboard(previous, current);
+
+    expect(changes).toEqual([{ gameId: 'nba_1', clock: '5:00' }]);
+    expect(added.map(g => g.id)).toEqual(['nba_3']);
+  });
+
+  it('ignores games that dropped off the scoreboard', () => {
+    const { changes, added } = diffScoreboard(scoreboard([game('nba_1'), game('nba_2')]), scoreboard([game('nba_1')]));
+
+    expect(changes).toEqual([]);
+    expect(added).toEqual([]);
+  });
+});
+
+describe('subscribeToScoreboard', () => {
+  let fetchForLeague: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    fetchForLeague = jest.spyOn(providers, 'fetchForLeague');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('sends a snapshot, then only the diffs from later polls', async () => {
+    fetchForLeague
+      .mockResolvedValueOnce({ data: [game('nba_1')], provider: 'espn' })
+      .mockResolvedValueOnce({ data: [game('nba_1', { clock: '3:30' })], provider: 'espn' });
+
+    const events: ScoreboardStreamEvent[] = [];
+    const unsubscribe = subscribeToScoreboard('nba', '2026-01-15', event => events.push(event));
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(events.map(event => event.type)).toEqual(['snapshot']);
+
+    // Live games poll every minute
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+    expect(events[1]).toMatchObject({
+      type: 'update',
+      data: { changes: [{ gameId: 'nba_1', clock: '3:30' }], added: [] },
+    });
+
+    unsubscribe();
+    expect(getScoreboardPollerStats()).toEqual([]);
+  });
+
+  it('shares one poller between subscribers', async () => {
+    fetchForLeague.mockResolvedValue({ data: [game('nba_1')], provider: 'espn' });
+
+    const first = subscribeToScoreboard('nba', '2026-01-16', () => undefined);
+    const second = subscribeToScoreboard('nba', '2026-01-16', () => undefined);
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(fetchForLeague).toHaveBeenCalledTimes(1);
+    expect(getScoreboardPollerStats()).toEqual([{ league: 'nba', date: '2026-01-16', subscribers: 2 }]);
+
+    first();
+    second();
+    expect(getScoreboardPollerStats()).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+import * as scheduleSync from '../scheduleSync';
+import * as scoreboardPoller from '../scoreboardPoller';
+import { Game } from '../../types';
+import { ScoreboardListener } from '../scoreboardPoller';
+import { ScoreboardWatcher } from '../scoreboardWatcher';
+
+function finalGame(id: string): Game {
+  return {
+    id,
+    startTime: '2026-01-16T00:30:00Z',
+    status: 'final',
+    homeTeam: { id: 'nba_13', abbrev: 'LAL', name: 'Lakers', city: 'Los Angeles', score: 110 },
+    awayTeam: { id: 'nba_2', abbrev: 'BOS', name: 'Celtics', city: 'Boston', score: 106 },
+  };
+}
+
+describe('ScoreboardWatcher', () => {
+  let listeners: ScoreboardListener[];
+  let subscribe: jest.SpyInstance;
+  let unsubscribe: jest.Mock;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-01-16T02:00:00Z') });
+    listeners = [];
+    unsubscribe = jest.fn();
+    subscribe = jest.spyOn(scoreboardPoller, 'subscribeToScoreboard').mockImplementation((_league, _date, listener) => {
+      listeners.push(listener);
+      return unsubscribe;
+    });
+    jest.spyOn(scheduleSync, 'dateHasGames').mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('does not restart a slate once all its games are final', async () => {
+    const onStop = jest.fn();
+    const watcher = new ScoreboardWatcher('Test', async league => league === 'nba', { onEvent: () => undefined, onStop });
+
+    await watcher.refresh();
+    expect(subscribe).toHaveBeenCalledTimes(1);
+    expect(subscribe).toHaveBeenCalledWith('nba', '2026-01-15', expect.any(Function));
+
+    listeners[0]({
+      type: 'snapshot',
+      data: { league: 'nba', date: '2026-01-15', lastUpdated: '2026-01-16T02:00:00Z', games: [finalGame('nba_1')] },
+    });
+
+    await watcher.refresh();
+    expect(unsubscribe).toHaveBeenCalledTimes(1);
+    expect(onStop).toHaveBeenCalledTimes(1);
+
+    await watcher.refresh();
+    expect(subscribe).toHaveBeenCalledTimes(1);
+  });
+
+  it('watches the next day\'s slate', async () => {
+    const watcher = new ScoreboardWatcher('Test', async league => league === 'nba', { onEvent: () => undefined });
+
+    await watcher.refresh();
+    listeners[0]({
+      type: 'snapshot',
+      data: { league: 'nba', date: '2026-01-15', lastUpdated: '2026-01-16T02:00:00Z', games: [finalGame('nba_1')] },
+    });
+    await watcher.refresh();
+
+    jest.setSystemTime(new Date('2026-01-16T18:00:00Z'));
+    await watcher.refresh();
+    expect(subscribe).toHaveBeenLastCalledWith('nba', '2026-01-16', expect.any(Function));
+  });
+});
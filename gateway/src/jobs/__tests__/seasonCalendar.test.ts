@@ -0,0 +1,118 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { calendarToLeagueSeason, pickCurrentSeason } from '../seasonCalendar';
+import { LeagueSeason } from '../scheduleStore';
+import { ESPNAdapter } from '../../providers/espnAdapter';
+import { writeFixture } from '../../providers/fixtureStore';
+import { SeasonCalendar } from '../../types';
+
+function calendar(overrides: Partial<SeasonCalendar> = {}): SeasonCalendar {
+  return {
+    league: 'nhl',
+    year: 2026,
+    label: '2025-26',
+    phases: [
+      { phase: 'preseason', startDate: '2025-09-20', endDate: '2025-10-06' },
+      { phase: 'regular', startDate: '2025-10-07', endDate: '2026-04-16' },
+      { phase: 'postseason', startDate: '2026-04-18', endDate: '2026-06-20' },
+      { phase: 'offseason', startDate: '2026-06-21', endDate: '2026-09-19' },
+    ],
+    ...overrides,
+  };
+}
+
+describe('calendarToLeagueSeason', () => {
+  it('maps calendar phases onto season bounds', () => {
+    const season = calendarToLeagueSeason(calendar(), '2026-01-15');
+
+    expect(season).toMatchObject({
+      id: 'nhl_2025-26',
+      leagueId: 'nhl',
+      seasonLabel: '2025-26',
+      startDate: '2025-10-07',
+      endDate: '2026-04-16',
+      preseasonStart: '2025-09-20',
+      postseasonEnd: '2026-06-20',
+      scheduleSource: 'espn',
+    });
+  });
+
+  it('derives status from the date', () => {
+    expect(calendarToLeagueSeason(calendar(), '2025-09-25')?.status).toBe('preseason');
+    expect(calendarToLeagueSeason(calendar(), '2026-01-15')?.status).toBe('regular');
+    expect(calendarToLeagueSeason(calendar(), '2026-05-01')?.status).toBe('postseason');
+    expect(calendarToLeagueSeason(calendar(), '2026-07-01')?.status).toBe('offseason');
+  });
+
+  it('returns null until a regular season is published', () => {
+    const unpublished = calendar({
+      phases: [{ phase: 'preseason', startDate: '2026-09-20', endDate: '2026-10-06' }],
+    });
+
+    expect(calendarToLeagueSeason(unpublished)).toBeNull();
+  });
+});
+
+describe('pickCurrentSeason', () => {
+  const seasons: LeagueSeason[] = [
+    calendarToLeagueSeason(calendar({ label: '2024-25', year: 2025, phases: [
+      { phase: 'regular', startDate: '2024-10-04', endDate: '2025-04-17' },
+    ] }))!,
+    calendarToLeagueSeason(calendar())!,
+    { ...calendarToLeagueSeason(calendar())!, id: 'nba_2025-26', leagueId: 'nba', startDate: '2025-10-21' },
+  ];
+
+  it('picks the season a date falls in, preseason included', () => {
+    expect(pickCurrentSeason(seasons, 'nhl', '2026-01-15')?.id).toBe('nhl_2025-26');
+    expect(pickCurrentSeason(seasons, 'nhl', '2025-09-25')?.id).toBe('nhl_2025-26');
+  });
+
+  it('keeps the latest started season through the offseason', () => {
+    expect(pickCurrentSeason(seasons, 'nhl', '2025-08-01')?.id).toBe('nhl_2024-25');
+    expect(pickCurrentSeason(seasons, 'nhl', '2026-08-01')?.id).toBe('nhl_2025-26');
+  });
+
+  it('returns undefined before any stored season has started', () => {
+    expect(pickCurrentSeason(seasons, 'nhl', '2024-01-01')).toBeUndefined();
+    expect(pickCurrentSeason(seasons, 'mlb', '2026-01-15')).toBeUndefined();
+  });
+});
+
+describe('ESPNAdapter.fetchSeasonCalendar', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'calendar-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('resolves phase boundaries to Eastern calendar dates with inclusive ends', async () => {
+    // ESPN marks days at 07:00Z year-round, i.e. 03:00 EDT or 02:00 EST
+    writeFixture(dir, 'https://sports.core.api.espn.com/v2/sports/hockey/leagues/nhl/seasons/2026', {
+      year: 2026,
+      startDate: '2025-09-20T07:00Z',
+      endDate: '2026-09-19T06:59Z',
+      types: {
+        items: [
+          { id: '2', type: 2, name: 'Regular Season', startDate: '2025-10-07T07:00Z', endDate: '2026-04-17T06:59Z' },
+          { id: '3', type: 3, name: 'Postseason', startDate: '2026-04-18T07:00Z', endDate: '2026-06-21T06:59Z' },
+          { id: '1', type: 1, name: 'Preseason', startDate: '2025-11-30T07:00Z', endDate: '2025-12-02T06:59Z' },
+        ],
+      },
+    });
+    const adapter = new ESPNAdapter({ name: 'fixtures', replayDir: dir });
+
+    const result = await adapter.fetchSeasonCalendar('nhl', 2026);
+
+    expect(result.label).toBe('2025-26');
+    expect(result.phases).toEqual([
+      { phase: 'regular', startDate: '2025-10-07', endDate: '2026-04-16' },
+      { phase: 'postseason', startDate: '2026-04-18', endDate: '2026-06-20' },
+      { phase: 'preseason', startDate: '2025-11-30', endDate: '2025-12-01' },
+    ]);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * API Key Usage
+ *
+ * Every minute, drains the per-key request counters from ApiKeyLimiter into
+ * api_key_usage (one row per key per UTC day). Counts that fail to write are
+ * kept for the next flush. Afterwards the stored daily counts are read back
+ * so each instance's quotas include the other instances' traffic.
+ */
+
+import { addApiKeyUsage, getApiKeyRequestCounts } from '../db/repositories/apiKeyRepository';
+import { getApiKeyLimiter } from '../utils/ApiKeyLimiter';
+import { logger } from '../utils/logger';
+
+const ONE_MINUTE = 60 * 1000;
+
+/**
+ * Write pending usage counters to Postgres
+ */
+export async function flushApiKeyUsage(): Promise<void> {
+  const limiter = getApiKeyLimiter();
+  const usage = limiter.drainUsage();
+
+  if (usage.length > 0) {
+    try {
+      await addApiKeyUsage(usage);
+      logger.debug('ApiKeyUsage: Flushed usage counters', { rows: usage.length });
+    } catch (error) {
+      limiter.restoreUsage(usage);
+      logger.warn('ApiKeyUsage: Flush failed, keeping counters for next run', {
+        rows: usage.length,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const now = Date.now();
+  const keyIds = limiter.trackedKeyIds(now);
+  if (keyIds.length === 0) return;
+
+  try {
+    const today = new Date(now).toISOString().split('T')[0];
+    for (const row of await getApiKeyRequestCounts(keyIds, today)) {
+      limiter.syncDailyUsage(row.api_key_id, row.requests, now);
+    }
+  } catch (error) {
+    logger.warn('ApiKeyUsage: Failed to read back daily counts', {
+      keys: keyIds.length,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Schedule the usage flush every minute
+ */
+export function scheduleApiKeyUsageFlush(): NodeJS.Timeout {
+  return setInterval(() => void flushApiKeyUsage(), ONE_MINUTE);
+}
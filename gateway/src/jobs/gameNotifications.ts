@@ -0,0 +1,93 @@
+/**
+ * Game Event Notifications
+ *
+ * Every 5 minutes, refreshes scoreboard watches (see ScoreboardWatcher) for
+ * each league someone has notification subscriptions in. Watching rides on
+ * the shared scoreboard poller, so live games are checked on the poller's
+ * cadence without extra upstream fetches.
+ *
+ * Events found by GameEventDetector are sent to the devices of subscribed
+ * users; tokens APNs reports as unregistered are removed.
+ */
+
+import {
+  deleteDeviceToken,
+  getDeviceTokensForGameEvent,
+  hasSubscriptionsForLeague,
+} from '../db/repositories/notificationRepository';
+import { GameEvent, GameEventDetector, formatGameEvent } from '../notifications/gameEvents';
+import { getNotificationSender } from '../notifications/NotificationSender';
+import { logger } from '../utils/logger';
+import { ScoreboardStreamEvent } from './scoreboardPoller';
+import { ScoreboardWatch, ScoreboardWatcher } from './scoreboardWatcher';
+
+const FIVE_MINUTES = 5 * 60 * 1000;
+
+const detector = new GameEventDetector();
+
+/**
+ * Send one event to every subscribed device
+ */
+async function dispatchEvent(event: GameEvent): Promise<void> {
+  const { game } = event;
+  const devices = await getDeviceTokensForGameEvent(game.id, [game.homeTeam.id, game.awayTeam.id], event.type);
+  if (devices.length === 0) return;
+
+  const sender = getNotificationSender();
+  const payload = formatGameEvent(event);
+  let sent = 0;
+  let failed = 0;
+
+  for (const device of devices) {
+    const result = await sender.send(device, payload);
+    if (result.ok) {
+      sent++;
+      continue;
+    }
+    failed++;
+    if (result.unregistered) {
+      await deleteDeviceToken(device.token);
+    }
+    logger.warn('GameNotifications: Send failed', {
+      gameId: game.id,
+      event: event.type,
+      unregistered: result.unregistered ?? false,
+      error: result.error,
+    });
+  }
+
+  logger.info('GameNotifications: Event sent', {
+    gameId: game.id,
+    event: event.type,
+    sender: sender.name,
+    sent,
+    failed,
+  });
+}
+
+function handleScoreboardEvent(watch: ScoreboardWatch, streamEvent: ScoreboardStreamEvent): void {
+  if (streamEvent.type === 'error') return;
+
+  for (const event of detector.observe(watch.league, [...watch.games.values()])) {
+    dispatchEvent(event).catch(error => {
+      logger.error('GameNotifications: Dispatch failed', {
+        gameId: event.game.id,
+        event: event.type,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }
+}
+
+const watcher = new ScoreboardWatcher('GameNotifications', hasSubscriptionsForLeague, {
+  onEvent: handleScoreboardEvent,
+  onStop: watch => detector.forget([...watch.games.keys()]),
+});
+
+/**
+ * Schedule the watch refresh every 5 minutes, starting now
+ */
+export function scheduleGameNotifications(): NodeJS.Timeout {
+  void watcher.refresh();
+  return setInterval(() => void watcher.refresh(), FIVE_MINUTES);
+}
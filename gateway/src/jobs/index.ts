@@ -5,9 +5,11 @@
 export {
   runIncrementalSync,
   runFullSeasonSync,
+  runDailyScheduleSync,
   scheduleScheduleSync,
   getScheduleSyncStats,
   getLeagueSeason,
+  getCurrentSeasonId,
   getSeasonForDate,
   getGameDateEntry,
   getGamesForDate,
@@ -25,3 +27,32 @@ export {
   scheduleNightlyMaterialization,
   getGameDatesStats,
 } from './materializeGameDates';
+
+export {
+  SEASON_LEAGUES,
+  calendarToLeagueSeason,
+  discoverLeagueSeasons,
+  runSeasonDiscovery,
+  refreshSeasonStatuses,
+  getCurrentSeasonYear,
+  scheduleSeasonCalendar,
+} from './seasonCalendar';
+
+export {
+  subscribeToScoreboard,
+  getScoreboardPollerStats,
+} from './scoreboardPoller';
+
+export {
+  scheduleGameNotifications,
+} from './gameNotifications';
+
+export {
+  scheduleWebhookDelivery,
+  refreshWebhookDelivery,
+} from './webhookDelivery';
+
+export {
+  scheduleApiKeyUsageFlush,
+  flushApiKeyUsage,
+} from './apiKeyUsage';
@@ -16,6 +16,7 @@ import {
   GameDateEntry, 
   GameRecord,
   getLeagueSeason,
+  getCurrentSeasonId,
 } from './scheduleSync';
 import { logger } from '../utils/logger';
 
@@ -71,7 +72,7 @@ function buildGameDateEntry(
  * Full rebuild of game_dates for a season
  */
 export async function materializeGameDates(
-  seasonId: string = 'nba_2025-26'
+  seasonId: string
 ): Promise<MaterializationResult> {
   const startTime = Date.now();
   const result: MaterializationResult = {
@@ -86,7 +87,7 @@ export async function materializeGameDates(
   logger.info('MaterializeGameDates: Starting rebuild', { seasonId });
   
   const store = getScheduleStore();
-  const season = getLeagueSeason(seasonId);
+  const season = await getLeagueSeason(seasonId);
   
   if (!season) {
     result.errors.push(`Season not found: ${seasonId}`);
@@ -96,7 +97,7 @@ export async function materializeGameDates(
   
   try {
     // Get all games for this season
-    const allGames = store.getAllGames().filter(g => g.seasonId === seasonId);
+    const allGames = await store.getGamesForSeason(seasonId);
     
     // Group games by scoreboard_date
     const gamesByDate = new Map<string, GameRecord[]>();
@@ -114,10 +115,10 @@ export async function materializeGameDates(
     // Build and upsert game_dates entries
     for (const [scoreboardDate, games] of gamesByDate) {
       try {
-        const existing = store.getGameDateEntry(season.leagueId, scoreboardDate);
+        const existing = await store.getGameDateEntry(season.leagueId, scoreboardDate);
         const entry = buildGameDateEntry(season.leagueId, seasonId, scoreboardDate, games);
         
-        store.upsertGameDateEntry(entry);
+        await store.upsertGameDateEntry(entry);
         result.datesProcessed++;
         
         if (!existing) {
@@ -163,9 +164,9 @@ export async function updateGameDatesForDates(
   const store = getScheduleStore();
   
   for (const scoreboardDate of dates) {
-    const games = store.getGamesForDate(leagueId, scoreboardDate);
+    const games = await store.getGamesForDate(leagueId, scoreboardDate);
     const entry = buildGameDateEntry(leagueId, seasonId, scoreboardDate, games);
-    store.upsertGameDateEntry(entry);
+    await store.upsertGameDateEntry(entry);
   }
   
   logger.debug('MaterializeGameDates: Incremental update', {
@@ -184,13 +185,13 @@ export async function refreshGameDateStatus(
   scoreboardDate: string
 ): Promise<GameDateEntry | null> {
   const store = getScheduleStore();
-  const existing = store.getGameDateEntry(leagueId, scoreboardDate);
+  const existing = await store.getGameDateEntry(leagueId, scoreboardDate);
   
   if (!existing) {
     return null;
   }
   
-  const games = store.getGamesForDate(leagueId, scoreboardDate);
+  const games = await store.getGamesForDate(leagueId, scoreboardDate);
   
   const updated: GameDateEntry = {
     ...existing,
@@ -199,7 +200,7 @@ export async function refreshGameDateStatus(
     lastRefreshedAt: new Date(),
   };
   
-  store.upsertGameDateEntry(updated);
+  await store.upsertGameDateEntry(updated);
   return updated;
 }
 
@@ -235,14 +236,22 @@ export function scheduleNightlyMaterialization(): NodeJS.Timeout {
     msUntilNextRun,
   });
   
+  // Rebuild whichever NBA season covers the run date
+  const run = async (): Promise<void> => {
+    const seasonId = await getCurrentSeasonId('nba');
+    if (!seasonId) {
+      logger.info('MaterializeGameDates: No current season, skipping', { league: 'nba' });
+      return;
+    }
+    await materializeGameDates(seasonId);
+  };
+  
   // Schedule first run
   const firstTimeout = setTimeout(async () => {
-    await materializeGameDates('nba_2025-26');
+    await run();
     
     // Then schedule recurring runs every 24 hours
-    setInterval(async () => {
-      await materializeGameDates('nba_2025-26');
-    }, ONE_DAY);
+    setInterval(run, ONE_DAY);
     
   }, msUntilNextRun);
   
@@ -252,15 +261,15 @@ export function scheduleNightlyMaterialization(): NodeJS.Timeout {
 /**
  * Get game_dates statistics
  */
-export function getGameDatesStats(seasonId?: string): {
+export async function getGameDatesStats(seasonId?: string): Promise<{
   totalDates: number;
   datesWithGames: number;
   datesWithLiveGames: number;
   datesAllFinal: number;
   totalGameCount: number;
-} {
+}> {
   const store = getScheduleStore();
-  const allGameDates = store.getAllGameDates();
+  const allGameDates = await store.getAllGameDates();
   
   const filtered = seasonId 
     ? allGameDates.filter(gd => gd.seasonId === seasonId)
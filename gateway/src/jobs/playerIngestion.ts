@@ -5,23 +5,55 @@
  */
 
 import { logger } from '../utils/logger';
-import { getESPNAdapter } from '../providers/espnAdapter';
+import { fetchRawSummaryForGame } from '../providers';
 import {
   processBoxScoreForPlayers,
   extractAndUpsertPlayersFromBoxScore,
   getSeasonFromGameDate,
+  recomputePlayerStats,
+  invalidateLeadersCache,
 } from '../providers/espnPlayerExtractor';
-import {
-  recomputeSeasonSummary,
-  recomputeNBASplits,
-} from '../db/repositories/playerRepository';
 import { query } from '../db/pool';
 
+/**
+ * Game log table per league with player ingestion.
+ * A final game with no rows in its league's table is un-ingested.
+ */
+export const PLAYER_GAME_LOG_TABLES: Record<string, string> = {
+  nba: 'nba_player_game_logs',
+  ncaam: 'nba_player_game_logs',
+  wnba: 'nba_player_game_logs',
+  ncaaw: 'nba_player_game_logs',
+  nhl: 'nhl_player_game_logs',
+  nfl: 'nfl_player_game_logs',
+  ncaaf: 'nfl_player_game_logs',
+};
+
 interface IngestOptions {
-  /** Skip recomputeSeasonSummary/recomputeNBASplits (used during backfill) */
+  /** Skip recomputePlayerStats (used during backfill) */
   skipRecomputation?: boolean;
 }
 
+/**
+ * Find final games with no player game logs for a league
+ */
+export async function findUningestedGames(league: string, limit?: number): Promise<Array<{ id: string }>> {
+  const table = PLAYER_GAME_LOG_TABLES[league];
+  if (!table) {
+    throw new Error(`Player ingestion not supported for league: ${league}`);
+  }
+
+  return query<{ id: string }>(
+    `SELECT g.id FROM games g
+     LEFT JOIN ${table} gl ON gl.game_id = g.id
+     WHERE g.league_id = $1 AND g.status = 'final'
+     AND gl.game_id IS NULL
+     ORDER BY g.scoreboard_date DESC
+     ${limit !== undefined ? 'LIMIT $2' : ''}`,
+    limit !== undefined ? [league, limit] : [league]
+  );
+}
+
 /**
  * Ingest players from a single game's box score
  *
@@ -53,9 +85,8 @@ export async function ingestPlayersFromGame(
     const gameDate = new Date(gameRows[0].game_date);
     const season = getSeasonFromGameDate(gameDate, leaguePrefix);
 
-    // Fetch raw summary from ESPN (rate-limited)
-    const espnAdapter = getESPNAdapter();
-    const summary = await espnAdapter.fetchRawSummary(gameId);
+    // Fetch raw summary from the game's providers (rate-limited when live)
+    const summary = await fetchRawSummaryForGame(gameId);
 
     let playerIds: string[];
 
@@ -164,22 +195,14 @@ export async function backfillPlayers(
 ): Promise<BackfillResult> {
   const startTime = Date.now();
 
-  // Default season: NBA 2025-26 season → 2025
+  // Default season: 2025-26 season → 2025
   const effectiveSeason = season ?? 2025;
 
   try {
     logger.info('Starting player backfill', { league, season: effectiveSeason, limit });
 
     // Find un-ingested final games
-    const gameRows = await query<{ id: string }>(
-      `SELECT g.id FROM games g
-       LEFT JOIN nba_player_game_logs gl ON gl.game_id = g.id
-       WHERE g.league_id = $1 AND g.status = 'final'
-       AND gl.game_id IS NULL
-       ORDER BY g.scoreboard_date DESC
-       LIMIT $2`,
-      [league, limit]
-    );
+    const gameRows = await findUningestedGames(league, limit);
 
     logger.info('Found un-ingested games for backfill', {
       league,
@@ -219,8 +242,7 @@ export async function backfillPlayers(
 
       for (const playerId of allPlayerIds) {
         try {
-          await recomputeSeasonSummary(playerId, effectiveSeason);
-          await recomputeNBASplits(playerId, effectiveSeason);
+          await recomputePlayerStats(playerId, league, effectiveSeason);
           recomputeSuccess++;
         } catch (error) {
           recomputeFail++;
@@ -231,6 +253,7 @@ export async function backfillPlayers(
         }
       }
 
+      await invalidateLeadersCache(league, effectiveSeason);
       logger.info('Completed deferred recomputation', { recomputeSuccess, recomputeFail });
     }
 
@@ -1,13 +1,12 @@
 /**
  * Scheduled Player Ingestion
  *
- * Runs hourly at :30 to ingest player data from newly-finalized NBA games.
- * Finds games with status='final' that have no rows in nba_player_game_logs.
+ * Runs hourly at :30 to ingest player data from newly-finalized games in every league with game logs (see PLAYER_GAME_LOG_TABLES).
+ * Finds games with status='final' that have no rows in the league's game log table.
  */
 
 import { logger } from '../utils/logger';
-import { ingestPlayersFromGame } from './playerIngestion';
-import { query } from '../db/pool';
+import { ingestPlayersFromGame, findUningestedGames, PLAYER_GAME_LOG_TABLES } from './playerIngestion';
 
 const ONE_HOUR = 60 * 60 * 1000;
 
@@ -18,14 +17,10 @@ async function runPlayerIngestion(): Promise<void> {
   const startTime = Date.now();
 
   try {
-    const gameRows = await query<{ id: string }>(
-      `SELECT g.id FROM games g
-       LEFT JOIN nba_player_game_logs gl ON gl.game_id = g.id
-       WHERE g.league_id = 'nba' AND g.status = 'final'
-       AND gl.game_id IS NULL
-       ORDER BY g.scoreboard_date DESC`,
-      []
-    );
+    const gameRows: Array<{ id: string }> = [];
+    for (const league of Object.keys(PLAYER_GAME_LOG_TABLES)) {
+      gameRows.push(...await findUningestedGames(league));
+    }
 
     if (gameRows.length === 0) {
       logger.debug('PlayerIngestion: No un-ingested games found');
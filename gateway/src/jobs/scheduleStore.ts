@@ -0,0 +1,721 @@
+/**
+ * Schedule Store
+ *
+ * Storage for league seasons, games and the game_dates index used by
+ * schedule sync and the scoreboard skip logic.
+ *
+ * Two backends behind the same async accessors:
+ * - PostgresScheduleStore: league_seasons / games / game_dates tables, shared
+ *   by every gateway instance (default whenever DATABASE_URL is set)
+ * - JsonScheduleStore: in-memory maps persisted to data/schedule-store.json,
+ *   for local development without a database
+ *
+ * Existing JSON files can be loaded into Postgres with `npm run import-schedule`.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from '../config';
+import { getClient, query } from '../db/pool';
+import { logger } from '../utils/logger';
+
+// Persistence paths (JSON backend)
+const DATA_DIR = path.join(__dirname, '../../data');
+export const SCHEDULE_FILE = path.join(DATA_DIR, 'schedule-store.json');
+
+// =====================
+// Types
+// =====================
+
+export interface LeagueSeason {
+  id: string;
+  leagueId: string;
+  seasonLabel: string;
+  startDate: string;  // YYYY-MM-DD
+  endDate: string;    // YYYY-MM-DD
+  preseasonStart?: string;
+  postseasonEnd?: string;
+  status: 'preseason' | 'regular' | 'postseason' | 'offseason';
+  scheduleSource: string;
+  lastScheduleSyncAt?: Date;
+}
+
+export interface GameRecord {
+  id: string;
+  leagueId: string;
+  seasonId: string;
+  gameDate: string;       // Original date
+  scoreboardDate: string; // Canonical grouping date (US/Eastern)
+  startTimeUtc: string;
+  homeTeamId: string;
+  awayTeamId: string;
+  homeScore?: number;
+  awayScore?: number;
+  homeLinescore?: number[];
+  awayLinescore?: number[];
+  status: 'scheduled' | 'live' | 'final';
+  period?: string;
+  clock?: string;
+  venueId?: string;
+  externalIds: Record<string, string>;  // { espn: "401810365", ... }
+  lastRefreshedAt: Date;
+}
+
+/**
+ * Team referenced by a game. games.home_team_id/away_team_id reference teams(id),
+ * so teams are upserted along with their games (only NBA teams are seeded).
+ */
+export interface TeamRecord {
+  id: string;
+  leagueId: string;
+  name: string;
+  city?: string;
+  abbreviation?: string;
+}
+
+export interface GameDateEntry {
+  leagueId: string;
+  seasonId: string;
+  scoreboardDate: string;
+  gameCount: number;
+  firstGameTimeUtc?: string;
+  lastGameTimeUtc?: string;
+  hasLiveGames: boolean;
+  allGamesFinal: boolean;
+  lastRefreshedAt: Date;
+}
+
+export interface ScheduleStoreStats {
+  seasons: number;
+  games: number;
+  gameDates: number;
+}
+
+/**
+ * Accessors shared by both backends
+ */
+export interface ScheduleStore {
+  readonly backend: 'postgres' | 'json';
+
+  // Seasons
+  getSeason(seasonId: string): Promise<LeagueSeason | undefined>;
+  getSeasonForDate(leagueId: string, date: string): Promise<LeagueSeason | undefined>;
+  getAllSeasons(): Promise<LeagueSeason[]>;
+  upsertSeason(season: LeagueSeason): Promise<void>;
+  updateSeasonSyncTime(seasonId: string): Promise<void>;
+
+  // Games
+  /**
+   * Returns true when the game was not stored before. `teams` are created
+   * first (existing rows are kept) so the game's team references resolve.
+   */
+  upsertGame(game: GameRecord, teams?: TeamRecord[]): Promise<boolean>;
+  getGame(gameId: string): Promise<GameRecord | undefined>;
+  getGamesForDate(leagueId: string, scoreboardDate: string): Promise<GameRecord[]>;
+  getGamesForSeason(seasonId: string): Promise<GameRecord[]>;
+  /** A team's games (home or away) in a season, ordered by start time */
+  getGamesForTeam(teamId: string, seasonId: string): Promise<GameRecord[]>;
+  /** Final games between two teams that started before `beforeUtc`, newest first */
+  getMeetings(teamA: string, teamB: string, beforeUtc: string, limit: number): Promise<GameRecord[]>;
+
+  // game_dates index
+  getGameDateEntry(leagueId: string, scoreboardDate: string): Promise<GameDateEntry | undefined>;
+  upsertGameDateEntry(entry: GameDateEntry): Promise<void>;
+  getAllGameDates(): Promise<GameDateEntry[]>;
+  getGameDatesForSeason(seasonId: string): Promise<GameDateEntry[]>;
+
+  getStats(): Promise<ScheduleStoreStats>;
+
+  /** Persist buffered writes (JSON backend writes to disk; no-op for Postgres) */
+  flush(): Promise<void>;
+}
+
+/**
+ * Whether a date falls inside a season, including pre- and postseason
+ */
+function seasonCoversDate(season: LeagueSeason, date: string): boolean {
+  const dateObj = new Date(date);
+  const seasonStart = new Date(season.preseasonStart || season.startDate);
+  const seasonEnd = new Date(season.postseasonEnd || season.endDate);
+  return dateObj >= seasonStart && dateObj <= seasonEnd;
+}
+
+// =====================
+// JSON Backend (local development)
+// =====================
+
+export class JsonScheduleStore implements ScheduleStore {
+  readonly backend = 'json' as const;
+
+  private seasons: Map<string, LeagueSeason> = new Map();
+  private games: Map<string, GameRecord> = new Map();
+  private gameDates: Map<string, GameDateEntry> = new Map();
+
+  constructor(private readonly filePath: string = SCHEDULE_FILE) {
+    this.loadFromDisk();
+  }
+
+  private loadFromDisk(): void {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const data = readScheduleFile(this.filePath);
+
+        for (const game of data.games) {
+          this.games.set(game.id, game);
+        }
+        for (const gd of data.gameDates) {
+          this.gameDates.set(this.getGameDateKey(gd.leagueId, gd.scoreboardDate), gd);
+        }
+        for (const season of data.seasons) {
+          this.seasons.set(season.id, season);
+        }
+
+        logger.info('ScheduleStore: Loaded persisted data', {
+          games: this.games.size,
+          gameDates: this.gameDates.size,
+          seasons: this.seasons.size,
+        });
+      }
+    } catch (error) {
+      logger.error('ScheduleStore: Failed to load persisted data', { error });
+    }
+  }
+
+  async flush(): Promise<void> {
+    try {
+      const dir = path.dirname(this.filePath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+
+      const data = {
+        savedAt: new Date().toISOString(),
+        seasons: Array.from(this.seasons.values()),
+        games: Array.from(this.games.values()),
+        gameDates: Array.from(this.gameDates.values()),
+      };
+
+      fs.writeFileSync(this.filePath, JSON.stringify(data, null, 2));
+
+      logger.debug('ScheduleStore: Saved to disk', {
+        games: this.games.size,
+        gameDates: this.gameDates.size,
+      });
+    } catch (error) {
+      logger.error('ScheduleStore: Failed to save to disk', { error });
+    }
+  }
+
+  // Season methods
+  async getSeason(seasonId: string): Promise<LeagueSeason | undefined> {
+    return this.seasons.get(seasonId);
+  }
+
+  async getSeasonForDate(leagueId: string, date: string): Promise<LeagueSeason | undefined> {
+    for (const season of this.seasons.values()) {
+      if (season.leagueId === leagueId && seasonCoversDate(season, date)) {
+        return season;
+      }
+    }
+    return undefined;
+  }
+
+  async getAllSeasons(): Promise<LeagueSeason[]> {
+    return Array.from(this.seasons.values());
+  }
+
+  async upsertSeason(season: LeagueSeason): Promise<void> {
+    this.seasons.set(season.id, season);
+  }
+
+  async updateSeasonSyncTime(seasonId: string): Promise<void> {
+    const season = this.seasons.get(seasonId);
+    if (season) {
+      season.lastScheduleSyncAt = new Date();
+    }
+  }
+
+  // Game methods
+  async upsertGame(game: GameRecord, _teams?: TeamRecord[]): Promise<boolean> {
+    // No team table to satisfy in the JSON backend
+    const existing = this.games.get(game.id);
+
+    // Merge external_ids if updating
+    if (existing) {
+      game.externalIds = { ...existing.externalIds, ...game.externalIds };
+    }
+
+    // Not written to disk per upsert; callers flush() after bulk operations
+    this.games.set(game.id, game);
+    return !existing;
+  }
+
+  async getGame(gameId: string): Promise<GameRecord | undefined> {
+    return this.games.get(gameId);
+  }
+
+  async getGamesForDate(leagueId: string, scoreboardDate: string): Promise<GameRecord[]> {
+    return Array.from(this.games.values()).filter(
+      game => game.leagueId === leagueId && game.scoreboardDate === scoreboardDate
+    );
+  }
+
+  async getGamesForSeason(seasonId: string): Promise<GameRecord[]> {
+    return Array.from(this.games.values()).filter(game => game.seasonId === seasonId);
+  }
+
+  async getGamesForTeam(teamId: string, seasonId: string): Promise<GameRecord[]> {
+    return Array.from(this.games.values())
+      .filter(game => game.seasonId === seasonId && (game.homeTeamId === teamId || game.awayTeamId === teamId))
+      .sort((a, b) => a.startTimeUtc.localeCompare(b.startTimeUtc));
+  }
+
+  async getMeetings(teamA: string, teamB: string, beforeUtc: string, limit: number): Promise<GameRecord[]> {
+    const teams = new Set([teamA, teamB]);
+    const before = new Date(beforeUtc).getTime();
+    return Array.from(this.games.values())
+      .filter(game =>
+        game.status === 'final'
+        && new Date(game.startTimeUtc).getTime() < before
+        && teams.has(game.homeTeamId) && teams.has(game.awayTeamId)
+        && game.homeTeamId !== game.awayTeamId
+      )
+      .sort((a, b) => b.startTimeUtc.localeCompare(a.startTimeUtc))
+      .slice(0, limit);
+  }
+
+  // GameDates methods
+  async getGameDateEntry(leagueId: string, scoreboardDate: string): Promise<GameDateEntry | undefined> {
+    return this.gameDates.get(this.getGameDateKey(leagueId, scoreboardDate));
+  }
+
+  async upsertGameDateEntry(entry: GameDateEntry): Promise<void> {
+    this.gameDates.set(this.getGameDateKey(entry.leagueId, entry.scoreboardDate), entry);
+  }
+
+  async getAllGameDates(): Promise<GameDateEntry[]> {
+    return Array.from(this.gameDates.values());
+  }
+
+  async getGameDatesForSeason(seasonId: string): Promise<GameDateEntry[]> {
+    return Array.from(this.gameDates.values()).filter(gd => gd.seasonId === seasonId);
+  }
+
+  private getGameDateKey(leagueId: string, date: string): string {
+    return `${leagueId}:${date}`;
+  }
+
+  async getStats(): Promise<ScheduleStoreStats> {
+    return {
+      seasons: this.seasons.size,
+      games: this.games.size,
+      gameDates: this.gameDates.size,
+    };
+  }
+}
+
+/**
+ * Read a schedule-store.json file, restoring Date fields
+ */
+export function readScheduleFile(filePath: string): {
+  seasons: LeagueSeason[];
+  games: GameRecord[];
+  gameDates: GameDateEntry[];
+} {
+  const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+
+  const games: GameRecord[] = (data.games || []).map((game: GameRecord) => ({
+    ...game,
+    lastRefreshedAt: new Date(game.lastRefreshedAt),
+  }));
+  const gameDates: GameDateEntry[] = (data.gameDates || []).map((gd: GameDateEntry) => ({
+    ...gd,
+    lastRefreshedAt: new Date(gd.lastRefreshedAt),
+  }));
+  const seasons: LeagueSeason[] = (data.seasons || []).map((season: LeagueSeason) => ({
+    ...season,
+    lastScheduleSyncAt: season.lastScheduleSyncAt ? new Date(season.lastScheduleSyncAt) : undefined,
+  }));
+
+  return { seasons, games, gameDates };
+}
+
+// =====================
+// PostgreSQL Backend
+// =====================
+
+// DATE/TIMESTAMP columns are formatted in SQL so values don't shift with the server time zone
+const SEASON_COLUMNS = `
+  id, league_id, season_label,
+  to_char(start_date, 'YYYY-MM-DD') AS start_date,
+  to_char(end_date, 'YYYY-MM-DD') AS end_date,
+  to_char(preseason_start, 'YYYY-MM-DD') AS preseason_start,
+  to_char(postseason_end, 'YYYY-MM-DD') AS postseason_end,
+  status, schedule_source,
+  to_char(last_schedule_sync_at, 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"') AS last_schedule_sync_at`;
+
+const GAME_COLUMNS = `
+  id, league_id, season_id,
+  to_char(game_date, 'YYYY-MM-DD') AS game_date,
+  to_char(scoreboard_date, 'YYYY-MM-DD') AS scoreboard_date,
+  to_char(start_time_utc, 'YYYY-MM-DD"T"HH24:MI:SS"Z"') AS start_time_utc,
+  home_team_id, away_team_id, home_score, away_score,
+  home_linescore, away_linescore, status, period, clock, venue_id, external_ids,
+  to_char(last_refreshed_at, 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"') AS last_refreshed_at`;
+
+const GAME_DATE_COLUMNS = `
+  league_id, season_id,
+  to_char(scoreboard_date, 'YYYY-MM-DD') AS scoreboard_date,
+  game_count,
+  to_char(first_game_time_utc, 'YYYY-MM-DD"T"HH24:MI:SS"Z"') AS first_game_time_utc,
+  to_char(last_game_time_utc, 'YYYY-MM-DD"T"HH24:MI:SS"Z"') AS last_game_time_utc,
+  has_live_games, all_games_final,
+  to_char(last_refreshed_at, 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"') AS last_refreshed_at`;
+
+// Row shapes as selected by the column lists above
+interface SeasonRow {
+  id: string;
+  league_id: string;
+  season_label: string;
+  start_date: string;
+  end_date: string;
+  preseason_start: string | null;
+  postseason_end: string | null;
+  status: LeagueSeason['status'];
+  schedule_source: string;
+  last_schedule_sync_at: string | null;
+}
+
+interface GameRow {
+  id: string;
+  league_id: string;
+  season_id: string;
+  game_date: string;
+  scoreboard_date: string;
+  start_time_utc: string;
+  home_team_id: string;
+  away_team_id: string;
+  home_score: number | null;
+  away_score: number | null;
+  home_linescore: number[] | null;
+  away_linescore: number[] | null;
+  status: GameRecord['status'];
+  period: string | null;
+  clock: string | null;
+  venue_id: string | null;
+  external_ids: Record<string, string> | null;
+  last_refreshed_at: string;
+}
+
+interface GameDateRow {
+  league_id: string;
+  season_id: string;
+  scoreboard_date: string;
+  game_count: number;
+  first_game_time_utc: string | null;
+  last_game_time_utc: string | null;
+  has_live_games: boolean;
+  all_games_final: boolean;
+  last_refreshed_at: string;
+}
+
+function rowToSeason(row: SeasonRow): LeagueSeason {
+  return {
+    id: row.id,
+    leagueId: row.league_id,
+    seasonLabel: row.season_label,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    preseasonStart: row.preseason_start ?? undefined,
+    postseasonEnd: row.postseason_end ?? undefined,
+    status: row.status,
+    scheduleSource: row.schedule_source,
+    lastScheduleSyncAt: row.last_schedule_sync_at ? new Date(row.last_schedule_sync_at) : undefined,
+  };
+}
+
+function rowToGame(row: GameRow): GameRecord {
+  return {
+    id: row.id,
+    leagueId: row.league_id,
+    seasonId: row.season_id,
+    gameDate: row.game_date,
+    scoreboardDate: row.scoreboard_date,
+    startTimeUtc: row.start_time_utc,
+    homeTeamId: row.home_team_id,
+    awayTeamId: row.away_team_id,
+    homeScore: row.home_score ?? undefined,
+    awayScore: row.away_score ?? undefined,
+    homeLinescore: row.home_linescore ?? undefined,
+    awayLinescore: row.away_linescore ?? undefined,
+    status: row.status,
+    period: row.period ?? undefined,
+    clock: row.clock ?? undefined,
+    venueId: row.venue_id ?? undefined,
+    externalIds: row.external_ids || {},
+    lastRefreshedAt: new Date(row.last_refreshed_at),
+  };
+}
+
+function rowToGameDate(row: GameDateRow): GameDateEntry {
+  return {
+    leagueId: row.league_id,
+    seasonId: row.season_id,
+    scoreboardDate: row.scoreboard_date,
+    gameCount: row.game_count,
+    firstGameTimeUtc: row.first_game_time_utc ?? undefined,
+    lastGameTimeUtc: row.last_game_time_utc ?? undefined,
+    hasLiveGames: row.has_live_games,
+    allGamesFinal: row.all_games_final,
+    lastRefreshedAt: new Date(row.last_refreshed_at),
+  };
+}
+
+export class PostgresScheduleStore implements ScheduleStore {
+  readonly backend = 'postgres' as const;
+
+  async flush(): Promise<void> {
+    // Every write goes straight to Postgres
+  }
+
+  // Season methods
+  async getSeason(seasonId: string): Promise<LeagueSeason | undefined> {
+    const rows = await query<SeasonRow>(`SELECT ${SEASON_COLUMNS} FROM league_seasons WHERE id = $1`, [seasonId]);
+    return rows[0] ? rowToSeason(rows[0]) : undefined;
+  }
+
+  async getSeasonForDate(leagueId: string, date: string): Promise<LeagueSeason | undefined> {
+    const rows = await query<SeasonRow>(
+      `SELECT ${SEASON_COLUMNS} FROM league_seasons
+       WHERE league_id = $1
+         AND COALESCE(preseason_start, start_date) <= $2::date
+         AND COALESCE(postseason_end, end_date) >= $2::date
+       ORDER BY start_date DESC
+       LIMIT 1`,
+      [leagueId, date]
+    );
+    return rows[0] ? rowToSeason(rows[0]) : undefined;
+  }
+
+  async getAllSeasons(): Promise<LeagueSeason[]> {
+    const rows = await query<SeasonRow>(`SELECT ${SEASON_COLUMNS} FROM league_seasons ORDER BY league_id, start_date`);
+    return rows.map(rowToSeason);
+  }
+
+  async upsertSeason(season: LeagueSeason): Promise<void> {
+    await query(
+      `INSERT INTO league_seasons (
+        id, league_id, season_label, start_date, end_date,
+        preseason_start, postseason_end, status, schedule_source, last_schedule_sync_at
+      ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10)
+      ON CONFLICT (id) DO UPDATE SET
+        league_id = EXCLUDED.league_id,
+        season_label = EXCLUDED.season_label,
+        start_date = EXCLUDED.start_date,
+        end_date = EXCLUDED.end_date,
+        preseason_start = EXCLUDED.preseason_start,
+        postseason_end = EXCLUDED.postseason_end,
+        status = EXCLUDED.status,
+        schedule_source = EXCLUDED.schedule_source,
+        last_schedule_sync_at = COALESCE(EXCLUDED.last_schedule_sync_at, league_seasons.last_schedule_sync_at)`,
+      [
+        season.id, season.leagueId, season.seasonLabel,
+        season.startDate, season.endDate,
+        season.preseasonStart ?? null, season.postseasonEnd ?? null,
+        season.status, season.scheduleSource,
+        season.lastScheduleSyncAt ?? null,
+      ]
+    );
+  }
+
+  async updateSeasonSyncTime(seasonId: string): Promise<void> {
+    await query('UPDATE league_seasons SET last_schedule_sync_at = NOW() WHERE id = $1', [seasonId]);
+  }
+
+  // Game methods
+  async upsertGame(game: GameRecord, teams: TeamRecord[] = []): Promise<boolean> {
+    const client = await getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      for (const team of teams) {
+        // Keep curated rows (e.g. the seeded NBA teams) as they are
+        await client.query(
+          `INSERT INTO teams (id, league_id, name, city, abbreviation)
+           VALUES ($1, $2, $3, $4, $5)
+           ON CONFLICT (id) DO NOTHING`,
+          [team.id, team.leagueId, team.name, team.city ?? null, team.abbreviation ?? null]
+        );
+      }
+
+      const result = await client.query<{ inserted: boolean }>(
+        `INSERT INTO games (
+          id, league_id, season_id, game_date, scoreboard_date,
+          start_time_utc, home_team_id, away_team_id,
+          home_score, away_score, status, period, clock,
+          venue_id, external_ids, last_refreshed_at,
+          home_linescore, away_linescore
+        ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16,$17,$18)
+        ON CONFLICT (id) DO UPDATE SET
+          start_time_utc = EXCLUDED.start_time_utc,
+          scoreboard_date = EXCLUDED.scoreboard_date,
+          home_score = EXCLUDED.home_score,
+          away_score = EXCLUDED.away_score,
+          home_linescore = EXCLUDED.home_linescore,
+          away_linescore = EXCLUDED.away_linescore,
+          status = EXCLUDED.status,
+          period = EXCLUDED.period,
+          clock = EXCLUDED.clock,
+          external_ids = games.external_ids || EXCLUDED.external_ids,
+          last_refreshed_at = EXCLUDED.last_refreshed_at,
+          updated_at = NOW()
+        RETURNING (xmax = 0) AS inserted`,
+        [
+          // Games stored from box scores can predate their league season
+          game.id, game.leagueId, game.seasonId || null,
+          game.gameDate, game.scoreboardDate, game.startTimeUtc,
+          game.homeTeamId, game.awayTeamId,
+          game.homeScore ?? null, game.awayScore ?? null,
+          game.status, game.period ?? null, game.clock ?? null,
+          game.venueId ?? null, JSON.stringify(game.externalIds),
+          game.lastRefreshedAt,
+          game.homeLinescore ? JSON.stringify(game.homeLinescore) : null,
+          game.awayLinescore ? JSON.stringify(game.awayLinescore) : null,
+        ]
+      );
+
+      await client.query('COMMIT');
+      return result.rows[0]?.inserted ?? false;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getGame(gameId: string): Promise<GameRecord | undefined> {
+    const rows = await query<GameRow>(`SELECT ${GAME_COLUMNS} FROM games WHERE id = $1`, [gameId]);
+    return rows[0] ? rowToGame(rows[0]) : undefined;
+  }
+
+  async getGamesForDate(leagueId: string, scoreboardDate: string): Promise<GameRecord[]> {
+    const rows = await query<GameRow>(
+      `SELECT ${GAME_COLUMNS} FROM games
+       WHERE league_id = $1 AND scoreboard_date = $2::date
+       ORDER BY start_time_utc`,
+      [leagueId, scoreboardDate]
+    );
+    return rows.map(rowToGame);
+  }
+
+  async getGamesForSeason(seasonId: string): Promise<GameRecord[]> {
+    const rows = await query<GameRow>(
+      `SELECT ${GAME_COLUMNS} FROM games WHERE season_id = $1 ORDER BY start_time_utc`,
+      [seasonId]
+    );
+    return rows.map(rowToGame);
+  }
+
+  async getGamesForTeam(teamId: string, seasonId: string): Promise<GameRecord[]> {
+    const rows = await query<GameRow>(
+      `SELECT ${GAME_COLUMNS} FROM games
+       WHERE season_id = $1 AND (home_team_id = $2 OR away_team_id = $2)
+       ORDER BY start_time_utc`,
+      [seasonId, teamId]
+    );
+    return rows.map(rowToGame);
+  }
+
+  async getMeetings(teamA: string, teamB: string, beforeUtc: string, limit: number): Promise<GameRecord[]> {
+    const rows = await query<GameRow>(
+      `SELECT ${GAME_COLUMNS} FROM games
+       WHERE status = 'final' AND start_time_utc < $3
+         AND ((home_team_id = $1 AND away_team_id = $2) OR (home_team_id = $2 AND away_team_id = $1))
+       ORDER BY start_time_utc DESC
+       LIMIT $4`,
+      [teamA, teamB, beforeUtc, limit]
+    );
+    return rows.map(rowToGame);
+  }
+
+  // GameDates methods
+  async getGameDateEntry(leagueId: string, scoreboardDate: string): Promise<GameDateEntry | undefined> {
+    const rows = await query<GameDateRow>(
+      `SELECT ${GAME_DATE_COLUMNS} FROM game_dates WHERE league_id = $1 AND scoreboard_date = $2::date`,
+      [leagueId, scoreboardDate]
+    );
+    return rows[0] ? rowToGameDate(rows[0]) : undefined;
+  }
+
+  async upsertGameDateEntry(entry: GameDateEntry): Promise<void> {
+    await query(
+      `INSERT INTO game_dates (
+        league_id, season_id, scoreboard_date, game_count,
+        first_game_time_utc, last_game_time_utc,
+        has_live_games, all_games_final, last_refreshed_at
+      ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9)
+      ON CONFLICT (league_id, scoreboard_date) DO UPDATE SET
+        season_id = EXCLUDED.season_id,
+        game_count = EXCLUDED.game_count,
+        first_game_time_utc = EXCLUDED.first_game_time_utc,
+        last_game_time_utc = EXCLUDED.last_game_time_utc,
+        has_live_games = EXCLUDED.has_live_games,
+        all_games_final = EXCLUDED.all_games_final,
+        last_refreshed_at = EXCLUDED.last_refreshed_at,
+        updated_at = NOW()`,
+      [
+        entry.leagueId, entry.seasonId, entry.scoreboardDate, entry.gameCount,
+        entry.firstGameTimeUtc ?? null, entry.lastGameTimeUtc ?? null,
+        entry.hasLiveGames, entry.allGamesFinal, entry.lastRefreshedAt,
+      ]
+    );
+  }
+
+  async getAllGameDates(): Promise<GameDateEntry[]> {
+    const rows = await query<GameDateRow>(`SELECT ${GAME_DATE_COLUMNS} FROM game_dates ORDER BY league_id, scoreboard_date`);
+    return rows.map(rowToGameDate);
+  }
+
+  async getGameDatesForSeason(seasonId: string): Promise<GameDateEntry[]> {
+    const rows = await query<GameDateRow>(
+      `SELECT ${GAME_DATE_COLUMNS} FROM game_dates WHERE season_id = $1 ORDER BY scoreboard_date`,
+      [seasonId]
+    );
+    return rows.map(rowToGameDate);
+  }
+
+  async getStats(): Promise<ScheduleStoreStats> {
+    const rows = await query<{ seasons: string; games: string; game_dates: string }>(
+      `SELECT
+        (SELECT COUNT(*) FROM league_seasons) AS seasons,
+        (SELECT COUNT(*) FROM games) AS games,
+        (SELECT COUNT(*) FROM game_dates) AS game_dates`
+    );
+    return {
+      seasons: parseInt(rows[0]?.seasons ?? '0', 10),
+      games: parseInt(rows[0]?.games ?? '0', 10),
+      gameDates: parseInt(rows[0]?.game_dates ?? '0', 10),
+    };
+  }
+}
+
+// =====================
+// Store Selection
+// =====================
+
+let store: ScheduleStore | null = null;
+
+/**
+ * Get the configured schedule store (SCHEDULE_STORE=postgres|json)
+ */
+export function getScheduleStore(): ScheduleStore {
+  if (!store) {
+    store = config.scheduleStore === 'postgres'
+      ? new PostgresScheduleStore()
+      : new JsonScheduleStore();
+    logger.info('ScheduleStore: Using backend', { backend: store.backend });
+  }
+  return store;
+}
@@ -13,67 +13,27 @@
  * Schedule: Daily at 04:00 UTC (after games end)
  */
 
-import * as fs from 'fs';
-import * as path from 'path';
-import { getESPNAdapter } from '../providers/espnAdapter';
+import { fetchForLeague, getProviderName } from '../providers';
 import { getESPNRateLimiter, ESPNBudgetBucket } from '../utils/ESPNRateLimiter';
-import { getCached, setCached, cacheKeys } from '../cache/redis';
+import { getCachedResult, setCachedResult, cacheKeys } from '../cache/redis';
 import { Game, ScoreboardResponse } from '../types';
 import { logger } from '../utils/logger';
-import { query } from '../db/pool';
-
-// Persistence paths
-const DATA_DIR = path.join(__dirname, '../../data');
-const SCHEDULE_FILE = path.join(DATA_DIR, 'schedule-store.json');
+import { PLAYER_GAME_LOG_TABLES } from './playerIngestion';
+import {
+  getScheduleStore,
+  LeagueSeason,
+  GameRecord,
+  GameDateEntry,
+  ScheduleStoreStats,
+  TeamRecord,
+} from './scheduleStore';
+
+export type { LeagueSeason, GameRecord, GameDateEntry } from './scheduleStore';
 
 // =====================
 // Types
 // =====================
 
-export interface LeagueSeason {
-  id: string;
-  leagueId: string;
-  seasonLabel: string;
-  startDate: string;  // YYYY-MM-DD
-  endDate: string;    // YYYY-MM-DD
-  preseasonStart?: string;
-  postseasonEnd?: string;
-  status: 'preseason' | 'regular' | 'postseason' | 'offseason';
-  scheduleSource: string;
-  lastScheduleSyncAt?: Date;
-}
-
-export interface GameRecord {
-  id: string;
-  leagueId: string;
-  seasonId: string;
-  gameDate: string;       // Original date
-  scoreboardDate: string; // Canonical grouping date (US/Eastern)
-  startTimeUtc: string;
-  homeTeamId: string;
-  awayTeamId: string;
-  homeScore?: number;
-  awayScore?: number;
-  status: 'scheduled' | 'live' | 'final';
-  period?: string;
-  clock?: string;
-  venueId?: string;
-  externalIds: Record<string, string>;  // { espn: "401810365", ... }
-  lastRefreshedAt: Date;
-}
-
-export interface GameDateEntry {
-  leagueId: string;
-  seasonId: string;
-  scoreboardDate: string;
-  gameCount: number;
-  firstGameTimeUtc?: string;
-  lastGameTimeUtc?: string;
-  hasLiveGames: boolean;
-  allGamesFinal: boolean;
-  lastRefreshedAt: Date;
-}
-
 export interface ScheduleSyncResult {
   date: string;
   gamesFound: number;
@@ -88,7 +48,7 @@ export interface ScheduleSyncSummary {
   endTime: string;
   durationMs: number;
   mode: 'bulk' | 'incremental';
-  seasonId: string;
+  seasonId: string | null;
   datesProcessed: number;
   totalGamesFound: number;
   totalGamesUpserted: number;
@@ -96,253 +56,6 @@ export interface ScheduleSyncSummary {
   errors: string[];
 }
 
-// =====================
-// In-Memory Store (for development)
-// Will be replaced with PostgreSQL in production
-// =====================
-
-class ScheduleStore {
-  private seasons: Map<string, LeagueSeason> = new Map();
-  private games: Map<string, GameRecord> = new Map();
-  private gameDates: Map<string, GameDateEntry> = new Map();
-  private persistenceEnabled: boolean = true;
-  
-  // Initialize with all seasons and load persisted data
-  constructor() {
-    // NBA 2025-26 season
-    this.seasons.set('nba_2025-26', {
-      id: 'nba_2025-26',
-      leagueId: 'nba',
-      seasonLabel: '2025-26',
-      startDate: '2025-10-22',
-      endDate: '2026-04-13',
-      preseasonStart: '2025-10-04',
-      postseasonEnd: '2026-06-22',
-      status: 'regular',
-      scheduleSource: 'espn',
-    });
-    
-    // NFL 2025 season (Sep 2025 - Feb 2026)
-    this.seasons.set('nfl_2025', {
-      id: 'nfl_2025',
-      leagueId: 'nfl',
-      seasonLabel: '2025',
-      startDate: '2025-09-04',      // Regular season start (Thursday opener)
-      endDate: '2026-01-04',        // Regular season end (Week 18)
-      preseasonStart: '2025-08-01', // Preseason starts
-      postseasonEnd: '2026-02-08',  // Super Bowl LX
-      status: 'regular',
-      scheduleSource: 'espn',
-    });
-    
-    // NCAAF 2025 season (Aug 2025 - Jan 2026)
-    this.seasons.set('ncaaf_2025', {
-      id: 'ncaaf_2025',
-      leagueId: 'ncaaf',
-      seasonLabel: '2025',
-      startDate: '2025-08-23',       // Regular season start (Week 0)
-      endDate: '2025-12-07',         // Regular season end (Championship Week)
-      preseasonStart: '2025-08-23',  // Same as regular season
-      postseasonEnd: '2026-01-20',   // National Championship
-      status: 'regular',
-      scheduleSource: 'espn',
-    });
-    
-    // NCAAM 2025-26 season (Nov 2025 - Apr 2026)
-    this.seasons.set('ncaam_2025-26', {
-      id: 'ncaam_2025-26',
-      leagueId: 'ncaam',
-      seasonLabel: '2025-26',
-      startDate: '2025-11-04',       // Regular season start
-      endDate: '2026-03-08',         // Regular season end (Selection Sunday)
-      preseasonStart: '2025-11-04',  // Same as regular season
-      postseasonEnd: '2026-04-06',   // National Championship
-      status: 'regular',
-      scheduleSource: 'espn',
-    });
-    
-    // NHL 2025-26 season (Oct 2025 - Jun 2026)
-    this.seasons.set('nhl_2025-26', {
-      id: 'nhl_2025-26',
-      leagueId: 'nhl',
-      seasonLabel: '2025-26',
-      startDate: '2025-10-07',       // Regular season start
-      endDate: '2026-04-17',         // Regular season end
-      preseasonStart: '2025-09-21',  // Preseason starts
-      postseasonEnd: '2026-06-20',   // Stanley Cup Finals end
-      status: 'regular',
-      scheduleSource: 'espn',
-    });
-    
-    // Load persisted data if available
-    this.loadFromDisk();
-  }
-  
-  // Persistence methods
-  private loadFromDisk(): void {
-    try {
-      if (fs.existsSync(SCHEDULE_FILE)) {
-        const data = JSON.parse(fs.readFileSync(SCHEDULE_FILE, 'utf-8'));
-        
-        // Load games
-        if (data.games) {
-          for (const game of data.games) {
-            // Convert lastRefreshedAt back to Date
-            game.lastRefreshedAt = new Date(game.lastRefreshedAt);
-            this.games.set(game.id, game);
-          }
-        }
-        
-        // Load gameDates
-        if (data.gameDates) {
-          for (const gd of data.gameDates) {
-            // Convert lastRefreshedAt back to Date
-            gd.lastRefreshedAt = new Date(gd.lastRefreshedAt);
-            this.gameDates.set(`${gd.leagueId}:${gd.scoreboardDate}`, gd);
-          }
-        }
-        
-        // Load seasons (merge with defaults)
-        if (data.seasons) {
-          for (const season of data.seasons) {
-            if (season.lastScheduleSyncAt) {
-              season.lastScheduleSyncAt = new Date(season.lastScheduleSyncAt);
-            }
-            this.seasons.set(season.id, season);
-          }
-        }
-        
-        logger.info('ScheduleStore: Loaded persisted data', {
-          games: this.games.size,
-          gameDates: this.gameDates.size,
-          seasons: this.seasons.size,
-        });
-      }
-    } catch (error) {
-      logger.error('ScheduleStore: Failed to load persisted data', { error });
-    }
-  }
-  
-  saveToDisk(): void {
-    if (!this.persistenceEnabled) return;
-    
-    try {
-      // Ensure data directory exists
-      if (!fs.existsSync(DATA_DIR)) {
-        fs.mkdirSync(DATA_DIR, { recursive: true });
-      }
-      
-      const data = {
-        savedAt: new Date().toISOString(),
-        seasons: Array.from(this.seasons.values()),
-        games: Array.from(this.games.values()),
-        gameDates: Array.from(this.gameDates.values()),
-      };
-      
-      fs.writeFileSync(SCHEDULE_FILE, JSON.stringify(data, null, 2));
-      
-      logger.debug('ScheduleStore: Saved to disk', {
-        games: this.games.size,
-        gameDates: this.gameDates.size,
-      });
-    } catch (error) {
-      logger.error('ScheduleStore: Failed to save to disk', { error });
-    }
-  }
-  
-  // Season methods
-  getSeason(seasonId: string): LeagueSeason | undefined {
-    return this.seasons.get(seasonId);
-  }
-  
-  getSeasonForDate(leagueId: string, date: string): LeagueSeason | undefined {
-    for (const season of this.seasons.values()) {
-      if (season.leagueId !== leagueId) continue;
-      
-      const dateObj = new Date(date);
-      const seasonStart = new Date(season.preseasonStart || season.startDate);
-      const seasonEnd = new Date(season.postseasonEnd || season.endDate);
-      
-      if (dateObj >= seasonStart && dateObj <= seasonEnd) {
-        return season;
-      }
-    }
-    return undefined;
-  }
-  
-  updateSeasonSyncTime(seasonId: string): void {
-    const season = this.seasons.get(seasonId);
-    if (season) {
-      season.lastScheduleSyncAt = new Date();
-    }
-  }
-  
-  // Game methods
-  upsertGame(game: GameRecord, skipPersist: boolean = false): boolean {
-    const existing = this.games.get(game.id);
-    const isNew = !existing;
-    
-    // Merge external_ids if updating
-    if (existing) {
-      game.externalIds = { ...existing.externalIds, ...game.externalIds };
-    }
-    
-    this.games.set(game.id, game);
-    
-    // Don't persist on every upsert during bulk operations (for performance)
-    // Caller should call saveToDisk() after bulk operations
-    return isNew;
-  }
-  
-  getGame(gameId: string): GameRecord | undefined {
-    return this.games.get(gameId);
-  }
-  
-  getGamesForDate(leagueId: string, scoreboardDate: string): GameRecord[] {
-    const results: GameRecord[] = [];
-    for (const game of this.games.values()) {
-      if (game.leagueId === leagueId && game.scoreboardDate === scoreboardDate) {
-        results.push(game);
-      }
-    }
-    return results;
-  }
-  
-  getAllGames(): GameRecord[] {
-    return Array.from(this.games.values());
-  }
-  
-  // GameDates methods
-  getGameDateEntry(leagueId: string, scoreboardDate: string): GameDateEntry | undefined {
-    return this.gameDates.get(`${leagueId}:${scoreboardDate}`);
-  }
-  
-  upsertGameDateEntry(entry: GameDateEntry): void {
-    this.gameDates.set(`${entry.leagueId}:${entry.scoreboardDate}`, entry);
-  }
-  
-  getAllGameDates(): GameDateEntry[] {
-    return Array.from(this.gameDates.values());
-  }
-  
-  // Helper to get key for game date
-  private getGameDateKey(leagueId: string, date: string): string {
-    return `${leagueId}:${date}`;
-  }
-  
-  // Stats
-  getStats(): { seasons: number; games: number; gameDates: number } {
-    return {
-      seasons: this.seasons.size,
-      games: this.games.size,
-      gameDates: this.gameDates.size,
-    };
-  }
-}
-
-// Global store instance
-const store = new ScheduleStore();
-
 // =====================
 // Utility Functions
 // =====================
@@ -401,6 +114,8 @@ function transformToGameRecord(game: Game, seasonId: string, league: string): Ga
     awayTeamId: game.awayTeam.id,
     homeScore: game.homeTeam.score,
     awayScore: game.awayTeam.score,
+    homeLinescore: game.homeTeam.linescore,
+    awayLinescore: game.awayTeam.linescore,
     status: game.status,
     period: game.period,
     clock: game.clock,
@@ -410,11 +125,24 @@ function transformToGameRecord(game: Game, seasonId: string, league: string): Ga
   };
 }
 
+/**
+ * Team rows for a scoreboard game's competitors
+ */
+function transformToTeamRecords(game: Game, league: string): TeamRecord[] {
+  return [game.homeTeam, game.awayTeam].map(team => ({
+    id: team.id,
+    leagueId: league,
+    name: team.name,
+    city: team.city || undefined,
+    abbreviation: team.abbrev || undefined,
+  }));
+}
+
 /**
  * Rebuild game_dates entry from games for a specific date
  */
-function rebuildGameDateEntry(leagueId: string, seasonId: string, scoreboardDate: string): GameDateEntry {
-  const games = store.getGamesForDate(leagueId, scoreboardDate);
+async function rebuildGameDateEntry(leagueId: string, seasonId: string, scoreboardDate: string): Promise<GameDateEntry> {
+  const games = await getScheduleStore().getGamesForDate(leagueId, scoreboardDate);
   
   const startTimes = games
     .map(g => g.startTimeUtc)
@@ -435,42 +163,42 @@ function rebuildGameDateEntry(leagueId: string, seasonId: string, scoreboardDate
 }
 
 // =====================
-// PostgreSQL Upsert
+// Core Sync Functions
 // =====================
 
-async function upsertGameToPg(record: GameRecord): Promise<void> {
-  await query(
-    `INSERT INTO games (
-      id, league_id, season_id, game_date, scoreboard_date,
-      start_time_utc, home_team_id, away_team_id,
-      home_score, away_score, status, period, clock,
-      venue_id, external_ids, last_refreshed_at
-    ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16)
-    ON CONFLICT (id) DO UPDATE SET
-      start_time_utc = EXCLUDED.start_time_utc,
-      home_score = EXCLUDED.home_score,
-      away_score = EXCLUDED.away_score,
-      status = EXCLUDED.status,
-      period = EXCLUDED.period,
-      clock = EXCLUDED.clock,
-      external_ids = EXCLUDED.external_ids,
-      last_refreshed_at = EXCLUDED.last_refreshed_at,
-      updated_at = NOW()`,
-    [
-      record.id, record.leagueId, record.seasonId,
-      record.gameDate, record.scoreboardDate, record.startTimeUtc,
-      record.homeTeamId, record.awayTeamId,
-      record.homeScore ?? null, record.awayScore ?? null,
-      record.status, record.period ?? null, record.clock ?? null,
-      record.venueId ?? null, JSON.stringify(record.externalIds),
-      record.lastRefreshedAt,
-    ]
-  );
-}
+/**
+ * Upsert a date's scoreboard games (with their teams) and rebuild its
+ * game_dates entry. Errors are recorded per game and don't stop the rest.
+ */
+export async function storeScoreboardGames(
+  league: string,
+  date: string,
+  seasonId: string,
+  games: Game[]
+): Promise<{ gamesUpserted: number; errors: string[] }> {
+  const store = getScheduleStore();
+  let gamesUpserted = 0;
+  const errors: string[] = [];
 
-// =====================
-// Core Sync Functions
-// =====================
+  for (const game of games) {
+    try {
+      const record = transformToGameRecord(game, seasonId, league);
+      const isNew = await store.upsertGame(record, transformToTeamRecords(game, league));
+      if (isNew) {
+        gamesUpserted++;
+      }
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : String(error);
+      errors.push(`Game ${game.id}: ${errMsg}`);
+    }
+  }
+
+  // For schedule sync, we're fetching by date
+  const gameDateEntry = await rebuildGameDateEntry(league, seasonId, date);
+  await store.upsertGameDateEntry(gameDateEntry);
+
+  return { gamesUpserted, errors };
+}
 
 /**
  * Sync a single date from ESPN
@@ -491,9 +219,12 @@ async function syncDate(
   };
   
   // Check rate limiter - use 'reserve' bucket for bulk operations
+  // (only relevant when the league is served by live ESPN)
   const rateLimiter = getESPNRateLimiter();
   const bucket: ESPNBudgetBucket = bulkMode ? 'reserve' : 'scoreboard';
-  const canRequest = rateLimiter.canMakeRequest(bucket);
+  const canRequest = getProviderName(league) === 'espn'
+    ? rateLimiter.canMakeRequest(bucket)
+    : { allowed: true, reason: undefined };
   
   if (!canRequest.allowed) {
     result.skipped = true;
@@ -505,12 +236,11 @@ async function syncDate(
   try {
     // Check cache first
     const cacheKey = cacheKeys.scoreboard(league, date);
-    let games = await getCached<ScoreboardResponse>(cacheKey);
+    let games = (await getCachedResult<ScoreboardResponse>(cacheKey))?.data;
     
     if (!games) {
-      // Fetch from ESPN
-      const adapter = getESPNAdapter();
-      const fetchedGames = await adapter.fetchScoreboard(league, date);
+      // Fetch from the league's providers
+      const { data: fetchedGames, provider } = await fetchForLeague(league, p => p.fetchScoreboard(league, date));
       
       // Cache the response
       const response: ScoreboardResponse = {
@@ -519,40 +249,15 @@ async function syncDate(
         lastUpdated: new Date().toISOString(),
         games: fetchedGames,
       };
-      await setCached(cacheKey, response, 24 * 60 * 60); // 24h TTL for schedule data
+      await setCachedResult(cacheKey, { data: response, provider }, 24 * 60 * 60); // 24h TTL for schedule data
       games = response;
     }
     
     result.gamesFound = games.games.length;
     
-    // Upsert each game
-    for (const game of games.games) {
-      try {
-        const record = transformToGameRecord(game, seasonId, league);
-        const isNew = store.upsertGame(record);
-        if (isNew) {
-          result.gamesUpserted++;
-        }
-
-        // PostgreSQL upsert (log errors, don't crash sync)
-        try {
-          await upsertGameToPg(record);
-        } catch (pgError) {
-          logger.error('scheduleSync: PG upsert failed for game', {
-            gameId: record.id,
-            error: pgError instanceof Error ? pgError.message : String(pgError),
-          });
-        }
-      } catch (error) {
-        const errMsg = error instanceof Error ? error.message : String(error);
-        result.errors.push(`Game ${game.id}: ${errMsg}`);
-      }
-    }
-    
-    // Update game_dates entry
-    const scoreboardDate = date; // For schedule sync, we're fetching by date
-    const gameDateEntry = rebuildGameDateEntry(league, seasonId, scoreboardDate);
-    store.upsertGameDateEntry(gameDateEntry);
+    const stored = await storeScoreboardGames(league, date, seasonId, games.games);
+    result.gamesUpserted = stored.gamesUpserted;
+    result.errors.push(...stored.errors);
     
     logger.debug('ScheduleSync: Synced date', {
       date,
@@ -577,8 +282,9 @@ export async function runIncrementalSync(
   league: string = 'nba',
   daysBack: number = 7,
   daysForward: number = 30,
-  seasonId: string = 'nba_2025-26'
+  requestedSeasonId?: string
 ): Promise<ScheduleSyncSummary> {
+  const seasonId = requestedSeasonId ?? await getCurrentSeasonId(league);
   const startTime = new Date();
   const results: ScheduleSyncResult[] = [];
   const errors: string[] = [];
@@ -603,15 +309,16 @@ export async function runIncrementalSync(
   );
   
   // Get season boundaries
-  const season = store.getSeason(seasonId);
-  if (!season) {
-    errors.push(`Season not found: ${seasonId}`);
+  const store = getScheduleStore();
+  const season = seasonId ? await store.getSeason(seasonId) : undefined;
+  if (!seasonId || !season) {
+    errors.push(seasonId ? `Season not found: ${seasonId}` : `No current season for league: ${league}`);
     return {
       startTime: startTime.toISOString(),
       endTime: new Date().toISOString(),
       durationMs: Date.now() - startTime.getTime(),
       mode: 'incremental',
-      seasonId,
+      seasonId: seasonId ?? null,
       datesProcessed: 0,
       totalGamesFound: 0,
       totalGamesUpserted: 0,
@@ -671,10 +378,10 @@ export async function runIncrementalSync(
   }
   
   // Update season sync time
-  store.updateSeasonSyncTime(seasonId);
+  await store.updateSeasonSyncTime(seasonId);
   
-  // Persist to disk after sync
-  store.saveToDisk();
+  // Persist buffered writes after sync (JSON backend)
+  await store.flush();
   
   const endTime = new Date();
   const summary: ScheduleSyncSummary = {
@@ -708,22 +415,23 @@ export async function runIncrementalSync(
  */
 export async function runFullSeasonSync(
   league: string = 'nba',
-  seasonId: string = 'nba_2025-26'
+  requestedSeasonId?: string
 ): Promise<ScheduleSyncSummary> {
+  const seasonId = requestedSeasonId ?? await getCurrentSeasonId(league);
   const startTime = new Date();
   const errors: string[] = [];
   
   logger.info('ScheduleSync: Starting full season sync', { league, seasonId });
   
-  const season = store.getSeason(seasonId);
-  if (!season) {
-    errors.push(`Season not found: ${seasonId}`);
+  const season = seasonId ? await getScheduleStore().getSeason(seasonId) : undefined;
+  if (!seasonId || !season) {
+    errors.push(seasonId ? `Season not found: ${seasonId}` : `No current season for league: ${league}`);
     return {
       startTime: startTime.toISOString(),
       endTime: new Date().toISOString(),
       durationMs: Date.now() - startTime.getTime(),
       mode: 'bulk',
-      seasonId,
+      seasonId: seasonId ?? null,
       datesProcessed: 0,
       totalGamesFound: 0,
       totalGamesUpserted: 0,
@@ -750,6 +458,29 @@ export async function runFullSeasonSync(
   return runIncrementalSync(league, daysBack, daysForward, seasonId);
 }
 
+/**
+ * Daily sync of every league with player game logs, so games reach the games
+ * table and turn final there for the hourly player ingestion job
+ */
+export async function runDailyScheduleSync(
+  leagues: string[] = Object.keys(PLAYER_GAME_LOG_TABLES)
+): Promise<ScheduleSyncSummary[]> {
+  const summaries: ScheduleSyncSummary[] = [];
+
+  for (const league of leagues) {
+    try {
+      summaries.push(await runIncrementalSync(league, 7, 30));
+    } catch (error) {
+      logger.error('ScheduleSync: Daily sync failed', {
+        league,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return summaries;
+}
+
 /**
  * Schedule the sync job to run daily at 04:00 UTC
  */
@@ -784,11 +515,11 @@ export function scheduleScheduleSync(): NodeJS.Timeout {
   
   // Schedule first run
   const firstTimeout = setTimeout(async () => {
-    await runIncrementalSync('nba', 7, 30, 'nba_2025-26');
+    await runDailyScheduleSync();
     
-    // Then schedule recurring runs every 24 hours
+    // Then schedule recurring runs every 24 hours (season resolved from league_seasons each run)
     setInterval(async () => {
-      await runIncrementalSync('nba', 7, 30, 'nba_2025-26');
+      await runDailyScheduleSync();
     }, ONE_DAY);
     
   }, msUntilNextRun);
@@ -800,52 +531,55 @@ export function scheduleScheduleSync(): NodeJS.Timeout {
 // Export Store Access (for other modules)
 // =====================
 
-export function getScheduleStore() {
-  return store;
-}
+export { getScheduleStore } from './scheduleStore';
 
 /**
- * Force save the schedule store to disk
+ * Force persist the schedule store (writes the JSON file; no-op for Postgres)
  */
-export function saveScheduleStore(): void {
-  store.saveToDisk();
+export async function saveScheduleStore(): Promise<void> {
+  await getScheduleStore().flush();
 }
 
-export function getLeagueSeason(seasonId: string): LeagueSeason | undefined {
-  return store.getSeason(seasonId);
+export async function getLeagueSeason(seasonId: string): Promise<LeagueSeason | undefined> {
+  return getScheduleStore().getSeason(seasonId);
+}
+
+/**
+ * ID of the league's season covering today (from league_seasons), if any
+ */
+export async function getCurrentSeasonId(leagueId: string): Promise<string | undefined> {
+  const today = new Date().toISOString().split('T')[0];
+  return (await getScheduleStore().getSeasonForDate(leagueId, today))?.id;
 }
 
-export function getSeasonForDate(leagueId: string, date: string): LeagueSeason | undefined {
-  return store.getSeasonForDate(leagueId, date);
+export async function getSeasonForDate(leagueId: string, date: string): Promise<LeagueSeason | undefined> {
+  return getScheduleStore().getSeasonForDate(leagueId, date);
 }
 
-export function getGameDateEntry(leagueId: string, date: string): GameDateEntry | undefined {
-  return store.getGameDateEntry(leagueId, date);
+export async function getGameDateEntry(leagueId: string, date: string): Promise<GameDateEntry | undefined> {
+  return getScheduleStore().getGameDateEntry(leagueId, date);
 }
 
-export function getGamesForDate(leagueId: string, date: string): GameRecord[] {
-  return store.getGamesForDate(leagueId, date);
+export async function getGamesForDate(leagueId: string, date: string): Promise<GameRecord[]> {
+  return getScheduleStore().getGamesForDate(leagueId, date);
 }
 
-export function getScheduleSyncStats(): {
-  seasons: number;
-  games: number;
-  gameDates: number;
-} {
-  return store.getStats();
+export async function getScheduleSyncStats(): Promise<ScheduleStoreStats & { backend: string }> {
+  const store = getScheduleStore();
+  return { backend: store.backend, ...(await store.getStats()) };
 }
 
 /**
  * Check if a date is within the active season
  */
-export function isDateInSeason(leagueId: string, date: string): boolean {
-  return store.getSeasonForDate(leagueId, date) !== undefined;
+export async function isDateInSeason(leagueId: string, date: string): Promise<boolean> {
+  return (await getScheduleStore().getSeasonForDate(leagueId, date)) !== undefined;
 }
 
 /**
  * Check if a date has games (based on game_dates index)
  */
-export function dateHasGames(leagueId: string, date: string): boolean {
-  const entry = store.getGameDateEntry(leagueId, date);
+export async function dateHasGames(leagueId: string, date: string): Promise<boolean> {
+  const entry = await getScheduleStore().getGameDateEntry(leagueId, date);
   return entry !== undefined && entry.gameCount > 0;
 }
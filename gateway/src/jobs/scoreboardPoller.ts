@@ -0,0 +1,278 @@
+/**
+ * Scoreboard Poller
+ *
+ * One shared poller per league/date feeds every live-stream subscriber,
+ * so N connected clients cost a single upstream scoreboard fetch per cycle.
+ *
+ * - Fetches share the scoreboard route's cache key and dedupe key
+ * - Poll cadence follows getScoreboardTTL (60s while games are live)
+ * - Subscribers get a full snapshot on connect, then score/clock/status diffs
+ * - The poller stops as soon as its last subscriber disconnects
+ */
+
+import { fetchForLeague, ProviderResult } from '../providers';
+import { getCachedResult, setCachedResult, cacheKeys } from '../cache/redis';
+import { getRequestDeduplicator } from '../cache/RequestDeduplicator';
+import { getScoreboardTTL, DEFAULT_CACHE_TTLS } from '../cache/CachePolicy';
+import { Game, ScoreboardResponse } from '../types';
+import { logger } from '../utils/logger';
+
+// =====================
+// Types
+// =====================
+
+export interface GameDiff {
+  gameId: string;
+  status?: Game['status'];
+  period?: string;
+  clock?: string;
+  overtimePeriods?: number;
+  homeScore?: number;
+  awayScore?: number;
+}
+
+export type ScoreboardStreamEvent =
+  | { type: 'snapshot'; data: ScoreboardResponse }
+  | { type: 'update'; data: { league: string; date: string; lastUpdated: string; changes: GameDiff[]; added: Game[] } }
+  | { type: 'error'; data: { message: string; retryInMs: number } };
+
+export type ScoreboardListener = (event: ScoreboardStreamEvent) => void;
+
+// =====================
+// Diffing
+// =====================
+
+/**
+ * Compare two versions of a game, returning only the fields that changed
+ */
+export function diffGame(previous: Game, current: Game): GameDiff | null {
+  const diff: GameDiff = { gameId: current.id };
+  let changed = false;
+
+  if (previous.status !== current.status) {
+    diff.status = current.status;
+    changed = true;
+  }
+  if (previous.period !== current.period) {
+    diff.period = current.period;
+    changed = true;
+  }
+  if (previous.clock !== current.clock) {
+    diff.clock = current.clock;
+    changed = true;
+  }
+  if (previous.overtimePeriods !== current.overtimePeriods) {
+    diff.overtimePeriods = current.overtimePeriods;
+    changed = true;
+  }
+  if (previous.homeTeam.score !== current.homeTeam.score) {
+    diff.homeScore = current.homeTeam.score;
+    changed = true;
+  }
+  if (previous.awayTeam.score !== current.awayTeam.score) {
+    diff.awayScore = current.awayTeam.score;
+    changed = true;
+  }
+
+  return changed ? diff : null;
+}
+
+/**
+ * Field-level changes to games on both scoreboards, plus games that are new
+ */
+export function diffScoreboard(
+  previous: ScoreboardResponse,
+  current: ScoreboardResponse
+): { changes: GameDiff[]; added: Game[] } {
+  const previousById = new Map(previous.games.map(game => [game.id, game]));
+  const changes: GameDiff[] = [];
+  const added: Game[] = [];
+
+  for (const game of current.games) {
+    const before = previousById.get(game.id);
+    if (!before) {
+      added.push(game);
+      continue;
+    }
+    const diff = diffGame(before, game);
+    if (diff) changes.push(diff);
+  }
+
+  return { changes, added };
+}
+
+// =====================
+// Poller
+// =====================
+
+class ScoreboardPoller {
+  private listeners = new Set<ScoreboardListener>();
+  private latest: ScoreboardResponse | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private stopped = false;
+
+  constructor(
+    readonly league: string,
+    readonly date: string,
+    private readonly onIdle: () => void
+  ) {}
+
+  subscribe(listener: ScoreboardListener): () => void {
+    this.listeners.add(listener);
+
+    if (this.latest) {
+      listener({ type: 'snapshot', data: this.latest });
+    }
+
+    // First subscriber starts the poll loop
+    if (this.listeners.size === 1 && !this.timer) {
+      void this.poll();
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.stop();
+      }
+    };
+  }
+
+  get subscriberCount(): number {
+    return this.listeners.size;
+  }
+
+  private stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.onIdle();
+    logger.debug('ScoreboardPoller: Stopped', { league: this.league, date: this.date });
+  }
+
+  private async poll(): Promise<void> {
+    let nextPollMs = DEFAULT_CACHE_TTLS.liveScoreboard * 1000;
+
+    try {
+      const response = await this.fetchScoreboard();
+      nextPollMs = getScoreboardTTL(response.games, this.date) * 1000;
+      this.publish(response);
+    } catch (error) {
+      logger.warn('ScoreboardPoller: Poll failed', {
+        league: this.league,
+        date: this.date,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      this.broadcast({
+        type: 'error',
+        data: { message: 'Scoreboard temporarily unavailable', retryInMs: nextPollMs },
+      });
+    }
+
+    if (!this.stopped) {
+      this.timer = setTimeout(() => void this.poll(), nextPollMs);
+    }
+  }
+
+  /**
+   * Read through the scoreboard cache, sharing in-flight fetches with the REST route
+   */
+  private async fetchScoreboard(): Promise<ScoreboardResponse> {
+    const cacheKey = cacheKeys.scoreboard(this.league, this.date);
+    const cached = await getCachedResult<ScoreboardResponse>(cacheKey);
+    if (cached) {
+      return cached.data;
+    }
+
+    const { data: games, provider } = await getRequestDeduplicator().dedupe<ProviderResult<Game[]>>(
+      `scoreboard:${this.league}:${this.date}`,
+      () => fetchForLeague(this.league, provider => provider.fetchScoreboard(this.league, this.date))
+    );
+
+    const response: ScoreboardResponse = {
+      league: this.league,
+      date: this.date,
+      lastUpdated: new Date().toISOString(),
+      games,
+    };
+
+    await setCachedResult(cacheKey, { data: response, provider }, getScoreboardTTL(games, this.date));
+    return response;
+  }
+
+  private publish(current: ScoreboardResponse): void {
+    const previous = this.latest;
+    this.latest = current;
+
+    if (!previous) {
+      this.broadcast({ type: 'snapshot', data: current });
+      return;
+    }
+
+    const { changes, added } = diffScoreboard(previous, current);
+
+    if (changes.length > 0 || added.length > 0) {
+      this.broadcast({
+        type: 'update',
+        data: {
+          league: this.league,
+          date: this.date,
+          lastUpdated: current.lastUpdated,
+          changes,
+          added,
+        },
+      });
+    }
+  }
+
+  private broadcast(event: ScoreboardStreamEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.warn('ScoreboardPoller: Listener failed', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+}
+
+// =====================
+// Poller Registry
+// =====================
+
+const pollers = new Map<string, ScoreboardPoller>();
+
+/**
+ * Subscribe to live scoreboard updates for a league/date.
+ * Returns an unsubscribe function.
+ */
+export function subscribeToScoreboard(
+  league: string,
+  date: string,
+  listener: ScoreboardListener
+): () => void {
+  const key = `${league}:${date}`;
+  let poller = pollers.get(key);
+
+  if (!poller) {
+    poller = new ScoreboardPoller(league, date, () => pollers.delete(key));
+    pollers.set(key, poller);
+    logger.debug('ScoreboardPoller: Started', { league, date });
+  }
+
+  return poller.subscribe(listener);
+}
+
+/**
+ * Active pollers and their subscriber counts
+ */
+export function getScoreboardPollerStats(): Array<{ league: string; date: string; subscribers: number }> {
+  return Array.from(pollers.values()).map(poller => ({
+    league: poller.league,
+    date: poller.date,
+    subscribers: poller.subscriberCount,
+  }));
+}
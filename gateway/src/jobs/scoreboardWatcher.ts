@@ -0,0 +1,138 @@
+/**
+ * Scoreboard Watcher
+ *
+ * Keeps background consumers (push notifications, webhooks) subscribed to
+ * the shared scoreboard poller for today's slate (and yesterday's, until its
+ * games finish) in the leagues they care about. Each watch keeps the latest
+ * version of every game by applying the poller's diffs.
+ */
+
+import { Game } from '../types';
+import { logger } from '../utils/logger';
+import { dateHasGames, getScoreboardDate } from './scheduleSync';
+import { GameDiff, ScoreboardStreamEvent, subscribeToScoreboard } from './scoreboardPoller';
+
+const ONE_DAY = 24 * 60 * 60 * 1000;
+
+/** Leagues with team games on the scoreboard (golf has no matchups) */
+export const WATCHED_LEAGUES = ['nba', 'wnba', 'ncaam', 'ncaaw', 'nfl', 'ncaaf', 'nhl', 'mlb'];
+
+export interface ScoreboardWatch {
+  league: string;
+  date: string;
+  /** Latest version of each game, updated before the handler runs */
+  games: Map<string, Game>;
+  unsubscribe: () => void;
+}
+
+export interface ScoreboardWatchHandler {
+  onEvent(watch: ScoreboardWatch, event: ScoreboardStreamEvent): void;
+  onStop?(watch: ScoreboardWatch): void;
+}
+
+/**
+ * Apply a poller diff to the previous version of a game
+ */
+export function applyGameDiff(game: Game, diff: GameDiff): Game {
+  return {
+    ...game,
+    status: diff.status ?? game.status,
+    period: diff.period ?? game.period,
+    clock: diff.clock ?? game.clock,
+    overtimePeriods: diff.overtimePeriods ?? game.overtimePeriods,
+    homeTeam: { ...game.homeTeam, score: diff.homeScore ?? game.homeTeam.score },
+    awayTeam: { ...game.awayTeam, score: diff.awayScore ?? game.awayTeam.score },
+  };
+}
+
+export class ScoreboardWatcher {
+  private watches = new Map<string, ScoreboardWatch>();
+  /** Today's slates already watched to the end, so refreshes don't restart them */
+  private completed = new Set<string>();
+
+  constructor(
+    private readonly name: string,
+    /** Whether anyone wants events for a league right now */
+    private readonly shouldWatch: (league: string) => Promise<boolean>,
+    private readonly handler: ScoreboardWatchHandler
+  ) {}
+
+  /**
+   * Start watches for today's slates and stop finished, stale or unwanted ones
+   */
+  async refresh(): Promise<void> {
+    const now = Date.now();
+    const today = getScoreboardDate(new Date(now).toISOString());
+    const yesterday = getScoreboardDate(new Date(now - ONE_DAY).toISOString());
+    const wanted = new Map<string, boolean>();
+
+    for (const league of WATCHED_LEAGUES) {
+      try {
+        wanted.set(league, await this.shouldWatch(league));
+      } catch (error) {
+        logger.warn(`${this.name}: Failed to check league`, {
+          league,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    for (const [key, watch] of this.watches) {
+      const allFinal = watch.games.size > 0 && [...watch.games.values()].every(game => game.status === 'final');
+      const stale = watch.date !== today && watch.date !== yesterday;
+      if (allFinal || stale || wanted.get(watch.league) === false) {
+        this.stop(key, watch);
+        if (allFinal) this.completed.add(key);
+      }
+    }
+
+    for (const key of this.completed) {
+      if (!key.endsWith(`:${today}`)) this.completed.delete(key);
+    }
+
+    for (const league of WATCHED_LEAGUES) {
+      const key = `${league}:${today}`;
+      if (!wanted.get(league) || this.watches.has(key) || this.completed.has(key)) continue;
+      try {
+        if (await dateHasGames(league, today)) {
+          this.start(league, today);
+        }
+      } catch (error) {
+        logger.warn(`${this.name}: Failed to check game dates`, {
+          league,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  private start(league: string, date: string): void {
+    const watch: ScoreboardWatch = { league, date, games: new Map(), unsubscribe: () => undefined };
+    this.watches.set(`${league}:${date}`, watch);
+    watch.unsubscribe = subscribeToScoreboard(league, date, event => this.handle(watch, event));
+    logger.info(`${this.name}: Watching scoreboard`, { league, date });
+  }
+
+  private stop(key: string, watch: ScoreboardWatch): void {
+    watch.unsubscribe();
+    this.watches.delete(key);
+    this.handler.onStop?.(watch);
+    logger.info(`${this.name}: Stopped watching scoreboard`, { league: watch.league, date: watch.date });
+  }
+
+  private handle(watch: ScoreboardWatch, event: ScoreboardStreamEvent): void {
+    if (event.type === 'snapshot') {
+      watch.games = new Map(event.data.games.map(game => [game.id, game]));
+    } else if (event.type === 'update') {
+      for (const game of event.data.added) {
+        watch.games.set(game.id, game);
+      }
+      for (const diff of event.data.changes) {
+        const game = watch.games.get(diff.gameId);
+        if (game) watch.games.set(diff.gameId, applyGameDiff(game, diff));
+      }
+    }
+
+    this.handler.onEvent(watch, event);
+  }
+}
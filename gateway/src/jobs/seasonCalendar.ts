@@ -0,0 +1,223 @@
+/**
+ * Season Calendar Job
+ *
+ * Keeps league_seasons current without code changes:
+ * - Discovery: reads season phase boundaries from ESPN's season calendar
+ *   and upserts them as league seasons (seasons edited by an admin are kept)
+ * - Status: flips each season between preseason/regular/postseason/offseason
+ *   as dates pass
+ *
+ * Schedule: Daily at 03:00 UTC (before schedule sync at 04:00 UTC)
+ */
+
+import { fetchSeasonCalendarForLeague } from '../providers';
+import { SeasonCalendar } from '../types';
+import { computeSeasonStatus, getCurrentSeason } from '../utils/seasonUtils';
+import { logger } from '../utils/logger';
+import { getScheduleStore, LeagueSeason } from './scheduleStore';
+
+// Team-sport leagues with a season calendar
+export const SEASON_LEAGUES = ['nba', 'nfl', 'ncaaf', 'ncaam', 'nhl', 'mlb', 'wnba', 'ncaaw'];
+
+// =====================
+// Types
+// =====================
+
+export interface SeasonDiscoveryResult {
+  league: string;
+  discovered: string[];
+  skippedManual: string[];
+  errors: string[];
+}
+
+export interface SeasonStatusChange {
+  seasonId: string;
+  from: LeagueSeason['status'];
+  to: LeagueSeason['status'];
+}
+
+// =====================
+// Core Functions
+// =====================
+
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+/**
+ * Build a league season from a calendar. Returns null when the calendar has
+ * no regular season (not yet published).
+ */
+export function calendarToLeagueSeason(calendar: SeasonCalendar, date: string = today()): LeagueSeason | null {
+  const phase = (name: string) => calendar.phases.find(p => p.phase === name);
+  const regular = phase('regular');
+  if (!regular) {
+    return null;
+  }
+
+  const season: LeagueSeason = {
+    id: `${calendar.league}_${calendar.label}`,
+    leagueId: calendar.league,
+    seasonLabel: calendar.label,
+    startDate: regular.startDate,
+    endDate: regular.endDate,
+    preseasonStart: phase('preseason')?.startDate,
+    postseasonEnd: phase('postseason')?.endDate,
+    status: 'offseason',
+    scheduleSource: 'espn',
+  };
+  season.status = computeSeasonStatus(season, date);
+  return season;
+}
+
+/**
+ * The league's current season on a date: the one it falls in, or during the
+ * offseason the latest season that has already started
+ */
+export function pickCurrentSeason(seasons: LeagueSeason[], league: string, date: string): LeagueSeason | undefined {
+  return seasons
+    .filter(season => season.leagueId === league && (season.preseasonStart ?? season.startDate) <= date)
+    .sort((a, b) => b.startDate.localeCompare(a.startDate))[0];
+}
+
+/**
+ * Start year of the league's current season from league_seasons. The
+ * month-based guess only applies while no seasons are stored for the league.
+ */
+export async function getCurrentSeasonYear(league: string, date: string = today()): Promise<number> {
+  const season = pickCurrentSeason(await getScheduleStore().getAllSeasons(), league, date);
+  return season ? parseInt(season.seasonLabel.slice(0, 4), 10) : getCurrentSeason();
+}
+
+/**
+ * Discover the current and upcoming season for a league.
+ * Candidate ESPN years are this year and next, which covers split-year
+ * seasons (keyed by the year they end in) and single-year seasons alike.
+ */
+export async function discoverLeagueSeasons(league: string): Promise<SeasonDiscoveryResult> {
+  const store = getScheduleStore();
+  const result: SeasonDiscoveryResult = { league, discovered: [], skippedManual: [], errors: [] };
+  const year = new Date().getUTCFullYear();
+
+  for (const espnYear of [year, year + 1]) {
+    try {
+      const calendar = await fetchSeasonCalendarForLeague(league, espnYear);
+      const season = calendarToLeagueSeason(calendar);
+      if (!season) {
+        logger.debug('SeasonCalendar: No regular season published yet', { league, espnYear });
+        continue;
+      }
+
+      const existing = await store.getSeason(season.id);
+      if (existing?.scheduleSource === 'manual') {
+        result.skippedManual.push(season.id);
+        continue;
+      }
+
+      await store.upsertSeason({ ...season, lastScheduleSyncAt: existing?.lastScheduleSyncAt });
+      result.discovered.push(season.id);
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : String(error);
+      result.errors.push(`${league} ${espnYear}: ${errMsg}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Discover seasons for every league, then persist
+ */
+export async function runSeasonDiscovery(leagues: string[] = SEASON_LEAGUES): Promise<SeasonDiscoveryResult[]> {
+  logger.info('SeasonCalendar: Starting discovery', { leagues });
+
+  const results: SeasonDiscoveryResult[] = [];
+  for (const league of leagues) {
+    results.push(await discoverLeagueSeasons(league));
+  }
+  await getScheduleStore().flush();
+
+  logger.info('SeasonCalendar: Completed discovery', {
+    discovered: results.flatMap(r => r.discovered),
+    skippedManual: results.flatMap(r => r.skippedManual),
+    errorCount: results.reduce((sum, r) => sum + r.errors.length, 0),
+  });
+
+  return results;
+}
+
+/**
+ * Flip season statuses that no longer match the date
+ */
+export async function refreshSeasonStatuses(date: string = today()): Promise<SeasonStatusChange[]> {
+  const store = getScheduleStore();
+  const changes: SeasonStatusChange[] = [];
+
+  for (const season of await store.getAllSeasons()) {
+    const status = computeSeasonStatus(season, date);
+    if (status !== season.status) {
+      await store.upsertSeason({ ...season, status });
+      changes.push({ seasonId: season.id, from: season.status, to: status });
+    }
+  }
+
+  if (changes.length > 0) {
+    await store.flush();
+    logger.info('SeasonCalendar: Season statuses changed', { date, changes });
+  }
+
+  return changes;
+}
+
+/**
+ * Schedule the season calendar job daily at 03:00 UTC.
+ * Statuses are refreshed immediately on startup; discovery also runs
+ * immediately if no seasons are stored yet.
+ */
+export function scheduleSeasonCalendar(): NodeJS.Timeout {
+  const ONE_DAY = 24 * 60 * 60 * 1000;
+
+  const run = async (): Promise<void> => {
+    try {
+      await runSeasonDiscovery();
+      await refreshSeasonStatuses();
+    } catch (error) {
+      logger.error('SeasonCalendar: Scheduled run failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  void (async () => {
+    try {
+      const seasons = await getScheduleStore().getAllSeasons();
+      if (seasons.length === 0) {
+        await run();
+      } else {
+        await refreshSeasonStatuses();
+      }
+    } catch (error) {
+      logger.error('SeasonCalendar: Startup refresh failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  })();
+
+  // Calculate time until next 03:00 UTC
+  const now = new Date();
+  const nextRun = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), 3, 0, 0, 0));
+  if (now.getTime() > nextRun.getTime()) {
+    nextRun.setUTCDate(nextRun.getUTCDate() + 1);
+  }
+  const msUntilNextRun = nextRun.getTime() - now.getTime();
+
+  logger.info('SeasonCalendar: Scheduled daily run', {
+    nextRun: nextRun.toISOString(),
+    msUntilNextRun,
+  });
+
+  return setTimeout(async () => {
+    await run();
+    setInterval(run, ONE_DAY);
+  }, msUntilNextRun);
+}
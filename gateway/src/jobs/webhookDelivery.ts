@@ -0,0 +1,78 @@
+/**
+ * Webhook Delivery
+ *
+ * Watches scoreboards (see ScoreboardWatcher) for leagues that active webhook
+ * subscriptions cover and sends status transitions and score changes from
+ * the scoreboard poller to every matching subscription.
+ *
+ * Active subscriptions are reloaded on every 5-minute refresh and right
+ * after admin changes (refreshWebhookDelivery).
+ */
+
+import { WebhookSubscription, getWebhookSubscriptions } from '../db/repositories/webhookRepository';
+import { getWebhookDispatcher } from '../webhooks/WebhookDispatcher';
+import { buildWebhookEvents, matchesSubscription } from '../webhooks/webhookEvents';
+import { logger } from '../utils/logger';
+import { ScoreboardStreamEvent } from './scoreboardPoller';
+import { ScoreboardWatch, ScoreboardWatcher } from './scoreboardWatcher';
+
+const FIVE_MINUTES = 5 * 60 * 1000;
+
+let subscriptions: WebhookSubscription[] = [];
+
+/**
+ * A league is watched when any active subscription could match its games.
+ * Team and game filters carry the league as their ID prefix.
+ */
+function coversLeague(subscription: WebhookSubscription, league: string): boolean {
+  const filterLeague = subscription.league
+    ?? subscription.team_id?.split('_')[0]
+    ?? subscription.game_id?.split('_')[0];
+  return !filterLeague || filterLeague === league;
+}
+
+function handleScoreboardEvent(watch: ScoreboardWatch, streamEvent: ScoreboardStreamEvent): void {
+  if (streamEvent.type !== 'update' || streamEvent.data.changes.length === 0) return;
+
+  const dispatcher = getWebhookDispatcher();
+  for (const event of buildWebhookEvents(watch.league, streamEvent.data.changes, watch.games)) {
+    for (const subscription of subscriptions) {
+      if (!matchesSubscription(subscription, event)) continue;
+      dispatcher.deliver(subscription, event).catch(error => {
+        logger.error('WebhookDelivery: Delivery failed', {
+          subscriptionId: subscription.id,
+          eventId: event.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    }
+  }
+}
+
+const watcher = new ScoreboardWatcher(
+  'WebhookDelivery',
+  async league => subscriptions.some(subscription => coversLeague(subscription, league)),
+  { onEvent: handleScoreboardEvent }
+);
+
+/**
+ * Reload active subscriptions and start or stop scoreboard watches to match
+ */
+export async function refreshWebhookDelivery(): Promise<void> {
+  try {
+    subscriptions = await getWebhookSubscriptions(true);
+  } catch (error) {
+    logger.warn('WebhookDelivery: Failed to reload subscriptions, keeping previous set', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+  await watcher.refresh();
+}
+
+/**
+ * Schedule the subscription reload and watch refresh every 5 minutes, starting now
+ */
+export function scheduleWebhookDelivery(): NodeJS.Timeout {
+  void refreshWebhookDelivery();
+  return setInterval(() => void refreshWebhookDelivery(), FIVE_MINUTES);
+}
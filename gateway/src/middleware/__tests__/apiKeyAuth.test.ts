@@ -0,0 +1,79 @@
+import { NextFunction, Request, Response } from 'express';
+import * as apiKeyRepository from '../../db/repositories/apiKeyRepository';
+import * as playerRepository from '../../db/repositories/playerRepository';
+import { AppError } from '../errorHandler';
+import { apiKeyAuth, invalidateApiKeyCache } from '../apiKeyAuth';
+
+const PLAYER_ID = '0f6f4a7b-2a11-4c55-9f38-6f1c1d3e3d43';
+
+function apiKey(allowedLeagues: string[] | null): apiKeyRepository.ApiKey {
+  return {
+    id: '6f1c1d3e-3d43-4c55-9f38-0f6f4a7b2a11',
+    name: 'Partner',
+    key_prefix: 'bsk_abcdefgh',
+    key_hash: 'hash',
+    allowed_leagues: allowedLeagues,
+    rate_limit_per_minute: 1000,
+    daily_quota: null,
+    active: true,
+    created_at: new Date(),
+    updated_at: new Date(),
+    last_used_at: null,
+  };
+}
+
+async function run(url: string, query: Record<string, unknown> = {}): Promise<unknown> {
+  const req = { headers: { 'x-api-key': 'bsk_test' }, originalUrl: url, query } as unknown as Request;
+  const res = { setHeader: jest.fn() } as unknown as Response;
+  let result: unknown = 'not called';
+  const next: NextFunction = error => { result = error; };
+  await apiKeyAuth(req, res, next);
+  return result;
+}
+
+describe('apiKeyAuth league scopes', () => {
+  let getPlayer: jest.SpyInstance;
+
+  beforeEach(() => {
+    invalidateApiKeyCache();
+    jest.spyOn(apiKeyRepository, 'getActiveApiKeyByHash').mockResolvedValue(apiKey(['nba']));
+    jest.spyOn(apiKeyRepository, 'getApiKeyRequestCount').mockResolvedValue(0);
+    getPlayer = jest.spyOn(playerRepository, 'getPlayerById');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('rejects ?sport= outside the key\'s leagues', async () => {
+    const error = await run('/v1/players/search?sport=nhl', { sport: 'nhl' });
+    expect(error).toBeInstanceOf(AppError);
+    expect((error as AppError).statusCode).toBe(403);
+  });
+
+  it('rejects percent-encoded IDs outside the key\'s leagues', async () => {
+    jest.spyOn(apiKeyRepository, 'getActiveApiKeyByHash').mockResolvedValue(apiKey(['nhl']));
+
+    const denied = await run('/v1/games/%6Eba_401810365/boxscore');
+    expect((denied as AppError).code).toBe('LEAGUE_NOT_ALLOWED');
+
+    const malformed = await run('/v1/games/%E0%A4%A/boxscore');
+    expect((malformed as AppError).statusCode).toBe(400);
+  });
+
+  it('scopes player routes by the player\'s sport', async () => {
+    getPlayer.mockResolvedValue({ id: PLAYER_ID, sport: 'nhl', display_name: 'Skater' });
+    const denied = await run(`/v1/players/${PLAYER_ID}/stat-central`);
+    expect((denied as AppError).code).toBe('LEAGUE_NOT_ALLOWED');
+
+    getPlayer.mockResolvedValue({ id: PLAYER_ID, sport: 'nba', display_name: 'Guard' });
+    expect(await run(`/v1/players/${PLAYER_ID}/splits`)).toBeUndefined();
+  });
+
+  it('skips the player lookup for unscoped keys', async () => {
+    jest.spyOn(apiKeyRepository, 'getActiveApiKeyByHash').mockResolvedValue(apiKey(null));
+
+    expect(await run(`/v1/players/${PLAYER_ID}`)).toBeUndefined();
+    expect(getPlayer).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,116 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { AppError } from './errorHandler';
+import { requireAuth } from './auth';
+import { config } from '../config';
+import { getProfileRole, insertAdminAuditEntry } from '../db/repositories/adminRepository';
+import { logger } from '../utils/logger';
+import { redactAuditParams } from '../utils/auditParams';
+
+// Extend Express Request
+declare global {
+  namespace Express {
+    interface Request {
+      admin?: AdminActor;
+    }
+  }
+}
+
+export interface AdminActor {
+  type: 'user' | 'api_key';
+  id: string;
+}
+
+const ADMIN_KEY_HEADER = 'x-admin-key';
+const API_KEY_ACTOR_ID = 'admin_api_key';
+const READ_ONLY_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+/**
+ * Constant-time comparison; hashing first evens out the lengths
+ */
+function keysMatch(provided: string, expected: string): boolean {
+  const a = crypto.createHash('sha256').update(provided).digest();
+  const b = crypto.createHash('sha256').update(expected).digest();
+  return crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Require an admin: either the X-Admin-Key header matching ADMIN_API_KEY
+ * (cron callers) or a Supabase JWT whose profile has role 'admin'.
+ * Returns 401 for missing/invalid credentials, 403 for non-admin users.
+ */
+export async function requireAdmin(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const apiKey = req.headers[ADMIN_KEY_HEADER];
+
+  if (apiKey !== undefined) {
+    if (typeof apiKey !== 'string' || !config.admin.apiKey || !keysMatch(apiKey, config.admin.apiKey)) {
+      return next(new AppError('Invalid admin API key', 401, 'UNAUTHORIZED'));
+    }
+    req.admin = { type: 'api_key', id: API_KEY_ACTOR_ID };
+    return next();
+  }
+
+  await requireAuth(req, res, async (error?: unknown) => {
+    if (error) return next(error);
+
+    try {
+      const role = await getProfileRole(req.user!.id);
+      if (role !== 'admin') {
+        return next(new AppError('Admin access required', 403, 'FORBIDDEN'));
+      }
+      req.admin = { type: 'user', id: req.user!.id };
+      next();
+    } catch (lookupError) {
+      next(lookupError);
+    }
+  });
+}
+
+/**
+ * Audit every mutating admin request once its response is sent.
+ * Mount after requireAdmin. Audit failures are logged, never surfaced.
+ */
+export function auditAdminRequest(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  if (READ_ONLY_METHODS.has(req.method) || !req.admin) {
+    return next();
+  }
+
+  const actor = req.admin;
+  const startedAt = Date.now();
+  // Path params are folded into the concrete path; express resets req.params
+  // before the error handler runs, so they can't be read reliably on finish
+  const route = req.originalUrl.split('?')[0];
+
+  res.on('finish', () => {
+    const failed = res.statusCode >= 400;
+
+    insertAdminAuditEntry({
+      actor_type: actor.type,
+      actor_id: actor.id,
+      method: req.method,
+      route,
+      params: redactAuditParams({ query: req.query, body: req.body ?? {} }) as Record<string, unknown>,
+      status_code: res.statusCode,
+      outcome: failed ? 'failure' : 'success',
+      error: failed ? (res.locals.errorMessage as string | undefined) ?? null : null,
+      duration_ms: Date.now() - startedAt,
+      request_id: req.requestId ?? null,
+    }).catch(error => {
+      logger.error('Admin: Failed to write audit entry', {
+        requestId: req.requestId,
+        route,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  });
+
+  next();
+}
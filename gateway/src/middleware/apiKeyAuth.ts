@@ -0,0 +1,141 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { AppError, BadRequestError, RateLimitError } from './errorHandler';
+import { ApiKey, getActiveApiKeyByHash, getApiKeyRequestCount } from '../db/repositories/apiKeyRepository';
+import { getPlayerById } from '../db/repositories/playerRepository';
+import { getApiKeyLimiter } from '../utils/ApiKeyLimiter';
+import { decodeRequestPath, leaguesAllowed, requestLeagues, requestPlayerId } from '../utils/apiKeyScopes';
+
+// Extend Express Request
+declare global {
+  namespace Express {
+    interface Request {
+      apiKey?: AuthenticatedApiKey;
+    }
+  }
+}
+
+export interface AuthenticatedApiKey {
+  id: string;
+  name: string;
+  allowedLeagues: string[] | null;
+}
+
+const API_KEY_HEADER = 'x-api-key';
+const KEY_PREFIX = 'bsk_';
+const DISPLAY_PREFIX_LENGTH = 12;
+const LOOKUP_CACHE_TTL_MS = 60 * 1000;
+const LOOKUP_CACHE_MAX_ENTRIES = 10000;
+
+// Key hash -> active key (or null for unknown/inactive), so each instance hits
+// Postgres at most once a minute per key
+const lookupCache = new Map<string, { key: ApiKey | null; expiresAt: number }>();
+
+export function hashApiKey(rawKey: string): string {
+  return crypto.createHash('sha256').update(rawKey).digest('hex');
+}
+
+/**
+ * New raw key with its display prefix and hash; only the hash is stored
+ */
+export function generateApiKey(): { rawKey: string; keyPrefix: string; keyHash: string } {
+  const rawKey = `${KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  return { rawKey, keyPrefix: rawKey.slice(0, DISPLAY_PREFIX_LENGTH), keyHash: hashApiKey(rawKey) };
+}
+
+/**
+ * Forget cached lookups after keys change; other instances catch up within a minute
+ */
+export function invalidateApiKeyCache(): void {
+  lookupCache.clear();
+}
+
+async function lookupApiKey(rawKey: string): Promise<ApiKey | null> {
+  const keyHash = hashApiKey(rawKey);
+  const cached = lookupCache.get(keyHash);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.key;
+  }
+
+  const key = await getActiveApiKeyByHash(keyHash);
+  if (lookupCache.size >= LOOKUP_CACHE_MAX_ENTRIES) {
+    lookupCache.clear();
+  }
+  lookupCache.set(keyHash, { key, expiresAt: Date.now() + LOOKUP_CACHE_TTL_MS });
+  return key;
+}
+
+/**
+ * Authenticate third-party callers by the X-API-Key header and enforce the
+ * key's league scopes, per-minute rate limit and daily quota. Requests
+ * without the header pass through (first-party app, IP rate limited).
+ * Returns 401 for unknown or inactive keys, 403 outside the key's leagues
+ * and 429 over a limit.
+ */
+export async function apiKeyAuth(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const rawKey = req.headers[API_KEY_HEADER];
+  if (rawKey === undefined) {
+    return next();
+  }
+
+  try {
+    const key = typeof rawKey === 'string' ? await lookupApiKey(rawKey) : null;
+    if (!key) {
+      return next(new AppError('Invalid API key', 401, 'INVALID_API_KEY'));
+    }
+
+    req.apiKey = { id: key.id, name: key.name, allowedLeagues: key.allowed_leagues };
+
+    const path = decodeRequestPath(req.originalUrl.split('?')[0]);
+    if (path === null) {
+      return next(new BadRequestError('Malformed request path'));
+    }
+    const leagues = requestLeagues(path, req.query);
+    const playerId = key.allowed_leagues === null ? null : requestPlayerId(path);
+    if (playerId) {
+      // Unknown players fall through to the route's 404
+      const player = await getPlayerById(playerId);
+      if (player && !leagues.includes(player.sport)) {
+        leagues.push(player.sport);
+      }
+    }
+    if (!leaguesAllowed(key.allowed_leagues, leagues)) {
+      return next(new AppError(`API key is not allowed for league: ${leagues.join(', ')}`, 403, 'LEAGUE_NOT_ALLOWED'));
+    }
+
+    const limiter = getApiKeyLimiter();
+    if (limiter.needsSeed(key.id)) {
+      const today = new Date().toISOString().split('T')[0];
+      limiter.seedDailyUsage(key.id, await getApiKeyRequestCount(key.id, today));
+    }
+
+    const result = limiter.check({
+      id: key.id,
+      rateLimitPerMinute: key.rate_limit_per_minute,
+      dailyQuota: key.daily_quota,
+    });
+
+    res.setHeader('X-RateLimit-Limit', result.rateLimit.limit);
+    res.setHeader('X-RateLimit-Remaining', result.rateLimit.remaining);
+    res.setHeader('X-RateLimit-Reset', Math.ceil(result.rateLimit.resetMs / 1000));
+    if (result.dailyQuota.limit !== null) {
+      res.setHeader('X-Quota-Limit', result.dailyQuota.limit);
+      res.setHeader('X-Quota-Remaining', result.dailyQuota.remaining!);
+    }
+
+    if (!result.allowed) {
+      res.setHeader('Retry-After', Math.ceil(result.retryAfterMs! / 1000));
+      return next(result.reason === 'daily_quota'
+        ? new AppError('Daily quota exceeded', 429, 'QUOTA_EXCEEDED')
+        : new RateLimitError());
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
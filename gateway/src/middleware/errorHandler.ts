@@ -82,6 +82,9 @@ export function errorHandler(
     method: req.method,
   });
 
+  // Unsanitized message for the admin audit log
+  res.locals.errorMessage = err.message;
+
   // Handle known errors - sanitize message before sending to client
   if (err instanceof AppError) {
     res.status(err.statusCode).json({
@@ -6,7 +6,7 @@
 import { Request, Response, NextFunction } from 'express';
 
 // Valid league identifiers
-const VALID_LEAGUES = ['nba', 'nfl', 'nhl', 'mlb', 'ncaam', 'ncaaf', 'pga', 'lpga', 'korn_ferry'];
+const VALID_LEAGUES = ['nba', 'nfl', 'nhl', 'mlb', 'ncaam', 'ncaaf', 'wnba', 'ncaaw', 'pga', 'lpga', 'korn_ferry'];
 
 // Valid season format: YYYY or YYYY-YY (e.g., "2024" or "2023-24")
 const SEASON_REGEX = /^\d{4}(-\d{2})?$/;
@@ -102,8 +102,7 @@ export function validateSeason(required: boolean = false) {
         });
         return;
       }
-      // Optional - use current year
-      req.query.season = new Date().getFullYear().toString();
+      // Optional - leave unset so the handler can resolve the league's current season
       next();
       return;
     }
@@ -147,6 +146,16 @@ export function validateGameId(req: Request, res: Response, next: NextFunction):
     return;
   }
 
+  // Prefix must be a supported league (startsWith handles korn_ferry's underscore)
+  if (!VALID_LEAGUES.some(league => idString.startsWith(`${league}_`))) {
+    res.status(400).json({
+      error: 'Validation Error',
+      message: `Invalid league in game ID: ${idString}`,
+      validValues: VALID_LEAGUES,
+    });
+    return;
+  }
+
   next();
 }
 
@@ -0,0 +1,138 @@
+/**
+ * APNs sender
+ *
+ * Sends alerts over HTTP/2 with token-based (.p8 key) authentication.
+ * The provider JWT is reused for 50 minutes; Apple rejects tokens older
+ * than an hour and throttles clients that mint a new one per request.
+ */
+
+import http2 from 'http2';
+import { importPKCS8, SignJWT } from 'jose';
+import { DeviceToken } from '../db/repositories/notificationRepository';
+import { logger } from '../utils/logger';
+import type { NotificationPayload, NotificationSender, SendResult } from './NotificationSender';
+
+export interface ApnsConfig {
+  keyId: string;
+  teamId: string;
+  bundleId: string;
+  /** Contents of the .p8 signing key (PEM) */
+  privateKey: string;
+}
+
+const APNS_HOSTS: Record<DeviceToken['environment'], string> = {
+  production: 'https://api.push.apple.com',
+  sandbox: 'https://api.sandbox.push.apple.com',
+};
+
+const TOKEN_REFRESH_MS = 50 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10000;
+
+export class ApnsSender implements NotificationSender {
+  readonly name = 'apns';
+  private sessions = new Map<string, http2.ClientHttp2Session>();
+  private providerToken: { jwt: string; issuedAt: number } | null = null;
+
+  constructor(private readonly apnsConfig: ApnsConfig) {}
+
+  async send(device: DeviceToken, payload: NotificationPayload): Promise<SendResult> {
+    const body = JSON.stringify({
+      aps: {
+        alert: { title: payload.title, body: payload.body },
+        sound: 'default',
+        'thread-id': payload.threadId,
+      },
+      ...payload.data,
+    });
+
+    try {
+      const { status, reason } = await this.post(device, body);
+      if (status === 200) {
+        return { ok: true };
+      }
+      // 410: token no longer active; 400 BadDeviceToken: wrong environment or malformed
+      const unregistered = status === 410 || reason === 'BadDeviceToken' || reason === 'Unregistered';
+      return { ok: false, unregistered, error: `APNs ${status}${reason ? `: ${reason}` : ''}` };
+    } catch (error) {
+      return { ok: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private async post(device: DeviceToken, body: string): Promise<{ status: number; reason?: string }> {
+    const session = this.getSession(device.environment);
+    const authorization = `bearer ${await this.getProviderToken()}`;
+
+    return new Promise((resolve, reject) => {
+      const request = session.request({
+        ':method': 'POST',
+        ':path': `/3/device/${device.token}`,
+        authorization,
+        'apns-topic': this.apnsConfig.bundleId,
+        'apns-push-type': 'alert',
+        'content-type': 'application/json',
+      });
+
+      let status = 0;
+      let responseBody = '';
+      request.setTimeout(REQUEST_TIMEOUT_MS, () => {
+        request.close(http2.constants.NGHTTP2_CANCEL);
+        reject(new Error('APNs request timed out'));
+      });
+      request.on('response', headers => {
+        status = Number(headers[':status']);
+      });
+      request.setEncoding('utf8');
+      request.on('data', chunk => {
+        responseBody += chunk;
+      });
+      request.on('end', () => {
+        let reason: string | undefined;
+        try {
+          reason = responseBody ? JSON.parse(responseBody).reason : undefined;
+        } catch {
+          reason = undefined;
+        }
+        resolve({ status, reason });
+      });
+      request.on('error', reject);
+      request.end(body);
+    });
+  }
+
+  /**
+   * One long-lived HTTP/2 session per APNs host, reconnected after errors
+   */
+  private getSession(environment: DeviceToken['environment']): http2.ClientHttp2Session {
+    const existing = this.sessions.get(environment);
+    if (existing && !existing.closed && !existing.destroyed) {
+      return existing;
+    }
+
+    const session = http2.connect(APNS_HOSTS[environment]);
+    session.on('error', error => {
+      logger.warn('ApnsSender: Session error', { environment, error: error.message });
+      this.sessions.delete(environment);
+    });
+    session.on('close', () => this.sessions.delete(environment));
+    // Don't keep the process alive just for an idle push connection
+    session.unref();
+    this.sessions.set(environment, session);
+    return session;
+  }
+
+  private async getProviderToken(): Promise<string> {
+    if (this.providerToken && Date.now() - this.providerToken.issuedAt < TOKEN_REFRESH_MS) {
+      return this.providerToken.jwt;
+    }
+
+    const key = await importPKCS8(this.apnsConfig.privateKey, 'ES256');
+    const jwt = await new SignJWT({})
+      .setProtectedHeader({ alg: 'ES256', kid: this.apnsConfig.keyId })
+      .setIssuer(this.apnsConfig.teamId)
+      .setIssuedAt()
+      .sign(key);
+
+    this.providerToken = { jwt, issuedAt: Date.now() };
+    return jwt;
+  }
+}
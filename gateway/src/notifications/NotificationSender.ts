@@ -0,0 +1,82 @@
+/**
+ * Notification senders
+ *
+ * Delivery goes through the NotificationSender interface so the game event
+ * job never knows which transport it is using:
+ * - ApnsSender: Apple Push Notification service (production)
+ * - LogNotificationSender: logs only (development); tests can hand it an array
+ *   to collect sent messages in
+ *
+ * NOTIFICATION_SENDER selects the implementation (default: log).
+ */
+
+import { config } from '../config';
+import { DeviceToken } from '../db/repositories/notificationRepository';
+import { logger } from '../utils/logger';
+import { ApnsSender } from './ApnsSender';
+
+export interface NotificationPayload {
+  title: string;
+  body: string;
+  /** Collapses updates for the same game on the device */
+  threadId?: string;
+  data?: Record<string, string>;
+}
+
+export interface SendResult {
+  ok: boolean;
+  /** The device token is no longer valid and should be removed */
+  unregistered?: boolean;
+  error?: string;
+}
+
+export interface NotificationSender {
+  readonly name: string;
+  send(device: DeviceToken, payload: NotificationPayload): Promise<SendResult>;
+}
+
+export interface SentNotification {
+  device: DeviceToken;
+  payload: NotificationPayload;
+}
+
+/**
+ * Sender that only logs. Sent messages are kept only when a `sent` array is
+ * passed in (tests), so the default sender holds nothing between sends.
+ */
+export class LogNotificationSender implements NotificationSender {
+  readonly name = 'log';
+
+  constructor(private readonly sent?: SentNotification[]) {}
+
+  async send(device: DeviceToken, payload: NotificationPayload): Promise<SendResult> {
+    this.sent?.push({ device, payload });
+    logger.info('Notification (log sender)', {
+      token: `${device.token.slice(0, 8)}…`,
+      title: payload.title,
+      body: payload.body,
+    });
+    return { ok: true };
+  }
+}
+
+let senderInstance: NotificationSender | null = null;
+
+/**
+ * Get the configured notification sender
+ */
+export function getNotificationSender(): NotificationSender {
+  if (!senderInstance) {
+    senderInstance = config.notifications.sender === 'apns'
+      ? new ApnsSender(config.notifications.apns)
+      : new LogNotificationSender();
+  }
+  return senderInstance;
+}
+
+/**
+ * Replace the sender (tests)
+ */
+export function setNotificationSender(sender: NotificationSender | null): void {
+  senderInstance = sender;
+}
@@ -0,0 +1,64 @@
+import { Game } from '../../types';
+import { GameEventDetector, formatGameEvent, isCloseLate } from '../gameEvents';
+
+function game(overrides: Partial<Game> = {}, homeScore?: number, awayScore?: number): Game {
+  return {
+    id: 'nba_401810365',
+    startTime: '2026-01-16T00:30:00Z',
+    status: 'scheduled',
+    homeTeam: { id: 'nba_13', abbrev: 'LAL', name: 'Lakers', city: 'Los Angeles', score: homeScore },
+    awayTeam: { id: 'nba_2', abbrev: 'BOS', name: 'Celtics', city: 'Boston', score: awayScore },
+    ...overrides,
+  };
+}
+
+describe('isCloseLate', () => {
+  it('requires the final period, a late clock and a close score', () => {
+    expect(isCloseLate('nba', game({ status: 'live', period: 'Q4', clock: '3:12' }, 100, 97))).toBe(true);
+    expect(isCloseLate('nba', game({ status: 'live', period: 'Q4', clock: '8:00' }, 100, 97))).toBe(false);
+    expect(isCloseLate('nba', game({ status: 'live', period: 'Q3', clock: '1:00' }, 80, 79))).toBe(false);
+    expect(isCloseLate('nba', game({ status: 'live', period: 'Q4', clock: '1:00' }, 110, 97))).toBe(false);
+  });
+
+  it('uses league periods and margins', () => {
+    expect(isCloseLate('nhl', game({ status: 'live', period: 'P3', clock: '2:30' }, 2, 1))).toBe(true);
+    expect(isCloseLate('nhl', game({ status: 'live', period: 'P3', clock: '2:30' }, 3, 1))).toBe(false);
+    expect(isCloseLate('nfl', game({ status: 'live', period: 'OT', clock: '9:00' }, 20, 20))).toBe(true);
+  });
+
+  it('counts the final inning as late in baseball', () => {
+    expect(isCloseLate('mlb', game({ status: 'live', period: 'Q9' }, 3, 2))).toBe(true);
+    expect(isCloseLate('mlb', game({ status: 'live', period: 'Q10', overtimePeriods: 1 }, 3, 3))).toBe(true);
+    expect(isCloseLate('mlb', game({ status: 'live', period: 'Q8' }, 3, 2))).toBe(false);
+    expect(isCloseLate('mlb', game({ status: 'live', period: 'Q9' }, 5, 2))).toBe(false);
+  });
+});
+
+describe('GameEventDetector', () => {
+  it('treats the first sighting as a baseline', () => {
+    const detector = new GameEventDetector();
+    expect(detector.observe('nba', [game({ status: 'live', period: 'Q1', clock: '11:00' }, 2, 0)])).toEqual([]);
+  });
+
+  it('reports start, close late once, overtime and final', () => {
+    const detector = new GameEventDetector();
+    const types = (g: Game) => detector.observe('nba', [g]).map(event => event.type);
+
+    expect(types(game())).toEqual([]);
+    expect(types(game({ status: 'live', period: 'Q1', clock: '12:00' }, 0, 0))).toEqual(['game_start']);
+    expect(types(game({ status: 'live', period: 'Q4', clock: '2:00' }, 99, 98))).toEqual(['close_late']);
+    expect(types(game({ status: 'live', period: 'Q4', clock: '0:40' }, 101, 101))).toEqual([]);
+    expect(types(game({ status: 'live', period: 'Q5', clock: '5:00', overtimePeriods: 1 }, 101, 101))).toEqual(['overtime']);
+    expect(types(game({ status: 'final', period: 'Q5', overtimePeriods: 1 }, 110, 106))).toEqual(['final']);
+    expect(types(game({ status: 'final', period: 'Q5', overtimePeriods: 1 }, 110, 106))).toEqual([]);
+  });
+});
+
+describe('formatGameEvent', () => {
+  it('builds the final score alert', () => {
+    const payload = formatGameEvent({ type: 'final', league: 'nba', game: game({ status: 'final' }, 110, 106) });
+    expect(payload.title).toBe('Final: BOS @ LAL');
+    expect(payload.body).toBe('BOS 106, LAL 110');
+    expect(payload.data).toEqual({ gameId: 'nba_401810365', league: 'nba', event: 'final' });
+  });
+});
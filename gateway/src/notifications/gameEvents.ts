@@ -0,0 +1,153 @@
+/**
+ * Game event detection
+ *
+ * Compares successive scoreboard versions of each game and reports the
+ * notification-worthy transitions: tip-off/puck drop/kickoff, a close game
+ * late, overtime and the final score.
+ */
+
+import { Game } from '../types';
+import { GameEventType } from '../db/repositories/notificationRepository';
+import { NotificationPayload } from './NotificationSender';
+
+export interface GameEvent {
+  type: GameEventType;
+  league: string;
+  game: Game;
+}
+
+/**
+ * Final regulation period and the margin that counts as close, by league.
+ * Untimed leagues (baseball) count the whole final period as late.
+ */
+const CLOSE_GAME_RULES: Record<string, { finalPeriod: number; margin: number; untimed?: boolean }> = {
+  nba: { finalPeriod: 4, margin: 5 },
+  wnba: { finalPeriod: 4, margin: 5 },
+  ncaam: { finalPeriod: 2, margin: 5 },
+  ncaaw: { finalPeriod: 4, margin: 5 },
+  nfl: { finalPeriod: 4, margin: 8 },
+  ncaaf: { finalPeriod: 4, margin: 8 },
+  nhl: { finalPeriod: 3, margin: 1 },
+  mlb: { finalPeriod: 9, margin: 1, untimed: true },
+};
+
+/** "Late" means the last five minutes of the final regulation period */
+const LATE_CLOCK_SECONDS = 5 * 60;
+
+/**
+ * Period number from a period label ("Q4", "P3", "4th", "OT", "OT2")
+ */
+function periodNumber(label: string | undefined, finalPeriod: number): number | undefined {
+  if (!label) return undefined;
+  const overtime = label.match(/^OT(\d*)$/i);
+  if (overtime) return finalPeriod + (overtime[1] ? parseInt(overtime[1], 10) : 1);
+  const digits = label.match(/\d+/);
+  return digits ? parseInt(digits[0], 10) : undefined;
+}
+
+/**
+ * Seconds left from a game clock ("4:32", "0:45.3", "38.2")
+ */
+function clockSeconds(clock: string | undefined): number | undefined {
+  if (!clock) return undefined;
+  const parts = clock.split(':');
+  const seconds = parts.length === 2
+    ? parseInt(parts[0], 10) * 60 + parseFloat(parts[1])
+    : parseFloat(parts[0]);
+  return isNaN(seconds) ? undefined : seconds;
+}
+
+/**
+ * Whether a live game is within the league's close margin late in
+ * regulation (or in overtime)
+ */
+export function isCloseLate(league: string, game: Game): boolean {
+  const rules = CLOSE_GAME_RULES[league];
+  if (!rules || game.status !== 'live') return false;
+
+  const home = game.homeTeam.score;
+  const away = game.awayTeam.score;
+  if (home === undefined || away === undefined || Math.abs(home - away) > rules.margin) return false;
+
+  if ((game.overtimePeriods ?? 0) > 0) return true;
+  const period = periodNumber(game.period, rules.finalPeriod);
+  if (period === undefined || period < rules.finalPeriod) return false;
+  if (period > rules.finalPeriod || rules.untimed) return true;
+  const seconds = clockSeconds(game.clock);
+  return seconds !== undefined && seconds <= LATE_CLOCK_SECONDS;
+}
+
+/**
+ * Tracks the last seen version of each game and reports new events.
+ * Close-game alerts fire at most once per game.
+ */
+export class GameEventDetector {
+  private previous = new Map<string, Game>();
+  private closeLateSent = new Set<string>();
+
+  observe(league: string, games: Game[]): GameEvent[] {
+    const events: GameEvent[] = [];
+
+    for (const game of games) {
+      const before = this.previous.get(game.id);
+      this.previous.set(game.id, game);
+      // The first sighting is the baseline; a game already live when we
+      // start watching does not announce its start
+      if (!before) {
+        if (isCloseLate(league, game)) this.closeLateSent.add(game.id);
+        continue;
+      }
+
+      if (before.status === 'scheduled' && game.status === 'live') {
+        events.push({ type: 'game_start', league, game });
+      }
+      if ((game.overtimePeriods ?? 0) > (before.overtimePeriods ?? 0) && game.status === 'live') {
+        events.push({ type: 'overtime', league, game });
+      }
+      if (!this.closeLateSent.has(game.id) && isCloseLate(league, game)) {
+        this.closeLateSent.add(game.id);
+        events.push({ type: 'close_late', league, game });
+      }
+      if (before.status !== 'final' && game.status === 'final') {
+        events.push({ type: 'final', league, game });
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * Forget games (e.g. when a scoreboard date is no longer watched)
+   */
+  forget(gameIds: string[]): void {
+    for (const id of gameIds) {
+      this.previous.delete(id);
+      this.closeLateSent.delete(id);
+    }
+  }
+}
+
+function scoreLine(game: Game): string {
+  return `${game.awayTeam.abbrev} ${game.awayTeam.score ?? 0}, ${game.homeTeam.abbrev} ${game.homeTeam.score ?? 0}`;
+}
+
+/**
+ * Notification text for an event
+ */
+export function formatGameEvent(event: GameEvent): NotificationPayload {
+  const { game } = event;
+  const matchup = `${game.awayTeam.abbrev} @ ${game.homeTeam.abbrev}`;
+
+  const text: Record<GameEventType, { title: string; body: string }> = {
+    game_start: { title: matchup, body: 'The game has started.' },
+    close_late: { title: `Close game: ${matchup}`, body: `${scoreLine(game)} with ${game.clock ?? 'little time'} left in ${game.period ?? 'the game'}.` },
+    overtime: { title: `Overtime: ${matchup}`, body: `${scoreLine(game)} heading to ${game.period ?? 'overtime'}.` },
+    final: { title: `Final: ${matchup}`, body: scoreLine(game) },
+  };
+
+  return {
+    ...text[event.type],
+    threadId: game.id,
+    data: { gameId: game.id, league: event.league, event: event.type },
+  };
+}
@@ -0,0 +1,69 @@
+import { parseNFLCategoryStats, positionCategoryFromNFLCategories } from '../espnNFLStats';
+import { getSeasonFromGameDate, mergeNFLAthleteLines } from '../espnPlayerExtractor';
+
+function athlete(id: string, stats: string[]) {
+  return {
+    active: true,
+    athlete: { id, displayName: `Player ${id}`, shortName: id },
+    starter: false,
+    didNotPlay: false,
+    stats,
+  };
+}
+
+describe('parseNFLCategoryStats', () => {
+  it('splits made/attempted pairs and skips derived columns', () => {
+    const stats = parseNFLCategoryStats(
+      'passing',
+      ['C/ATT', 'YDS', 'AVG', 'TD', 'INT', 'SACKS', 'QBR', 'RTG'],
+      ['22/31', '287', '9.3', '2', '1', '2-14', '71.2', '104.5']
+    );
+
+    expect(stats).toEqual({
+      completions: 22,
+      attempts: 31,
+      passing_yards: 287,
+      passing_tds: 2,
+      interceptions: 1,
+      sacks_taken: 2,
+      sack_yards_lost: 14,
+      qbr: 71.2,
+      passer_rating: 104.5,
+    });
+  });
+
+  it('derives assisted tackles and keeps half sacks', () => {
+    const stats = parseNFLCategoryStats('defensive', ['TOT', 'SOLO', 'SACKS'], ['9', '6', '1.5']);
+
+    expect(stats).toEqual({ total_tackles: 9, solo_tackles: 6, sacks: 1.5, assisted_tackles: 3 });
+  });
+
+  it('ignores unknown categories', () => {
+    expect(parseNFLCategoryStats('teamTotals', ['YDS'], ['300'])).toEqual({});
+  });
+});
+
+describe('mergeNFLAthleteLines', () => {
+  it('merges a player across categories', () => {
+    const lines = mergeNFLAthleteLines({
+      team: { id: '12', abbreviation: 'KC' },
+      statistics: [
+        { name: 'passing', names: [], labels: ['C/ATT', 'YDS'], athletes: [athlete('1', ['20/30', '250'])] },
+        { name: 'rushing', names: [], labels: ['CAR', 'YDS'], athletes: [athlete('1', ['4', '31']), athlete('2', ['18', '92'])] },
+      ],
+    });
+
+    expect(lines).toHaveLength(2);
+    expect(lines[0].categories).toEqual(['passing', 'rushing']);
+    expect(lines[0].stats).toMatchObject({ completions: 20, passing_yards: 250, carries: 4, rushing_yards: 31 });
+    expect(positionCategoryFromNFLCategories(lines[0].categories)).toBe('QB');
+    expect(positionCategoryFromNFLCategories(lines[1].categories)).toBe('RB');
+  });
+});
+
+describe('getSeasonFromGameDate', () => {
+  it('assigns January playoff games to the previous NFL season', () => {
+    expect(getSeasonFromGameDate(new Date(2026, 0, 18), 'nfl')).toBe(2025);
+    expect(getSeasonFromGameDate(new Date(2025, 8, 7), 'nfl')).toBe(2025);
+  });
+});
@@ -0,0 +1,172 @@
+import * as scheduleStore from '../../jobs/scheduleStore';
+import { classifyNHLAthlete } from '../espnNHLStats';
+import {
+  extractAndUpsertPlayersFromBoxScore,
+  extractNHLGameLog,
+  getSeasonFromGameDate,
+  TeamGameContext,
+} from '../espnPlayerExtractor';
+
+const context: TeamGameContext = {
+  gameId: 'nhl_401688001',
+  season: 2025,
+  gameDate: new Date('2026-01-10T00:00:00Z'),
+  teamId: 'nhl_6',
+  opponentTeamId: 'nhl_10',
+  isHome: true,
+};
+
+function athlete(position: string, stats: string[], overrides: Record<string, unknown> = {}) {
+  return {
+    active: true,
+    athlete: { id: '3041969', displayName: 'Test Player', shortName: 'T. Player', position: { abbreviation: position } },
+    starter: true,
+    didNotPlay: false,
+    stats,
+    ...overrides,
+  };
+}
+
+function labelIndex(labels: string[]): Record<string, number> {
+  return Object.fromEntries(labels.map((label, idx) => [label, idx]));
+}
+
+describe('classifyNHLAthlete', () => {
+  it('classifies goalies by category or position', () => {
+    expect(classifyNHLAthlete('goalies', '')).toBe('goalie');
+    expect(classifyNHLAthlete('forwards', 'G')).toBe('goalie');
+  });
+
+  it('classifies skaters and skips other categories', () => {
+    expect(classifyNHLAthlete('forwards', 'C')).toBe('skater');
+    expect(classifyNHLAthlete('defenses', 'D')).toBe('skater');
+    expect(classifyNHLAthlete('penalties', 'C')).toBeNull();
+  });
+});
+
+describe('extractNHLGameLog', () => {
+  it('builds a skater line with points and time on ice', () => {
+    const log = extractNHLGameLog(
+      'player-1',
+      context,
+      'skater',
+      athlete('C', ['1', '2', '+1', '18:30', '4', '7', '5']),
+      labelIndex(['G', 'A', '+/-', 'TOI', 'S', 'FW', 'FL'])
+    );
+
+    expect(log).toMatchObject({
+      player_type: 'skater',
+      goals: 1,
+      assists: 2,
+      points: 3,
+      plus_minus: 1,
+      toi_seconds: 1110,
+      shots: 4,
+      faceoff_wins: 7,
+      faceoff_losses: 5,
+    });
+    expect(log.saves).toBeUndefined();
+  });
+
+  it('builds a goalie line with the decision', () => {
+    const log = extractNHLGameLog(
+      'player-2',
+      context,
+      'goalie',
+      athlete('G', ['30', '28', '2', '60:00', 'W']),
+      labelIndex(['SA', 'SV', 'GA', 'TOI', 'DEC'])
+    );
+
+    expect(log).toMatchObject({
+      player_type: 'goalie',
+      shots_against: 30,
+      saves: 28,
+      goals_against: 2,
+      toi_seconds: 3600,
+      decision: 'W',
+    });
+    expect(log.goals).toBeUndefined();
+  });
+
+  it('records scratches as DNP lines', () => {
+    const log = extractNHLGameLog('player-3', context, 'skater', athlete('D', [], { didNotPlay: true, reason: 'Healthy scratch' }), {});
+
+    expect(log.dnp_reason).toBe('Healthy scratch');
+  });
+});
+
+describe('getSeasonFromGameDate', () => {
+  it('uses the split-year season for NHL', () => {
+    expect(getSeasonFromGameDate(new Date(2026, 0, 10), 'nhl')).toBe(2025);
+    expect(getSeasonFromGameDate(new Date(2025, 9, 10), 'nhl')).toBe(2025);
+  });
+});
+
+describe('extractAndUpsertPlayersFromBoxScore', () => {
+  const summary = {
+    header: {
+      id: '401688001',
+      competitions: [
+        {
+          id: '401688001',
+          date: '2026-01-10T00:00Z',
+          status: { type: { state: 'post' } },
+          competitors: [
+            { id: '6', homeAway: 'home', score: '4', team: { id: '6', abbreviation: 'EDM', displayName: 'Edmonton Oilers', location: 'Edmonton' } },
+            { id: '10', homeAway: 'away', score: '2', team: { id: '10', abbreviation: 'TOR', displayName: 'Toronto Maple Leafs', location: 'Toronto' } },
+          ],
+        },
+      ],
+    },
+    boxscore: {
+      teams: [],
+      players: [{ team: { id: '6', abbreviation: 'EDM' }, statistics: [] }],
+    },
+  } as Parameters<typeof extractAndUpsertPlayersFromBoxScore>[0];
+
+  let store: { getGame: jest.Mock; getSeasonForDate: jest.Mock; upsertGame: jest.Mock };
+
+  beforeEach(() => {
+    store = {
+      getGame: jest.fn().mockResolvedValue(undefined),
+      getSeasonForDate: jest.fn().mockResolvedValue({ id: 'nhl_2025-26' }),
+      upsertGame: jest.fn().mockResolvedValue(true),
+    };
+    jest.spyOn(scheduleStore, 'getScheduleStore').mockReturnValue(store as unknown as scheduleStore.ScheduleStore);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('stores an unsynced game and its teams before writing game logs', async () => {
+    await extractAndUpsertPlayersFromBoxScore(summary, 'nhl', 2025);
+
+    // 00:00Z is still January 9 on the Eastern scoreboard
+    expect(store.getSeasonForDate).toHaveBeenCalledWith('nhl', '2026-01-09');
+    expect(store.upsertGame).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: 'nhl_401688001',
+        seasonId: 'nhl_2025-26',
+        scoreboardDate: '2026-01-09',
+        homeTeamId: 'nhl_6',
+        awayTeamId: 'nhl_10',
+        homeScore: 4,
+        awayScore: 2,
+        status: 'final',
+      }),
+      [
+        { id: 'nhl_6', leagueId: 'nhl', name: 'Edmonton Oilers', city: 'Edmonton', abbreviation: 'EDM' },
+        { id: 'nhl_10', leagueId: 'nhl', name: 'Toronto Maple Leafs', city: 'Toronto', abbreviation: 'TOR' },
+      ]
+    );
+  });
+
+  it('leaves games schedule sync already stored alone', async () => {
+    store.getGame.mockResolvedValue({ id: 'nhl_401688001' });
+
+    await extractAndUpsertPlayersFromBoxScore(summary, 'nhl', 2025);
+
+    expect(store.upsertGame).not.toHaveBeenCalled();
+  });
+});
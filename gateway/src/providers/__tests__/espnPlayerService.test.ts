@@ -1,4 +1,10 @@
-import { buildIndexMap, parseCombinedStat, parseStatValue } from '../espnPlayerService';
+import {
+  buildIndexMap,
+  espnAthleteUrl,
+  parseCollegeAthleteInfo,
+  parseCombinedStat,
+  parseStatValue,
+} from '../espnPlayerService';
 
 describe('parseStatValue', () => {
   it('parses a numeric string', () => {
@@ -72,3 +78,32 @@ describe('parseCombinedStat', () => {
     expect(parseCombinedStat(indexMap, stats, 'FG')).toEqual([0, 0]);
   });
 });
+
+describe('espnAthleteUrl', () => {
+  it('uses the league sport path', () => {
+    expect(espnAthleteUrl('ncaam')).toBe('https://site.web.api.espn.com/apis/common/v3/sports/basketball/mens-college-basketball/athletes');
+  });
+
+  it('defaults to the NBA', () => {
+    expect(espnAthleteUrl()).toBe('https://site.web.api.espn.com/apis/common/v3/sports/basketball/nba/athletes');
+  });
+
+  it('returns null for leagues without basketball athlete pages', () => {
+    expect(espnAthleteUrl('nfl')).toBeNull();
+  });
+});
+
+describe('parseCollegeAthleteInfo', () => {
+  it('reads class year and conference', () => {
+    const athlete = {
+      experience: { years: 3, displayValue: 'Junior', abbreviation: 'JR' },
+      team: { id: '150', conference: { name: 'Atlantic Coast Conference', shortName: 'ACC' } },
+    };
+    expect(parseCollegeAthleteInfo(athlete)).toEqual({ classYear: 'Junior', conference: 'ACC' });
+  });
+
+  it('returns nulls for pro players', () => {
+    expect(parseCollegeAthleteInfo({ experience: { years: 7 }, team: { id: '13' } }))
+      .toEqual({ classYear: null, conference: null });
+  });
+});
@@ -0,0 +1,97 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ESPNAdapter } from '../espnAdapter';
+import { fixturePathForUrl, writeFixture } from '../fixtureStore';
+import { ProviderError } from '../../middleware/errorHandler';
+
+const SCOREBOARD_URL =
+  'https://site.api.espn.com/apis/site/v2/sports/basketball/nba/scoreboard?dates=20260115';
+
+function competitor(homeAway: 'home' | 'away', id: string, abbrev: string, score: string, linescores: number[]) {
+  return {
+    id,
+    homeAway,
+    score,
+    linescores: linescores.map(value => ({ value, displayValue: String(value) })),
+    team: {
+      id,
+      abbreviation: abbrev,
+      displayName: `${abbrev} Team`,
+      shortDisplayName: abbrev,
+      location: abbrev,
+      logo: '',
+    },
+  };
+}
+
+const SCOREBOARD = {
+  events: [
+    {
+      id: '401810001',
+      date: '2026-01-16T00:30Z',
+      name: 'Away at Home',
+      shortName: 'AWY @ HOM',
+      status: {
+        clock: 0,
+        displayClock: '0.0',
+        period: 4,
+        type: { id: '3', name: 'STATUS_FINAL', state: 'post', completed: true },
+      },
+      competitions: [
+        {
+          id: '401810001',
+          competitors: [
+            competitor('home', '13', 'LAL', '112', [28, 25, 27, 20, 12]),
+            competitor('away', '2', 'BOS', '108', [30, 22, 24, 24, 8]),
+          ],
+          status: {
+            clock: 0,
+            displayClock: '0.0',
+            period: 4,
+            type: { id: '3', name: 'STATUS_FINAL', state: 'post', completed: true },
+          },
+        },
+      ],
+    },
+  ],
+};
+
+describe('fixturePathForUrl', () => {
+  it('maps URL path and sorted query to a file under the fixture dir', () => {
+    const filePath = fixturePathForUrl('/fixtures', 'https://site.api.espn.com/apis/v2/sports/hockey/nhl/standings?season=2026&level=3');
+    expect(filePath).toBe(path.join('/fixtures', 'v2/sports/hockey/nhl/standings__level=3&season=2026.json'));
+  });
+});
+
+describe('ESPNAdapter replay mode', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fixtures-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('serves a recorded scoreboard without network access', async () => {
+    writeFixture(dir, SCOREBOARD_URL, SCOREBOARD);
+    const adapter = new ESPNAdapter({ name: 'fixtures', replayDir: dir });
+
+    const games = await adapter.fetchScoreboard('nba', '2026-01-15');
+
+    expect(adapter.name).toBe('fixtures');
+    expect(games).toHaveLength(1);
+    expect(games[0].id).toBe('nba_401810001');
+    expect(games[0].status).toBe('final');
+    expect(games[0].homeTeam.score).toBe(112);
+    expect(games[0].homeTeam.linescore).toEqual([28, 25, 27, 20, 12]);
+  });
+
+  it('throws ProviderError when no fixture was recorded', async () => {
+    const adapter = new ESPNAdapter({ name: 'fixtures', replayDir: dir });
+
+    await expect(adapter.fetchScoreboard('nba', '2026-01-16')).rejects.toBeInstanceOf(ProviderError);
+  });
+});
@@ -0,0 +1,180 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ESPNAdapter } from '../espnAdapter';
+import { writeFixture } from '../fixtureStore';
+import { MLBTeamBoxScore } from '../../types';
+
+const SUMMARY_URL = 'https://site.web.api.espn.com/apis/site/v2/sports/baseball/mlb/summary?event=401810100';
+
+function team(id: string, abbrev: string) {
+  return {
+    id,
+    abbreviation: abbrev,
+    displayName: `${abbrev} Team`,
+    shortDisplayName: abbrev,
+    location: abbrev,
+    logo: '',
+  };
+}
+
+function player(id: string, name: string, stats: string[], overrides: Record<string, unknown> = {}) {
+  return {
+    active: true,
+    athlete: { id, displayName: name, shortName: name, jersey: id.slice(-2), position: { abbreviation: 'SS' } },
+    starter: true,
+    didNotPlay: false,
+    stats,
+    ...overrides,
+  };
+}
+
+const BATTING_LABELS = ['H-AB', 'AB', 'R', 'H', 'RBI', 'HR', 'BB', 'K', '#P', 'AVG', 'OBP', 'SLG'];
+const PITCHING_LABELS = ['IP', 'H', 'R', 'ER', 'BB', 'K', 'HR', 'PC-ST', 'ERA'];
+
+const MLB_SUMMARY = {
+  header: {
+    id: '401810100',
+    competitions: [
+      {
+        id: '401810100',
+        date: '2026-04-10T23:05Z',
+        competitors: [
+          {
+            id: '19',
+            homeAway: 'home',
+            score: '5',
+            hits: 9,
+            errors: 1,
+            team: team('19', 'LAD'),
+            linescores: [{ value: 0 }, { value: 2 }, { displayValue: '3' }],
+          },
+          {
+            id: '26',
+            homeAway: 'away',
+            score: '2',
+            team: team('26', 'SF'),
+            linescores: [{ value: 1 }, { value: 0 }, { value: 1 }],
+          },
+        ],
+        status: {
+          clock: 0,
+          displayClock: '0:00',
+          period: 9,
+          type: { id: '3', name: 'STATUS_FINAL', state: 'post', completed: true },
+        },
+      },
+    ],
+  },
+  boxscore: {
+    teams: [
+      {
+        team: team('26', 'SF'),
+        statistics: [
+          { name: 'batting', displayValue: '', stats: [{ name: 'hits', displayValue: '6' }] },
+          { name: 'fielding', displayValue: '', stats: [{ name: 'errors', displayValue: '2' }] },
+        ],
+      },
+    ],
+    players: [
+      {
+        team: team('19', 'LAD'),
+        statistics: [
+          {
+            type: 'batting',
+            names: BATTING_LABELS,
+            keys: BATTING_LABELS,
+            labels: BATTING_LABELS,
+            athletes: [
+              player('1001', 'M. Betts', ['2-4', '4', '1', '2', '3', '1', '1', '0', '18', '.310', '.405', '.560'], { batOrder: 1 }),
+              player('1002', 'F. Freeman', ['1-3', '3', '0', '1', '0', '0', '0', '2', '-', '-', '-', '-'], { batOrder: 2 }),
+              player('1003', 'Bench Bat', [], { didNotPlay: true, starter: false }),
+            ],
+          },
+          {
+            type: 'pitching',
+            names: PITCHING_LABELS,
+            keys: PITCHING_LABELS,
+            labels: PITCHING_LABELS,
+            athletes: [
+              player('2001', 'Y. Yamamoto', ['6.1', '4', '2', '2', '1', '8', '1', '98-64', '2.95'], {
+                notes: [{ type: 'pitchingDecision', text: 'W, 3-1' }],
+              }),
+            ],
+          },
+        ],
+      },
+      { team: team('26', 'SF'), statistics: [] },
+    ],
+  },
+};
+
+describe('ESPNAdapter MLB box scores', () => {
+  let dir: string;
+  let adapter: ESPNAdapter;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mlb-'));
+    adapter = new ESPNAdapter({ name: 'fixtures', replayDir: dir });
+    writeFixture(dir, SUMMARY_URL, MLB_SUMMARY);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('splits players into batters and pitchers', async () => {
+    const { boxScore } = await adapter.fetchBoxScore('mlb_401810100', 'baseball');
+    const home = boxScore.homeTeam as MLBTeamBoxScore;
+
+    expect(home.teamId).toBe('mlb_19');
+    expect(home.batters.map(batter => batter.id)).toEqual(['player_1001', 'player_1002']);
+    expect(home.batters[0]).toMatchObject({
+      battingOrder: 1,
+      position: 'SS',
+      stats: { atBats: 4, runs: 1, hits: 2, rbi: 3, homeRuns: 1, walks: 1, strikeouts: 0, pitchesSeen: 18, avg: 0.31 },
+    });
+    expect(home.batters[1].stats).toMatchObject({ strikeouts: 2, pitchesSeen: 0, avg: undefined });
+    expect(home.pitchers).toHaveLength(1);
+  });
+
+  it('parses innings pitched, pitch counts and decisions', async () => {
+    const { boxScore } = await adapter.fetchBoxScore('mlb_401810100', 'baseball');
+    const pitcher = (boxScore.homeTeam as MLBTeamBoxScore).pitchers[0];
+
+    expect(pitcher.decision).toBe('W');
+    expect(pitcher.stats).toMatchObject({
+      inningsPitched: '6.1',
+      outsRecorded: 19,
+      earnedRuns: 2,
+      strikeouts: 8,
+      pitchCount: 98,
+      strikes: 64,
+      era: 2.95,
+    });
+  });
+
+  it('builds the linescore from competitor fields and team statistics', async () => {
+    const { boxScore } = await adapter.fetchBoxScore('mlb_401810100', 'baseball');
+    const home = boxScore.homeTeam as MLBTeamBoxScore;
+    const away = boxScore.awayTeam as MLBTeamBoxScore;
+
+    expect(home.linescore).toEqual({ innings: [0, 2, 3], runs: 5, hits: 9, errors: 1 });
+    // The away competitor carries no hits/errors, so they come from the team statistics
+    expect(away.linescore).toEqual({ innings: [1, 0, 1], runs: 2, hits: 6, errors: 2 });
+  });
+
+  it('totals batting stats across the lineup', async () => {
+    const { boxScore } = await adapter.fetchBoxScore('mlb_401810100', 'baseball');
+
+    expect((boxScore.homeTeam as MLBTeamBoxScore).teamTotals).toEqual({
+      atBats: 7,
+      runs: 1,
+      hits: 3,
+      rbi: 3,
+      homeRuns: 1,
+      walks: 1,
+      strikeouts: 2,
+    });
+  });
+});
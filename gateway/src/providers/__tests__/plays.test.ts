@@ -0,0 +1,141 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ESPNAdapter } from '../espnAdapter';
+import { writeFixture } from '../fixtureStore';
+
+function summaryUrl(sportPath: string, eventId: string): string {
+  return `https://site.web.api.espn.com/apis/site/v2/sports/${sportPath}/summary?event=${eventId}`;
+}
+
+function header(eventId: string) {
+  const team = (id: string, abbrev: string) => ({
+    id,
+    abbreviation: abbrev,
+    displayName: `${abbrev} Team`,
+    shortDisplayName: abbrev,
+    location: abbrev,
+    logo: '',
+  });
+
+  return {
+    id: eventId,
+    competitions: [
+      {
+        id: eventId,
+        date: '2026-01-16T00:30Z',
+        competitors: [
+          { id: '13', homeAway: 'home', score: '3', team: team('13', 'HOM') },
+          { id: '2', homeAway: 'away', score: '0', team: team('2', 'AWY') },
+        ],
+        status: {
+          clock: 0,
+          displayClock: '0.0',
+          period: 4,
+          type: { id: '3', name: 'STATUS_FINAL', state: 'post', completed: true },
+        },
+      },
+    ],
+  };
+}
+
+const NBA_SUMMARY = {
+  header: header('401810002'),
+  boxscore: { teams: [], players: [] },
+  plays: [
+    {
+      id: '4018100027',
+      sequenceNumber: '7',
+      type: { id: '92', text: 'Jump Shot' },
+      text: 'Player One makes 24-foot three point jumper (Player Two assists)',
+      awayScore: 0,
+      homeScore: 3,
+      period: { number: 1, displayValue: '1st Quarter' },
+      clock: { displayValue: '11:41' },
+      scoringPlay: true,
+      scoreValue: 3,
+      team: { id: '13' },
+      participants: [{ athlete: { id: '101' } }, { athlete: { id: '102' } }],
+    },
+    {
+      id: '4018100029',
+      sequenceNumber: '9',
+      type: { id: '95', text: 'Layup Shot' },
+      text: 'Player Three misses layup',
+      awayScore: 0,
+      homeScore: 3,
+      period: { number: 2, displayValue: '2nd Quarter' },
+      clock: { displayValue: '11:20' },
+      scoringPlay: false,
+      scoreValue: 2,
+      team: { id: '2' },
+      participants: [{ athlete: { id: '201' } }],
+    },
+  ],
+};
+
+const footballPlay = (id: string, text: string) => ({
+  id,
+  text,
+  awayScore: 0,
+  homeScore: 0,
+  period: { number: 1 },
+  clock: { displayValue: '15:00' },
+  scoringPlay: false,
+});
+
+const NFL_SUMMARY = {
+  header: header('401810003'),
+  boxscore: { teams: [], players: [] },
+  drives: {
+    previous: [
+      { id: '1', team: { id: '2' }, plays: [footballPlay('1', 'Kickoff'), footballPlay('2', 'Run for 4 yards')] },
+      { id: '2', team: { id: '13' }, plays: [footballPlay('3', 'Pass complete')] },
+    ],
+    // The in-progress drive is repeated here
+    current: { id: '2', team: { id: '13' }, plays: [footballPlay('3', 'Pass complete')] },
+  },
+};
+
+describe('ESPNAdapter.fetchPlays', () => {
+  let dir: string;
+  let adapter: ESPNAdapter;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'plays-'));
+    adapter = new ESPNAdapter({ name: 'fixtures', replayDir: dir });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('normalizes basketball plays with actors, scores and periods', async () => {
+    writeFixture(dir, summaryUrl('basketball/nba', '401810002'), NBA_SUMMARY);
+
+    const response = await adapter.fetchPlays('nba_401810002');
+
+    expect(response.periods).toEqual([1, 2]);
+    expect(response.plays[0]).toMatchObject({
+      id: 'play_4018100027',
+      sequence: 7,
+      period: 1,
+      clock: '11:41',
+      teamId: 'nba_13',
+      playerIds: ['player_101', 'player_102'],
+      homeScore: 3,
+      scoringPlay: true,
+      scoreValue: 3,
+    });
+    expect(response.plays[1].scoreValue).toBeUndefined();
+  });
+
+  it('flattens football drives without duplicating the current drive', async () => {
+    writeFixture(dir, summaryUrl('football/nfl', '401810003'), NFL_SUMMARY);
+
+    const response = await adapter.fetchPlays('nfl_401810003');
+
+    expect(response.plays.map(play => play.id)).toEqual(['play_1', 'play_2', 'play_3']);
+    expect(response.plays[2]).toMatchObject({ teamId: 'nfl_13', driveId: 'drive_2', sequence: 3 });
+  });
+});
@@ -0,0 +1,59 @@
+import axios, { AxiosAdapter, CreateAxiosDefaults } from 'axios';
+import { ESPNAdapter } from '../espnAdapter';
+import { resetESPNRateLimiter } from '../../utils/ESPNRateLimiter';
+
+/**
+ * Live (non-replay) adapter whose HTTP calls are answered in-process, so
+ * requests go through the ESPN rate limiter without touching the network
+ */
+function liveAdapter(): ESPNAdapter {
+  const respond: AxiosAdapter = async config => {
+    const url = config.url ?? '';
+    const data = url.includes('/seasons/')
+      ? { year: 2026, types: { items: [] } }
+      : url.includes('/schedule')
+        ? { events: [] }
+        : { children: [] };
+    return { data, status: 200, statusText: 'OK', headers: {}, config };
+  };
+
+  const create = axios.create.bind(axios);
+  jest.spyOn(axios, 'create').mockImplementation((config?: CreateAxiosDefaults) => create({ ...config, adapter: respond }));
+  return new ESPNAdapter({ name: 'live' });
+}
+
+describe('ESPN request budget', () => {
+  beforeEach(() => {
+    resetESPNRateLimiter();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    resetESPNRateLimiter();
+  });
+
+  it('discovers every league\'s season calendar', async () => {
+    const adapter = liveAdapter();
+
+    for (const league of ['nba', 'wnba', 'ncaam', 'ncaaw', 'nfl', 'ncaaf', 'nhl', 'mlb']) {
+      await expect(adapter.fetchSeasonCalendar(league, 2026)).resolves.toMatchObject({ league, year: 2026 });
+    }
+  });
+
+  it('falls back to provider team schedules', async () => {
+    const adapter = liveAdapter();
+
+    await expect(adapter.fetchTeamSchedule('nhl_6')).resolves.toEqual([]);
+    await expect(adapter.fetchTeamSchedule('nfl_12', '2025')).resolves.toEqual([]);
+  });
+
+  it('fetches standings for every team league and past seasons on one day', async () => {
+    const adapter = liveAdapter();
+
+    for (const league of ['nba', 'nfl', 'nhl', 'ncaam', 'ncaaf']) {
+      await expect(adapter.fetchStandings(league)).resolves.toBeDefined();
+    }
+    await expect(adapter.fetchStandings('nba', '2023-24')).resolves.toBeDefined();
+    await expect(adapter.fetchStandings('nfl', '2022')).resolves.toBeDefined();
+  });
+});
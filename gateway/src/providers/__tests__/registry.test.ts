@@ -0,0 +1,75 @@
+import { config } from '../../config';
+import { SportsDataProvider } from '../../types';
+import { NotFoundError, ProviderError } from '../../middleware/errorHandler';
+import { fetchWithFailover, getProvidersForLeague, registerProvider } from '../registry';
+
+function fakeProvider(name: string): SportsDataProvider {
+  return { name } as SportsDataProvider;
+}
+
+describe('fetchWithFailover', () => {
+  const calls: string[] = [];
+  const operation = (failures: Record<string, Error>) => async (provider: SportsDataProvider) => {
+    calls.push(provider.name);
+    const failure = failures[provider.name];
+    if (failure) throw failure;
+    return `scoreboard from ${provider.name}`;
+  };
+
+  beforeAll(() => {
+    registerProvider('primary', () => fakeProvider('primary'));
+    registerProvider('backup', () => fakeProvider('backup'));
+  });
+
+  beforeEach(() => {
+    calls.length = 0;
+    config.providers.byLeague.wnba = ['primary', 'backup'];
+  });
+
+  afterEach(() => {
+    delete config.providers.byLeague.wnba;
+  });
+
+  it('serves from the primary provider when it succeeds', async () => {
+    const result = await fetchWithFailover('wnba', operation({}));
+
+    expect(result).toEqual({ data: 'scoreboard from primary', provider: 'primary' });
+    expect(calls).toEqual(['primary']);
+  });
+
+  it('fails over to the next provider on ProviderError', async () => {
+    const result = await fetchWithFailover('wnba', operation({ primary: new ProviderError('ESPN down') }));
+
+    expect(result).toEqual({ data: 'scoreboard from backup', provider: 'backup' });
+    expect(calls).toEqual(['primary', 'backup']);
+  });
+
+  it('throws the last ProviderError when every provider fails', async () => {
+    const failing = operation({
+      primary: new ProviderError('ESPN down'),
+      backup: new ProviderError('Backup down'),
+    });
+
+    await expect(fetchWithFailover('wnba', failing)).rejects.toThrow('Backup down');
+    expect(calls).toEqual(['primary', 'backup']);
+  });
+
+  it('returns other errors without trying the next provider', async () => {
+    const notFound = operation({ primary: new NotFoundError('No such game') });
+
+    await expect(fetchWithFailover('wnba', notFound)).rejects.toBeInstanceOf(NotFoundError);
+    expect(calls).toEqual(['primary']);
+  });
+
+  it('skips unknown provider names in config', () => {
+    config.providers.byLeague.wnba = ['missing', 'backup'];
+
+    expect(getProvidersForLeague('wnba').map(provider => provider.name)).toEqual(['backup']);
+  });
+
+  it('throws ProviderError when no configured provider is registered', () => {
+    config.providers.byLeague.wnba = ['missing'];
+
+    expect(() => getProvidersForLeague('wnba')).toThrow(ProviderError);
+  });
+});
@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ESPNAdapter } from '../espnAdapter';
+import { writeFixture } from '../fixtureStore';
+
+function standingsUrl(sportPath: string, espnSeason?: number): string {
+  const seasonParam = espnSeason ? `&season=${espnSeason}` : '';
+  return `https://site.api.espn.com/apis/v2/sports/${sportPath}/standings?level=3${seasonParam}`;
+}
+
+function entry(id: string, abbrev: string, stats: Record<string, number | string>) {
+  return {
+    team: { id, abbreviation: abbrev, displayName: `${abbrev} Team` },
+    stats: Object.entries(stats).map(([name, value]) =>
+      typeof value === 'number'
+        ? { name, value, displayValue: String(value) }
+        : { name, displayValue: value, summary: value }
+    ),
+  };
+}
+
+const NBA_STANDINGS = {
+  name: 'National Basketball Association',
+  seasons: [{ year: 2026, displayName: '2025-26' }],
+  children: [
+    {
+      id: '5',
+      name: 'Eastern Conference',
+      children: [
+        {
+          name: 'Atlantic',
+          standings: {
+            entries: [
+              entry('20', 'PHI', { wins: 20, losses: 20, winPercent: 0.5, streak: 'L2' }),
+              entry('2', 'BOS', { wins: 30, losses: 10, winPercent: 0.75, streak: 'W3', lasttengames: '8-2' }),
+            ],
+          },
+        },
+        {
+          name: 'Central',
+          standings: {
+            entries: [
+              entry('5', 'CLE', { wins: 32, losses: 8, winPercent: 0.8 }),
+            ],
+          },
+        },
+      ],
+    },
+  ],
+};
+
+const NHL_STANDINGS = {
+  name: 'National Hockey League',
+  children: [
+    {
+      name: 'Western Conference',
+      standings: {
+        seasonDisplayName: '2025-26',
+        entries: [
+          entry('6', 'EDM', { wins: 25, losses: 15, otLosses: 5, points: 55 }),
+          entry('25', 'DAL', { wins: 27, losses: 17, otLosses: 2 }),
+        ],
+      },
+    },
+  ],
+};
+
+describe('ESPNAdapter.fetchStandings', () => {
+  let dir: string;
+  let adapter: ESPNAdapter;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'standings-'));
+    adapter = new ESPNAdapter({ name: 'fixtures', replayDir: dir });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('groups NBA teams by conference and division', async () => {
+    writeFixture(dir, standingsUrl('basketball/nba'), NBA_STANDINGS);
+
+    const standings = await adapter.fetchStandings('nba');
+
+    expect(standings.league).toBe('nba');
+    expect(standings.season).toBe('2025-26');
+    expect(standings.conferences).toHaveLength(1);
+
+    const east = standings.conferences[0];
+    expect(east.name).toBe('Eastern Conference');
+    expect(east.divisions?.map(division => division.name)).toEqual(['Atlantic', 'Central']);
+    expect(east.teams.map(team => team.abbrev)).toEqual(['CLE', 'BOS', 'PHI']);
+  });
+
+  it('ranks and computes games back within each group', async () => {
+    writeFixture(dir, standingsUrl('basketball/nba'), NBA_STANDINGS);
+
+    const standings = await adapter.fetchStandings('nba');
+    const east = standings.conferences[0];
+    const atlantic = east.divisions![0];
+
+    expect(atlantic.teams[0]).toMatchObject({
+      teamId: 'nba_2',
+      rank: 1,
+      gamesBack: 0,
+      winPct: 0.75,
+      streak: 'W3',
+      lastTen: '8-2',
+    });
+    expect(atlantic.teams[1]).toMatchObject({ teamId: 'nba_20', rank: 2, gamesBack: 10 });
+
+    // Boston leads its division but trails Cleveland in the conference
+    expect(east.teams[1]).toMatchObject({ teamId: 'nba_2', rank: 2, gamesBack: 2 });
+  });
+
+  it('requests the ESPN end year for split-year seasons', async () => {
+    writeFixture(dir, standingsUrl('basketball/nba', 2025), NBA_STANDINGS);
+
+    const standings = await adapter.fetchStandings('nba', '2024-25');
+
+    expect(standings.season).toBe('2024-25');
+  });
+
+  it('orders NHL teams by points without games back', async () => {
+    writeFixture(dir, standingsUrl('hockey/nhl'), NHL_STANDINGS);
+
+    const standings = await adapter.fetchStandings('nhl');
+    const west = standings.conferences[0];
+
+    expect(standings.season).toBe('2025-26');
+    expect(west.divisions).toBeUndefined();
+    expect(west.teams.map(team => team.abbrev)).toEqual(['DAL', 'EDM']);
+    // DAL has no points stat, so it falls back to 2 per win plus OT losses
+    expect(west.teams[0]).toMatchObject({ points: 56, otLosses: 2, rank: 1, gamesBack: undefined });
+    expect(west.teams[1]).toMatchObject({ points: 55, otLosses: 5, rank: 2 });
+  });
+});
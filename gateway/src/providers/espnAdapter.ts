@@ -4,22 +4,46 @@
  * Uses ESPN's unofficial public APIs:
  * - Scoreboard: https://site.api.espn.com/apis/site/v2/sports/basketball/nba/scoreboard
  * - Summary: https://site.web.api.espn.com/apis/site/v2/sports/basketball/nba/summary?event={eventId}
+ * - Standings: https://site.api.espn.com/apis/v2/sports/basketball/nba/standings?level=3&season={year}
  * 
  * These endpoints are unofficial and may change without notice.
  * Rate limited via ESPNRateLimiter (60/min, 2000/day).
  */
 
-import axios, { AxiosInstance, AxiosError } from 'axios';
+import axios, { AxiosInstance, AxiosError, AxiosAdapter } from 'axios';
+import { config as appConfig, leagueConfig, LeagueId } from '../config';
 import { logger } from '../utils/logger';
 import { ProviderError, RateLimitError } from '../middleware/errorHandler';
 import { getESPNRateLimiter, ESPNBudgetBucket } from '../utils/ESPNRateLimiter';
 import { processBoxScoreForPlayers, getSeasonFromGameDate } from './espnPlayerExtractor';
+import { readFixture, writeFixture } from './fixtureStore';
+import { isSplitYearLeague, seasonLabel, toDateInTimeZone } from '../utils/seasonUtils';
+import {
+  applyOpponentAdvancedStats,
+  applyPlayerAdvancedStats,
+  assistToTurnover,
+  effectiveFgPct,
+  estimatePossessions,
+  rating,
+  trueShootingPct,
+} from '../utils/advancedStats';
+import {
+  classifyNHLAthlete,
+  parseNHLSkaterStats,
+  parseNHLGoalieStats,
+  extractGoalieDecision,
+} from './espnNHLStats';
 import {
   SportsDataProvider,
   Game,
   BoxScoreResponse,
   StandingsResponse,
   RosterResponse,
+  PlaysResponse,
+  Play,
+  SeasonCalendar,
+  SeasonPhase,
+  SeasonPhaseDates,
   ProviderStatus,
   Team,
   PlayerLine,
@@ -30,11 +54,18 @@ import {
   NHLTeamBoxScore,
   NHLSkaterLine,
   NHLGoalieLine,
-  NHLSkaterStats,
-  NHLGoalieStats,
   NHLTeamTotals,
+  MLBTeamBoxScore,
+  MLBBatterLine,
+  MLBBattingStats,
+  MLBPitcherLine,
+  MLBPitchingStats,
+  MLBLinescore,
+  MLBTeamTotals,
   TeamTotals,
   Standing,
+  ConferenceStandings,
+  DivisionStandings,
   Venue,
   BoxScore,
   GolfTournament,
@@ -115,6 +146,12 @@ interface ESPNCompetitor {
     name: string;
     summary: string;
   }>;
+  linescores?: Array<{
+    value?: number;
+    displayValue?: string;
+  }>;
+  hits?: number;    // MLB only
+  errors?: number;  // MLB only
 }
 
 // ESPN Conference ID mappings for college sports
@@ -184,6 +221,33 @@ export interface ESPNSummaryResponse {
       };
     };
   };
+  plays?: ESPNPlay[];  // Basketball, hockey, baseball
+  drives?: {           // Football nests plays inside drives
+    previous?: ESPNDrive[];
+    current?: ESPNDrive;
+  };
+}
+
+interface ESPNPlay {
+  id: string;
+  sequenceNumber?: string;
+  type?: { id: string; text: string };
+  text?: string;
+  awayScore?: number;
+  homeScore?: number;
+  period?: { number: number; displayValue?: string };
+  clock?: { displayValue: string };
+  scoringPlay?: boolean;
+  scoreValue?: number;
+  team?: { id: string };
+  start?: { team?: { id: string } };  // Football: team in possession at the snap
+  participants?: Array<{ athlete?: { id: string } }>;
+}
+
+interface ESPNDrive {
+  id: string;
+  team?: { id: string };
+  plays?: ESPNPlay[];
 }
 
 interface ESPNBoxscoreTeam {
@@ -198,6 +262,8 @@ interface ESPNBoxscoreTeam {
   statistics: Array<{
     name: string;
     displayValue: string;
+    // MLB nests team stats by category (batting, pitching, fielding)
+    stats?: Array<{ name: string; displayValue: string }>;
   }>;
 }
 
@@ -212,6 +278,7 @@ interface ESPNBoxscorePlayers {
   };
   statistics: Array<{
     name?: string;  // Category name for NFL (e.g., "passing", "rushing")
+    type?: string;  // Category type for MLB ("batting", "pitching")
     names: string[];
     keys: string[];
     labels: string[];
@@ -236,38 +303,163 @@ interface ESPNAthlete {
   reason?: string;
   ejected?: boolean;
   stats: string[];
+  batOrder?: number;  // MLB only
+  notes?: Array<{ type: string; text: string }>;  // MLB pitching decisions
+}
+
+interface ESPNRosterAthlete {
+  id: string;
+  fullName?: string;
+  displayName: string;
+  jersey?: string;
+  position?: {
+    abbreviation: string;
+  };
+  displayHeight?: string;
+  displayWeight?: string;
+  dateOfBirth?: string;
+  college?: {
+    name: string;
+  };
+}
+
+interface ESPNRosterResponse {
+  // Basketball returns a flat list; football and hockey group athletes by position
+  athletes: Array<ESPNRosterAthlete | { position: string; items: ESPNRosterAthlete[] }>;
+  season?: {
+    year: number;
+    displayName?: string;
+  };
+}
+
+interface ESPNStandingsStat {
+  name?: string;
+  type?: string;
+  value?: number;
+  displayValue?: string;
+  summary?: string;
+}
+
+interface ESPNStandingsEntry {
+  team: {
+    id: string;
+    abbreviation: string;
+    displayName: string;
+    location?: string;
+  };
+  stats: ESPNStandingsStat[];
+}
+
+// A node in ESPN's standings tree: league -> conference -> division
+interface ESPNStandingsGroup {
+  id?: string;
+  name: string;
+  abbreviation?: string;
+  standings?: {
+    season?: number;
+    seasonDisplayName?: string;
+    entries: ESPNStandingsEntry[];
+  };
+  children?: ESPNStandingsGroup[];
+}
+
+interface ESPNStandingsResponse extends ESPNStandingsGroup {
+  seasons?: Array<{ year: number; displayName: string }>;
+}
+
+// Team schedule events carry status on the competition, object scores and a logos array
+interface ESPNTeamScheduleCompetitor extends Omit<ESPNCompetitor, 'score' | 'team'> {
+  score?: {
+    value?: number;
+    displayValue?: string;
+  };
+  team: Omit<ESPNCompetitor['team'], 'logo'> & {
+    logo?: string;
+    logos?: Array<{ href: string }>;
+  };
+}
+
+interface ESPNTeamScheduleEvent extends Omit<ESPNEvent, 'status' | 'competitions'> {
+  competitions: Array<Omit<ESPNCompetition, 'competitors'> & {
+    competitors: ESPNTeamScheduleCompetitor[];
+  }>;
+}
+
+interface ESPNTeamScheduleResponse {
+  season?: {
+    year: number;
+    displayName?: string;
+  };
+  events?: ESPNTeamScheduleEvent[];
+}
+
+interface ESPNSeasonType {
+  id: string;
+  type: number;  // 1 preseason, 2 regular season, 3 postseason, 4 offseason
+  name: string;
+  startDate: string;
+  endDate: string;
+}
+
+interface ESPNSeasonResponse {
+  year: number;
+  displayName?: string;
+  startDate: string;
+  endDate: string;
+  types?: {
+    items?: ESPNSeasonType[];
+  };
+}
+
+export interface ESPNAdapterOptions {
+  name?: string;        // Provider name reported in route meta (default 'espn')
+  replayDir?: string;   // Serve recorded fixtures from this directory instead of the network
+  recordDir?: string;   // Capture every successful response into this fixture directory
 }
 
 /**
  * ESPN Adapter for NBA data
  */
 export class ESPNAdapter implements SportsDataProvider {
-  readonly name = 'espn';
+  readonly name: string;
   
   private client: AxiosInstance;
   private lastError: Error | null = null;
   private errorCount = 0;
   private lastSuccessfulFetch: Date | null = null;
+  private readonly replayDir?: string;
+  private readonly recordDir?: string;
+
+  constructor(options: ESPNAdapterOptions = {}) {
+    this.name = options.name ?? 'espn';
+    this.replayDir = options.replayDir;
+    this.recordDir = options.recordDir;
 
-  constructor() {
     this.client = axios.create({
       timeout: 15000,
       headers: {
         'Accept': 'application/json',
         'User-Agent': 'BoxScore/1.0',
       },
+      ...(this.replayDir ? { adapter: this.createReplayAdapter(this.replayDir) } : {}),
     });
 
     this.client.interceptors.response.use(
       (response) => {
         this.lastSuccessfulFetch = new Date();
         this.errorCount = 0;
+        if (this.replayDir) return response;
+
         getESPNRateLimiter().recordSuccess();
+        if (this.recordDir && response.config.url) {
+          writeFixture(this.recordDir, response.config.url, response.data);
+        }
         return response;
       },
       (error: AxiosError) => {
         this.lastError = error;
         this.errorCount++;
+        if (this.replayDir) throw error;
         
         // Record error for adaptive backoff
         const isTimeout = error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT';
@@ -280,12 +472,39 @@ export class ESPNAdapter implements SportsDataProvider {
   }
 
   /**
-   * Execute a rate-limited request
+   * Axios adapter that answers requests from recorded fixtures (no network)
+   */
+  private createReplayAdapter(dir: string): AxiosAdapter {
+    return async (requestConfig) => {
+      const url = requestConfig.url ?? '';
+      const data = readFixture(dir, url);
+
+      if (data === null) {
+        throw new AxiosError(`No fixture recorded for ${url}`, AxiosError.ERR_BAD_REQUEST, requestConfig);
+      }
+
+      return {
+        data,
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        config: requestConfig,
+      };
+    };
+  }
+
+  /**
+   * Execute a rate-limited request.
+   * Replayed requests never reach ESPN, so they skip the budget entirely.
    */
   private async rateLimitedRequest<T>(
     bucket: ESPNBudgetBucket,
     requestFn: () => Promise<T>
   ): Promise<T> {
+    if (this.replayDir) {
+      return requestFn();
+    }
+
     const rateLimiter = getESPNRateLimiter();
     const check = rateLimiter.canMakeRequest(bucket);
     
@@ -319,6 +538,10 @@ export class ESPNAdapter implements SportsDataProvider {
         return { sport: 'football', sportPath: 'football/college-football', leaguePrefix: 'ncaaf' };
       case 'ncaam':
         return { sport: 'basketball', sportPath: 'basketball/mens-college-basketball', leaguePrefix: 'ncaam' };
+      case 'wnba':
+        return { sport: 'basketball', sportPath: 'basketball/wnba', leaguePrefix: 'wnba' };
+      case 'ncaaw':
+        return { sport: 'basketball', sportPath: 'basketball/womens-college-basketball', leaguePrefix: 'ncaaw' };
       case 'mlb':
         return { sport: 'baseball', sportPath: 'baseball/mlb', leaguePrefix: 'mlb' };
       case 'nhl':
@@ -347,7 +570,7 @@ export class ESPNAdapter implements SportsDataProvider {
    */
   private isBasketballLeague(league: string): boolean {
     const leagueLower = league.toLowerCase();
-    return leagueLower === 'nba' || leagueLower === 'ncaam';
+    return leagueLower === 'nba' || leagueLower === 'ncaam' || leagueLower === 'wnba' || leagueLower === 'ncaaw';
   }
   
   /**
@@ -358,6 +581,14 @@ export class ESPNAdapter implements SportsDataProvider {
     return leagueLower === 'nhl';
   }
 
+  /**
+   * Check if a league uses baseball-style box scores
+   */
+  private isBaseballLeague(league: string): boolean {
+    const leagueLower = league.toLowerCase();
+    return leagueLower === 'mlb';
+  }
+
   /**
    * Check if a league is a golf league
    */
@@ -441,8 +672,8 @@ export class ESPNAdapter implements SportsDataProvider {
         const game = this.transformSummaryToGame(response.data, espnId, config.leaguePrefix);
         const boxScore = this.transformBoxScore(response.data, config.leaguePrefix);
 
-        // Auto-extract players from box score (basketball leagues only)
-        if (this.isBasketballLeague(league)) {
+        // Auto-extract players from box score (basketball, hockey and football leagues)
+        if (this.isBasketballLeague(league) || this.isHockeyLeague(league) || this.isFootballLeague(league)) {
           try {
             const gameDate = response.data.header?.competitions?.[0]?.date
               ? new Date(response.data.header.competitions[0].date)
@@ -504,17 +735,355 @@ export class ESPNAdapter implements SportsDataProvider {
     });
   }
 
-  // ===== STANDINGS (Phase 2) =====
-  
+  // ===== STANDINGS =====
+
   async fetchStandings(league: string, season?: string): Promise<StandingsResponse> {
-    // Phase 2 implementation
-    throw new ProviderError('Standings not yet implemented for ESPN adapter');
+    const config = this.getSportConfig(league);
+
+    if (this.isGolfLeague(league)) {
+      throw new ProviderError(`Standings not available for league: ${league}`);
+    }
+
+    const espnSeason = season ? this.toESPNSeasonYear(config.leaguePrefix, season) : undefined;
+
+    try {
+      return await this.rateLimitedRequest('standings', async () => {
+        // level=3 returns conference -> division nesting where the league has divisions
+        const seasonParam = espnSeason ? `&season=${espnSeason}` : '';
+        const url = `https://site.api.espn.com/apis/v2/sports/${config.sportPath}/standings?level=3${seasonParam}`;
+
+        logger.debug('ESPNAdapter: Fetching standings', { url, league, season });
+        const response = await this.client.get<ESPNStandingsResponse>(url);
+
+        return this.transformStandings(response.data, config.leaguePrefix, season);
+      });
+    } catch (error) {
+      if (error instanceof ProviderError) throw error;
+      const errMsg = error instanceof Error ? error.message : String(error);
+      logger.error('ESPNAdapter: Failed to fetch standings', { league, season, error: errMsg });
+      throw new ProviderError(`Failed to fetch standings from ESPN: ${errMsg}`);
+    }
+  }
+
+  /**
+   * Convert a gateway season ("2024" or "2024-25") to the year ESPN expects.
+   * ESPN keys split-year seasons (NBA, NHL, NCAAM) by the year they end in,
+   * while a bare "YYYY" in the gateway is the season's start year.
+   */
+  private toESPNSeasonYear(leaguePrefix: string, season: string): number {
+    const startYear = parseInt(season.slice(0, 4), 10);
+    return isSplitYearLeague(leaguePrefix) ? startYear + 1 : startYear;
+  }
+
+  private transformStandings(
+    data: ESPNStandingsResponse,
+    leaguePrefix: string,
+    requestedSeason?: string
+  ): StandingsResponse {
+    const isCollege = leaguePrefix === 'ncaam' || leaguePrefix === 'ncaaw' || leaguePrefix === 'ncaaf';
+    const groupName = (group: ESPNStandingsGroup): string =>
+      (isCollege && group.id && ESPN_CONFERENCE_MAP[group.id]) || group.name;
+
+    // Some leagues return entries at the top level with no conference children
+    const conferenceGroups = data.children?.length ? data.children : [data];
+
+    const conferences: ConferenceStandings[] = conferenceGroups.map((conference) => {
+      const divisions: DivisionStandings[] = (conference.children ?? []).map((division) => ({
+        name: groupName(division),
+        teams: this.rankStandings(
+          (division.standings?.entries ?? []).map((entry) => this.transformStandingEntry(entry, leaguePrefix)),
+          leaguePrefix
+        ),
+      }));
+
+      const conferenceEntries = divisions.length > 0
+        ? divisions.flatMap((division) => division.teams)
+        : (conference.standings?.entries ?? []).map((entry) => this.transformStandingEntry(entry, leaguePrefix));
+
+      return {
+        name: groupName(conference),
+        teams: this.rankStandings(conferenceEntries, leaguePrefix),
+        ...(divisions.length > 0 ? { divisions } : {}),
+      };
+    });
+
+    const espnSeason = data.seasons?.[0]?.displayName
+      ?? conferenceGroups[0]?.standings?.seasonDisplayName;
+
+    return {
+      league: leaguePrefix,
+      season: requestedSeason ?? espnSeason ?? String(new Date().getFullYear()),
+      lastUpdated: new Date().toISOString(),
+      conferences,
+    };
+  }
+
+  private transformStandingEntry(entry: ESPNStandingsEntry, leaguePrefix: string): Standing {
+    const findStat = (...keys: string[]): ESPNStandingsStat | undefined =>
+      entry.stats.find((stat) => keys.includes(stat.name ?? '') || keys.includes(stat.type ?? ''));
+    const numericStat = (...keys: string[]): number | undefined => {
+      const stat = findStat(...keys);
+      if (!stat) return undefined;
+      if (typeof stat.value === 'number') return stat.value;
+      const parsed = parseFloat(stat.displayValue ?? '');
+      return isNaN(parsed) ? undefined : parsed;
+    };
+
+    const wins = numericStat('wins') ?? 0;
+    const losses = numericStat('losses') ?? 0;
+    const ties = numericStat('ties');
+    const otLosses = leaguePrefix === 'nhl' ? numericStat('otLosses', 'overtimeLosses') : undefined;
+    const gamesPlayed = wins + losses + (ties ?? 0) + (otLosses ?? 0);
+
+    const streakStat = findStat('streak');
+    const lastTenStat = findStat('lasttengames', 'L10', 'lastTenGames');
+
+    return {
+      teamId: `${leaguePrefix}_${entry.team.id}`,
+      abbrev: entry.team.abbreviation,
+      name: entry.team.displayName,
+      wins,
+      losses,
+      ...(ties !== undefined && ties > 0 ? { ties } : {}),
+      ...(otLosses !== undefined ? { otLosses } : {}),
+      ...(leaguePrefix === 'nhl' ? { points: numericStat('points') ?? wins * 2 + (otLosses ?? 0) } : {}),
+      winPct: numericStat('winPercent') ?? (gamesPlayed > 0 ? wins / gamesPlayed : 0),
+      rank: 0,  // assigned per group in rankStandings
+      streak: streakStat?.displayValue,
+      lastTen: lastTenStat?.summary ?? lastTenStat?.displayValue,
+    };
+  }
+
+  /**
+   * Sort a group and assign 1-based ranks. Games back is computed per group
+   * because ESPN's gamesBehind is relative to its own grouping level.
+   */
+  private rankStandings(teams: Standing[], leaguePrefix: string): Standing[] {
+    const sorted = [...teams].sort((a, b) => {
+      if (leaguePrefix === 'nhl') {
+        return (b.points ?? 0) - (a.points ?? 0) || b.winPct - a.winPct;
+      }
+      return b.winPct - a.winPct || b.wins - a.wins;
+    });
+
+    const leader = sorted[0];
+    return sorted.map((team, index) => ({
+      ...team,
+      rank: index + 1,
+      // NHL standings are ordered by points, so games back doesn't apply
+      gamesBack: leaguePrefix === 'nhl'
+        ? undefined
+        : ((leader.wins - team.wins) + (team.losses - leader.losses)) / 2,
+    }));
   }
 
   // ===== ROSTER =====
-  
+
   async fetchRoster(teamId: string): Promise<RosterResponse> {
-    throw new ProviderError('Roster not implemented for ESPN adapter');
+    // Team IDs share the game ID format (nba_13 -> league nba, ESPN team 13)
+    const { league, espnId } = this.parseGameId(teamId);
+    const config = this.getSportConfig(league);
+
+    if (this.isGolfLeague(league)) {
+      throw new ProviderError(`Rosters not available for league: ${league}`);
+    }
+
+    try {
+      return await this.rateLimitedRequest('reserve', async () => {
+        const url = `https://site.api.espn.com/apis/site/v2/sports/${config.sportPath}/teams/${espnId}/roster`;
+
+        logger.debug('ESPNAdapter: Fetching roster', { url, teamId, league });
+        const response = await this.client.get<ESPNRosterResponse>(url);
+
+        const athletes = (response.data.athletes ?? []).flatMap((entry) =>
+          'items' in entry ? entry.items : [entry]
+        );
+
+        return {
+          teamId,
+          season: response.data.season?.displayName
+            ?? String(response.data.season?.year ?? new Date().getFullYear()),
+          lastUpdated: new Date().toISOString(),
+          players: athletes.map((athlete) => ({
+            id: `player_${athlete.id}`,
+            name: athlete.displayName || athlete.fullName || '',
+            jersey: athlete.jersey,
+            position: athlete.position?.abbreviation,
+            height: athlete.displayHeight,
+            weight: athlete.displayWeight,
+            birthdate: athlete.dateOfBirth?.split('T')[0],
+            college: athlete.college?.name,
+          })),
+        };
+      });
+    } catch (error) {
+      if (error instanceof ProviderError) throw error;
+      const errMsg = error instanceof Error ? error.message : String(error);
+      logger.error('ESPNAdapter: Failed to fetch roster', { teamId, error: errMsg });
+      throw new ProviderError(`Failed to fetch roster from ESPN: ${errMsg}`);
+    }
+  }
+
+  // ===== TEAM SCHEDULE =====
+
+  /**
+   * Fetch a team's season schedule.
+   * @param season - League season label ("2025-26", "2026"); defaults to ESPN's current season
+   */
+  async fetchTeamSchedule(teamId: string, season?: string): Promise<Game[]> {
+    const { league, espnId } = this.parseGameId(teamId);
+    const config = this.getSportConfig(league);
+
+    if (this.isGolfLeague(league)) {
+      throw new ProviderError(`Team schedules not available for league: ${league}`);
+    }
+
+    const espnSeason = season ? this.toESPNSeasonYear(config.leaguePrefix, season) : undefined;
+
+    try {
+      return await this.rateLimitedRequest('schedule', async () => {
+        const seasonParam = espnSeason ? `?season=${espnSeason}` : '';
+        const url = `https://site.api.espn.com/apis/site/v2/sports/${config.sportPath}/teams/${espnId}/schedule${seasonParam}`;
+
+        logger.debug('ESPNAdapter: Fetching team schedule', { url, teamId, season });
+        const response = await this.client.get<ESPNTeamScheduleResponse>(url);
+
+        return (response.data.events ?? [])
+          .filter(event => event.competitions?.[0]?.competitors?.length === 2)
+          .map(event => this.transformEvent(this.normalizeTeamScheduleEvent(event), config.leaguePrefix));
+      });
+    } catch (error) {
+      if (error instanceof ProviderError) throw error;
+      const errMsg = error instanceof Error ? error.message : String(error);
+      logger.error('ESPNAdapter: Failed to fetch team schedule', { teamId, season, error: errMsg });
+      throw new ProviderError(`Failed to fetch team schedule from ESPN: ${errMsg}`);
+    }
+  }
+
+  /**
+   * Reshape a team schedule event into the scoreboard event format
+   */
+  private normalizeTeamScheduleEvent(event: ESPNTeamScheduleEvent): ESPNEvent {
+    const competition = event.competitions[0];
+
+    return {
+      ...event,
+      status: competition.status as ESPNEvent['status'],
+      competitions: [{
+        ...competition,
+        competitors: competition.competitors.map(competitor => ({
+          ...competitor,
+          score: competitor.score?.displayValue ?? String(competitor.score?.value ?? ''),
+          team: { ...competitor.team, logo: competitor.team.logo ?? competitor.team.logos?.[0]?.href ?? '' },
+        })),
+      }],
+    };
+  }
+
+  // ===== SEASON CALENDAR =====
+
+  /**
+   * Fetch season phase boundaries from ESPN's core API.
+   * @param espnYear - ESPN season year (split-year seasons use the year they end in)
+   */
+  async fetchSeasonCalendar(league: string, espnYear: number): Promise<SeasonCalendar> {
+    const config = this.getSportConfig(league);
+
+    if (this.isGolfLeague(league)) {
+      throw new ProviderError(`Season calendar not available for league: ${league}`);
+    }
+
+    const [sport, leagueSlug] = config.sportPath.split('/');
+
+    try {
+      return await this.rateLimitedRequest('schedule', async () => {
+        const url = `https://sports.core.api.espn.com/v2/sports/${sport}/leagues/${leagueSlug}/seasons/${espnYear}`;
+
+        logger.debug('ESPNAdapter: Fetching season calendar', { url, league, espnYear });
+        const response = await this.client.get<ESPNSeasonResponse>(url);
+
+        return this.transformSeasonCalendar(response.data, config.leaguePrefix);
+      });
+    } catch (error) {
+      if (error instanceof ProviderError) throw error;
+      const errMsg = error instanceof Error ? error.message : String(error);
+      logger.error('ESPNAdapter: Failed to fetch season calendar', { league, espnYear, error: errMsg });
+      throw new ProviderError(`Failed to fetch season calendar from ESPN: ${errMsg}`);
+    }
+  }
+
+  private transformSeasonCalendar(data: ESPNSeasonResponse, leaguePrefix: string): SeasonCalendar {
+    const phaseByType: Record<number, SeasonPhase> = {
+      1: 'preseason',
+      2: 'regular',
+      3: 'postseason',
+      4: 'offseason',
+    };
+
+    const timeZone = leagueConfig[leaguePrefix as LeagueId]?.timeZone ?? 'America/New_York';
+    const phases: SeasonPhaseDates[] = (data.types?.items ?? [])
+      .filter(item => phaseByType[item.type])
+      .map(item => ({
+        phase: phaseByType[item.type],
+        startDate: this.toCalendarDate(item.startDate, timeZone),
+        endDate: this.toCalendarDate(item.endDate, timeZone, true),
+      }));
+
+    const label = isSplitYearLeague(leaguePrefix) ? seasonLabel(data.year - 1) : String(data.year);
+
+    return { league: leaguePrefix, year: data.year, label, phases };
+  }
+
+  /**
+   * Calendar date of an ESPN phase boundary in the league's time zone.
+   * A phase ends one minute before the next one starts, so its inclusive
+   * last day is the day before the boundary that closes it.
+   */
+  private toCalendarDate(isoTimestamp: string, timeZone: string, isEnd = false): string {
+    const instant = new Date(isoTimestamp);
+    if (!isEnd) {
+      return toDateInTimeZone(instant, timeZone);
+    }
+
+    const closingDate = toDateInTimeZone(new Date(instant.getTime() + 60 * 1000), timeZone);
+    const lastDay = new Date(`${closingDate}T00:00:00Z`);
+    lastDay.setUTCDate(lastDay.getUTCDate() - 1);
+    return lastDay.toISOString().split('T')[0];
+  }
+
+  // ===== PLAY-BY-PLAY =====
+
+  async fetchPlays(gameId: string): Promise<PlaysResponse> {
+    const { league, espnId } = this.parseGameId(gameId);
+    const config = this.getSportConfig(league);
+
+    if (this.isGolfLeague(league)) {
+      throw new ProviderError(`Play-by-play not available for league: ${league}`);
+    }
+
+    try {
+      return await this.rateLimitedRequest('gameSummary', async () => {
+        const url = `https://site.web.api.espn.com/apis/site/v2/sports/${config.sportPath}/summary?event=${espnId}`;
+
+        logger.debug('ESPNAdapter: Fetching plays', { url, gameId, league });
+        const response = await this.client.get<ESPNSummaryResponse>(url);
+
+        const game = this.transformSummaryToGame(response.data, espnId, config.leaguePrefix);
+        const plays = this.transformPlays(response.data, config.leaguePrefix);
+
+        return {
+          game,
+          periods: Array.from(new Set(plays.map(play => play.period))).sort((a, b) => a - b),
+          plays,
+          lastUpdated: new Date().toISOString(),
+        };
+      });
+    } catch (error) {
+      if (error instanceof ProviderError) throw error;
+      const errMsg = error instanceof Error ? error.message : String(error);
+      logger.error('ESPNAdapter: Failed to fetch plays', { gameId, error: errMsg });
+      throw new ProviderError(`Failed to fetch plays from ESPN: ${errMsg}`);
+    }
   }
 
   // ===== HEALTH CHECK =====
@@ -588,8 +1157,8 @@ export class ESPNAdapter implements SportsDataProvider {
                         leaguePrefix === 'nhl' ? `P${event.status.period}` :
                         `Q${event.status.period}`;
 
-    // Determine overtime periods based on sport (NBA/NCAAM has 4 quarters or 2 halves, NFL/NCAAF has 4 quarters, NHL has 3 periods)
-    const regularPeriods = leaguePrefix === 'nhl' ? 3 : 4;
+    // Determine overtime periods based on sport (NBA/NCAAM has 4 quarters or 2 halves, NFL/NCAAF has 4 quarters, NHL has 3 periods, MLB has 9 innings)
+    const regularPeriods = leaguePrefix === 'nhl' ? 3 : leaguePrefix === 'mlb' ? 9 : 4;
     const overtimePeriods = event.status.period > regularPeriods ? event.status.period - regularPeriods : undefined;
 
     const gameStatus = this.mapGameStatus(event.status.type.name);
@@ -660,18 +1229,30 @@ export class ESPNAdapter implements SportsDataProvider {
       score = isNaN(parsed) ? 0 : parsed;
     }
 
+    const linescore = gameStatus !== 'scheduled' ? this.parseLinescores(competitor) : [];
+
     return {
       id: `${leaguePrefix}_${competitor.team.id}`,
       abbrev: competitor.team.abbreviation,
       name: competitor.team.shortDisplayName || competitor.team.displayName,
       city: competitor.team.location,
       score,
+      linescore: linescore.length > 0 ? linescore : undefined,
       logoURL: competitor.team.logo,
       primaryColor: competitor.team.color ? `#${competitor.team.color}` : undefined,
       conference,
     };
   }
 
+  /**
+   * Points per period (quarter, half, period or inning), overtime included
+   */
+  private parseLinescores(competitor: ESPNCompetitor): number[] {
+    return (competitor.linescores || []).map(
+      ls => ls.value ?? (parseInt(ls.displayValue || '0', 10) || 0)
+    );
+  }
+
   /**
    * Transform ESPN summary response to canonical Game
    */
@@ -697,7 +1278,7 @@ export class ESPNAdapter implements SportsDataProvider {
                         `Q${competition.status.period}`;
 
     // Determine overtime periods based on sport
-    const regularPeriods = leaguePrefix === 'nhl' ? 3 : 4;
+    const regularPeriods = leaguePrefix === 'nhl' ? 3 : leaguePrefix === 'mlb' ? 9 : 4;
     const overtimePeriods = competition.status.period > regularPeriods ? competition.status.period - regularPeriods : undefined;
 
     // Get start time from competition header (available in summary response)
@@ -787,20 +1368,42 @@ export class ESPNAdapter implements SportsDataProvider {
       };
     }
     
-    return {
-      homeTeam: this.transformTeamBoxScore(
-        homeCompetitor.team.id,
-        homeCompetitor.team.displayName,
-        homePlayerData,
-        leaguePrefix
-      ),
-      awayTeam: this.transformTeamBoxScore(
-        awayCompetitor.team.id,
-        awayCompetitor.team.displayName,
-        awayPlayerData,
-        leaguePrefix
-      ),
-    };
+    // Baseball leagues (MLB) split players into batters and pitchers
+    if (this.isBaseballLeague(leaguePrefix)) {
+      return {
+        homeTeam: this.transformMLBTeamBoxScore(
+          homeCompetitor,
+          homePlayerData,
+          summary.boxscore?.teams?.find(t => t.team.id === homeCompetitor.team.id),
+          leaguePrefix
+        ),
+        awayTeam: this.transformMLBTeamBoxScore(
+          awayCompetitor,
+          awayPlayerData,
+          summary.boxscore?.teams?.find(t => t.team.id === awayCompetitor.team.id),
+          leaguePrefix
+        ),
+      };
+    }
+    
+    const homeTeam = this.transformTeamBoxScore(
+      homeCompetitor.team.id,
+      homeCompetitor.team.displayName,
+      homePlayerData,
+      leaguePrefix
+    );
+    const awayTeam = this.transformTeamBoxScore(
+      awayCompetitor.team.id,
+      awayCompetitor.team.displayName,
+      awayPlayerData,
+      leaguePrefix
+    );
+
+    // Pace and defensive rating need both teams' possessions
+    applyOpponentAdvancedStats(homeTeam.teamTotals, awayTeam.teamTotals, leaguePrefix);
+    applyOpponentAdvancedStats(awayTeam.teamTotals, homeTeam.teamTotals, leaguePrefix);
+
+    return { homeTeam, awayTeam };
   }
   
   /**
@@ -907,19 +1510,19 @@ export class ESPNAdapter implements SportsDataProvider {
         const stats = athlete.stats || [];
         const position = athlete.athlete?.position?.abbreviation || '';
 
-        // Check if this is a goalie
-        if (position === 'G' || categoryName === 'goalies' || categoryName === 'goaltending') {
-          const goalieStats = this.parseNHLGoalieStats(stats, labelIndex);
+        const playerType = classifyNHLAthlete(categoryName, position);
+
+        if (playerType === 'goalie') {
+          const goalieStats = parseNHLGoalieStats(stats, labelIndex);
           goalies.push({
             id: `player_${athlete.athlete?.id || ''}`,
             name: athlete.athlete?.shortName || athlete.athlete?.displayName || 'Unknown',
             jersey: athlete.athlete?.jersey || '',
             stats: goalieStats,
-            decision: this.extractGoalieDecision(stats, labelIndex),
+            decision: extractGoalieDecision(stats, labelIndex),
           });
-        } else if (categoryName === 'skaters' || categoryName === 'forwards' || categoryName === 'defensemen' || categoryName === 'defense' || categoryName === 'defenses' || position === 'D' || !categoryName) {
-          // Include all skaters: forwards category, defenses category, or position D
-          const skaterStats = this.parseNHLSkaterStats(stats, labelIndex);
+        } else if (playerType === 'skater') {
+          const skaterStats = parseNHLSkaterStats(stats, labelIndex);
           skaters.push({
             id: `player_${athlete.athlete?.id || ''}`,
             name: athlete.athlete?.shortName || athlete.athlete?.displayName || 'Unknown',
@@ -951,101 +1554,6 @@ export class ESPNAdapter implements SportsDataProvider {
     };
   }
   
-  /**
-   * Parse NHL skater stats from ESPN format
-   */
-  private parseNHLSkaterStats(stats: string[], labelIndex: Record<string, number>): NHLSkaterStats {
-    const getStat = (label: string): string | undefined => {
-      const idx = labelIndex[label.toUpperCase()];
-      return idx !== undefined ? stats[idx] : undefined;
-    };
-    
-    const parseNumber = (val: string | undefined): number => {
-      if (!val || val === '-' || val === '') return 0;
-      return parseInt(val, 10) || 0;
-    };
-    
-    const parseTimeOnIce = (val: string | undefined): number => {
-      if (!val || val === '-' || val === '') return 0;
-      // ESPN time format: "MM:SS" -> convert to seconds
-      const parts = val.split(':');
-      if (parts.length === 2) {
-        return (parseInt(parts[0], 10) || 0) * 60 + (parseInt(parts[1], 10) || 0);
-      }
-      return parseInt(val, 10) || 0;
-    };
-    
-    return {
-      goals: parseNumber(getStat('G')),
-      assists: parseNumber(getStat('A')),
-      plusMinus: parseNumber(getStat('+/-')),
-      penaltyMinutes: parseNumber(getStat('PIM')),
-      shots: parseNumber(getStat('SOG') || getStat('S')),
-      hits: parseNumber(getStat('HIT') || getStat('HITS')),
-      blockedShots: parseNumber(getStat('BLK') || getStat('BS')),
-      faceoffWins: parseNumber(getStat('FW')),
-      faceoffLosses: parseNumber(getStat('FL')),
-      timeOnIceSeconds: parseTimeOnIce(getStat('TOI')),
-      powerPlayGoals: parseNumber(getStat('PPG')),
-      shortHandedGoals: parseNumber(getStat('SHG')),
-      powerPlayAssists: parseNumber(getStat('PPA')),
-      shortHandedAssists: parseNumber(getStat('SHA')),
-      shifts: parseNumber(getStat('SHFT') || getStat('SH')),
-    };
-  }
-  
-  /**
-   * Parse NHL goalie stats from ESPN format
-   */
-  private parseNHLGoalieStats(stats: string[], labelIndex: Record<string, number>): NHLGoalieStats {
-    const getStat = (label: string): string | undefined => {
-      const idx = labelIndex[label.toUpperCase()];
-      return idx !== undefined ? stats[idx] : undefined;
-    };
-    
-    const parseNumber = (val: string | undefined): number => {
-      if (!val || val === '-' || val === '') return 0;
-      return parseInt(val, 10) || 0;
-    };
-    
-    const parseTimeOnIce = (val: string | undefined): number => {
-      if (!val || val === '-' || val === '') return 0;
-      const parts = val.split(':');
-      if (parts.length === 2) {
-        return (parseInt(parts[0], 10) || 0) * 60 + (parseInt(parts[1], 10) || 0);
-      }
-      return parseInt(val, 10) || 0;
-    };
-    
-    const saves = parseNumber(getStat('SV') || getStat('SAVES'));
-    const shotsAgainst = parseNumber(getStat('SA'));
-    const goalsAgainst = parseNumber(getStat('GA'));
-    
-    return {
-      saves,
-      shotsAgainst,
-      goalsAgainst,
-      timeOnIceSeconds: parseTimeOnIce(getStat('TOI')),
-      evenStrengthSaves: parseNumber(getStat('EVSV')),
-      powerPlaySaves: parseNumber(getStat('PPSV')),
-      shortHandedSaves: parseNumber(getStat('SHSV')),
-      evenStrengthShotsAgainst: parseNumber(getStat('EVSA')),
-      powerPlayShotsAgainst: parseNumber(getStat('PPSA')),
-      shortHandedShotsAgainst: parseNumber(getStat('SHSA')),
-    };
-  }
-  
-  /**
-   * Extract goalie decision (W/L/OTL) from stats
-   */
-  private extractGoalieDecision(stats: string[], labelIndex: Record<string, number>): string | undefined {
-    const idx = labelIndex['DEC'] ?? labelIndex['DECISION'];
-    if (idx !== undefined && stats[idx] && stats[idx] !== '-') {
-      return stats[idx];
-    }
-    return undefined;
-  }
-  
   /**
    * Calculate NHL team totals from skaters
    */
@@ -1091,6 +1599,256 @@ export class ESPNAdapter implements SportsDataProvider {
     };
   }
 
+  // ===== PLAY-BY-PLAY TRANSFORMERS =====
+
+  /**
+   * Normalize ESPN plays. Football plays are flattened out of drives
+   * (the in-progress drive can also appear in `previous`, so plays are de-duplicated).
+   */
+  private transformPlays(summary: ESPNSummaryResponse, leaguePrefix: string): Play[] {
+    if (this.isFootballLeague(leaguePrefix)) {
+      const drives = [...(summary.drives?.previous ?? [])];
+      if (summary.drives?.current) {
+        drives.push(summary.drives.current);
+      }
+
+      const seen = new Set<string>();
+      const plays: Play[] = [];
+      for (const drive of drives) {
+        for (const play of drive.plays ?? []) {
+          if (seen.has(play.id)) continue;
+          seen.add(play.id);
+          plays.push(this.transformPlay(play, plays.length, leaguePrefix, drive));
+        }
+      }
+      return plays;
+    }
+
+    return (summary.plays ?? []).map((play, index) => this.transformPlay(play, index, leaguePrefix));
+  }
+
+  private transformPlay(play: ESPNPlay, index: number, leaguePrefix: string, drive?: ESPNDrive): Play {
+    const teamId = play.team?.id ?? play.start?.team?.id ?? drive?.team?.id;
+    const sequence = parseInt(play.sequenceNumber ?? '', 10);
+
+    return {
+      id: `play_${play.id}`,
+      sequence: isNaN(sequence) ? index + 1 : sequence,
+      period: play.period?.number ?? 0,
+      periodDisplay: play.period?.displayValue,
+      clock: play.clock?.displayValue,
+      teamId: teamId ? `${leaguePrefix}_${teamId}` : undefined,
+      playerIds: (play.participants ?? []).flatMap(participant =>
+        participant.athlete?.id ? [`player_${participant.athlete.id}`] : []
+      ),
+      type: play.type?.text,
+      description: play.text ?? '',
+      homeScore: play.homeScore ?? 0,
+      awayScore: play.awayScore ?? 0,
+      scoringPlay: play.scoringPlay ?? false,
+      scoreValue: play.scoringPlay ? play.scoreValue : undefined,
+      driveId: drive ? `drive_${drive.id}` : undefined,
+    };
+  }
+
+  // ===== MLB BOX SCORE =====
+
+  /**
+   * Transform ESPN player data to MLBTeamBoxScore
+   */
+  private transformMLBTeamBoxScore(
+    competitor: ESPNCompetitor,
+    playerData?: ESPNBoxscorePlayers,
+    teamData?: ESPNBoxscoreTeam,
+    leaguePrefix: string = 'mlb'
+  ): MLBTeamBoxScore {
+    const batters: MLBBatterLine[] = [];
+    const pitchers: MLBPitcherLine[] = [];
+
+    for (const stat of playerData?.statistics ?? []) {
+      const categoryName = (stat.name || stat.type || '').toLowerCase();
+
+      const labelIndex: Record<string, number> = {};
+      (stat.labels || []).forEach((label, idx) => {
+        labelIndex[label.toUpperCase()] = idx;
+      });
+
+      for (const athlete of stat.athletes || []) {
+        if (athlete.didNotPlay) continue;
+
+        const id = `player_${athlete.athlete?.id || ''}`;
+        const name = athlete.athlete?.shortName || athlete.athlete?.displayName || 'Unknown';
+        const jersey = athlete.athlete?.jersey;
+
+        if (categoryName === 'pitching') {
+          pitchers.push({
+            id,
+            name,
+            jersey,
+            stats: this.parseMLBPitchingStats(athlete.stats || [], labelIndex),
+            decision: this.extractPitchingDecision(athlete),
+          });
+        } else if (categoryName === 'batting') {
+          batters.push({
+            id,
+            name,
+            jersey,
+            position: athlete.athlete?.position?.abbreviation || '',
+            battingOrder: athlete.batOrder,
+            isStarter: athlete.starter,
+            stats: this.parseMLBBattingStats(athlete.stats || [], labelIndex),
+          });
+        }
+      }
+    }
+
+    const teamTotals = this.calculateMLBTeamTotals(batters);
+
+    return {
+      teamId: `${leaguePrefix}_${competitor.team.id}`,
+      teamName: competitor.team.displayName,
+      batters,
+      pitchers,
+      linescore: this.transformMLBLinescore(competitor, teamData, teamTotals),
+      teamTotals,
+    };
+  }
+
+  /**
+   * Parse MLB batting stats from ESPN format
+   */
+  private parseMLBBattingStats(stats: string[], labelIndex: Record<string, number>): MLBBattingStats {
+    const getStat = (label: string): string | undefined => {
+      const idx = labelIndex[label.toUpperCase()];
+      return idx !== undefined ? stats[idx] : undefined;
+    };
+
+    const parseNumber = (val: string | undefined): number => {
+      if (!val || val === '-' || val === '') return 0;
+      return parseInt(val, 10) || 0;
+    };
+
+    const parseRate = (val: string | undefined): number | undefined => {
+      if (!val || val === '-' || val === '') return undefined;
+      const parsed = parseFloat(val);
+      return isNaN(parsed) ? undefined : parsed;
+    };
+
+    return {
+      atBats: parseNumber(getStat('AB')),
+      runs: parseNumber(getStat('R')),
+      hits: parseNumber(getStat('H')),
+      rbi: parseNumber(getStat('RBI')),
+      homeRuns: parseNumber(getStat('HR')),
+      walks: parseNumber(getStat('BB')),
+      strikeouts: parseNumber(getStat('K') || getStat('SO')),
+      pitchesSeen: parseNumber(getStat('#P')),
+      avg: parseRate(getStat('AVG')),
+      obp: parseRate(getStat('OBP')),
+      slg: parseRate(getStat('SLG')),
+    };
+  }
+
+  /**
+   * Parse MLB pitching stats from ESPN format
+   */
+  private parseMLBPitchingStats(stats: string[], labelIndex: Record<string, number>): MLBPitchingStats {
+    const getStat = (label: string): string | undefined => {
+      const idx = labelIndex[label.toUpperCase()];
+      return idx !== undefined ? stats[idx] : undefined;
+    };
+
+    const parseNumber = (val: string | undefined): number => {
+      if (!val || val === '-' || val === '') return 0;
+      return parseInt(val, 10) || 0;
+    };
+
+    // "6.1" means 6 innings and 1 out, not a decimal fraction
+    const inningsPitched = getStat('IP') || '0.0';
+    const [fullInnings, partialOuts] = inningsPitched.split('.');
+    const outsRecorded = (parseInt(fullInnings, 10) || 0) * 3 + (parseInt(partialOuts, 10) || 0);
+
+    // Pitch count and strikes come combined as "PC-ST" (e.g. "98-64")
+    const [pitchCount, strikes] = (getStat('PC-ST') || '').split('-');
+    const era = parseFloat(getStat('ERA') || '');
+
+    return {
+      inningsPitched,
+      outsRecorded,
+      hits: parseNumber(getStat('H')),
+      runs: parseNumber(getStat('R')),
+      earnedRuns: parseNumber(getStat('ER')),
+      walks: parseNumber(getStat('BB')),
+      strikeouts: parseNumber(getStat('K') || getStat('SO')),
+      homeRuns: parseNumber(getStat('HR')),
+      pitchCount: parseNumber(pitchCount || getStat('PC')),
+      strikes: parseNumber(strikes),
+      era: isNaN(era) ? undefined : era,
+    };
+  }
+
+  /**
+   * Extract pitching decision (W/L/S/H/BS) from athlete notes, e.g. "W, 5-3"
+   */
+  private extractPitchingDecision(athlete: ESPNAthlete): string | undefined {
+    const note = athlete.notes?.find(n => n.type === 'pitchingDecision');
+    if (!note?.text) return undefined;
+    return note.text.split(',')[0].trim();
+  }
+
+  /**
+   * Build the inning-by-inning linescore with R/H/E
+   */
+  private transformMLBLinescore(
+    competitor: ESPNCompetitor,
+    teamData: ESPNBoxscoreTeam | undefined,
+    teamTotals: MLBTeamTotals
+  ): MLBLinescore {
+    const innings = this.parseLinescores(competitor);
+
+    const findTeamStat = (category: string, name: string): number | undefined => {
+      const group = teamData?.statistics?.find(s => s.name === category);
+      const value = group?.stats?.find(s => s.name === name)?.displayValue;
+      return value !== undefined ? parseInt(value, 10) || 0 : undefined;
+    };
+
+    return {
+      innings,
+      runs: parseInt(competitor.score, 10) || teamTotals.runs,
+      hits: competitor.hits ?? findTeamStat('batting', 'hits') ?? teamTotals.hits,
+      errors: competitor.errors ?? findTeamStat('fielding', 'errors') ?? 0,
+    };
+  }
+
+  /**
+   * Calculate MLB team totals from batters
+   */
+  private calculateMLBTeamTotals(batters: MLBBatterLine[]): MLBTeamTotals {
+    const totals: MLBTeamTotals = {
+      atBats: 0,
+      runs: 0,
+      hits: 0,
+      rbi: 0,
+      homeRuns: 0,
+      walks: 0,
+      strikeouts: 0,
+    };
+
+    for (const batter of batters) {
+      if (batter.stats) {
+        totals.atBats += batter.stats.atBats;
+        totals.runs += batter.stats.runs;
+        totals.hits += batter.stats.hits;
+        totals.rbi += batter.stats.rbi;
+        totals.homeRuns += batter.stats.homeRuns;
+        totals.walks += batter.stats.walks;
+        totals.strikeouts += batter.stats.strikeouts;
+      }
+    }
+
+    return totals;
+  }
+
   /**
    * Transform ESPN player data to canonical NBATeamBoxScore
    */
@@ -1229,7 +1987,9 @@ export class ESPNAdapter implements SportsDataProvider {
   }
 
   /**
-   * Calculate team totals from player stats
+   * Calculate team totals from player stats, plus advanced metrics for the
+   * team and each player. Pace and defensive rating are filled in once the
+   * opponent's totals are known.
    */
   private calculateTeamTotals(players: PlayerLine[]): TeamTotals {
     const totals: TeamTotals = this.emptyTeamTotals();
@@ -1266,6 +2026,19 @@ export class ESPNAdapter implements SportsDataProvider {
       : 0;
     totals.totalRebounds = (totals.offRebounds || 0) + (totals.defRebounds || 0);
 
+    // Advanced metrics
+    totals.trueShootingPct = trueShootingPct(totals.points!, totals.fgAttempted!, totals.ftAttempted!);
+    totals.effectiveFgPct = effectiveFgPct(totals.fgMade!, totals.threeMade!, totals.fgAttempted!);
+    totals.assistToTurnover = assistToTurnover(totals.assists!, totals.turnovers!);
+    totals.possessions = Math.round(estimatePossessions(totals) * 10) / 10;
+    totals.offensiveRating = rating(totals.points!, totals.possessions);
+
+    for (const player of players) {
+      if (player.stats) {
+        applyPlayerAdvancedStats(player.stats, totals);
+      }
+    }
+
     return totals;
   }
 
@@ -1661,11 +2434,27 @@ let espnAdapterInstance: ESPNAdapter | null = null;
 
 export function getESPNAdapter(): ESPNAdapter {
   if (!espnAdapterInstance) {
-    espnAdapterInstance = new ESPNAdapter();
+    espnAdapterInstance = new ESPNAdapter({
+      recordDir: appConfig.fixtures.record ? appConfig.fixtures.dir : undefined,
+    });
   }
   return espnAdapterInstance;
 }
 
 export function resetESPNAdapter(): void {
   espnAdapterInstance = null;
+  fixtureAdapterInstance = null;
+}
+
+// Fixture-replay instance: same transforms, responses read from disk
+let fixtureAdapterInstance: ESPNAdapter | null = null;
+
+export function getFixtureAdapter(): ESPNAdapter {
+  if (!fixtureAdapterInstance) {
+    fixtureAdapterInstance = new ESPNAdapter({
+      name: 'fixtures',
+      replayDir: appConfig.fixtures.dir,
+    });
+  }
+  return fixtureAdapterInstance;
 }
@@ -0,0 +1,166 @@
+/**
+ * ESPN NFL stat parsing
+ *
+ * Parses ESPN football box score categories (passing, rushing, receiving,
+ * defensive, kicking, ...) into the flat stats_json keys stored in
+ * nfl_player_game_logs. Used for both NFL and NCAAF.
+ */
+
+/** A label maps to one stat key, or to a made/attempted pair ("C/ATT", "FG") */
+type StatTarget = string | [string, string];
+
+/**
+ * Stat keys per box score category, by column label.
+ * Long gains end in "_long" and rates in "_avg"/"_rating"/"qbr" so season and
+ * team aggregation can tell them apart from counting stats.
+ */
+const NFL_CATEGORY_STATS: Record<string, Record<string, StatTarget>> = {
+  passing: {
+    'C/ATT': ['completions', 'attempts'],
+    'YDS': 'passing_yards',
+    'TD': 'passing_tds',
+    'INT': 'interceptions',
+    'SACKS': ['sacks_taken', 'sack_yards_lost'],
+    'QBR': 'qbr',
+    'RTG': 'passer_rating',
+  },
+  rushing: {
+    'CAR': 'carries',
+    'YDS': 'rushing_yards',
+    'TD': 'rushing_tds',
+    'LONG': 'rushing_long',
+  },
+  receiving: {
+    'REC': 'receptions',
+    'YDS': 'receiving_yards',
+    'TD': 'receiving_tds',
+    'LONG': 'receiving_long',
+    'TGTS': 'targets',
+  },
+  fumbles: {
+    'FUM': 'fumbles',
+    'LOST': 'fumbles_lost',
+    'REC': 'fumble_recoveries',
+  },
+  defensive: {
+    'TOT': 'total_tackles',
+    'SOLO': 'solo_tackles',
+    'SACKS': 'sacks',
+    'TFL': 'tackles_for_loss',
+    'PD': 'passes_defended',
+    'QB HTS': 'qb_hits',
+    'TD': 'defensive_tds',
+  },
+  interceptions: {
+    'INT': 'def_interceptions',
+    'YDS': 'int_return_yards',
+    'TD': 'int_tds',
+  },
+  kickReturns: {
+    'NO': 'kick_returns',
+    'YDS': 'kick_return_yards',
+    'LONG': 'kick_return_long',
+    'TD': 'kick_return_tds',
+  },
+  puntReturns: {
+    'NO': 'punt_returns',
+    'YDS': 'punt_return_yards',
+    'LONG': 'punt_return_long',
+    'TD': 'punt_return_tds',
+  },
+  kicking: {
+    'FG': ['field_goals_made', 'field_goals_attempted'],
+    'LONG': 'fg_long',
+    'XP': ['extra_points_made', 'extra_points_attempted'],
+    'PTS': 'kicking_points',
+  },
+  punting: {
+    'NO': 'punts',
+    'YDS': 'punt_yards',
+    'TB': 'touchbacks',
+    'IN 20': 'punts_inside_20',
+    'LONG': 'punt_long',
+  },
+};
+
+/**
+ * Position category implied by the categories a player appears in,
+ * for box score rows without a position
+ */
+const CATEGORY_POSITION: Array<[string, string]> = [
+  ['passing', 'QB'],
+  ['kicking', 'K'],
+  ['punting', 'P'],
+  ['defensive', 'DEF'],
+  ['interceptions', 'DEF'],
+  ['rushing', 'RB'],
+  ['receiving', 'WR'],
+];
+
+function parseStat(val: string | undefined): number | undefined {
+  if (!val || val === '-' || val === '--') return undefined;
+  const num = parseFloat(val);
+  return isNaN(num) ? undefined : num;
+}
+
+function parsePair(val: string | undefined): [number, number] | undefined {
+  if (!val || val === '-' || val === '--') return undefined;
+  // "22/31" (passing, kicking) or "2-14" (sacks-yards)
+  const parts = val.split(/[/-]/);
+  if (parts.length !== 2) return undefined;
+  return [parseInt(parts[0], 10) || 0, parseInt(parts[1], 10) || 0];
+}
+
+/**
+ * Parse one athlete's row from a football box score category.
+ * Unknown categories and labels are skipped.
+ */
+export function parseNFLCategoryStats(
+  categoryName: string,
+  labels: string[],
+  stats: string[]
+): Record<string, number> {
+  const mapping = NFL_CATEGORY_STATS[categoryName];
+  const parsed: Record<string, number> = {};
+  if (!mapping) return parsed;
+
+  labels.forEach((label, idx) => {
+    const target = mapping[label.toUpperCase()];
+    if (!target) return;
+
+    if (Array.isArray(target)) {
+      const pair = parsePair(stats[idx]);
+      if (pair) {
+        parsed[target[0]] = pair[0];
+        parsed[target[1]] = pair[1];
+      }
+      return;
+    }
+
+    const value = parseStat(stats[idx]);
+    if (value !== undefined) {
+      parsed[target] = value;
+    }
+  });
+
+  // ESPN reports total and solo tackles; assisted is the remainder
+  if (parsed.total_tackles !== undefined && parsed.solo_tackles !== undefined) {
+    parsed.assisted_tackles = parsed.total_tackles - parsed.solo_tackles;
+  }
+
+  return parsed;
+}
+
+/**
+ * Whether a box score category holds player stat rows we ingest
+ */
+export function isNFLStatCategory(categoryName: string): boolean {
+  return categoryName in NFL_CATEGORY_STATS;
+}
+
+/**
+ * Fallback position category from the categories a player appeared in
+ */
+export function positionCategoryFromNFLCategories(categories: string[]): string | undefined {
+  return CATEGORY_POSITION.find(([category]) => categories.includes(category))?.[1];
+}
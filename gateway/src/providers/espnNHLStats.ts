@@ -0,0 +1,122 @@
+/**
+ * ESPN NHL stat parsing
+ *
+ * Parses ESPN hockey box score stat rows (label/value arrays) into canonical
+ * skater and goalie stats. Shared by the box score transformer and player
+ * ingestion.
+ */
+
+import { NHLSkaterStats, NHLGoalieStats } from '../types';
+
+export type NHLPlayerType = 'skater' | 'goalie';
+
+/**
+ * Classify a box score athlete by statistics category and position.
+ * Returns null for categories that aren't player stat lines.
+ */
+export function classifyNHLAthlete(categoryName: string, position: string): NHLPlayerType | null {
+  if (position === 'G' || categoryName === 'goalies' || categoryName === 'goaltending') {
+    return 'goalie';
+  }
+  // Include all skaters: forwards category, defenses category, or position D
+  if (categoryName === 'skaters' || categoryName === 'forwards' || categoryName === 'defensemen'
+    || categoryName === 'defense' || categoryName === 'defenses' || position === 'D' || !categoryName) {
+    return 'skater';
+  }
+  return null;
+}
+
+/**
+ * Parse NHL skater stats from ESPN format
+ */
+export function parseNHLSkaterStats(stats: string[], labelIndex: Record<string, number>): NHLSkaterStats {
+  const getStat = (label: string): string | undefined => {
+    const idx = labelIndex[label.toUpperCase()];
+    return idx !== undefined ? stats[idx] : undefined;
+  };
+
+  const parseNumber = (val: string | undefined): number => {
+    if (!val || val === '-' || val === '') return 0;
+    return parseInt(val, 10) || 0;
+  };
+
+  const parseTimeOnIce = (val: string | undefined): number => {
+    if (!val || val === '-' || val === '') return 0;
+    // ESPN time format: "MM:SS" -> convert to seconds
+    const parts = val.split(':');
+    if (parts.length === 2) {
+      return (parseInt(parts[0], 10) || 0) * 60 + (parseInt(parts[1], 10) || 0);
+    }
+    return parseInt(val, 10) || 0;
+  };
+
+  return {
+    goals: parseNumber(getStat('G')),
+    assists: parseNumber(getStat('A')),
+    plusMinus: parseNumber(getStat('+/-')),
+    penaltyMinutes: parseNumber(getStat('PIM')),
+    shots: parseNumber(getStat('SOG') || getStat('S')),
+    hits: parseNumber(getStat('HIT') || getStat('HITS')),
+    blockedShots: parseNumber(getStat('BLK') || getStat('BS')),
+    faceoffWins: parseNumber(getStat('FW')),
+    faceoffLosses: parseNumber(getStat('FL')),
+    timeOnIceSeconds: parseTimeOnIce(getStat('TOI')),
+    powerPlayGoals: parseNumber(getStat('PPG')),
+    shortHandedGoals: parseNumber(getStat('SHG')),
+    powerPlayAssists: parseNumber(getStat('PPA')),
+    shortHandedAssists: parseNumber(getStat('SHA')),
+    shifts: parseNumber(getStat('SHFT') || getStat('SH')),
+  };
+}
+
+/**
+ * Parse NHL goalie stats from ESPN format
+ */
+export function parseNHLGoalieStats(stats: string[], labelIndex: Record<string, number>): NHLGoalieStats {
+  const getStat = (label: string): string | undefined => {
+    const idx = labelIndex[label.toUpperCase()];
+    return idx !== undefined ? stats[idx] : undefined;
+  };
+
+  const parseNumber = (val: string | undefined): number => {
+    if (!val || val === '-' || val === '') return 0;
+    return parseInt(val, 10) || 0;
+  };
+
+  const parseTimeOnIce = (val: string | undefined): number => {
+    if (!val || val === '-' || val === '') return 0;
+    const parts = val.split(':');
+    if (parts.length === 2) {
+      return (parseInt(parts[0], 10) || 0) * 60 + (parseInt(parts[1], 10) || 0);
+    }
+    return parseInt(val, 10) || 0;
+  };
+
+  const saves = parseNumber(getStat('SV') || getStat('SAVES'));
+  const shotsAgainst = parseNumber(getStat('SA'));
+  const goalsAgainst = parseNumber(getStat('GA'));
+
+  return {
+    saves,
+    shotsAgainst,
+    goalsAgainst,
+    timeOnIceSeconds: parseTimeOnIce(getStat('TOI')),
+    evenStrengthSaves: parseNumber(getStat('EVSV')),
+    powerPlaySaves: parseNumber(getStat('PPSV')),
+    shortHandedSaves: parseNumber(getStat('SHSV')),
+    evenStrengthShotsAgainst: parseNumber(getStat('EVSA')),
+    powerPlayShotsAgainst: parseNumber(getStat('PPSA')),
+    shortHandedShotsAgainst: parseNumber(getStat('SHSA')),
+  };
+}
+
+/**
+ * Extract goalie decision (W/L/OTL) from stats
+ */
+export function extractGoalieDecision(stats: string[], labelIndex: Record<string, number>): string | undefined {
+  const idx = labelIndex['DEC'] ?? labelIndex['DECISION'];
+  if (idx !== undefined && stats[idx] && stats[idx] !== '-') {
+    return stats[idx];
+  }
+  return undefined;
+}
@@ -6,14 +6,36 @@
  */
 
 import { logger } from '../utils/logger';
+import { isSplitYearLeague, toDateInTimeZone } from '../utils/seasonUtils';
+import { clearCachePattern, cacheKeys } from '../cache/redis';
+import { leagueConfig, LeagueId } from '../config';
+import { getScheduleStore, GameRecord } from '../jobs/scheduleStore';
 import {
   Player,
   NBAGameLog,
+  NHLGameLog,
+  NFLGameLog,
   upsertPlayer,
   upsertNBAGameLog,
+  upsertNHLGameLog,
+  upsertNFLGameLog,
   recomputeSeasonSummary,
   recomputeNBASplits,
+  recomputeNHLSeasonSummary,
+  recomputeNFLSeasonSummary,
+  toNFLPositionCategory,
 } from '../db/repositories/playerRepository';
+import {
+  classifyNHLAthlete,
+  parseNHLSkaterStats,
+  parseNHLGoalieStats,
+  extractGoalieDecision,
+} from './espnNHLStats';
+import {
+  parseNFLCategoryStats,
+  isNFLStatCategory,
+  positionCategoryFromNFLCategories,
+} from './espnNFLStats';
 
 /**
  * ESPN box score response types (subset needed for player extraction)
@@ -25,6 +47,7 @@ interface ESPNSummaryResponse {
   };
   header: {
     id: string;
+    week?: number;  // Football only
     competitions: ESPNCompetition[];
   };
 }
@@ -43,6 +66,7 @@ interface ESPNBoxscorePlayers {
     abbreviation: string;
   };
   statistics: Array<{
+    name?: string;  // Category name for NHL (e.g., "forwards", "goalies")
     names: string[];
     labels: string[];
     athletes: ESPNAthlete[];
@@ -70,21 +94,103 @@ interface ESPNCompetition {
   id: string;
   date?: string;
   competitors: ESPNCompetitor[];
+  status?: {
+    type: { state: string };  // 'pre', 'in' or 'post'
+  };
 }
 
 interface ESPNCompetitor {
   id: string;
   homeAway: 'home' | 'away';
+  score?: string;
   team: {
     id: string;
+    abbreviation?: string;
+    displayName?: string;
+    location?: string;
   };
 }
 
+/**
+ * Game context shared by every player line for one team
+ */
+export interface TeamGameContext {
+  gameId: string;
+  season: number;
+  gameDate: Date;
+  teamId: string;
+  opponentTeamId?: string;
+  isHome: boolean;
+  week?: number;
+}
+
+/**
+ * Football athlete stats merged across box score categories
+ */
+interface NFLAthleteLine {
+  athlete: ESPNAthlete;
+  categories: string[];
+  stats: Record<string, number>;
+}
+
+/**
+ * Store the box score's game (and its teams) when schedule sync has not,
+ * since game logs reference games(id). Schedule sync only runs daily for
+ * the NBA, so other leagues' games often arrive here first.
+ */
+async function ensureGameStored(summary: ESPNSummaryResponse, leaguePrefix: string, gameId: string): Promise<void> {
+  const store = getScheduleStore();
+  if (await store.getGame(gameId)) return;
+
+  const competition = summary.header.competitions[0];
+  const home = competition?.competitors.find(c => c.homeAway === 'home');
+  const away = competition?.competitors.find(c => c.homeAway === 'away');
+  if (!competition?.date || !home || !away) {
+    logger.warn('Box score header lacks game details, game logs may not store', { gameId });
+    return;
+  }
+
+  const timeZone = leagueConfig[leaguePrefix as LeagueId]?.timeZone ?? 'America/New_York';
+  const scoreboardDate = toDateInTimeZone(new Date(competition.date), timeZone);
+  const season = await store.getSeasonForDate(leaguePrefix, scoreboardDate);
+  const state = competition.status?.type.state;
+  const score = (competitor: ESPNCompetitor) => {
+    const parsed = parseInt(competitor.score ?? '', 10);
+    return isNaN(parsed) ? undefined : parsed;
+  };
+
+  const game: GameRecord = {
+    id: gameId,
+    leagueId: leaguePrefix,
+    seasonId: season?.id ?? '',
+    gameDate: competition.date.split('T')[0],
+    scoreboardDate,
+    startTimeUtc: competition.date,
+    homeTeamId: `${leaguePrefix}_${home.team.id}`,
+    awayTeamId: `${leaguePrefix}_${away.team.id}`,
+    homeScore: score(home),
+    awayScore: score(away),
+    status: state === 'post' ? 'final' : state === 'in' ? 'live' : 'scheduled',
+    externalIds: { espn: summary.header.id },
+    lastRefreshedAt: new Date(),
+  };
+  const teams = [home, away].map(competitor => ({
+    id: `${leaguePrefix}_${competitor.team.id}`,
+    leagueId: leaguePrefix,
+    name: competitor.team.displayName || competitor.team.abbreviation || competitor.team.id,
+    city: competitor.team.location,
+    abbreviation: competitor.team.abbreviation,
+  }));
+
+  await store.upsertGame(game, teams);
+  logger.debug('Stored game from box score', { gameId, seasonId: game.seasonId || null });
+}
+
 /**
  * Extract and upsert all players from an ESPN box score
  *
  * @param summary - ESPN summary response containing box score data
- * @param leaguePrefix - League identifier (e.g., 'nba', 'ncaam')
+ * @param leaguePrefix - League identifier (e.g., 'nba', 'ncaam', 'wnba')
  * @param season - Season year (e.g., 2025 for 2025-26 season)
  * @returns Array of player IDs that were upserted
  */
@@ -109,6 +215,15 @@ export async function extractAndUpsertPlayersFromBoxScore(
   // Extract game date
   const gameDate = competition.date ? new Date(competition.date) : new Date();
 
+  try {
+    await ensureGameStored(summary, leaguePrefix, gameId);
+  } catch (error) {
+    logger.error('Failed to store game for box score', {
+      gameId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
   // Process each team's player data
   for (const teamData of summary.boxscore.players) {
     const teamId = `${leaguePrefix}_${teamData.team.id}`;
@@ -121,6 +236,22 @@ export async function extractAndUpsertPlayersFromBoxScore(
     const opponentCompetitor = competition.competitors.find(c => c.team.id !== teamData.team.id);
     const opponentTeamId = opponentCompetitor ? `${leaguePrefix}_${opponentCompetitor.team.id}` : undefined;
 
+    const context: TeamGameContext = {
+      gameId, season, gameDate, teamId, opponentTeamId, isHome, week: summary.header.week,
+    };
+
+    // NHL splits players across categories (forwards, defenses, goalies)
+    if (leaguePrefix === 'nhl') {
+      playerIds.push(...await upsertNHLTeamPlayers(teamData, context));
+      continue;
+    }
+
+    // Football splits each player's line across categories (passing, rushing, ...)
+    if (leaguePrefix === 'nfl' || leaguePrefix === 'ncaaf') {
+      playerIds.push(...await upsertNFLTeamPlayers(teamData, leaguePrefix, context));
+      continue;
+    }
+
     // Extract players from statistics (NBA/NCAAM has one statistics entry)
     const stats = teamData.statistics[0];
     if (!stats?.athletes?.length) continue;
@@ -129,20 +260,7 @@ export async function extractAndUpsertPlayersFromBoxScore(
 
     for (const athlete of stats.athletes) {
       try {
-        // Upsert player bio
-        const player = await upsertPlayer({
-          sport: leaguePrefix,
-          provider: 'espn',
-          providerPlayerId: athlete.athlete.id,
-          displayName: athlete.athlete.displayName,
-          firstName: extractFirstName(athlete.athlete.displayName),
-          lastName: extractLastName(athlete.athlete.displayName),
-          jersey: athlete.athlete.jersey,
-          position: athlete.athlete.position?.abbreviation,
-          currentTeamId: teamId,
-          isActive: true,
-        });
-
+        const player = await upsertAthlete(athlete, leaguePrefix, teamId);
         playerIds.push(player.id);
 
         // Extract and upsert game log
@@ -186,6 +304,221 @@ export async function extractAndUpsertPlayersFromBoxScore(
   return playerIds;
 }
 
+/**
+ * Upsert the player bio for a box score athlete
+ */
+async function upsertAthlete(
+  athlete: ESPNAthlete,
+  leaguePrefix: string,
+  teamId: string
+): Promise<Player> {
+  return upsertPlayer({
+    sport: leaguePrefix,
+    provider: 'espn',
+    providerPlayerId: athlete.athlete.id,
+    displayName: athlete.athlete.displayName,
+    firstName: extractFirstName(athlete.athlete.displayName),
+    lastName: extractLastName(athlete.athlete.displayName),
+    jersey: athlete.athlete.jersey,
+    position: athlete.athlete.position?.abbreviation,
+    currentTeamId: teamId,
+    isActive: true,
+  });
+}
+
+/**
+ * Upsert players and game logs for one NHL team across all stat categories
+ */
+async function upsertNHLTeamPlayers(
+  teamData: ESPNBoxscorePlayers,
+  context: TeamGameContext
+): Promise<string[]> {
+  const playerIds: string[] = [];
+
+  for (const category of teamData.statistics || []) {
+    const categoryName = (category.name || '').toLowerCase();
+
+    const labelIndex: Record<string, number> = {};
+    (category.labels || []).forEach((label, idx) => {
+      labelIndex[label.toUpperCase()] = idx;
+    });
+
+    for (const athlete of category.athletes || []) {
+      const playerType = classifyNHLAthlete(categoryName, athlete.athlete.position?.abbreviation || '');
+      if (!playerType) continue;
+
+      try {
+        const player = await upsertAthlete(athlete, 'nhl', context.teamId);
+        playerIds.push(player.id);
+
+        await upsertNHLGameLog(extractNHLGameLog(player.id, context, playerType, athlete, labelIndex));
+
+        logger.debug('Upserted NHL player and game log', {
+          playerId: player.id,
+          playerName: player.display_name,
+          gameId: context.gameId,
+          playerType,
+          didNotPlay: athlete.didNotPlay,
+        });
+      } catch (error) {
+        logger.error('Failed to extract player from box score', {
+          espnPlayerId: athlete.athlete.id,
+          playerName: athlete.athlete.displayName,
+          gameId: context.gameId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  return playerIds;
+}
+
+/**
+ * Extract NHL game log (skater or goalie line) from ESPN athlete data
+ */
+export function extractNHLGameLog(
+  playerId: string,
+  context: TeamGameContext,
+  playerType: 'skater' | 'goalie',
+  athlete: ESPNAthlete,
+  labelIndex: Record<string, number>
+): NHLGameLog {
+  const stats = athlete.stats || [];
+  const base = {
+    player_id: playerId,
+    game_id: context.gameId,
+    season: context.season,
+    game_date: context.gameDate,
+    team_id: context.teamId,
+    opponent_team_id: context.opponentTeamId,
+    is_home: context.isHome,
+    is_starter: athlete.starter,
+    position: athlete.athlete.position?.abbreviation,
+    dnp_reason: athlete.didNotPlay ? (athlete.reason || 'DNP') : undefined,
+  };
+
+  if (playerType === 'goalie') {
+    const goalie = parseNHLGoalieStats(stats, labelIndex);
+    return {
+      ...base,
+      player_type: 'goalie',
+      toi_seconds: goalie.timeOnIceSeconds,
+      saves: goalie.saves,
+      shots_against: goalie.shotsAgainst,
+      goals_against: goalie.goalsAgainst,
+      ev_saves: goalie.evenStrengthSaves,
+      pp_saves: goalie.powerPlaySaves,
+      sh_saves: goalie.shortHandedSaves,
+      ev_shots_against: goalie.evenStrengthShotsAgainst,
+      pp_shots_against: goalie.powerPlayShotsAgainst,
+      sh_shots_against: goalie.shortHandedShotsAgainst,
+      decision: extractGoalieDecision(stats, labelIndex),
+    };
+  }
+
+  const skater = parseNHLSkaterStats(stats, labelIndex);
+  return {
+    ...base,
+    player_type: 'skater',
+    toi_seconds: skater.timeOnIceSeconds,
+    goals: skater.goals,
+    assists: skater.assists,
+    points: skater.goals + skater.assists,
+    plus_minus: skater.plusMinus,
+    pim: skater.penaltyMinutes,
+    shots: skater.shots,
+    hits: skater.hits,
+    blocked_shots: skater.blockedShots,
+    faceoff_wins: skater.faceoffWins,
+    faceoff_losses: skater.faceoffLosses,
+    pp_goals: skater.powerPlayGoals,
+    sh_goals: skater.shortHandedGoals,
+    pp_assists: skater.powerPlayAssists,
+    sh_assists: skater.shortHandedAssists,
+    shifts: skater.shifts,
+  };
+}
+
+/**
+ * Merge a football team's box score categories into one stat line per athlete
+ */
+export function mergeNFLAthleteLines(teamData: ESPNBoxscorePlayers): NFLAthleteLine[] {
+  const lines = new Map<string, NFLAthleteLine>();
+
+  for (const category of teamData.statistics || []) {
+    const categoryName = category.name || '';
+    if (!isNFLStatCategory(categoryName)) continue;
+
+    for (const athlete of category.athletes || []) {
+      const espnId = athlete.athlete?.id;
+      if (!espnId) continue;
+
+      const line = lines.get(espnId) ?? { athlete, categories: [], stats: {} };
+      line.categories.push(categoryName);
+      Object.assign(line.stats, parseNFLCategoryStats(categoryName, category.labels || [], athlete.stats || []));
+      lines.set(espnId, line);
+    }
+  }
+
+  return [...lines.values()];
+}
+
+/**
+ * Upsert players and game logs for one NFL/NCAAF team
+ */
+async function upsertNFLTeamPlayers(
+  teamData: ESPNBoxscorePlayers,
+  leaguePrefix: string,
+  context: TeamGameContext
+): Promise<string[]> {
+  const playerIds: string[] = [];
+
+  for (const line of mergeNFLAthleteLines(teamData)) {
+    const { athlete } = line;
+    try {
+      const player = await upsertAthlete(athlete, leaguePrefix, context.teamId);
+      playerIds.push(player.id);
+
+      const position = player.position || athlete.athlete.position?.abbreviation;
+      const gameLog: NFLGameLog = {
+        player_id: player.id,
+        game_id: context.gameId,
+        season: context.season,
+        week: context.week,
+        game_date: context.gameDate,
+        team_id: context.teamId,
+        opponent_team_id: context.opponentTeamId,
+        is_home: context.isHome,
+        is_starter: athlete.starter ?? false,
+        position_category: position
+          ? toNFLPositionCategory(position)
+          : positionCategoryFromNFLCategories(line.categories),
+        stats_json: line.stats,
+        dnp_reason: athlete.didNotPlay ? (athlete.reason || 'DNP') : undefined,
+      };
+
+      await upsertNFLGameLog(gameLog);
+
+      logger.debug('Upserted NFL player and game log', {
+        playerId: player.id,
+        playerName: player.display_name,
+        gameId: context.gameId,
+        categories: line.categories,
+      });
+    } catch (error) {
+      logger.error('Failed to extract player from box score', {
+        espnPlayerId: athlete.athlete.id,
+        playerName: athlete.athlete.displayName,
+        gameId: context.gameId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return playerIds;
+}
+
 /**
  * Extract NBA game log from ESPN athlete data
  */
@@ -306,8 +639,7 @@ export async function processBoxScoreForPlayers(
   // Recompute season summaries and splits for each player
   for (const playerId of playerIds) {
     try {
-      await recomputeSeasonSummary(playerId, season);
-      await recomputeNBASplits(playerId, season);
+      await recomputePlayerStats(playerId, leaguePrefix, season);
 
       logger.debug('Recomputed stats for player', { playerId, season });
     } catch (error) {
@@ -319,15 +651,49 @@ export async function processBoxScoreForPlayers(
     }
   }
 
+  // Live box scores are polled repeatedly; leaders only move once the game is final
+  const isFinal = summary.header.competitions?.[0]?.status?.type.state === 'post';
+  if (playerIds.length > 0 && isFinal) {
+    await invalidateLeadersCache(leaguePrefix, season);
+  }
+
   logger.info('Processed box score for players', {
     gameId: `${leaguePrefix}_${summary.header.id}`,
     playerCount: playerIds.length,
   });
 }
 
+/**
+ * Recompute a player's derived stats from their game logs.
+ * NHL and football have season summaries; basketball has summaries and splits.
+ */
+export async function recomputePlayerStats(
+  playerId: string,
+  leaguePrefix: string,
+  season: number
+): Promise<void> {
+  if (leaguePrefix === 'nhl') {
+    await recomputeNHLSeasonSummary(playerId, season);
+    return;
+  }
+  if (leaguePrefix === 'nfl' || leaguePrefix === 'ncaaf') {
+    await recomputeNFLSeasonSummary(playerId, season);
+    return;
+  }
+  await recomputeSeasonSummary(playerId, season);
+  await recomputeNBASplits(playerId, season);
+}
+
+/**
+ * Drop cached leaders for a league season after its summaries recompute
+ */
+export async function invalidateLeadersCache(leaguePrefix: string, season: number): Promise<void> {
+  await clearCachePattern(cacheKeys.leaders(leaguePrefix, season, '*', '*'));
+}
+
 /**
  * Determine season from game date
- * NBA/NCAAM seasons span two calendar years (e.g., 2025-26 season starts Oct 2025)
+ * NBA/NHL/NCAAM seasons span two calendar years (e.g., 2025-26 season starts Oct 2025)
  *
  * @param gameDate - Game date
  * @param leaguePrefix - League identifier
@@ -337,10 +703,10 @@ export function getSeasonFromGameDate(gameDate: Date, leaguePrefix: string): num
   const year = gameDate.getFullYear();
   const month = gameDate.getMonth(); // 0-indexed (0 = January)
 
-  // For NBA/NCAAM: Oct-Dec = current year's season, Jan-Sep = previous year's season
+  // For NBA/NHL/NCAAM/NCAAW: Oct-Dec = current year's season, Jan-Sep = previous year's season
   // e.g., Oct 2025 = 2025-26 season (return 2025)
   // e.g., Jan 2026 = 2025-26 season (return 2025)
-  if (leaguePrefix === 'nba' || leaguePrefix === 'ncaam') {
+  if (isSplitYearLeague(leaguePrefix)) {
     // October (9), November (10), December (11) = current year
     if (month >= 9) {
       return year;
@@ -349,6 +715,12 @@ export function getSeasonFromGameDate(gameDate: Date, leaguePrefix: string): num
     return year - 1;
   }
 
-  // For other sports, use calendar year
+  // For NFL/NCAAF: seasons start in August/September and finish in January/February
+  // e.g., Jan 2026 playoff game = 2025 season (return 2025)
+  if (leaguePrefix === 'nfl' || leaguePrefix === 'ncaaf') {
+    return month >= 6 ? year : year - 1;
+  }
+
+  // For other sports (including WNBA, May-Oct), use calendar year
   return year;
 }
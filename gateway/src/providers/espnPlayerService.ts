@@ -9,7 +9,24 @@ import axios from 'axios';
 import { logger } from '../utils/logger';
 import { query } from '../db/pool';
 
-const ESPN_ATHLETE_URL = 'https://site.web.api.espn.com/apis/common/v3/sports/basketball/nba/athletes';
+const ESPN_ATHLETES_BASE = 'https://site.web.api.espn.com/apis/common/v3/sports';
+
+/** ESPN sport paths for leagues with basketball athlete pages */
+const ESPN_ATHLETE_PATHS: Record<string, string> = {
+  nba: 'basketball/nba',
+  wnba: 'basketball/wnba',
+  ncaam: 'basketball/mens-college-basketball',
+  ncaaw: 'basketball/womens-college-basketball',
+};
+
+/**
+ * ESPN athletes endpoint for a league (defaults to NBA), or null when the
+ * league has no basketball athlete pages
+ */
+export function espnAthleteUrl(league: string = 'nba'): string | null {
+  const path = ESPN_ATHLETE_PATHS[league];
+  return path ? `${ESPN_ATHLETES_BASE}/${path}/athletes` : null;
+}
 
 interface ESPNSeasonStats {
   gamesPlayed: number;
@@ -53,9 +70,42 @@ export interface ESPNPlayerProfile {
   birthDate: string | null;
   college: string | null;
   draft: { year: number; round?: number; selection?: number } | null;
+  classYear: string | null;   // College players: "Freshman", "Junior", ...
+  conference: string | null;  // College players: "Big Ten", "SEC", ...
   currentSeasonStats: ESPNSeasonStats | null;
 }
 
+interface ESPNConference {
+  name?: string;
+  shortName?: string;
+}
+
+/** Fields of an ESPN athlete payload that carry college details */
+export interface ESPNCollegeAthlete {
+  experience?: string | { years?: number; displayValue?: string; abbreviation?: string };
+  team?: { id?: string; conference?: ESPNConference };
+  conference?: ESPNConference;
+}
+
+/**
+ * Class year and conference from an ESPN college athlete payload.
+ * Both are null for pro players.
+ */
+export function parseCollegeAthleteInfo(athlete: ESPNCollegeAthlete): { classYear: string | null; conference: string | null } {
+  const experience = athlete.experience;
+  const classYear = typeof experience === 'string'
+    ? experience
+    : experience?.displayValue || null;
+
+  const conference = athlete.team?.conference?.shortName
+    || athlete.team?.conference?.name
+    || athlete.conference?.shortName
+    || athlete.conference?.name
+    || null;
+
+  return { classYear, conference };
+}
+
 /**
  * Get ESPN player ID from our internal ID
  */
@@ -72,9 +122,15 @@ export async function getESPNPlayerId(internalId: string): Promise<string | null
 /**
  * Fetch player profile and stats directly from ESPN
  */
-export async function fetchESPNPlayerStats(espnPlayerId: string): Promise<ESPNPlayerProfile | null> {
+export async function fetchESPNPlayerStats(espnPlayerId: string, league: string = 'nba'): Promise<ESPNPlayerProfile | null> {
+  const baseUrl = espnAthleteUrl(league);
+  if (!baseUrl) {
+    logger.warn('No ESPN athlete endpoint for league', { espnPlayerId, league });
+    return null;
+  }
+
   try {
-    const url = `${ESPN_ATHLETE_URL}/${espnPlayerId}`;
+    const url = `${baseUrl}/${espnPlayerId}`;
     const response = await axios.get(url, {
       timeout: 10000,
       headers: {
@@ -159,6 +215,7 @@ export async function fetchESPNPlayerStats(espnPlayerId: string): Promise<ESPNPl
         round: athlete.draft.round || undefined,
         selection: athlete.draft.selection || athlete.draft.pick || undefined,
       } : null,
+      ...parseCollegeAthleteInfo(athlete),
       currentSeasonStats,
     };
 
@@ -300,8 +357,11 @@ interface ESPNAveragesCategory {
  * Fetch the ESPN /athletes/{id}/stats endpoint and extract the averages category.
  * Shared by both fetchESPNDetailedStats and fetchSeasonBySeasonStats.
  */
-async function fetchAveragesCategory(espnPlayerId: string): Promise<ESPNAveragesCategory | null> {
-  const url = `${ESPN_ATHLETE_URL}/${espnPlayerId}/stats`;
+async function fetchAveragesCategory(espnPlayerId: string, league: string): Promise<ESPNAveragesCategory | null> {
+  const baseUrl = espnAthleteUrl(league);
+  if (!baseUrl) return null;
+
+  const url = `${baseUrl}/${espnPlayerId}/stats`;
   const response = await axios.get(url, {
     timeout: 10000,
     headers: { 'Accept': 'application/json' },
@@ -358,9 +418,9 @@ export function parseCombinedStat(indexMap: Map<string, number>, stats: string[]
  * Fetch detailed season stats from ESPN stats endpoint.
  * Returns current (most recent) season stats with all shooting percentages.
  */
-async function fetchESPNDetailedStats(espnPlayerId: string): Promise<ESPNSeasonStats | null> {
+async function fetchESPNDetailedStats(espnPlayerId: string, league: string): Promise<ESPNSeasonStats | null> {
   try {
-    const averages = await fetchAveragesCategory(espnPlayerId);
+    const averages = await fetchAveragesCategory(espnPlayerId, league);
     if (!averages) {
       logger.debug('No averages category found in ESPN stats', { espnPlayerId });
       return null;
@@ -447,9 +507,12 @@ export interface ESPNStatCentralData {
  * Fetch all season-by-season stats from ESPN's /athletes/{id}/stats endpoint.
  * Returns per-game averages for each season plus career totals.
  */
-export async function fetchSeasonBySeasonStats(espnPlayerId: string): Promise<{ seasons: ESPNSeasonEntry[]; career: ESPNSeasonEntry | null }> {
+export async function fetchSeasonBySeasonStats(
+  espnPlayerId: string,
+  league: string = 'nba'
+): Promise<{ seasons: ESPNSeasonEntry[]; career: ESPNSeasonEntry | null }> {
   try {
-    const averages = await fetchAveragesCategory(espnPlayerId);
+    const averages = await fetchAveragesCategory(espnPlayerId, league);
     if (!averages) {
       logger.debug('No averages category found in ESPN stats', { espnPlayerId });
       return { seasons: [], career: null };
@@ -537,7 +600,10 @@ export async function fetchSeasonBySeasonStats(espnPlayerId: string): Promise<{
  * Fetch complete stat central data for a player from ESPN.
  * Returns profile, all seasons, and career averages.
  */
-export async function getStatCentralFromESPN(internalPlayerId: string): Promise<ESPNStatCentralData | null> {
+export async function getStatCentralFromESPN(
+  internalPlayerId: string,
+  league: string = 'nba'
+): Promise<ESPNStatCentralData | null> {
   const espnId = await getESPNPlayerId(internalPlayerId);
   if (!espnId) {
     logger.warn('No ESPN ID found for player', { internalPlayerId });
@@ -545,8 +611,8 @@ export async function getStatCentralFromESPN(internalPlayerId: string): Promise<
   }
 
   const [profile, seasonData] = await Promise.all([
-    fetchESPNPlayerStats(espnId),
-    fetchSeasonBySeasonStats(espnId),
+    fetchESPNPlayerStats(espnId, league),
+    fetchSeasonBySeasonStats(espnId, league),
   ]);
 
   if (!profile) return null;
@@ -595,7 +661,7 @@ export async function getStatCentralFromESPN(internalPlayerId: string): Promise<
  * Get player stats - fetches from ESPN on-demand
  * Uses both athlete endpoint (for bio) and stats endpoint (for complete stats)
  */
-export async function getPlayerStats(internalPlayerId: string): Promise<ESPNPlayerProfile | null> {
+export async function getPlayerStats(internalPlayerId: string, league: string = 'nba'): Promise<ESPNPlayerProfile | null> {
   const espnId = await getESPNPlayerId(internalPlayerId);
 
   if (!espnId) {
@@ -605,8 +671,8 @@ export async function getPlayerStats(internalPlayerId: string): Promise<ESPNPlay
 
   // Fetch both endpoints in parallel
   const [profile, detailedStats] = await Promise.all([
-    fetchESPNPlayerStats(espnId),
-    fetchESPNDetailedStats(espnId),
+    fetchESPNPlayerStats(espnId, league),
+    fetchESPNDetailedStats(espnId, league),
   ]);
 
   if (!profile) {
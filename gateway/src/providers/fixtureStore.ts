@@ -0,0 +1,64 @@
+/**
+ * Fixture Store - Recorded ESPN responses on disk
+ *
+ * Maps ESPN request URLs to JSON files so responses captured in record mode
+ * can be replayed later by the fixture provider without network access.
+ *
+ * Layout: {dir}/{api path}/{endpoint}__{sorted query}.json
+ * e.g. site/v2/sports/basketball/nba/scoreboard__dates=20260115.json
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from '../utils/logger';
+
+/**
+ * Resolve the fixture file path for an ESPN URL
+ */
+export function fixturePathForUrl(dir: string, url: string): string {
+  const parsed = new URL(url);
+
+  // Drop the "/apis/" prefix shared by every ESPN endpoint
+  const apiPath = parsed.pathname.replace(/^\/apis\//, '').replace(/\/+$/, '');
+
+  const params = Array.from(parsed.searchParams.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+
+  const fileName = params ? `${apiPath}__${params}` : apiPath;
+  const safeName = fileName.replace(/[^a-zA-Z0-9/_=&.-]/g, '_');
+
+  return path.join(dir, `${safeName}.json`);
+}
+
+/**
+ * Read a recorded response, or null if no fixture exists for the URL
+ */
+export function readFixture<T>(dir: string, url: string): T | null {
+  const filePath = fixturePathForUrl(dir, url);
+
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+}
+
+/**
+ * Record a response to disk, overwriting any previous recording
+ */
+export function writeFixture(dir: string, url: string, data: unknown): void {
+  const filePath = fixturePathForUrl(dir, url);
+
+  try {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(data, null, 2));
+    logger.debug('FixtureStore: Recorded response', { url, filePath });
+  } catch (error) {
+    logger.warn('FixtureStore: Failed to record response', {
+      url,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
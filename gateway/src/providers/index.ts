@@ -1,12 +1,21 @@
 /**
- * Provider module - ESPN-only data provider
+ * Provider module - league-aware data provider access
  *
- * All sports data is fetched from ESPN's unofficial API.
- * This module provides a clean interface for future provider switching if needed.
+ * Each league is served by an ordered list of providers (see ./registry).
+ * ESPN's unofficial API is the default for every league.
  */
 
-import { SportsDataProvider } from '../types';
-import { ESPNAdapter, getESPNAdapter } from './espnAdapter';
+import { SportsDataProvider, SeasonCalendar } from '../types';
+import { ProviderError } from '../middleware/errorHandler';
+import { ESPNAdapter, ESPNSummaryResponse, getESPNAdapter } from './espnAdapter';
+import {
+  getProvidersForLeague,
+  getProviderOrder,
+  fetchWithFailover,
+  ProviderResult,
+} from './registry';
+
+export { registerProvider, getRegisteredProviders, getProvidersForLeague, ProviderResult } from './registry';
 
 // ESPN adapter instance (lazy loaded)
 let espnInstance: ESPNAdapter | null = null;
@@ -16,7 +25,7 @@ let espnInstance: ESPNAdapter | null = null;
  *
  * ESPN unofficial API is used for all sports data:
  * - Free, no API key required
- * - Supports NBA, NFL, NCAAF, NCAAM, NHL
+ * - Supports NBA, NFL, NCAAF, NCAAM, NHL, MLB, WNBA, NCAAW
  * - Rate limited via ESPNRateLimiter (60/min, 2000/day)
  */
 export function getESPNAdapterInstance(): ESPNAdapter {
@@ -27,27 +36,80 @@ export function getESPNAdapterInstance(): ESPNAdapter {
 }
 
 /**
- * Get the active provider adapter
- * Currently always returns ESPN adapter
+ * Get the default provider adapter (first in the default provider order)
  */
 export function getProviderAdapter(): SportsDataProvider {
-  return getESPNAdapterInstance();
+  return getProvidersForLeague()[0];
 }
 
 /**
- * Get adapter for a specific league
- * Currently all leagues use ESPN
+ * Get the primary adapter for a specific league
  */
 export function getAdapterForLeague(league: string): SportsDataProvider {
-  return getESPNAdapterInstance();
+  return getProvidersForLeague(league)[0];
 }
 
 /**
- * Get adapter for a specific game ID
- * Currently all games use ESPN
+ * Get the primary adapter for a specific game ID
  */
 export function getAdapterForGame(gameId: string): SportsDataProvider {
-  return getESPNAdapterInstance();
+  return getAdapterForLeague(getLeagueFromId(gameId));
+}
+
+/**
+ * Fetch league data with failover across the league's configured providers
+ */
+export function fetchForLeague<T>(
+  league: string,
+  operation: (provider: SportsDataProvider) => Promise<T>
+): Promise<ProviderResult<T>> {
+  return fetchWithFailover(league, operation);
+}
+
+/**
+ * Fetch game/team data with failover, using the league from the ID prefix
+ */
+export function fetchForGame<T>(
+  gameId: string,
+  operation: (provider: SportsDataProvider) => Promise<T>
+): Promise<ProviderResult<T>> {
+  return fetchWithFailover(getLeagueFromId(gameId), operation);
+}
+
+/**
+ * Fetch a raw ESPN summary for player ingestion, failing over across the
+ * game's providers. Only ESPN-format providers (live or fixture replay) apply.
+ */
+export async function fetchRawSummaryForGame(gameId: string): Promise<ESPNSummaryResponse> {
+  const { data } = await fetchForGame(gameId, provider => {
+    if (!(provider instanceof ESPNAdapter)) {
+      throw new ProviderError(`Provider ${provider.name} does not serve raw summaries`);
+    }
+    return provider.fetchRawSummary(gameId);
+  });
+  return data;
+}
+
+/**
+ * Fetch a league's season calendar (phase start/end dates) with failover.
+ * Only ESPN-format providers apply.
+ */
+export async function fetchSeasonCalendarForLeague(league: string, espnYear: number): Promise<SeasonCalendar> {
+  const { data } = await fetchForLeague(league, provider => {
+    if (!(provider instanceof ESPNAdapter)) {
+      throw new ProviderError(`Provider ${provider.name} does not serve season calendars`);
+    }
+    return provider.fetchSeasonCalendar(league, espnYear);
+  });
+  return data;
+}
+
+/**
+ * Extract league from a prefixed ID (nba_401584701 -> nba, korn_ferry_123 -> korn_ferry)
+ */
+export function getLeagueFromId(id: string): string {
+  if (id.startsWith('korn_ferry_')) return 'korn_ferry';
+  return id.split('_')[0];
 }
 
 /**
@@ -78,6 +140,20 @@ export function isNCAAMGame(gameId: string): boolean {
   return gameId.startsWith('ncaam_');
 }
 
+/**
+ * Check if a game ID is for a WNBA game
+ */
+export function isWNBAGame(gameId: string): boolean {
+  return gameId.startsWith('wnba_');
+}
+
+/**
+ * Check if a game ID is for an NCAAW game
+ */
+export function isNCAAWGame(gameId: string): boolean {
+  return gameId.startsWith('ncaaw_');
+}
+
 /**
  * Check if a game ID is for an NHL game
  */
@@ -85,6 +161,13 @@ export function isNHLGame(gameId: string): boolean {
   return gameId.startsWith('nhl_');
 }
 
+/**
+ * Check if a game ID is for an MLB game
+ */
+export function isMLBGame(gameId: string): boolean {
+  return gameId.startsWith('mlb_');
+}
+
 /**
  * Check if a game/tournament ID is for a golf event
  */
@@ -93,16 +176,16 @@ export function isGolfGame(gameId: string): boolean {
 }
 
 /**
- * Check if a game uses ESPN adapter (all games do now)
+ * Check if a game's league is served by the ESPN adapter first
  */
 export function isESPNGame(gameId: string): boolean {
-  return true; // All games use ESPN
+  return getProviderOrder(getLeagueFromId(gameId))[0] === 'espn';
 }
 
 /**
  * Leagues supported by ESPN
  */
-export const ESPN_LEAGUES = ['nba', 'nfl', 'ncaaf', 'ncaam', 'nhl', 'pga', 'lpga', 'korn_ferry'];
+export const ESPN_LEAGUES = ['nba', 'nfl', 'ncaaf', 'ncaam', 'nhl', 'mlb', 'wnba', 'ncaaw', 'pga', 'lpga', 'korn_ferry'];
 
 /**
  * Reset provider instance (useful for testing)
@@ -112,8 +195,8 @@ export function resetProvider(): void {
 }
 
 /**
- * Get provider name
+ * Get the primary provider name for a league (or the default provider)
  */
-export function getProviderName(): string {
-  return 'espn';
+export function getProviderName(league?: string): string {
+  return getProviderOrder(league)[0] ?? 'espn';
 }
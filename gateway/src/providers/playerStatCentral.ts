@@ -3,13 +3,18 @@
  *
  * Merges historical seasons (Supabase) with current season (ESPN)
  * and computes career averages. Extracted from playerRoutes.ts.
+ *
+ * College basketball players read every season, including the current one,
+ * from our own game logs and only fall back to ESPN for seasons we haven't
+ * ingested.
  */
 
-import { getPlayerById, getHistoricalSeasons } from '../db/repositories/playerRepository';
+import { getPlayerById, getHistoricalSeasons, HistoricalSeasonRow } from '../db/repositories/playerRepository';
 import { getStatCentralFromESPN, ESPNPlayerProfile, ESPNSeasonEntry } from './espnPlayerService';
 import { NotFoundError } from '../middleware/errorHandler';
 import { StatCentralData, StatCentralPlayer, SeasonRow } from '../types/statCentral';
-import { getCurrentSeason, seasonLabel } from '../utils/seasonUtils';
+import { seasonLabel } from '../utils/seasonUtils';
+import { getCurrentSeasonYear } from '../jobs/seasonCalendar';
 
 /** Round to 1 decimal place */
 function round1(val: number | undefined | null): number {
@@ -65,6 +70,41 @@ function espnToSeasonRow(
   };
 }
 
+/** Leagues whose stat central rows come from our own game logs first */
+const STORED_SEASON_LEAGUES = new Set(['ncaam']);
+
+/** Convert a stored season summary (totals) to a per-game SeasonRow. */
+function storedToSeasonRow(hs: HistoricalSeasonRow): SeasonRow {
+  const gp = hs.games_played || 0;
+  const perGame = (total: number | null) => gp > 0 && total ? round1(total / gp) : 0;
+
+  return {
+    seasonLabel: seasonLabel(hs.season),
+    teamAbbreviation: !hs.team_id || hs.team_id === 'TOTAL' ? null : hs.team_id,
+    gamesPlayed: gp,
+    gamesStarted: hs.games_started || 0,
+    minutes: perGame(hs.minutes_total),
+    points: round1(hs.ppg ?? perGame(hs.points_total)),
+    rebounds: round1(hs.rpg ?? perGame(hs.reb)),
+    assists: round1(hs.apg ?? perGame(hs.ast)),
+    steals: perGame(hs.stl),
+    blocks: perGame(hs.blk),
+    turnovers: perGame(hs.tov),
+    personalFouls: perGame(hs.pf),
+    fgMade: perGame(hs.fgm),
+    fgAttempted: perGame(hs.fga),
+    fgPct: round1((hs.fg_pct || 0) * 100),
+    fg3Made: perGame(hs.fg3m),
+    fg3Attempted: perGame(hs.fg3a),
+    fg3Pct: round1((hs.fg3_pct || 0) * 100),
+    ftMade: perGame(hs.ftm),
+    ftAttempted: perGame(hs.fta),
+    ftPct: round1((hs.ft_pct || 0) * 100),
+    offRebounds: perGame(hs.oreb),
+    defRebounds: perGame(hs.dreb),
+  };
+}
+
 type NumericSeasonField = 'gamesStarted' | 'minutes' | 'points' | 'rebounds' | 'assists'
   | 'steals' | 'blocks' | 'turnovers' | 'personalFouls'
   | 'fgMade' | 'fgAttempted' | 'fgPct'
@@ -144,21 +184,27 @@ function computeCareerFromSeasons(seasons: SeasonRow[]): SeasonRow {
 
 /**
  * Build the complete stat-central dataset for a player.
- * Fetches data in parallel from DB and ESPN, merges seasons,
+ * Fetches data from DB and ESPN, merges seasons,
  * and computes career averages.
  */
 export async function buildStatCentral(playerId: string): Promise<StatCentralData> {
-  const [player, historicalSeasons, espnData] = await Promise.all([
-    getPlayerById(playerId),
+  // The ESPN endpoint depends on the player's league, so only the player
+  // lookup gates it; the historical seasons load alongside
+  const playerPromise = getPlayerById(playerId);
+  const leaguePromise = playerPromise.then(p => p?.sport || 'nba');
+  const [player, historicalSeasons, espnData, currentSeason] = await Promise.all([
+    playerPromise,
     getHistoricalSeasons(playerId),
-    getStatCentralFromESPN(playerId),
+    leaguePromise.then(league => getStatCentralFromESPN(playerId, league)),
+    leaguePromise.then(league => getCurrentSeasonYear(league)),
   ]);
 
   if (!player) {
     throw new NotFoundError(`Player not found: ${playerId}`);
   }
 
-  const currentSeason = getCurrentSeason();
+  const league = player.sport || 'nba';
+  const preferStored = STORED_SEASON_LEAGUES.has(league);
 
   const statCentralPlayer: StatCentralPlayer = {
     id: player.id,
@@ -171,50 +217,26 @@ export async function buildStatCentral(playerId: string): Promise<StatCentralDat
     college: espnData?.profile.college || player.school || null,
     hometown: player.hometown || null,
     draftSummary: buildDraftSummary(espnData?.profile),
+    ...(preferStored ? {
+      classYear: espnData?.profile.classYear ?? null,
+      conference: espnData?.profile.conference ?? null,
+    } : {}),
   };
 
   // Build season rows: merge historical (Supabase) + current (ESPN)
   const seasons: SeasonRow[] = [];
 
-  // Historical seasons from Supabase (completed seasons only)
-  for (const hs of historicalSeasons) {
-    if (hs.season >= currentSeason) continue; // skip current season, ESPN has fresher data
-    const gp = hs.games_played || 0;
-    const perGame = (total: number | null) => gp > 0 && total ? round1(total / gp) : 0;
-
-    seasons.push({
-      seasonLabel: seasonLabel(hs.season),
-      teamAbbreviation: !hs.team_id || hs.team_id === 'TOTAL' ? null : hs.team_id,
-      gamesPlayed: gp,
-      gamesStarted: hs.games_started || 0,
-      minutes: perGame(hs.minutes_total),
-      points: round1(hs.ppg ?? perGame(hs.points_total)),
-      rebounds: round1(hs.rpg ?? perGame(hs.reb)),
-      assists: round1(hs.apg ?? perGame(hs.ast)),
-      steals: perGame(hs.stl),
-      blocks: perGame(hs.blk),
-      turnovers: perGame(hs.tov),
-      personalFouls: perGame(hs.pf),
-      fgMade: perGame(hs.fgm),
-      fgAttempted: perGame(hs.fga),
-      fgPct: round1((hs.fg_pct || 0) * 100),
-      fg3Made: perGame(hs.fg3m),
-      fg3Attempted: perGame(hs.fg3a),
-      fg3Pct: round1((hs.fg3_pct || 0) * 100),
-      ftMade: perGame(hs.ftm),
-      ftAttempted: perGame(hs.fta),
-      ftPct: round1((hs.ft_pct || 0) * 100),
-      offRebounds: perGame(hs.oreb),
-      defRebounds: perGame(hs.dreb),
-    });
+  // Stored seasons: completed seasons only, unless this league reads its
+  // current season from our own game logs too
+  const storedSeasons = historicalSeasons.filter(hs => preferStored || hs.season < currentSeason);
+  for (const hs of storedSeasons) {
+    seasons.push(storedToSeasonRow(hs));
   }
 
   // Current season + any ESPN seasons not in Supabase
   if (espnData) {
     for (const es of espnData.seasons) {
-      const alreadyInDb = historicalSeasons.some(
-        hs => hs.season === es.season && hs.season < currentSeason
-      );
+      const alreadyInDb = storedSeasons.some(hs => hs.season === es.season);
       if (alreadyInDb) continue;
 
       seasons.push(espnToSeasonRow(es, seasonLabel(es.season), es.teamAbbreviation || null));
@@ -223,9 +245,10 @@ export async function buildStatCentral(playerId: string): Promise<StatCentralDat
 
   seasons.sort((a, b) => b.seasonLabel.localeCompare(a.seasonLabel));
 
-  // Career row: prefer ESPN, fallback to weighted average from seasons
+  // Career row: prefer ESPN, fallback to weighted average from seasons.
+  // Leagues read from our own game logs compute it from their rows.
   let career: SeasonRow;
-  if (espnData?.career) {
+  if (espnData?.career && !(preferStored && storedSeasons.length > 0)) {
     career = espnToSeasonRow(espnData.career, 'Career', null);
   } else {
     career = computeCareerFromSeasons(seasons);
@@ -0,0 +1,104 @@
+/**
+ * Provider Registry
+ *
+ * Maps each league to an ordered list of SportsDataProvider implementations.
+ * The order comes from config (PROVIDERS, or PROVIDERS_<LEAGUE> per league);
+ * requests go to the first provider and fail over to the next one when a
+ * provider throws ProviderError.
+ */
+
+import { config } from '../config';
+import { SportsDataProvider } from '../types';
+import { ProviderError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { getESPNAdapter, getFixtureAdapter } from './espnAdapter';
+
+export type ProviderFactory = () => SportsDataProvider;
+
+export interface ProviderResult<T> {
+  data: T;
+  provider: string;  // Name of the provider that actually served the data
+}
+
+const factories = new Map<string, ProviderFactory>([
+  ['espn', getESPNAdapter],
+  ['fixtures', getFixtureAdapter],
+]);
+
+/**
+ * Register a provider implementation under a config name
+ */
+export function registerProvider(name: string, factory: ProviderFactory): void {
+  factories.set(name.toLowerCase(), factory);
+}
+
+/**
+ * Names of all registered providers
+ */
+export function getRegisteredProviders(): string[] {
+  return Array.from(factories.keys());
+}
+
+/**
+ * Configured provider names for a league, in failover order.
+ * Without a league, returns the default order.
+ */
+export function getProviderOrder(league?: string): string[] {
+  if (!league) return config.providers.default;
+  return config.providers.byLeague[league.toLowerCase()] ?? config.providers.default;
+}
+
+/**
+ * Resolve the ordered provider instances for a league.
+ * Unknown names in config are skipped with a warning.
+ */
+export function getProvidersForLeague(league?: string): SportsDataProvider[] {
+  const providers: SportsDataProvider[] = [];
+
+  for (const name of getProviderOrder(league)) {
+    const factory = factories.get(name);
+    if (!factory) {
+      logger.warn('ProviderRegistry: Unknown provider in config', { league, provider: name });
+      continue;
+    }
+    providers.push(factory());
+  }
+
+  if (providers.length === 0) {
+    throw new ProviderError(`No data provider configured for league: ${league ?? 'default'}`);
+  }
+
+  return providers;
+}
+
+/**
+ * Run an operation against a league's providers in order, moving on to the
+ * next provider whenever one throws ProviderError. Other errors (not found,
+ * rate limits, bad requests) are returned to the caller immediately.
+ */
+export async function fetchWithFailover<T>(
+  league: string,
+  operation: (provider: SportsDataProvider) => Promise<T>
+): Promise<ProviderResult<T>> {
+  const providers = getProvidersForLeague(league);
+  let lastError: ProviderError | undefined;
+
+  for (const provider of providers) {
+    try {
+      const data = await operation(provider);
+      return { data, provider: provider.name };
+    } catch (error) {
+      if (!(error instanceof ProviderError)) throw error;
+
+      lastError = error;
+      logger.warn('ProviderRegistry: Provider failed, trying next', {
+        league,
+        provider: provider.name,
+        error: error.message,
+        remaining: providers.length - providers.indexOf(provider) - 1,
+      });
+    }
+  }
+
+  throw lastError ?? new ProviderError(`All providers failed for league: ${league}`);
+}
@@ -1,22 +1,67 @@
 /**
  * Admin routes - internal monitoring endpoints
+ *
+ * Every route requires an admin (requireAdmin); mutating calls are written
+ * to the admin audit log.
  */
 
+import crypto from 'crypto';
 import { Router, Request, Response, NextFunction } from 'express';
 import {
   runIncrementalSync,
   getScheduleSyncStats,
   getLeagueSeason,
+  getCurrentSeasonId,
   getGameDateEntry,
   isDateInSeason,
+  getScheduleStore,
+  runSeasonDiscovery,
+  SEASON_LEAGUES,
 } from '../jobs';
 import { materializeGameDates, getGameDatesStats } from '../jobs';
+import { LeagueSeason } from '../jobs/scheduleStore';
+import { BadRequestError, NotFoundError } from '../middleware/errorHandler';
+import { auditAdminRequest, requireAdmin } from '../middleware/adminAuth';
+import { getAdminAuditLog } from '../db/repositories/adminRepository';
+import {
+  ApiKey,
+  ApiKeyInput,
+  createApiKey,
+  deleteApiKey,
+  getApiKeys,
+  getApiKeyUsage,
+  updateApiKey,
+} from '../db/repositories/apiKeyRepository';
+import { generateApiKey, invalidateApiKeyCache } from '../middleware/apiKeyAuth';
+import { flushApiKeyUsage } from '../jobs/apiKeyUsage';
+import { getApiKeyLimiter } from '../utils/ApiKeyLimiter';
+import { computeSeasonStatus } from '../utils/seasonUtils';
 import { getStorageStats, deleteStoredBoxScore } from '../cache/BoxScoreStorage';
-import { backfillPlayers } from '../jobs/playerIngestion';
+import { backfillPlayers, PLAYER_GAME_LOG_TABLES } from '../jobs/playerIngestion';
 import { logger } from '../utils/logger';
+import { config, leagueConfig } from '../config';
+import {
+  WEBHOOK_EVENT_TYPES,
+  WebhookEventType,
+  WebhookSubscription,
+  WebhookSubscriptionInput,
+  createWebhookSubscription,
+  deleteWebhookSubscription,
+  getWebhookDeadLetter,
+  getWebhookDeadLetters,
+  getWebhookSubscription,
+  getWebhookSubscriptions,
+  markWebhookDeadLetterReplayed,
+  updateWebhookSubscription,
+} from '../db/repositories/webhookRepository';
+import { refreshWebhookDelivery } from '../jobs/webhookDelivery';
+import { getWebhookDispatcher } from '../webhooks/WebhookDispatcher';
+import { getBlockedHostReason } from '../webhooks/webhookTargets';
 
 export const adminRouter = Router();
 
+adminRouter.use(requireAdmin, auditAdminRequest);
+
 /**
  * GET /v1/admin/health
  * Basic health check
@@ -100,11 +145,12 @@ adminRouter.delete('/storage/boxscore/:gameId', async (req: Request, res: Respon
  */
 adminRouter.get('/schedule/stats', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const seasonId = req.query.seasonId as string || 'nba_2025-26';
+    const league = String(req.query.league || 'nba').toLowerCase();
+    const seasonId = req.query.seasonId ? String(req.query.seasonId) : await getCurrentSeasonId(league);
 
-    const syncStats = getScheduleSyncStats();
-    const gameDatesStats = getGameDatesStats(seasonId);
-    const season = getLeagueSeason(seasonId);
+    const syncStats = await getScheduleSyncStats();
+    const gameDatesStats = await getGameDatesStats(seasonId);
+    const season = seasonId ? await getLeagueSeason(seasonId) : undefined;
 
     res.json({
       data: {
@@ -137,14 +183,14 @@ adminRouter.get('/schedule/stats', async (req: Request, res: Response, next: Nex
  *   - league: league to sync (default: "nba")
  *   - daysBack: days before today (default: 7)
  *   - daysForward: days after today (default: 30)
- *   - seasonId: season ID (default: "nba_2025-26")
+ *   - seasonId: season ID (default: the league's current season)
  */
 adminRouter.post('/schedule/sync', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const league = String(req.query.league || 'nba').toLowerCase();
     const daysBack = parseInt(String(req.query.daysBack || '7'), 10);
     const daysForward = parseInt(String(req.query.daysForward || '30'), 10);
-    const seasonId = String(req.query.seasonId || 'nba_2025-26');
+    const seasonId = req.query.seasonId ? String(req.query.seasonId) : undefined;
 
     logger.info('Admin: Manual schedule sync triggered', {
       league,
@@ -171,11 +217,16 @@ adminRouter.post('/schedule/sync', async (req: Request, res: Response, next: Nex
  * POST /v1/admin/schedule/materialize
  * Rebuild game_dates index from games table
  * Query params:
- *   - seasonId: season ID (default: "nba_2025-26")
+ *   - league: league to materialize (default: "nba")
+ *   - seasonId: season ID (default: the league's current season)
  */
 adminRouter.post('/schedule/materialize', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const seasonId = String(req.query.seasonId || 'nba_2025-26');
+    const league = String(req.query.league || 'nba').toLowerCase();
+    const seasonId = req.query.seasonId ? String(req.query.seasonId) : await getCurrentSeasonId(league);
+    if (!seasonId) {
+      throw new BadRequestError(`No current season for league: ${league}. Pass seasonId.`);
+    }
 
     logger.info('Admin: Manual game_dates materialization triggered', { seasonId });
 
@@ -202,8 +253,8 @@ adminRouter.get('/schedule/date/:date', async (req: Request, res: Response, next
     const date = String(req.params.date);
     const league = String(req.query.league || 'nba').toLowerCase();
 
-    const gameDateEntry = getGameDateEntry(league, date);
-    const inSeason = isDateInSeason(league, date);
+    const gameDateEntry = await getGameDateEntry(league, date);
+    const inSeason = await isDateInSeason(league, date);
 
     res.json({
       data: {
@@ -233,6 +284,210 @@ adminRouter.get('/schedule/date/:date', async (req: Request, res: Response, next
   }
 });
 
+// =====================
+// League Season Endpoints
+// =====================
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const SEASON_DATE_FIELDS = ['startDate', 'endDate', 'preseasonStart', 'postseasonEnd'] as const;
+
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+/**
+ * Validate the date fields of a season body. Optional fields may be null
+ * to clear them.
+ */
+function parseSeasonDates(body: Record<string, unknown>): Partial<Pick<LeagueSeason, typeof SEASON_DATE_FIELDS[number]>> {
+  const dates: Partial<Pick<LeagueSeason, typeof SEASON_DATE_FIELDS[number]>> = {};
+  for (const field of SEASON_DATE_FIELDS) {
+    const value = body[field];
+    if (value === undefined) continue;
+    if (value === null && (field === 'preseasonStart' || field === 'postseasonEnd')) {
+      dates[field] = undefined;
+      continue;
+    }
+    if (typeof value !== 'string' || !DATE_PATTERN.test(value)) {
+      throw new BadRequestError(`${field} must be a YYYY-MM-DD date`);
+    }
+    dates[field] = value;
+  }
+  return dates;
+}
+
+function validateSeasonBounds(season: LeagueSeason): void {
+  if (season.endDate < season.startDate) {
+    throw new BadRequestError('endDate must not be before startDate');
+  }
+  if (season.preseasonStart && season.preseasonStart > season.startDate) {
+    throw new BadRequestError('preseasonStart must not be after startDate');
+  }
+  if (season.postseasonEnd && season.postseasonEnd < season.endDate) {
+    throw new BadRequestError('postseasonEnd must not be before endDate');
+  }
+}
+
+/**
+ * GET /v1/admin/seasons
+ * List league seasons
+ * Query params:
+ *   - league: filter by league (optional)
+ */
+adminRouter.get('/seasons', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const league = req.query.league ? String(req.query.league).toLowerCase() : undefined;
+
+    const seasons = (await getScheduleStore().getAllSeasons())
+      .filter(season => !league || season.leagueId === league)
+      .sort((a, b) => a.leagueId.localeCompare(b.leagueId) || a.startDate.localeCompare(b.startDate));
+
+    res.json({
+      data: seasons,
+      meta: {
+        requestId: req.requestId,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /v1/admin/seasons
+ * Create a league season. Seasons created here are marked "manual" and are
+ * never overwritten by calendar discovery.
+ *
+ * Body params:
+ *   - leagueId: league (required)
+ *   - seasonLabel: e.g. "2025-26" or "2026" (required)
+ *   - startDate, endDate: regular season bounds, YYYY-MM-DD (required)
+ *   - preseasonStart, postseasonEnd: YYYY-MM-DD (optional)
+ */
+adminRouter.post('/seasons', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    const leagueId = typeof body.leagueId === 'string' ? body.leagueId.toLowerCase() : '';
+    const seasonLabel = typeof body.seasonLabel === 'string' ? body.seasonLabel.trim() : '';
+
+    if (!SEASON_LEAGUES.includes(leagueId)) {
+      throw new BadRequestError(`leagueId must be one of: ${SEASON_LEAGUES.join(', ')}`);
+    }
+    if (!seasonLabel) {
+      throw new BadRequestError('seasonLabel is required');
+    }
+
+    const dates = parseSeasonDates(body);
+    if (!dates.startDate || !dates.endDate) {
+      throw new BadRequestError('startDate and endDate are required');
+    }
+
+    const id = `${leagueId}_${seasonLabel}`;
+    const store = getScheduleStore();
+    if (await store.getSeason(id)) {
+      throw new BadRequestError(`Season already exists: ${id}`);
+    }
+
+    const season: LeagueSeason = {
+      id,
+      leagueId,
+      seasonLabel,
+      startDate: dates.startDate,
+      endDate: dates.endDate,
+      preseasonStart: dates.preseasonStart,
+      postseasonEnd: dates.postseasonEnd,
+      status: 'offseason',
+      scheduleSource: 'manual',
+    };
+    validateSeasonBounds(season);
+    season.status = computeSeasonStatus(season, today());
+
+    await store.upsertSeason(season);
+    await store.flush();
+
+    logger.info('Admin: Season created', { seasonId: id });
+
+    res.status(201).json({
+      data: season,
+      meta: {
+        requestId: req.requestId,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /v1/admin/seasons/:id
+ * Edit a season's dates. The season is marked "manual" so later calendar
+ * discovery keeps the edit.
+ */
+adminRouter.put('/seasons/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = String(req.params.id);
+    const store = getScheduleStore();
+    const existing = await store.getSeason(id);
+    if (!existing) {
+      throw new NotFoundError(`Season not found: ${id}`);
+    }
+
+    const season: LeagueSeason = {
+      ...existing,
+      ...parseSeasonDates((req.body ?? {}) as Record<string, unknown>),
+      scheduleSource: 'manual',
+    };
+    validateSeasonBounds(season);
+    season.status = computeSeasonStatus(season, today());
+
+    await store.upsertSeason(season);
+    await store.flush();
+
+    logger.info('Admin: Season updated', { seasonId: id, status: season.status });
+
+    res.json({
+      data: season,
+      meta: {
+        requestId: req.requestId,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /v1/admin/seasons/discover
+ * Discover season boundaries from the provider's season calendar
+ * Query params:
+ *   - league: league to discover (default: all season leagues)
+ */
+adminRouter.post('/seasons/discover', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const league = req.query.league ? String(req.query.league).toLowerCase() : undefined;
+    if (league && !SEASON_LEAGUES.includes(league)) {
+      throw new BadRequestError(`league must be one of: ${SEASON_LEAGUES.join(', ')}`);
+    }
+
+    logger.info('Admin: Season discovery triggered', { league: league ?? 'all' });
+
+    const results = await runSeasonDiscovery(league ? [league] : SEASON_LEAGUES);
+
+    res.json({
+      data: results,
+      meta: {
+        requestId: req.requestId,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // =====================
 // Player Backfill Endpoints
 // =====================
@@ -243,7 +498,7 @@ adminRouter.get('/schedule/date/:date', async (req: Request, res: Response, next
  * Synchronous — waits until all games are processed, then returns results.
  *
  * Body params:
- *   - league: league to backfill (default: "nba")
+ *   - league: league to backfill: nba, ncaam, nhl, nfl or ncaaf (default: "nba")
  *   - season: season year (default: 2025)
  *   - limit: max games to process (default: 500)
  */
@@ -253,6 +508,10 @@ adminRouter.post('/backfill/players', async (req: Request, res: Response, next:
     const season = req.body?.season ? parseInt(String(req.body.season), 10) : undefined;
     const limit = parseInt(String(req.body?.limit || '500'), 10);
 
+    if (!PLAYER_GAME_LOG_TABLES[league]) {
+      throw new BadRequestError(`Player backfill not supported for league: ${league}`);
+    }
+
     logger.info('Admin: Player backfill triggered', { league, season, limit });
 
     const result = await backfillPlayers(league, season, limit);
@@ -268,3 +527,574 @@ adminRouter.post('/backfill/players', async (req: Request, res: Response, next:
     next(error);
   }
 });
+
+// =====================
+// Webhook Endpoints
+// =====================
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const PREFIXED_ID_REGEX = /^[a-z_]+_[\w-]+$/;
+
+/**
+ * Subscription as returned by the API; the secret is only shown in full on create
+ */
+function toWebhookResponse(subscription: WebhookSubscription, revealSecret = false) {
+  return {
+    id: subscription.id,
+    url: subscription.url,
+    secret: revealSecret ? subscription.secret : `…${subscription.secret.slice(-4)}`,
+    description: subscription.description,
+    league: subscription.league,
+    teamId: subscription.team_id,
+    gameId: subscription.game_id,
+    events: subscription.events,
+    active: subscription.active,
+    createdAt: subscription.created_at,
+    updatedAt: subscription.updated_at,
+  };
+}
+
+/**
+ * Validate webhook body fields; only fields present in the body are returned
+ */
+function parseWebhookInput(body: Record<string, unknown>): Partial<WebhookSubscriptionInput> {
+  const input: Partial<WebhookSubscriptionInput> = {};
+
+  if (body.url !== undefined) {
+    let url: URL;
+    try {
+      url = new URL(String(body.url));
+    } catch {
+      throw new BadRequestError('url must be an absolute URL');
+    }
+    const allowHttp = config.nodeEnv !== 'production';
+    if (url.protocol !== 'https:' && !(allowHttp && url.protocol === 'http:')) {
+      throw new BadRequestError('url must use https');
+    }
+    const blockedReason = getBlockedHostReason(url);
+    if (blockedReason) {
+      throw new BadRequestError(blockedReason);
+    }
+    input.url = url.toString();
+  }
+  if (body.secret !== undefined) {
+    if (typeof body.secret !== 'string' || body.secret.length < 16 || body.secret.length > 200) {
+      throw new BadRequestError('secret must be a string of 16-200 characters');
+    }
+    input.secret = body.secret;
+  }
+  if (body.description !== undefined) {
+    if (body.description !== null && (typeof body.description !== 'string' || body.description.length > 200)) {
+      throw new BadRequestError('description must be a string under 200 characters');
+    }
+    input.description = body.description as string | null;
+  }
+  if (body.league !== undefined) {
+    if (body.league !== null && !(String(body.league) in leagueConfig)) {
+      throw new BadRequestError(`Unsupported league: ${body.league}`);
+    }
+    input.league = body.league as string | null;
+  }
+  for (const [field, column] of [['teamId', 'team_id'], ['gameId', 'game_id']] as const) {
+    if (body[field] === undefined) continue;
+    if (body[field] !== null && (typeof body[field] !== 'string' || !PREFIXED_ID_REGEX.test(body[field] as string))) {
+      throw new BadRequestError(`Invalid ${field} format (expected: league_identifier)`);
+    }
+    input[column] = body[field] as string | null;
+  }
+  if (body.events !== undefined) {
+    const events = body.events;
+    if (!Array.isArray(events) || events.length === 0
+      || events.some(event => !WEBHOOK_EVENT_TYPES.includes(event as WebhookEventType))) {
+      throw new BadRequestError(`events must be a non-empty array of: ${WEBHOOK_EVENT_TYPES.join(', ')}`);
+    }
+    input.events = [...new Set(events as WebhookEventType[])];
+  }
+  if (body.active !== undefined) {
+    if (typeof body.active !== 'boolean') {
+      throw new BadRequestError('active must be a boolean');
+    }
+    input.active = body.active;
+  }
+
+  return input;
+}
+
+/**
+ * Pick up subscription changes right away instead of on the next 5-minute refresh
+ */
+function refreshWebhooksInBackground(): void {
+  refreshWebhookDelivery().catch(error => {
+    logger.warn('Admin: Webhook refresh failed', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  });
+}
+
+function parseUuidParam(value: unknown, name: string): string {
+  const id = String(value);
+  if (!UUID_RE.test(id)) {
+    throw new NotFoundError(`${name} not found: ${id}`);
+  }
+  return id;
+}
+
+/**
+ * GET /v1/admin/webhooks
+ * List webhook subscriptions (secrets masked)
+ */
+adminRouter.get('/webhooks', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const subscriptions = await getWebhookSubscriptions();
+    res.json({
+      data: subscriptions.map(subscription => toWebhookResponse(subscription)),
+      meta: {
+        requestId: req.requestId,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /v1/admin/webhooks
+ * Create a webhook subscription
+ *
+ * Body params:
+ *   - url: https endpoint (required)
+ *   - events: game.status and/or game.score (default: both)
+ *   - league, teamId, gameId: optional filters (AND)
+ *   - secret: signing secret (default: generated; returned once)
+ *   - description
+ */
+adminRouter.post('/webhooks', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const input = parseWebhookInput(req.body ?? {});
+    if (!input.url) {
+      throw new BadRequestError('url is required');
+    }
+
+    const subscription = await createWebhookSubscription({
+      ...input,
+      url: input.url,
+      secret: input.secret ?? crypto.randomBytes(32).toString('hex'),
+      events: input.events ?? [...WEBHOOK_EVENT_TYPES],
+    });
+
+    logger.info('Admin: Webhook subscription created', { id: subscription.id, url: subscription.url });
+    refreshWebhooksInBackground();
+
+    res.status(201).json({
+      data: toWebhookResponse(subscription, true),
+      meta: {
+        requestId: req.requestId,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PATCH /v1/admin/webhooks/:id
+ * Update filters, events, URL, secret or active flag
+ */
+adminRouter.patch('/webhooks/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseUuidParam(req.params.id, 'Webhook subscription');
+    const subscription = await updateWebhookSubscription(id, parseWebhookInput(req.body ?? {}));
+    if (!subscription) {
+      throw new NotFoundError(`Webhook subscription not found: ${id}`);
+    }
+
+    logger.info('Admin: Webhook subscription updated', { id });
+    refreshWebhooksInBackground();
+
+    res.json({
+      data: toWebhookResponse(subscription),
+      meta: {
+        requestId: req.requestId,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /v1/admin/webhooks/:id
+ * Delete a subscription and its dead letters
+ */
+adminRouter.delete('/webhooks/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseUuidParam(req.params.id, 'Webhook subscription');
+    if (!(await deleteWebhookSubscription(id))) {
+      throw new NotFoundError(`Webhook subscription not found: ${id}`);
+    }
+
+    logger.info('Admin: Webhook subscription deleted', { id });
+    refreshWebhooksInBackground();
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /v1/admin/webhooks/dead-letters
+ * Deliveries that failed every retry, newest first
+ *
+ * Query params:
+ *   - subscriptionId: only this subscription
+ *   - pending: "true" to hide replayed entries
+ *   - limit: max entries (default: 50, max: 500)
+ */
+adminRouter.get('/webhooks/dead-letters', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const subscriptionId = req.query.subscriptionId ? String(req.query.subscriptionId) : undefined;
+    if (subscriptionId && !UUID_RE.test(subscriptionId)) {
+      throw new BadRequestError('subscriptionId must be a UUID');
+    }
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit || '50'), 10) || 50, 1), 500);
+
+    const deadLetters = await getWebhookDeadLetters({
+      subscriptionId,
+      pendingOnly: req.query.pending === 'true',
+      limit,
+    });
+
+    res.json({
+      data: deadLetters.map(letter => ({
+        id: letter.id,
+        subscriptionId: letter.subscription_id,
+        eventId: letter.event_id,
+        eventType: letter.event_type,
+        payload: letter.payload,
+        attempts: letter.attempts,
+        lastStatus: letter.last_status,
+        lastError: letter.last_error,
+        createdAt: letter.created_at,
+        replayedAt: letter.replayed_at,
+      })),
+      meta: {
+        requestId: req.requestId,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /v1/admin/webhooks/dead-letters/:id/replay
+ * Redeliver a dead-lettered event (same event ID, so receivers can dedupe).
+ * Runs the normal retry schedule in the background; a delivery that fails
+ * again is dead-lettered again.
+ */
+adminRouter.post('/webhooks/dead-letters/:id/replay', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseUuidParam(req.params.id, 'Dead letter');
+    const deadLetter = await getWebhookDeadLetter(id);
+    if (!deadLetter) {
+      throw new NotFoundError(`Dead letter not found: ${id}`);
+    }
+
+    const subscription = await getWebhookSubscription(deadLetter.subscription_id);
+    if (!subscription) {
+      throw new NotFoundError(`Webhook subscription not found: ${deadLetter.subscription_id}`);
+    }
+
+    await markWebhookDeadLetterReplayed(id);
+    logger.info('Admin: Replaying webhook dead letter', { id, subscriptionId: subscription.id });
+
+    getWebhookDispatcher()
+      .deliver(subscription, deadLetter.payload)
+      .catch(error => {
+        logger.error('Admin: Webhook replay failed', {
+          id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+
+    res.status(202).json({
+      data: {
+        id,
+        subscriptionId: subscription.id,
+        eventId: deadLetter.event_id,
+        status: 'replaying',
+      },
+      meta: {
+        requestId: req.requestId,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// =====================
+// Audit Log
+// =====================
+
+/**
+ * GET /v1/admin/audit
+ * Mutating admin calls, newest first
+ *
+ * Query params:
+ *   - actorId: user ID, or "admin_api_key" for cron callers
+ *   - limit: max entries (default: 100, max: 1000)
+ */
+adminRouter.get('/audit', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const actorId = req.query.actorId ? String(req.query.actorId) : undefined;
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit || '100'), 10) || 100, 1), 1000);
+
+    const entries = await getAdminAuditLog({ actorId, limit });
+
+    res.json({
+      data: entries.map(entry => ({
+        id: entry.id,
+        actorType: entry.actor_type,
+        actorId: entry.actor_id,
+        method: entry.method,
+        route: entry.route,
+        params: entry.params,
+        statusCode: entry.status_code,
+        outcome: entry.outcome,
+        error: entry.error,
+        durationMs: entry.duration_ms,
+        requestId: entry.request_id,
+        createdAt: entry.created_at,
+      })),
+      meta: {
+        requestId: req.requestId,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// =====================
+// API Key Endpoints
+// =====================
+
+const MAX_RATE_LIMIT_PER_MINUTE = 10000;
+
+/**
+ * Key as returned by the API; the raw key is only returned on create
+ */
+function toApiKeyResponse(key: ApiKey, usageToday?: { requests: number; rejected: number }) {
+  return {
+    id: key.id,
+    name: key.name,
+    keyPrefix: key.key_prefix,
+    allowedLeagues: key.allowed_leagues,
+    rateLimitPerMinute: key.rate_limit_per_minute,
+    dailyQuota: key.daily_quota,
+    active: key.active,
+    createdAt: key.created_at,
+    updatedAt: key.updated_at,
+    lastUsedAt: key.last_used_at,
+    ...(usageToday && { usageToday }),
+  };
+}
+
+/**
+ * Validate API key body fields; only fields present in the body are returned
+ */
+function parseApiKeyInput(body: Record<string, unknown>): Partial<ApiKeyInput> {
+  const input: Partial<ApiKeyInput> = {};
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string' || body.name.trim().length === 0 || body.name.length > 100) {
+      throw new BadRequestError('name must be a non-empty string under 100 characters');
+    }
+    input.name = body.name.trim();
+  }
+  if (body.allowedLeagues !== undefined) {
+    const leagues = body.allowedLeagues;
+    if (leagues !== null && (!Array.isArray(leagues) || leagues.length === 0
+      || leagues.some(league => typeof league !== 'string' || !(league in leagueConfig)))) {
+      throw new BadRequestError(`allowedLeagues must be null (all leagues) or a non-empty array of: ${Object.keys(leagueConfig).join(', ')}`);
+    }
+    input.allowed_leagues = leagues === null ? null : [...new Set(leagues as string[])];
+  }
+  if (body.rateLimitPerMinute !== undefined) {
+    const rate = body.rateLimitPerMinute;
+    if (typeof rate !== 'number' || !Number.isInteger(rate) || rate < 1 || rate > MAX_RATE_LIMIT_PER_MINUTE) {
+      throw new BadRequestError(`rateLimitPerMinute must be an integer from 1 to ${MAX_RATE_LIMIT_PER_MINUTE}`);
+    }
+    input.rate_limit_per_minute = rate;
+  }
+  if (body.dailyQuota !== undefined) {
+    const quota = body.dailyQuota;
+    if (quota !== null && (typeof quota !== 'number' || !Number.isInteger(quota) || quota < 1)) {
+      throw new BadRequestError('dailyQuota must be null (unlimited) or a positive integer');
+    }
+    input.daily_quota = quota as number | null;
+  }
+  if (body.active !== undefined) {
+    if (typeof body.active !== 'boolean') {
+      throw new BadRequestError('active must be a boolean');
+    }
+    input.active = body.active;
+  }
+
+  return input;
+}
+
+/**
+ * GET /v1/admin/api-keys
+ * List API keys with today's (UTC) request counts
+ */
+adminRouter.get('/api-keys', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await flushApiKeyUsage();
+    const [keys, usage] = await Promise.all([getApiKeys(), getApiKeyUsage({ days: 1 })]);
+    const usageByKey = new Map(usage.map(row => [row.api_key_id, row]));
+
+    res.json({
+      data: keys.map(key => {
+        const today = usageByKey.get(key.id);
+        return toApiKeyResponse(key, { requests: today?.requests ?? 0, rejected: today?.rejected ?? 0 });
+      }),
+      meta: {
+        requestId: req.requestId,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /v1/admin/api-keys
+ * Issue an API key
+ *
+ * Body params:
+ *   - name: who the key is for (required)
+ *   - allowedLeagues: league scopes (default: null, every league)
+ *   - rateLimitPerMinute: default 60
+ *   - dailyQuota: requests per UTC day (default: null, unlimited)
+ */
+adminRouter.post('/api-keys', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const input = parseApiKeyInput(req.body ?? {});
+    if (!input.name) {
+      throw new BadRequestError('name is required');
+    }
+
+    const { rawKey, keyPrefix, keyHash } = generateApiKey();
+    const key = await createApiKey({ ...input, name: input.name, key_prefix: keyPrefix, key_hash: keyHash });
+
+    logger.info('Admin: API key issued', { id: key.id, name: key.name });
+
+    res.status(201).json({
+      data: {
+        ...toApiKeyResponse(key),
+        // Shown once; only the hash is stored
+        key: rawKey,
+      },
+      meta: {
+        requestId: req.requestId,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PATCH /v1/admin/api-keys/:id
+ * Change scopes, limits, name or active flag ({"active": false} revokes)
+ */
+adminRouter.patch('/api-keys/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseUuidParam(req.params.id, 'API key');
+    const key = await updateApiKey(id, parseApiKeyInput(req.body ?? {}));
+    if (!key) {
+      throw new NotFoundError(`API key not found: ${id}`);
+    }
+
+    invalidateApiKeyCache();
+    logger.info('Admin: API key updated', { id });
+
+    res.json({
+      data: toApiKeyResponse(key),
+      meta: {
+        requestId: req.requestId,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /v1/admin/api-keys/:id
+ * Delete a key and its usage history
+ */
+adminRouter.delete('/api-keys/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseUuidParam(req.params.id, 'API key');
+    if (!(await deleteApiKey(id))) {
+      throw new NotFoundError(`API key not found: ${id}`);
+    }
+
+    invalidateApiKeyCache();
+    getApiKeyLimiter().forget(id);
+    logger.info('Admin: API key deleted', { id });
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /v1/admin/api-keys/usage
+ * Daily request counters per key, newest first
+ *
+ * Query params:
+ *   - apiKeyId: only this key
+ *   - days: UTC days back, today included (default: 30, max: 366)
+ */
+adminRouter.get('/api-keys/usage', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const apiKeyId = req.query.apiKeyId ? String(req.query.apiKeyId) : undefined;
+    if (apiKeyId && !UUID_RE.test(apiKeyId)) {
+      throw new BadRequestError('apiKeyId must be a UUID');
+    }
+    const days = Math.min(Math.max(parseInt(String(req.query.days || '30'), 10) || 30, 1), 366);
+
+    await flushApiKeyUsage();
+    const usage = await getApiKeyUsage({ apiKeyId, days });
+
+    res.json({
+      data: usage.map(row => ({
+        apiKeyId: row.api_key_id,
+        date: row.usage_date,
+        requests: row.requests,
+        rejected: row.rejected,
+      })),
+      meta: {
+        requestId: req.requestId,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
@@ -1,15 +1,23 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { getAdapterForGame, isNBAGame } from '../providers';
-import { getCached, setCached, cacheKeys } from '../cache/redis';
+import { fetchForGame, getProviderName, getLeagueFromId } from '../providers';
+import { getCachedResult, setCachedResult, cacheKeys } from '../cache/redis';
 import { getRequestDeduplicator } from '../cache/RequestDeduplicator';
 import { getStoredBoxScore, storeBoxScore } from '../cache/BoxScoreStorage';
-import { getBoxScoreTTL } from '../cache/CachePolicy';
+import { getStoredPlays, storePlays } from '../cache/PlayByPlayStorage';
+import { getBoxScoreTTL, getPreviewTTL } from '../cache/CachePolicy';
 import { config } from '../config';
-import { Game, BoxScoreResponse } from '../types';
+import { Game, BoxScoreResponse, PlaysResponse, MatchupPreview } from '../types';
 import { BadRequestError, NotFoundError } from '../middleware/errorHandler';
 import { logger } from '../utils/logger';
 import { validateGameId } from '../middleware/validation';
 import { enrichBoxScoreWithPlayerIds } from '../utils/enrichBoxScore';
+import { enrichPlaysWithPlayerIds } from '../utils/enrichPlays';
+import { recordBoxScoreVersion, getBoxScorePatch } from '../cache/BoxScoreVersions';
+import { getScheduleStore, GameRecord } from '../jobs/scheduleStore';
+import { getScoreboardDate } from '../jobs/scheduleSync';
+import { getSeasonFromGameDate } from '../providers/espnPlayerExtractor';
+import { getNBATeamAverages, getNFLTeamAverages, TeamBoxAverages } from '../db/repositories/teamStatsRepository';
+import { computeTeamForm, summarizeMeetings } from '../utils/matchupPreview';
 
 export const gamesRouter = Router();
 
@@ -26,15 +34,15 @@ gamesRouter.get('/:id', validateGameId, async (req: Request, res: Response, next
     const cacheKey = cacheKeys.game(id);
     
     // Try cache first
-    const cached = await getCached<Game>(cacheKey);
+    const cached = await getCachedResult<Game>(cacheKey);
     if (cached) {
       logger.debug(`Cache hit for game: ${id}`);
       res.cacheHit = true;
       res.json({
-        data: { game: cached },
+        data: { game: cached.data },
         meta: {
           requestId: req.requestId,
-          provider: isNBAGame(id) ? 'espn' : config.provider,
+          provider: cached.provider,
           cacheHit: true,
         },
       });
@@ -45,12 +53,8 @@ gamesRouter.get('/:id', validateGameId, async (req: Request, res: Response, next
     const deduplicator = getRequestDeduplicator();
     logger.debug(`Cache miss for game: ${id}`);
     
-    // Get ESPN adapter for this game
-    const adapter = getAdapterForGame(id);
-    const providerName = adapter.name;
-    
-    const game = await deduplicator.dedupe(`game:${id}`, async () => {
-      return adapter.fetchGame(id);
+    const { data: game, provider: providerName } = await deduplicator.dedupe(`game:${id}`, async () => {
+      return fetchForGame(id, provider => provider.fetchGame(id));
     });
     
     if (!game) {
@@ -61,7 +65,7 @@ gamesRouter.get('/:id', validateGameId, async (req: Request, res: Response, next
     const ttl = game.status === 'live' ? config.cacheTtl.liveGame : config.cacheTtl.boxScore;
     
     // Cache the response
-    await setCached(cacheKey, game, ttl);
+    await setCachedResult(cacheKey, { data: game, provider: providerName }, ttl);
     
     res.cacheHit = false;
     res.json({
@@ -77,6 +81,39 @@ gamesRouter.get('/:id', validateGameId, async (req: Request, res: Response, next
   }
 });
 
+/**
+ * Send a box score, versioned. With ?since=<version> the client gets a JSON
+ * Patch from its version when that version is still retained, otherwise the
+ * full payload with the current version.
+ */
+function sendBoxScore(
+  req: Request,
+  res: Response,
+  id: string,
+  boxScore: BoxScoreResponse,
+  meta: Record<string, unknown>
+): void {
+  const version = recordBoxScoreVersion(id, boxScore);
+  const since = req.query.since !== undefined ? Number(req.query.since) : undefined;
+
+  if (since !== undefined) {
+    const delta = getBoxScorePatch(id, since);
+    if (delta) {
+      res.json({
+        data: delta,
+        meta: { requestId: req.requestId, ...meta, version, delta: true },
+      });
+      return;
+    }
+    logger.debug(`Box score version ${since} not retained for ${id}, sending full payload`);
+  }
+
+  res.json({
+    data: boxScore,
+    meta: { requestId: req.requestId, ...meta, version, delta: false },
+  });
+}
+
 /**
  * Get box score for a game
  *
@@ -84,11 +121,17 @@ gamesRouter.get('/:id', validateGameId, async (req: Request, res: Response, next
  * 1. Permanent storage (for final games)
  * 2. Redis cache (for recent/live games)
  * 3. API fetch (with quota tracking and per-game cooldown)
+ *
+ * Supports ?since=<version> for live deltas (see sendBoxScore).
  */
 gamesRouter.get('/:id/boxscore', validateGameId, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const id = req.params.id as string;
     const sport = String(req.query.sport || 'nba');
+
+    if (req.query.since !== undefined && !/^\d+$/.test(String(req.query.since))) {
+      throw new BadRequestError(`Invalid since version: ${req.query.since}`);
+    }
     
     // 1. Check permanent storage first (final games)
     let storedBoxScore = await getStoredBoxScore(id);
@@ -103,40 +146,32 @@ gamesRouter.get('/:id/boxscore', validateGameId, async (req: Request, res: Respo
       );
 
       res.cacheHit = true;
-      res.json({
-        data: storedBoxScore,
-        meta: {
-          requestId: req.requestId,
-          provider: isNBAGame(id) ? 'espn' : config.provider,
-          cacheHit: true,
-          storageType: 'permanent',
-        },
+      sendBoxScore(req, res, id, storedBoxScore, {
+        provider: getProviderName(getLeagueFromId(id)),
+        cacheHit: true,
+        storageType: 'permanent',
       });
       return;
     }
     
     // 2. Check Redis cache
     const cacheKey = cacheKeys.boxScore(id);
-    let cached = await getCached<BoxScoreResponse>(cacheKey);
+    const cached = await getCachedResult<BoxScoreResponse>(cacheKey);
     if (cached) {
       logger.debug(`Cache hit for box score: ${id}`);
 
       // Enrich with player IDs
       const leaguePrefix = id.split('_')[0];
-      cached.boxScore = await enrichBoxScoreWithPlayerIds(
-        cached.boxScore,
+      cached.data.boxScore = await enrichBoxScoreWithPlayerIds(
+        cached.data.boxScore,
         leaguePrefix
       );
 
       res.cacheHit = true;
-      res.json({
-        data: cached,
-        meta: {
-          requestId: req.requestId,
-          provider: isNBAGame(id) ? 'espn' : config.provider,
-          cacheHit: true,
-          storageType: 'cache',
-        },
+      sendBoxScore(req, res, id, cached.data, {
+        provider: cached.provider,
+        cacheHit: true,
+        storageType: 'cache',
       });
       return;
     }
@@ -145,12 +180,8 @@ gamesRouter.get('/:id/boxscore', validateGameId, async (req: Request, res: Respo
     const deduplicator = getRequestDeduplicator();
     logger.debug(`Cache miss for box score: ${id}`);
     
-    // Get ESPN adapter for this game
-    const adapter = getAdapterForGame(id);
-    const providerName = adapter.name;
-    
-    const boxScoreResponse = await deduplicator.dedupe(`boxscore:${id}`, async () => {
-      return adapter.fetchBoxScore(id, sport);
+    const { data: boxScoreResponse, provider: providerName } = await deduplicator.dedupe(`boxscore:${id}`, async () => {
+      return fetchForGame(id, provider => provider.fetchBoxScore(id, sport));
     });
 
     if (!boxScoreResponse) {
@@ -171,16 +202,253 @@ gamesRouter.get('/:id/boxscore', validateGameId, async (req: Request, res: Respo
     
     // Cache in Redis with appropriate TTL
     const ttl = getBoxScoreTTL(boxScoreResponse);
-    await setCached(cacheKey, boxScoreResponse, ttl);
+    await setCachedResult(cacheKey, { data: boxScoreResponse, provider: providerName }, ttl);
     
+    res.cacheHit = false;
+    sendBoxScore(req, res, id, boxScoreResponse, {
+      provider: providerName,
+      cacheHit: false,
+      storageType: 'api',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Send one page of play-by-play. Without ?period= every play is returned;
+ * `periods` lists the pages available for the game.
+ */
+async function sendPlays(
+  req: Request,
+  res: Response,
+  id: string,
+  response: PlaysResponse,
+  meta: Record<string, unknown>
+): Promise<void> {
+  const period = req.query.period !== undefined ? Number(req.query.period) : undefined;
+  const page = period !== undefined
+    ? response.plays.filter(play => play.period === period)
+    : response.plays;
+
+  res.json({
+    data: {
+      game: response.game,
+      periods: response.periods,
+      period: period ?? null,
+      plays: await enrichPlaysWithPlayerIds(page, getLeagueFromId(id)),
+      lastUpdated: response.lastUpdated,
+    },
+    meta: { requestId: req.requestId, ...meta },
+  });
+}
+
+/**
+ * Get play-by-play for a game
+ *
+ * Same three-tier lookup as the box score: permanent storage for final
+ * games, then Redis, then the provider. Page with ?period=<n>.
+ */
+gamesRouter.get('/:id/plays', validateGameId, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+
+    if (req.query.period !== undefined && !/^[1-9]\d*$/.test(String(req.query.period))) {
+      throw new BadRequestError(`Invalid period: ${req.query.period}`);
+    }
+
+    // 1. Check permanent storage first (final games)
+    const storedPlays = await getStoredPlays(id);
+    if (storedPlays) {
+      logger.debug(`Permanent storage hit for plays: ${id}`);
+      res.cacheHit = true;
+      await sendPlays(req, res, id, storedPlays, {
+        provider: getProviderName(getLeagueFromId(id)),
+        cacheHit: true,
+        storageType: 'permanent',
+      });
+      return;
+    }
+
+    // 2. Check Redis cache
+    const cacheKey = cacheKeys.plays(id);
+    const cached = await getCachedResult<PlaysResponse>(cacheKey);
+    if (cached) {
+      logger.debug(`Cache hit for plays: ${id}`);
+      res.cacheHit = true;
+      await sendPlays(req, res, id, cached.data, {
+        provider: cached.provider,
+        cacheHit: true,
+        storageType: 'cache',
+      });
+      return;
+    }
+
+    // 3. Fetch from provider with deduplication
+    logger.debug(`Cache miss for plays: ${id}`);
+    const { data: playsResponse, provider: providerName } = await getRequestDeduplicator().dedupe(`plays:${id}`, async () => {
+      return fetchForGame(id, provider => provider.fetchPlays(id));
+    });
+
+    if (!playsResponse) {
+      throw new NotFoundError(`Plays for game '${id}' not found`);
+    }
+
+    // Store permanently if final game
+    if (playsResponse.game.status === 'final') {
+      await storePlays(id, playsResponse);
+    }
+
+    await setCachedResult(cacheKey, { data: playsResponse, provider: providerName }, getBoxScoreTTL(playsResponse));
+
+    res.cacheHit = false;
+    await sendPlays(req, res, id, playsResponse, {
+      provider: providerName,
+      cacheHit: false,
+      storageType: 'api',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+const DEFAULT_PREVIEW_MEETINGS = 5;
+const MAX_PREVIEW_MEETINGS = 20;
+
+/**
+ * Team per-game box score averages from player game logs (NBA, NFL only).
+ * Missing logs or an unavailable database leave the averages out.
+ */
+async function getTeamBoxAverages(
+  league: string,
+  teamId: string,
+  startTime: string
+): Promise<Record<string, number> | undefined> {
+  const season = getSeasonFromGameDate(new Date(startTime), league);
+  const beforeDate = getScoreboardDate(startTime);
+
+  try {
+    let averages: TeamBoxAverages | null = null;
+    if (league === 'nba') averages = await getNBATeamAverages(teamId, season, beforeDate);
+    if (league === 'nfl') averages = await getNFLTeamAverages(teamId, season, beforeDate);
+    return averages?.stats;
+  } catch (error) {
+    logger.warn('Preview: Team averages unavailable', {
+      teamId,
+      season,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Build a matchup preview from the games store and player game logs.
+ * The provider is only asked for the game itself when it isn't synced.
+ */
+async function buildMatchupPreview(
+  id: string,
+  meetingsLimit: number
+): Promise<{ preview: MatchupPreview; provider: string }> {
+  const league = getLeagueFromId(id);
+  const store = getScheduleStore();
+
+  let record: Pick<GameRecord, 'startTimeUtc' | 'homeTeamId' | 'awayTeamId' | 'status'> & { seasonId?: string };
+  let provider = getProviderName(league);
+
+  const stored = await store.getGame(id);
+  if (stored) {
+    record = stored;
+  } else {
+    const { data: game, provider: providerName } = await fetchForGame(id, p => p.fetchGame(id));
+    if (!game) {
+      throw new NotFoundError(`Game '${id}' not found`);
+    }
+    record = {
+      startTimeUtc: game.startTime,
+      homeTeamId: game.homeTeam.id,
+      awayTeamId: game.awayTeam.id,
+      status: game.status,
+    };
+    provider = providerName;
+  }
+
+  const season = record.seasonId
+    ? await store.getSeason(record.seasonId)
+    : await store.getSeasonForDate(league, getScoreboardDate(record.startTimeUtc));
+
+  const [meetings, homeGames, awayGames, homeBox, awayBox] = await Promise.all([
+    store.getMeetings(record.homeTeamId, record.awayTeamId, record.startTimeUtc, meetingsLimit),
+    season ? store.getGamesForTeam(record.homeTeamId, season.id) : Promise.resolve([]),
+    season ? store.getGamesForTeam(record.awayTeamId, season.id) : Promise.resolve([]),
+    getTeamBoxAverages(league, record.homeTeamId, record.startTimeUtc),
+    getTeamBoxAverages(league, record.awayTeamId, record.startTimeUtc),
+  ]);
+
+  return {
+    preview: {
+      gameId: id,
+      league,
+      season: season?.seasonLabel,
+      startTime: record.startTimeUtc,
+      status: record.status,
+      headToHead: summarizeMeetings(record.homeTeamId, meetings),
+      home: computeTeamForm(record.homeTeamId, homeGames, record.startTimeUtc, homeBox),
+      away: computeTeamForm(record.awayTeamId, awayGames, record.startTimeUtc, awayBox),
+      lastUpdated: new Date().toISOString(),
+    },
+    provider,
+  };
+}
+
+/**
+ * Get a matchup preview: recent head-to-head meetings, each team's last-ten
+ * record and streak, and season averages
+ * Query params:
+ *   - meetings: number of head-to-head meetings (default 5, max 20)
+ */
+gamesRouter.get('/:id/preview', validateGameId, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+
+    let meetingsLimit = DEFAULT_PREVIEW_MEETINGS;
+    if (req.query.meetings !== undefined) {
+      meetingsLimit = parseInt(String(req.query.meetings), 10);
+      if (!/^\d+$/.test(String(req.query.meetings)) || meetingsLimit < 1 || meetingsLimit > MAX_PREVIEW_MEETINGS) {
+        throw new BadRequestError(`meetings must be between 1 and ${MAX_PREVIEW_MEETINGS}`);
+      }
+    }
+
+    const cacheKey = cacheKeys.preview(id, meetingsLimit);
+    const cached = await getCachedResult<MatchupPreview>(cacheKey);
+    if (cached) {
+      logger.debug(`Cache hit for preview: ${id}`);
+      res.cacheHit = true;
+      res.json({
+        data: cached.data,
+        meta: {
+          requestId: req.requestId,
+          provider: cached.provider,
+          cacheHit: true,
+        },
+      });
+      return;
+    }
+
+    logger.debug(`Cache miss for preview: ${id}`);
+    const { preview, provider } = await getRequestDeduplicator().dedupe(cacheKey, () =>
+      buildMatchupPreview(id, meetingsLimit)
+    );
+
+    await setCachedResult(cacheKey, { data: preview, provider }, getPreviewTTL(preview.status));
+
     res.cacheHit = false;
     res.json({
-      data: boxScoreResponse,
+      data: preview,
       meta: {
         requestId: req.requestId,
-        provider: providerName,
+        provider,
         cacheHit: false,
-        storageType: 'api',
       },
     });
   } catch (error) {
@@ -0,0 +1,99 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { getCached, setCached, cacheKeys } from '../cache/redis';
+import { config } from '../config';
+import { LeadersResponse } from '../types';
+import { BadRequestError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { validateLeague, validateSeason } from '../middleware/validation';
+import { getLeaders, LEADER_STATS } from '../db/repositories/leadersRepository';
+import { getSeasonFromGameDate } from '../providers/espnPlayerExtractor';
+import { rankLeaders } from '../utils/leaders';
+
+export const leadersRouter = Router();
+
+const DEFAULT_LIMIT = 25;
+const MAX_LIMIT = 100;
+
+function parsePositiveInt(value: unknown, name: string): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const num = Number(value);
+  if (!Number.isInteger(num) || num < 1) {
+    throw new BadRequestError(`${name} must be a positive integer`);
+  }
+  return num;
+}
+
+/**
+ * GET /v1/leaders?league=nba&stat=ppg[&season=2025][&position=G][&team=nba_13][&minGames=20][&limit=25]
+ * Ranked per-game and season total leaders from the season summary tables
+ */
+leadersRouter.get('/', validateLeague, validateSeason(false), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const league = (req.query.league as string).toLowerCase();
+    const stats = LEADER_STATS[league];
+    if (!stats) {
+      throw new BadRequestError(`Leaders are not available for ${league}`);
+    }
+
+    const stat = (req.query.stat as string | undefined)?.toLowerCase();
+    if (!stat || !stats[stat]) {
+      throw new BadRequestError(`stat must be one of: ${Object.keys(stats).join(', ')}`);
+    }
+
+    const season = req.query.season
+      ? parseInt((req.query.season as string).slice(0, 4), 10)
+      : getSeasonFromGameDate(new Date(), league);
+    const position = (req.query.position as string | undefined) || undefined;
+    const teamId = (req.query.team as string | undefined) || undefined;
+    const minGames = parsePositiveInt(req.query.minGames, 'minGames');
+    const limit = Math.min(parsePositiveInt(req.query.limit, 'limit') ?? DEFAULT_LIMIT, MAX_LIMIT);
+
+    const filters = `${position?.toUpperCase() ?? '*'}:${teamId ?? '*'}:${minGames ?? 'auto'}:${limit}`;
+    const cacheKey = cacheKeys.leaders(league, season, stat, filters);
+
+    const cached = await getCached<LeadersResponse>(cacheKey);
+    if (cached) {
+      logger.debug(`Cache hit for leaders: ${league}/${season}/${stat}`);
+      res.cacheHit = true;
+      res.json({
+        data: cached,
+        meta: {
+          requestId: req.requestId,
+          provider: 'database',
+          cacheHit: true,
+        },
+      });
+      return;
+    }
+
+    logger.debug(`Cache miss for leaders: ${league}/${season}/${stat}`);
+    const result = await getLeaders({ league, season, stat, position, teamId, minGames, limit });
+    if (!result) {
+      throw new BadRequestError(`Unknown stat: ${stat}`);
+    }
+
+    const leaders: LeadersResponse = {
+      league,
+      season,
+      stat,
+      label: result.definition.label,
+      minGames: result.minGames,
+      perGame: rankLeaders(result.perGame, 'perGame'),
+      totals: rankLeaders(result.totals, 'total'),
+    };
+
+    await setCached(cacheKey, leaders, config.cacheTtl.leaders);
+
+    res.cacheHit = false;
+    res.json({
+      data: leaders,
+      meta: {
+        requestId: req.requestId,
+        provider: 'database',
+        cacheHit: false,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
@@ -10,6 +10,8 @@ const supportedLeagues: League[] = [
   { id: 'nfl', name: 'NFL', sportType: 'football' },
   { id: 'ncaaf', name: 'NCAAF', sportType: 'football' },
   { id: 'ncaam', name: 'NCAAM', sportType: 'basketball' },
+  { id: 'wnba', name: 'WNBA', sportType: 'basketball' },
+  { id: 'ncaaw', name: 'NCAAW', sportType: 'basketball' },
   { id: 'nhl', name: 'NHL', sportType: 'hockey' },
   { id: 'mlb', name: 'MLB', sportType: 'baseball' },
   { id: 'pga', name: 'PGA Tour', sportType: 'golf' },
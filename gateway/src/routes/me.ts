@@ -0,0 +1,226 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { requireAuth } from '../middleware/auth';
+import { pool } from '../db/pool';
+import { getCachedResult, CachedResult, cacheKeys } from '../cache/redis';
+import { leagueConfig } from '../config';
+import { FeedItem, FeedResponse, ScoreboardResponse } from '../types';
+import { BadRequestError, NotFoundError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { getScheduleStore, LeagueSeason } from '../jobs/scheduleStore';
+import { getScoreboardDate } from '../jobs/scheduleSync';
+import { getLeagueFromId } from '../providers';
+import { getFeedSchedule, mergeFeedItems, pickFeedGame, toFeedItem } from '../utils/myFeed';
+import {
+  DeviceToken,
+  GAME_EVENT_TYPES,
+  GameEventType,
+  NotificationSubscription,
+  deleteDeviceToken,
+  deleteSubscription,
+  getSubscriptionsForUser,
+  upsertDeviceToken,
+  upsertSubscription,
+} from '../db/repositories/notificationRepository';
+
+export const meRouter = Router();
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const DEVICE_TOKEN_REGEX = /^[0-9a-f]{64,200}$/i;
+const TARGET_ID_REGEX = /^[a-z]+_[\w-]+$/;
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function toDeviceResponse(device: DeviceToken) {
+  return {
+    token: device.token,
+    platform: device.platform,
+    environment: device.environment,
+    lastSeenAt: device.last_seen_at,
+  };
+}
+
+function toSubscriptionResponse(subscription: NotificationSubscription) {
+  return {
+    id: subscription.id,
+    targetType: subscription.target_type,
+    targetId: subscription.target_id,
+    events: subscription.events,
+    createdAt: subscription.created_at,
+  };
+}
+
+/**
+ * The league season to look in for a date: the one covering it, else the
+ * next one to start, else the most recent one (offseason dates)
+ */
+async function seasonForFeed(league: string, date: string): Promise<LeagueSeason | undefined> {
+  const store = getScheduleStore();
+  const covering = await store.getSeasonForDate(league, date);
+  if (covering) return covering;
+
+  const seasons = (await store.getAllSeasons())
+    .filter(season => season.leagueId === league)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+  return seasons.find(season => (season.preseasonStart || season.startDate) > date)
+    ?? seasons[seasons.length - 1];
+}
+
+/**
+ * GET /v1/me/feed?date=YYYY-MM-DD
+ * Each favorite team's game on the date (or its next/previous game), merged
+ * across leagues and sorted by start time. Defaults to today (US/Eastern).
+ */
+meRouter.get('/feed', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const date = (req.query.date as string | undefined) ?? getScoreboardDate(new Date().toISOString());
+    if (!DATE_REGEX.test(date) || isNaN(new Date(date).getTime())) {
+      throw new BadRequestError(`Invalid date format: ${date}. Use YYYY-MM-DD`);
+    }
+
+    const result = await pool.query<{ favorite_teams: string[] | null }>(
+      'SELECT favorite_teams FROM profiles WHERE id = $1',
+      [req.user!.id]
+    );
+    const favoriteTeams = result.rows[0]?.favorite_teams ?? [];
+
+    const seasons = new Map<string, Promise<LeagueSeason | undefined>>();
+    const scoreboards = new Map<string, Promise<CachedResult<ScoreboardResponse> | null>>();
+
+    const items = await Promise.all(favoriteTeams.map(async (teamId): Promise<FeedItem | null> => {
+      const league = getLeagueFromId(teamId);
+      if (!(league in leagueConfig)) {
+        logger.debug('Feed: Skipping favorite team in unsupported league', { teamId });
+        return null;
+      }
+
+      if (!seasons.has(league)) seasons.set(league, seasonForFeed(league, date));
+      const season = await seasons.get(league);
+
+      const pick = pickFeedGame(await getFeedSchedule(teamId, league, season), date);
+      if (!pick) return null;
+
+      // Cached scoreboards carry live scores and team details; never fetch here
+      const scoreboardKey = cacheKeys.scoreboard(league, pick.game.scoreboardDate);
+      if (!scoreboards.has(scoreboardKey)) scoreboards.set(scoreboardKey, getCachedResult<ScoreboardResponse>(scoreboardKey));
+      const matchup = (await scoreboards.get(scoreboardKey))?.data.games.find(game => game.id === pick.game.gameId);
+
+      return toFeedItem(teamId, league, pick, matchup);
+    }));
+
+    const feed: FeedResponse = {
+      date,
+      items: mergeFeedItems(items.filter((item): item is FeedItem => item !== null)),
+    };
+
+    res.setHeader('Cache-Control', 'private, no-cache');
+    res.json({
+      data: feed,
+      meta: {
+        requestId: req.requestId,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /v1/me/devices
+ * Register an APNs device token for push notifications
+ * Body: { token, environment?: 'production' | 'sandbox' }
+ */
+meRouter.post('/devices', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { token, environment = 'production' } = req.body ?? {};
+
+    if (typeof token !== 'string' || !DEVICE_TOKEN_REGEX.test(token)) {
+      throw new BadRequestError('token must be a hex APNs device token');
+    }
+    if (environment !== 'production' && environment !== 'sandbox') {
+      throw new BadRequestError("environment must be 'production' or 'sandbox'");
+    }
+
+    const device = await upsertDeviceToken(req.user!.id, token.toLowerCase(), environment);
+    res.status(201).json({ data: toDeviceResponse(device), meta: { requestId: req.requestId } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /v1/me/devices/:token
+ * Stop sending notifications to a device (e.g. on sign-out)
+ */
+meRouter.delete('/devices/:token', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const token = (req.params.token as string).toLowerCase();
+    if (!(await deleteDeviceToken(token, req.user!.id))) {
+      throw new NotFoundError('Device token not found');
+    }
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /v1/me/subscriptions
+ */
+meRouter.get('/subscriptions', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const subscriptions = await getSubscriptionsForUser(req.user!.id);
+    res.json({ data: subscriptions.map(toSubscriptionResponse), meta: { requestId: req.requestId } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /v1/me/subscriptions
+ * Follow a team's games or a single game. Posting the same target again
+ * replaces its event list.
+ * Body: { targetType: 'team' | 'game', targetId, events?: GameEventType[] }
+ */
+meRouter.post('/subscriptions', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { targetType, targetId, events = [...GAME_EVENT_TYPES] } = req.body ?? {};
+
+    if (targetType !== 'team' && targetType !== 'game') {
+      throw new BadRequestError("targetType must be 'team' or 'game'");
+    }
+    if (typeof targetId !== 'string' || targetId.length > 100 || !TARGET_ID_REGEX.test(targetId)) {
+      throw new BadRequestError('Invalid targetId format (expected: league_identifier, e.g., nba_13)');
+    }
+    if (!(targetId.split('_')[0] in leagueConfig)) {
+      throw new BadRequestError(`Unsupported league for targetId: ${targetId}`);
+    }
+    if (!Array.isArray(events) || events.length === 0
+      || events.some(event => !GAME_EVENT_TYPES.includes(event as GameEventType))) {
+      throw new BadRequestError(`events must be a non-empty array of: ${GAME_EVENT_TYPES.join(', ')}`);
+    }
+
+    const subscription = await upsertSubscription(
+      req.user!.id,
+      targetType,
+      targetId,
+      [...new Set(events as GameEventType[])]
+    );
+    res.status(201).json({ data: toSubscriptionResponse(subscription), meta: { requestId: req.requestId } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /v1/me/subscriptions/:id
+ */
+meRouter.delete('/subscriptions/:id', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const subscriptionId = req.params.id as string;
+    if (!UUID_RE.test(subscriptionId) || !(await deleteSubscription(req.user!.id, subscriptionId))) {
+      throw new NotFoundError('Subscription not found');
+    }
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
@@ -4,13 +4,19 @@
  * Endpoints:
  * - GET /search - Player search by name
  * - GET /:id/stat-central - Season-by-season stats + career averages
+ * - GET /:id/season/:season/gamelog - Last 10 games (NBA and NHL)
+ * - GET /:id/splits - Season splits (home/away, month, opponent, result, role, rest)
  * - GET /:id - Player header (bio + current season stats)
  */
 
 import { Router, Request, Response, NextFunction } from 'express';
 import { logger } from '../utils/logger';
 import {
+  NBASeasonSummary,
+  NHLGameLog,
   getPlayerById,
+  getNBASeasonSummary,
+  getNBASplitGameLines,
   searchPlayers,
 } from '../db/repositories/playerRepository';
 import { query } from '../db/pool';
@@ -19,7 +25,9 @@ import { buildStatCentral } from '../providers/playerStatCentral';
 import { getCached, setCached, cacheKeys } from '../cache/redis';
 import { BadRequestError, NotFoundError } from '../middleware/errorHandler';
 import { StatCentralResponse } from '../types/statCentral';
-import { getCurrentSeason } from '../utils/seasonUtils';
+import { PlayerSplitsResponse } from '../types/playerSplits';
+import { computePlayerSplits } from '../utils/playerSplits';
+import { getCurrentSeasonYear } from '../jobs/seasonCalendar';
 
 const router = Router();
 
@@ -124,6 +132,7 @@ router.get('/:id/stat-central', async (req: Request, res: Response, next: NextFu
  * GET /v1/players/:id/season/:season/gamelog
  *
  * Returns the player's last 10 games for the given season.
+ * NHL players get skater or goalie lines (see playerType).
  * Cached in Redis for 1 hour.
  */
 router.get('/:id/season/:season/gamelog', async (req: Request, res: Response, next: NextFunction) => {
@@ -146,71 +155,11 @@ router.get('/:id/season/:season/gamelog', async (req: Request, res: Response, ne
       return;
     }
 
-    const rows = await query<{
-      game_id: string;
-      game_date: Date;
-      is_home: boolean | null;
-      dnp_reason: string | null;
-      minutes: number | null;
-      points: number;
-      fgm: number;
-      fga: number;
-      fg3m: number;
-      fg3a: number;
-      ftm: number;
-      fta: number;
-      oreb: number;
-      dreb: number;
-      reb: number;
-      ast: number;
-      stl: number;
-      blk: number;
-      tov: number;
-      pf: number;
-      plus_minus: number | null;
-      opponent: string | null;
-    }>(
-      `SELECT
-        gl.game_id, gl.game_date, gl.is_home, gl.dnp_reason,
-        gl.minutes, gl.points,
-        gl.fgm, gl.fga, gl.fg3m, gl.fg3a, gl.ftm, gl.fta,
-        gl.oreb, gl.dreb, gl.reb, gl.ast, gl.stl, gl.blk,
-        gl.tov, gl.pf, gl.plus_minus,
-        t.abbreviation AS opponent
-      FROM nba_player_game_logs gl
-      LEFT JOIN teams t ON t.id = gl.opponent_team_id
-      WHERE gl.player_id = $1 AND gl.season = $2
-      ORDER BY gl.game_date DESC
-      LIMIT 10`,
-      [playerId, season]
-    );
-
-    const games = rows.map(r => ({
-      gameId: r.game_id,
-      gameDate: r.game_date instanceof Date
-        ? r.game_date.toISOString().slice(0, 10)
-        : String(r.game_date).slice(0, 10),
-      opponent: r.opponent ?? 'UNK',
-      isHome: r.is_home ?? false,
-      dnpReason: r.dnp_reason ?? null,
-      minutes: r.minutes != null ? Number(r.minutes) : 0,
-      points: r.points,
-      fgm: r.fgm,
-      fga: r.fga,
-      fg3m: r.fg3m,
-      fg3a: r.fg3a,
-      ftm: r.ftm,
-      fta: r.fta,
-      oreb: r.oreb,
-      dreb: r.dreb,
-      reb: r.reb,
-      ast: r.ast,
-      stl: r.stl,
-      blk: r.blk,
-      tov: r.tov,
-      pf: r.pf,
-      plusMinus: r.plus_minus ?? 0,
-    }));
+    // NHL players have skater/goalie lines; everyone else reads the NBA table
+    const player = await getPlayerById(playerId);
+    const games = player?.sport === 'nhl'
+      ? await fetchNHLGameLog(playerId, season)
+      : await fetchNBAGameLog(playerId, season);
 
     const response = {
       data: { games },
@@ -225,6 +174,66 @@ router.get('/:id/season/:season/gamelog', async (req: Request, res: Response, ne
   }
 });
 
+/**
+ * GET /v1/players/:id/splits?season=
+ *
+ * Season splits computed from the player's game logs. Defaults to the
+ * current season. Cached in Redis; shorter while the player is live.
+ */
+router.get('/:id/splits', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const playerId = req.params.id as string;
+    if (!playerId || !UUID_RE.test(playerId)) {
+      throw new BadRequestError('Invalid player ID format');
+    }
+
+    const requestedSeason = req.query.season !== undefined
+      ? parseInt(req.query.season as string, 10)
+      : undefined;
+    if (requestedSeason !== undefined && (isNaN(requestedSeason) || requestedSeason < 1900 || requestedSeason > 2100)) {
+      throw new BadRequestError('Invalid season parameter');
+    }
+
+    // The default season depends on the player's league calendar
+    const player = await getPlayerById(playerId);
+    if (!player) {
+      throw new NotFoundError(`Player not found: ${playerId}`);
+    }
+    const season = requestedSeason ?? await getCurrentSeasonYear(player.sport || 'nba');
+
+    const cacheKey = cacheKeys.playerSplits(playerId, season);
+    const cached = await getCached<PlayerSplitsResponse>(cacheKey);
+    if (cached) {
+      setCacheHeaders(res, cached.meta.isLive);
+      res.json(cached);
+      return;
+    }
+
+    const [gameLines, isLive] = await Promise.all([
+      getNBASplitGameLines(playerId, season),
+      isPlayerLive(playerId),
+    ]);
+
+    const response: PlayerSplitsResponse = {
+      data: {
+        playerId,
+        season,
+        splits: computePlayerSplits(gameLines),
+      },
+      meta: {
+        isLive,
+        lastUpdated: new Date().toISOString(),
+      },
+    };
+
+    await setCached(cacheKey, response, isLive ? 60 : 3600);
+    setCacheHeaders(res, isLive);
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * GET /v1/players/:id
  *
@@ -244,9 +253,12 @@ router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
       throw new NotFoundError(`Player not found: ${playerId}`);
     }
 
-    const espnStats = await getPlayerStats(playerId);
+    const espnStats = await getPlayerStats(playerId, player.sport);
     const isLive = await isPlayerLive(playerId);
-    const currentSeason = getCurrentSeason();
+    const currentSeason = await getCurrentSeasonYear(player.sport || 'nba');
+    // Advanced metrics come from our own basketball season summaries
+    const storedSummary = await getNBASeasonSummary(playerId, currentSeason);
+    const advanced = storedSummary ? toAdvancedSeasonStats(storedSummary) : null;
 
     const response = {
       player: {
@@ -278,6 +290,7 @@ router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
         spg: espnStats.currentSeasonStats.steals,
         bpg: espnStats.currentSeasonStats.blocks,
         mpg: espnStats.currentSeasonStats.minutesPerGame,
+        advanced,
       } : {
         season: currentSeason,
         gamesPlayed: 0,
@@ -288,6 +301,7 @@ router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
         fgPct: 0,
         fg3Pct: 0,
         ftPct: 0,
+        advanced,
       },
       meta: {
         isLive,
@@ -309,6 +323,154 @@ router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
 
 // ===== HELPER FUNCTIONS =====
 
+/**
+ * Advanced metrics from a stored season summary (0-100 scale for percentages)
+ */
+function toAdvancedSeasonStats(summary: NBASeasonSummary) {
+  const pct = (val: number | string | null | undefined) =>
+    val === null || val === undefined ? null : Math.round(Number(val) * 1000) / 10;
+  const num = (val: number | string | null | undefined) =>
+    val === null || val === undefined ? null : Number(val);
+
+  return {
+    tsPct: pct(summary.ts_pct),
+    efgPct: pct(summary.efg_pct),
+    usageRate: pct(summary.usage_pct),
+    astToRatio: num(summary.ast_to_ratio),
+    gameScore: num(summary.game_score_avg),
+  };
+}
+
+/**
+ * Last 10 NBA game log lines for a season
+ */
+async function fetchNBAGameLog(playerId: string, season: number) {
+  const rows = await query<{
+    game_id: string;
+    game_date: Date;
+    is_home: boolean | null;
+    dnp_reason: string | null;
+    minutes: number | null;
+    points: number;
+    fgm: number;
+    fga: number;
+    fg3m: number;
+    fg3a: number;
+    ftm: number;
+    fta: number;
+    oreb: number;
+    dreb: number;
+    reb: number;
+    ast: number;
+    stl: number;
+    blk: number;
+    tov: number;
+    pf: number;
+    plus_minus: number | null;
+    opponent: string | null;
+  }>(
+    `SELECT
+      gl.game_id, gl.game_date, gl.is_home, gl.dnp_reason,
+      gl.minutes, gl.points,
+      gl.fgm, gl.fga, gl.fg3m, gl.fg3a, gl.ftm, gl.fta,
+      gl.oreb, gl.dreb, gl.reb, gl.ast, gl.stl, gl.blk,
+      gl.tov, gl.pf, gl.plus_minus,
+      t.abbreviation AS opponent
+    FROM nba_player_game_logs gl
+    LEFT JOIN teams t ON t.id = gl.opponent_team_id
+    WHERE gl.player_id = $1 AND gl.season = $2
+    ORDER BY gl.game_date DESC
+    LIMIT 10`,
+    [playerId, season]
+  );
+
+  return rows.map(r => ({
+    gameId: r.game_id,
+    gameDate: r.game_date instanceof Date
+      ? r.game_date.toISOString().slice(0, 10)
+      : String(r.game_date).slice(0, 10),
+    opponent: r.opponent ?? 'UNK',
+    isHome: r.is_home ?? false,
+    dnpReason: r.dnp_reason ?? null,
+    minutes: r.minutes != null ? Number(r.minutes) : 0,
+    points: r.points,
+    fgm: r.fgm,
+    fga: r.fga,
+    fg3m: r.fg3m,
+    fg3a: r.fg3a,
+    ftm: r.ftm,
+    fta: r.fta,
+    oreb: r.oreb,
+    dreb: r.dreb,
+    reb: r.reb,
+    ast: r.ast,
+    stl: r.stl,
+    blk: r.blk,
+    tov: r.tov,
+    pf: r.pf,
+    plusMinus: r.plus_minus ?? 0,
+  }));
+}
+
+/**
+ * Last 10 NHL game log lines for a season, with skater or goalie stats
+ * depending on the line's player type
+ */
+async function fetchNHLGameLog(playerId: string, season: number) {
+  const rows = await query<NHLGameLog & { opponent: string | null }>(
+    `SELECT gl.*, t.abbreviation AS opponent
+    FROM nhl_player_game_logs gl
+    LEFT JOIN teams t ON t.id = gl.opponent_team_id
+    WHERE gl.player_id = $1 AND gl.season = $2
+    ORDER BY gl.game_date DESC
+    LIMIT 10`,
+    [playerId, season]
+  );
+
+  return rows.map(r => {
+    const base = {
+      gameId: r.game_id,
+      gameDate: r.game_date instanceof Date
+        ? r.game_date.toISOString().slice(0, 10)
+        : String(r.game_date).slice(0, 10),
+      opponent: r.opponent ?? 'UNK',
+      isHome: r.is_home ?? false,
+      dnpReason: r.dnp_reason ?? null,
+      playerType: r.player_type,
+      toiSeconds: r.toi_seconds ?? 0,
+    };
+
+    if (r.player_type === 'goalie') {
+      return {
+        ...base,
+        isStarter: r.is_starter ?? false,
+        decision: r.decision ?? null,
+        saves: r.saves ?? 0,
+        shotsAgainst: r.shots_against ?? 0,
+        goalsAgainst: r.goals_against ?? 0,
+        savePct: r.shots_against ? Math.round(((r.saves ?? 0) / r.shots_against) * 1000) / 1000 : null,
+      };
+    }
+
+    return {
+      ...base,
+      goals: r.goals ?? 0,
+      assists: r.assists ?? 0,
+      points: r.points ?? 0,
+      plusMinus: r.plus_minus ?? 0,
+      pim: r.pim ?? 0,
+      shots: r.shots ?? 0,
+      hits: r.hits ?? 0,
+      blockedShots: r.blocked_shots ?? 0,
+      faceoffWins: r.faceoff_wins ?? 0,
+      faceoffLosses: r.faceoff_losses ?? 0,
+      ppGoals: r.pp_goals ?? 0,
+      shGoals: r.sh_goals ?? 0,
+      shifts: r.shifts ?? 0,
+    };
+  });
+}
+
 async function isPlayerLive(playerId: string): Promise<boolean> {
   try {
     const result = await query<{ is_player_live: boolean }>(
@@ -1,6 +1,6 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { getAdapterForLeague } from '../providers';
-import { getCached, setCached, cacheKeys } from '../cache/redis';
+import { fetchForLeague } from '../providers';
+import { getCached, setCached, getCachedResult, setCachedResult, cacheKeys } from '../cache/redis';
 import { getRequestDeduplicator } from '../cache/RequestDeduplicator';
 import { getScoreboardTTL, getNoGamesTTL } from '../cache/CachePolicy';
 import { config, leagueConfig, LeagueId } from '../config';
@@ -13,7 +13,9 @@ import {
   getGamesForDate,
   getSeasonForDate,
   getScheduleStore,
+  subscribeToScoreboard,
 } from '../jobs';
+import { ScoreboardStreamEvent } from '../jobs/scoreboardPoller';
 import { validateLeague as validateLeagueMiddleware, validateDate as validateDateMiddleware, validateDateRange } from '../middleware/validation';
 
 export const scoreboardRouter = Router();
@@ -28,7 +30,7 @@ async function checkGameDatesIndex(
   cacheKey: string
 ): Promise<{ skip: boolean; response?: ScoreboardResponse; reason?: string }> {
   // Check game_dates index
-  const gameDateEntry = getGameDateEntry(league, date);
+  const gameDateEntry = await getGameDateEntry(league, date);
   
   if (gameDateEntry) {
     // We have data about this date
@@ -49,7 +51,7 @@ async function checkGameDatesIndex(
     
     // Games exist - check if we have fresh data
     // If game_dates says there are games, we might have them in the store
-    const storedGames = getGamesForDate(league, date);
+    const storedGames = await getGamesForDate(league, date);
     if (storedGames.length > 0) {
       // We have game data - check freshness based on status
       const hasLiveGames = storedGames.some(g => g.status === 'live');
@@ -72,7 +74,7 @@ async function checkGameDatesIndex(
   }
   
   // No game_dates entry - check if date is in season
-  const inSeason = isDateInSeason(league, date);
+  const inSeason = await isDateInSeason(league, date);
   
   if (!inSeason) {
     // Off-season date - return empty without ESPN call
@@ -103,15 +105,15 @@ scoreboardRouter.get('/', validateLeagueMiddleware, validateDateMiddleware, vali
     const cacheKey = cacheKeys.scoreboard(league, date);
     
     // Try Redis cache first
-    const cached = await getCached<ScoreboardResponse>(cacheKey);
+    const cached = await getCachedResult<ScoreboardResponse>(cacheKey);
     if (cached) {
       logger.debug(`Cache hit for scoreboard: ${league}/${date}`);
       res.cacheHit = true;
       res.json({
-        data: cached,
+        data: cached.data,
         meta: {
           requestId: req.requestId,
-          provider: config.provider,
+          provider: cached.provider,
           cacheHit: true,
         },
       });
@@ -127,7 +129,7 @@ scoreboardRouter.get('/', validateLeagueMiddleware, validateDateMiddleware, vali
       
       // Cache the empty response with appropriate TTL
       const ttl = getNoGamesTTL(gameDatesCheck.reason || 'no-games');
-      await setCached(cacheKey, gameDatesCheck.response, ttl);
+      await setCachedResult(cacheKey, { data: gameDatesCheck.response, provider: 'game_dates_index' }, ttl);
       
       res.cacheHit = false;
       res.json({
@@ -148,12 +150,9 @@ scoreboardRouter.get('/', validateLeagueMiddleware, validateDateMiddleware, vali
     
     logger.debug(`Cache miss for scoreboard: ${league}/${date}, reason: ${gameDatesCheck.reason}`);
     
-    // Get the ESPN adapter for this league
-    const adapter = getAdapterForLeague(league);
-    const providerName = adapter.name;
-    
-    const games = await deduplicator.dedupe(dedupeKey, async () => {
-      return adapter.fetchScoreboard(league, date);
+    // Fetch from the league's providers, failing over in configured order
+    const { data: games, provider: providerName } = await deduplicator.dedupe(dedupeKey, async () => {
+      return fetchForLeague(league, provider => provider.fetchScoreboard(league, date));
     });
     
     const response: ScoreboardResponse = {
@@ -167,7 +166,7 @@ scoreboardRouter.get('/', validateLeagueMiddleware, validateDateMiddleware, vali
     const ttl = getScoreboardTTL(games, date);
     
     // Cache the response
-    await setCached(cacheKey, response, ttl);
+    await setCachedResult(cacheKey, { data: response, provider: providerName }, ttl);
     
     res.cacheHit = false;
     res.json({
@@ -183,6 +182,50 @@ scoreboardRouter.get('/', validateLeagueMiddleware, validateDateMiddleware, vali
   }
 });
 
+// Keep idle proxies from closing the stream between updates
+const STREAM_HEARTBEAT_MS = 25000;
+
+/**
+ * GET /v1/scoreboard/stream?league=nba&date=2026-01-15
+ *
+ * Server-Sent Events stream of live scoreboard changes. Clients receive a
+ * `snapshot` event on connect, then `update` events carrying only the
+ * score/clock/status fields that changed. All clients watching the same
+ * league/date share one upstream poller.
+ */
+scoreboardRouter.get('/stream', validateLeagueMiddleware, validateDateMiddleware, validateDateRange(365, 365), (req: Request, res: Response) => {
+  const league = (req.query.league as string).toLowerCase();
+  const date = req.query.date as string;
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  const send = (event: ScoreboardStreamEvent): void => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+    // compression() buffers output; push each event out immediately
+    res.flush();
+  };
+
+  const unsubscribe = subscribeToScoreboard(league, date, send);
+
+  const heartbeat = setInterval(() => {
+    res.write(': heartbeat\n\n');
+    res.flush();
+  }, STREAM_HEARTBEAT_MS);
+
+  logger.debug(`Scoreboard stream opened: ${league}/${date}`, { requestId: req.requestId });
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+    logger.debug(`Scoreboard stream closed: ${league}/${date}`, { requestId: req.requestId });
+  });
+});
+
 /**
  * GET /v1/scoreboard/dates?league=nba
  *
@@ -210,7 +253,7 @@ scoreboardRouter.get('/dates', validateLeagueMiddleware, async (req: Request, re
 
     // Get all game dates from the schedule store
     const store = getScheduleStore();
-    const allGameDates = store.getAllGameDates();
+    const allGameDates = await store.getAllGameDates();
 
     // Filter to only this league and dates with games
     const datesWithGames = allGameDates
@@ -228,7 +271,7 @@ scoreboardRouter.get('/dates', validateLeagueMiddleware, async (req: Request, re
       // Fallback: get season range and generate dates
       const today = new Date();
       const todayStr = today.toISOString().split('T')[0];
-      const season = getSeasonForDate(league, todayStr);
+      const season = await getSeasonForDate(league, todayStr);
 
       dates = [];
       if (season) {
@@ -1,6 +1,6 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { getProviderAdapter } from '../providers';
-import { getCached, setCached, cacheKeys } from '../cache/redis';
+import { fetchForLeague } from '../providers';
+import { getCachedResult, setCachedResult, cacheKeys } from '../cache/redis';
 import { config } from '../config';
 import { StandingsResponse } from '../types';
 import { BadRequestError, NotFoundError } from '../middleware/errorHandler';
@@ -17,15 +17,15 @@ standingsRouter.get('/', validateLeague, validateSeason(false), async (req: Requ
     const cacheKey = cacheKeys.standings(league, season);
     
     // Try cache first
-    const cached = await getCached<StandingsResponse>(cacheKey);
+    const cached = await getCachedResult<StandingsResponse>(cacheKey);
     if (cached) {
       logger.debug(`Cache hit for standings: ${league}/${season}`);
       res.cacheHit = true;
       res.json({
-        data: cached,
+        data: cached.data,
         meta: {
           requestId: req.requestId,
-          provider: config.provider,
+          provider: cached.provider,
           cacheHit: true,
         },
       });
@@ -34,18 +34,19 @@ standingsRouter.get('/', validateLeague, validateSeason(false), async (req: Requ
     
     // Fetch from provider
     logger.debug(`Cache miss for standings: ${league}/${season}`);
-    const provider = getProviderAdapter();
-    const standings = await provider.fetchStandings(league, season !== 'current' ? season : undefined);
+    const { data: standings, provider: providerName } = await fetchForLeague(league, provider =>
+      provider.fetchStandings(league, season !== 'current' ? season : undefined)
+    );
     
     // Cache the response
-    await setCached(cacheKey, standings, config.cacheTtl.standings);
+    await setCachedResult(cacheKey, { data: standings, provider: providerName }, config.cacheTtl.standings);
     
     res.cacheHit = false;
     res.json({
       data: standings,
       meta: {
         requestId: req.requestId,
-        provider: config.provider,
+        provider: providerName,
         cacheHit: false,
       },
     });
@@ -1,11 +1,17 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { getProviderAdapter } from '../providers';
-import { getCached, setCached, cacheKeys } from '../cache/redis';
+import { fetchForLeague, getProviderName } from '../providers';
+import { getCachedResult, setCachedResult, cacheKeys } from '../cache/redis';
+import { getScheduleTTL } from '../cache/CachePolicy';
+import { getRequestDeduplicator } from '../cache/RequestDeduplicator';
 import { config } from '../config';
-import { RosterResponse } from '../types';
+import { Game, RosterResponse, TeamScheduleResponse } from '../types';
 import { BadRequestError, NotFoundError } from '../middleware/errorHandler';
 import { logger } from '../utils/logger';
 import { validateTeamId } from '../middleware/validation';
+import { enrichRosterWithPlayerIds } from '../utils/enrichRoster';
+import { isSplitYearLeague, toLeagueSeasonLabel } from '../utils/seasonUtils';
+import { isSeasonIndexed, mergeTeamSchedule } from '../utils/teamSchedule';
+import { getScheduleStore, LeagueSeason } from '../jobs/scheduleStore';
 
 export const teamsRouter = Router();
 
@@ -13,19 +19,20 @@ export const teamsRouter = Router();
 teamsRouter.get('/:id/roster', validateTeamId, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const id = req.params.id as string;
+    const leaguePrefix = id.split('_')[0];
     
     const cacheKey = cacheKeys.roster(id);
     
     // Try cache first
-    const cached = await getCached<RosterResponse>(cacheKey);
+    const cached = await getCachedResult<RosterResponse>(cacheKey);
     if (cached) {
       logger.debug(`Cache hit for roster: ${id}`);
       res.cacheHit = true;
       res.json({
-        data: cached,
+        data: await enrichRosterWithPlayerIds(cached.data, leaguePrefix),
         meta: {
           requestId: req.requestId,
-          provider: config.provider,
+          provider: cached.provider,
           cacheHit: true,
         },
       });
@@ -34,22 +41,142 @@ teamsRouter.get('/:id/roster', validateTeamId, async (req: Request, res: Respons
     
     // Fetch from provider
     logger.debug(`Cache miss for roster: ${id}`);
-    const provider = getProviderAdapter();
-    const roster = await provider.fetchRoster(id);
+    const { data: roster, provider: providerName } = await fetchForLeague(leaguePrefix, provider => provider.fetchRoster(id));
     
     if (!roster) {
       throw new NotFoundError(`Roster for team '${id}' not found`);
     }
     
-    // Cache the response
-    await setCached(cacheKey, roster, config.cacheTtl.roster);
+    // Cache the raw ESPN-keyed roster; enrichment runs per request so newly
+    // ingested players link up without waiting for the roster TTL
+    await setCachedResult(cacheKey, { data: roster, provider: providerName }, config.cacheTtl.roster);
     
     res.cacheHit = false;
     res.json({
-      data: roster,
+      data: await enrichRosterWithPlayerIds(roster, leaguePrefix),
       meta: {
         requestId: req.requestId,
-        provider: config.provider,
+        provider: providerName,
+        cacheHit: false,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Build a team's schedule from synced games, asking the provider for the
+ * dates the game_dates index does not cover (or everything, when nothing
+ * is synced for the team). `complete` is false when the
+ * provider was needed but failed, so the partial result is not cached.
+ */
+async function buildTeamSchedule(
+  teamId: string,
+  league: string,
+  season: LeagueSeason | undefined,
+  seasonLabel: string | undefined
+): Promise<{ schedule: TeamScheduleResponse; provider: string; complete: boolean }> {
+  const store = getScheduleStore();
+  const records = season ? await store.getGamesForTeam(teamId, season.id) : [];
+  const indexedDates = new Set(
+    season ? (await store.getGameDatesForSeason(season.id)).map(entry => entry.scoreboardDate) : []
+  );
+
+  let providerGames: Game[] = [];
+  let provider = getProviderName(league);
+  let complete = true;
+
+  // An indexed season with no stored games for the team still needs the provider
+  if (!season || records.length === 0 || !isSeasonIndexed(season, indexedDates)) {
+    try {
+      const result = await fetchForLeague(league, p => p.fetchTeamSchedule(teamId, seasonLabel));
+      providerGames = result.data;
+      provider = result.provider;
+    } catch (error) {
+      if (records.length === 0) throw error;
+      complete = false;
+      logger.warn('Team schedule: Provider fallback failed, serving synced games only', {
+        teamId,
+        season: seasonLabel,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return {
+    schedule: {
+      teamId,
+      season: seasonLabel ?? 'current',
+      lastUpdated: new Date().toISOString(),
+      games: mergeTeamSchedule(teamId, records, providerGames, indexedDates),
+    },
+    provider,
+    complete,
+  };
+}
+
+/**
+ * GET /v1/teams/:id/schedule?season=
+ * A team's games for a season (default: the league's current season)
+ * Query params:
+ *   - season: "YYYY" or, for split-year leagues, "YYYY-YY" (start year)
+ */
+teamsRouter.get('/:id/schedule', validateTeamId, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const league = id.split('_')[0];
+    const store = getScheduleStore();
+
+    let season: LeagueSeason | undefined;
+    let seasonLabel: string | undefined;
+    if (req.query.season) {
+      const requested = String(req.query.season);
+      const label = toLeagueSeasonLabel(league, requested);
+      if (!label) {
+        const format = isSplitYearLeague(league) ? 'YYYY or YYYY-YY' : 'YYYY';
+        throw new BadRequestError(`Invalid season '${requested}'. Use ${format}`);
+      }
+      seasonLabel = label;
+      season = await store.getSeason(`${league}_${label}`);
+    } else {
+      season = await store.getSeasonForDate(league, new Date().toISOString().split('T')[0]);
+      seasonLabel = season?.seasonLabel;
+    }
+
+    const cacheKey = cacheKeys.teamSchedule(id, seasonLabel ?? 'current');
+
+    const cached = await getCachedResult<TeamScheduleResponse>(cacheKey);
+    if (cached) {
+      logger.debug(`Cache hit for team schedule: ${id}/${cached.data.season}`);
+      res.cacheHit = true;
+      res.json({
+        data: cached.data,
+        meta: {
+          requestId: req.requestId,
+          provider: cached.provider,
+          cacheHit: true,
+        },
+      });
+      return;
+    }
+
+    logger.debug(`Cache miss for team schedule: ${id}/${seasonLabel ?? 'current'}`);
+    const { schedule, provider, complete } = await getRequestDeduplicator().dedupe(
+      cacheKey,
+      () => buildTeamSchedule(id, league, season, seasonLabel)
+    );
+
+    if (complete) {
+      await setCachedResult(cacheKey, { data: schedule, provider }, getScheduleTTL());
+    }
+
+    res.cacheHit = false;
+    res.json({
+      data: schedule,
+      meta: {
+        requestId: req.requestId,
+        provider,
         cacheHit: false,
       },
     });
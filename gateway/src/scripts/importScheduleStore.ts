@@ -0,0 +1,114 @@
+#!/usr/bin/env tsx
+/**
+ * Import Schedule Store JSON into PostgreSQL
+ *
+ * One-shot migration of data/schedule-store.json files (written by the JSON
+ * schedule store) into league_seasons, games and game_dates. Safe to re-run:
+ * every row is upserted, and external IDs are merged into existing games.
+ *
+ * Usage:
+ *   npm run import-schedule                                # data/schedule-store.json
+ *   npm run import-schedule -- path/a.json path/b.json     # several instances' files
+ */
+
+import { config as dotenvConfig } from 'dotenv';
+dotenvConfig();
+
+import * as fs from 'fs';
+import { closePool } from '../db/pool';
+import { logger } from '../utils/logger';
+import { PostgresScheduleStore, readScheduleFile, SCHEDULE_FILE } from '../jobs/scheduleStore';
+
+interface ImportCounts {
+  seasons: number;
+  games: number;
+  gameDates: number;
+  failed: number;
+}
+
+async function importFile(store: PostgresScheduleStore, filePath: string): Promise<ImportCounts> {
+  const { seasons, games, gameDates } = readScheduleFile(filePath);
+  const counts: ImportCounts = { seasons: 0, games: 0, gameDates: 0, failed: 0 };
+
+  logger.info('ImportSchedule: Importing file', {
+    filePath,
+    seasons: seasons.length,
+    games: games.length,
+    gameDates: gameDates.length,
+  });
+
+  // Seasons first: games and game_dates reference league_seasons
+  for (const season of seasons) {
+    try {
+      await store.upsertSeason(season);
+      counts.seasons++;
+    } catch (error) {
+      counts.failed++;
+      logger.error('ImportSchedule: Season failed', {
+        seasonId: season.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  for (const game of games) {
+    try {
+      await store.upsertGame(game);
+      counts.games++;
+    } catch (error) {
+      counts.failed++;
+      logger.error('ImportSchedule: Game failed', {
+        gameId: game.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  for (const entry of gameDates) {
+    try {
+      await store.upsertGameDateEntry(entry);
+      counts.gameDates++;
+    } catch (error) {
+      counts.failed++;
+      logger.error('ImportSchedule: Game date failed', {
+        leagueId: entry.leagueId,
+        scoreboardDate: entry.scoreboardDate,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return counts;
+}
+
+async function main(): Promise<void> {
+  const files = process.argv.slice(2).filter(arg => !arg.startsWith('--'));
+  const filePaths = files.length > 0 ? files : [SCHEDULE_FILE];
+
+  const store = new PostgresScheduleStore();
+  let failed = 0;
+
+  for (const filePath of filePaths) {
+    if (!fs.existsSync(filePath)) {
+      logger.error('ImportSchedule: File not found', { filePath });
+      failed++;
+      continue;
+    }
+
+    const counts = await importFile(store, filePath);
+    failed += counts.failed;
+    logger.info('ImportSchedule: File imported', { filePath, ...counts });
+  }
+
+  logger.info('ImportSchedule: Done', { files: filePaths.length, failed, totals: await store.getStats() });
+  await closePool();
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch(async (error) => {
+  logger.error('ImportSchedule: Fatal error', {
+    error: error instanceof Error ? error.message : String(error),
+  });
+  await closePool();
+  process.exit(1);
+});
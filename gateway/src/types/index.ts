@@ -60,6 +60,7 @@ export interface Team {
   name: string;
   city: string;
   score?: number;
+  linescore?: number[];  // Score per period, overtime periods appended
   logoURL?: string;
   primaryColor?: string;
   conference?: string;
@@ -111,6 +112,12 @@ export interface PlayerStats {
   turnovers?: number;
   fouls?: number;
   plusMinus?: number;
+  // Advanced (0-100 scale for percentages)
+  trueShootingPct?: number;
+  effectiveFgPct?: number;
+  assistToTurnover?: number;
+  usageRate?: number;     // Players only
+  gameScore?: number;     // Players only
 }
 
 export interface PlayerLine {
@@ -129,6 +136,10 @@ export interface TeamTotals extends PlayerStats {
   threePercentage?: number;
   ftPercentage?: number;
   totalRebounds?: number;
+  possessions?: number;
+  pace?: number;             // Possessions per regulation game (48 min NBA, 40 WNBA/college)
+  offensiveRating?: number;  // Points scored per 100 possessions
+  defensiveRating?: number;  // Points allowed per 100 possessions
 }
 
 export interface NBATeamBoxScore {
@@ -240,9 +251,82 @@ export interface NHLTeamBoxScore {
   scratches: NHLScratchPlayer[];
 }
 
+// MLB Types
+export interface MLBBattingStats {
+  atBats: number;
+  runs: number;
+  hits: number;
+  rbi: number;
+  homeRuns: number;
+  walks: number;
+  strikeouts: number;
+  pitchesSeen: number;
+  avg?: number;
+  obp?: number;
+  slg?: number;
+}
+
+export interface MLBBatterLine {
+  id: string;
+  name: string;
+  jersey?: string;
+  position: string;
+  battingOrder?: number;
+  isStarter: boolean;
+  stats?: MLBBattingStats;
+}
+
+export interface MLBPitchingStats {
+  inningsPitched: string;  // ESPN notation, e.g. "6.1" = 6 1/3 innings
+  outsRecorded: number;
+  hits: number;
+  runs: number;
+  earnedRuns: number;
+  walks: number;
+  strikeouts: number;
+  homeRuns: number;
+  pitchCount: number;
+  strikes: number;
+  era?: number;
+}
+
+export interface MLBPitcherLine {
+  id: string;
+  name: string;
+  jersey?: string;
+  stats?: MLBPitchingStats;
+  decision?: string;  // W, L, S, H, BS
+}
+
+export interface MLBLinescore {
+  innings: number[];  // runs per inning, extra innings included
+  runs: number;
+  hits: number;
+  errors: number;
+}
+
+export interface MLBTeamTotals {
+  atBats: number;
+  runs: number;
+  hits: number;
+  rbi: number;
+  homeRuns: number;
+  walks: number;
+  strikeouts: number;
+}
+
+export interface MLBTeamBoxScore {
+  teamId: string;
+  teamName: string;
+  batters: MLBBatterLine[];
+  pitchers: MLBPitcherLine[];
+  linescore: MLBLinescore;
+  teamTotals: MLBTeamTotals;
+}
+
 export interface BoxScore {
-  homeTeam: NBATeamBoxScore | NFLTeamBoxScore | NHLTeamBoxScore;
-  awayTeam: NBATeamBoxScore | NFLTeamBoxScore | NHLTeamBoxScore;
+  homeTeam: NBATeamBoxScore | NFLTeamBoxScore | NHLTeamBoxScore | MLBTeamBoxScore;
+  awayTeam: NBATeamBoxScore | NFLTeamBoxScore | NHLTeamBoxScore | MLBTeamBoxScore;
 }
 
 export interface BoxScoreResponse {
@@ -251,6 +335,31 @@ export interface BoxScoreResponse {
   lastUpdated: string;
 }
 
+// Play-by-Play Types
+export interface Play {
+  id: string;
+  sequence: number;
+  period: number;
+  periodDisplay?: string;  // ESPN label, e.g. "1st Quarter", "2nd Period"
+  clock?: string;          // Absent for MLB
+  teamId?: string;         // Team credited with the play (possession team for football)
+  playerIds: string[];     // Actors in ESPN order (shooter/assister, scorer/assists, passer/receiver)
+  type?: string;
+  description: string;
+  homeScore: number;       // Score after the play
+  awayScore: number;
+  scoringPlay: boolean;
+  scoreValue?: number;
+  driveId?: string;        // NFL/NCAAF only
+}
+
+export interface PlaysResponse {
+  game: Game;
+  periods: number[];
+  plays: Play[];
+  lastUpdated: string;
+}
+
 // Standings Types
 export interface Standing {
   teamId: string;
@@ -259,6 +368,8 @@ export interface Standing {
   wins: number;
   losses: number;
   ties?: number;
+  otLosses?: number;  // NHL only
+  points?: number;    // NHL only
   winPct: number;
   rank: number;
   gamesBack?: number;
@@ -266,9 +377,15 @@ export interface Standing {
   lastTen?: string;
 }
 
+export interface DivisionStandings {
+  name: string;
+  teams: Standing[];
+}
+
 export interface ConferenceStandings {
   name: string;
   teams: Standing[];
+  divisions?: DivisionStandings[];
 }
 
 export interface StandingsResponse {
@@ -278,6 +395,123 @@ export interface StandingsResponse {
   conferences: ConferenceStandings[];
 }
 
+// Team Schedule Types
+export interface TeamScheduleGame {
+  gameId: string;
+  startTime: string;
+  scoreboardDate: string;  // YYYY-MM-DD (US/Eastern)
+  status: 'scheduled' | 'live' | 'final';
+  homeAway: 'home' | 'away';
+  opponentId: string;
+  teamScore?: number;
+  opponentScore?: number;
+  result?: 'W' | 'L' | 'T';  // Final games only
+  period?: string;
+  clock?: string;
+}
+
+export interface TeamScheduleResponse {
+  teamId: string;
+  season: string;
+  lastUpdated: string;
+  games: TeamScheduleGame[];
+}
+
+// Matchup Preview Types
+export interface HeadToHeadMeeting {
+  gameId: string;
+  date: string;  // Scoreboard date (YYYY-MM-DD)
+  homeTeamId: string;
+  awayTeamId: string;
+  homeScore?: number;
+  awayScore?: number;
+  winnerId?: string;  // Undefined for ties
+}
+
+export interface TeamSeasonAverages {
+  gamesPlayed: number;
+  pointsFor?: number;
+  pointsAgainst?: number;
+  boxScore?: Record<string, number>;  // Per-game team totals from player game logs (NBA, NFL)
+}
+
+export interface TeamForm {
+  teamId: string;
+  lastTen: { wins: number; losses: number; ties: number };
+  streak?: string;  // "W3", "L1", "T1"
+  seasonAverages: TeamSeasonAverages;
+}
+
+export interface MatchupPreview {
+  gameId: string;
+  league: string;
+  season?: string;
+  startTime: string;
+  status: 'scheduled' | 'live' | 'final';
+  headToHead: {
+    meetings: HeadToHeadMeeting[];  // Newest first
+    homeWins: number;  // Wins by this game's home team, wherever the meeting was played
+    awayWins: number;
+    ties: number;
+  };
+  home: TeamForm;
+  away: TeamForm;
+  lastUpdated: string;
+}
+
+// My Feed Types
+export interface FeedItem {
+  teamIds: string[];       // Favorite teams playing in this game (both, for a head-to-head)
+  league: string;
+  relation: 'today' | 'next' | 'previous';  // Relative to the requested date
+  game: TeamScheduleGame;  // From the first team's perspective
+  matchup?: Game;          // Full scoreboard game when that date's scoreboard is cached
+}
+
+export interface FeedResponse {
+  date: string;
+  items: FeedItem[];       // Sorted by start time
+}
+
+// Leaders Types
+export interface LeaderEntry {
+  rank: number;           // Ties share a rank
+  playerId: string;
+  displayName: string;
+  position: string | null;
+  teamId: string | null;
+  headshotUrl: string | null;
+  gamesPlayed: number;
+  perGame: number | null; // Per-game value, or the rate for percentage stats
+  total: number | null;   // Season total; null for rate stats
+}
+
+export interface LeadersResponse {
+  league: string;
+  season: number;
+  stat: string;
+  label: string;
+  minGames: number;       // Games needed to qualify for the per-game list
+  perGame: LeaderEntry[]; // Qualified players ranked by per-game value
+  totals: LeaderEntry[];  // All players ranked by season total
+}
+
+// Season Calendar Types
+export type SeasonPhase = 'preseason' | 'regular' | 'postseason' | 'offseason';
+
+export interface SeasonPhaseDates {
+  phase: SeasonPhase;
+  startDate: string;  // YYYY-MM-DD, inclusive
+  endDate: string;    // YYYY-MM-DD, inclusive
+}
+
+export interface SeasonCalendar {
+  league: string;
+  year: number;       // Provider season year (split-year seasons use the year they end in)
+  label: string;      // "2025-26" or "2026"
+  phases: SeasonPhaseDates[];
+}
+
 // Roster Types
 export interface Player {
   id: string;
@@ -328,5 +562,7 @@ export interface SportsDataProvider {
   fetchBoxScore(gameId: string, sport: string): Promise<BoxScoreResponse>;
   fetchStandings(league: string, season?: string): Promise<StandingsResponse>;
   fetchRoster(teamId: string): Promise<RosterResponse>;
+  fetchTeamSchedule(teamId: string, season?: string): Promise<Game[]>;
+  fetchPlays(gameId: string): Promise<PlaysResponse>;
   healthCheck(): Promise<ProviderStatus>;
 }
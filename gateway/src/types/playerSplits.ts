@@ -0,0 +1,43 @@
+/**
+ * Player Splits API Types
+ *
+ * Response contract for GET /v1/players/:id/splits
+ */
+
+export interface SplitLine {
+  key: string;             // "HOME", "JAN", "nba_2", "W", "STARTER", "REST_0"
+  label: string;           // Display label ("Home", "January", "BOS", "Wins", ...)
+  gamesPlayed: number;
+  minutes: number;         // per game
+  points: number;          // per game
+  rebounds: number;        // per game
+  assists: number;         // per game
+  steals: number;          // per game
+  blocks: number;          // per game
+  turnovers: number;       // per game
+  fgPct: number;           // 0-100 scale
+  fg3Pct: number;          // 0-100 scale
+  ftPct: number;           // 0-100 scale
+  plusMinus: number;       // per game
+}
+
+export interface PlayerSplits {
+  homeAway: SplitLine[];
+  byMonth: SplitLine[];    // chronological within the season
+  byOpponent: SplitLine[]; // most games first
+  result: SplitLine[];     // wins, losses
+  role: SplitLine[];       // starter, bench
+  restDays: SplitLine[];   // 0 (back-to-back), 1, 2, 3+
+}
+
+export interface PlayerSplitsResponse {
+  data: {
+    playerId: string;
+    season: number;
+    splits: PlayerSplits;
+  };
+  meta: {
+    isLive: boolean;
+    lastUpdated: string; // ISO 8601
+  };
+}
@@ -16,6 +16,8 @@ export interface StatCentralPlayer {
   college: string | null;
   hometown: string | null;
   draftSummary: string | null; // "2020 · Round 1 · Pick 21" or null if undrafted
+  classYear?: string | null;   // College players only: "Freshman", "Junior", ...
+  conference?: string | null;  // College players only: "Big Ten", "SEC", ...
 }
 
 export interface SeasonRow {
@@ -0,0 +1,197 @@
+/**
+ * ApiKeyLimiter - Per-key rate limits and daily quotas for third-party API keys
+ *
+ * Two layers per key:
+ * 1. Rate limit: fixed one-minute window of rate_limit_per_minute requests
+ * 2. Daily quota: daily_quota requests per UTC day (unlimited when null)
+ *
+ * Counts live in memory. Daily usage is seeded from Postgres the first time a
+ * key is seen each day (see needsSeed) and increments are drained to
+ * api_key_usage by the usage flush job, so quotas survive restarts. Each
+ * flush also reads back the stored daily counts (see syncDailyUsage), so with
+ * several instances the daily quota overshoots by at most the traffic the
+ * other instances served since their last flush (about a minute). The rate
+ * limit is enforced per instance.
+ */
+
+import { ApiKeyUsage } from '../db/repositories/apiKeyRepository';
+
+const WINDOW_MS = 60 * 1000;
+
+export interface ApiKeyLimits {
+  id: string;
+  rateLimitPerMinute: number;
+  dailyQuota: number | null;
+}
+
+export interface ApiKeyCheckResult {
+  allowed: boolean;
+  reason?: 'rate_limit' | 'daily_quota';
+  retryAfterMs?: number;
+  rateLimit: { limit: number; remaining: number; resetMs: number };
+  dailyQuota: { limit: number | null; used: number; remaining: number | null };
+}
+
+interface KeyState {
+  windowStart: number;
+  windowCount: number;
+  date: string;
+  dailyUsed: number;
+}
+
+function utcDate(now: number): string {
+  return new Date(now).toISOString().split('T')[0];
+}
+
+function msUntilNextUtcDay(now: number): number {
+  const next = new Date(now);
+  next.setUTCHours(24, 0, 0, 0);
+  return next.getTime() - now;
+}
+
+export class ApiKeyLimiter {
+  private states = new Map<string, KeyState>();
+  // Unflushed increments keyed by "<keyId>|<date>"
+  private pending = new Map<string, ApiKeyUsage>();
+
+  /**
+   * Whether today's usage for a key still has to be loaded from Postgres
+   */
+  needsSeed(keyId: string, now = Date.now()): boolean {
+    return this.states.get(keyId)?.date !== utcDate(now);
+  }
+
+  /**
+   * Start today's count for a key from the stored usage
+   */
+  seedDailyUsage(keyId: string, storedRequests: number, now = Date.now()): void {
+    const existing = this.states.get(keyId);
+    const date = utcDate(now);
+    if (existing?.date === date) return;
+
+    this.states.set(keyId, {
+      windowStart: existing?.windowStart ?? now,
+      windowCount: existing?.windowCount ?? 0,
+      date,
+      dailyUsed: storedRequests,
+    });
+  }
+
+  /**
+   * Keys with a count for today, whose stored usage the flush job reads back
+   */
+  trackedKeyIds(now = Date.now()): string[] {
+    const date = utcDate(now);
+    return [...this.states].filter(([, state]) => state.date === date).map(([keyId]) => keyId);
+  }
+
+  /**
+   * Catch today's count up with the stored total, which includes requests
+   * other instances have flushed. Requests counted here but not flushed yet
+   * are added on top; the count never goes down.
+   */
+  syncDailyUsage(keyId: string, storedRequests: number, now = Date.now()): void {
+    const state = this.states.get(keyId);
+    if (!state || state.date !== utcDate(now)) return;
+
+    const unflushed = this.pending.get(`${keyId}|${state.date}`)?.requests ?? 0;
+    state.dailyUsed = Math.max(state.dailyUsed, storedRequests + unflushed);
+  }
+
+  /**
+   * Count a request against a key's limits; rejected requests are counted
+   * separately and do not use up quota
+   */
+  check(limits: ApiKeyLimits, now = Date.now()): ApiKeyCheckResult {
+    this.seedDailyUsage(limits.id, 0, now);
+    const state = this.states.get(limits.id)!;
+
+    if (now - state.windowStart >= WINDOW_MS) {
+      state.windowStart = now;
+      state.windowCount = 0;
+    }
+
+    let reason: ApiKeyCheckResult['reason'];
+    let retryAfterMs: number | undefined;
+    if (limits.dailyQuota !== null && state.dailyUsed >= limits.dailyQuota) {
+      reason = 'daily_quota';
+      retryAfterMs = msUntilNextUtcDay(now);
+    } else if (state.windowCount >= limits.rateLimitPerMinute) {
+      reason = 'rate_limit';
+      retryAfterMs = state.windowStart + WINDOW_MS - now;
+    } else {
+      state.windowCount++;
+      state.dailyUsed++;
+    }
+
+    const usage = this.pendingFor(limits.id, state.date);
+    if (reason) {
+      usage.rejected++;
+    } else {
+      usage.requests++;
+    }
+
+    return {
+      allowed: !reason,
+      reason,
+      retryAfterMs,
+      rateLimit: {
+        limit: limits.rateLimitPerMinute,
+        remaining: Math.max(limits.rateLimitPerMinute - state.windowCount, 0),
+        resetMs: state.windowStart + WINDOW_MS - now,
+      },
+      dailyQuota: {
+        limit: limits.dailyQuota,
+        used: state.dailyUsed,
+        remaining: limits.dailyQuota === null ? null : Math.max(limits.dailyQuota - state.dailyUsed, 0),
+      },
+    };
+  }
+
+  /**
+   * Take the unflushed increments (for api_key_usage)
+   */
+  drainUsage(): ApiKeyUsage[] {
+    const usage = [...this.pending.values()];
+    this.pending.clear();
+    return usage;
+  }
+
+  /**
+   * Put increments back after a failed flush so the next one retries them
+   */
+  restoreUsage(usage: ApiKeyUsage[]): void {
+    for (const row of usage) {
+      const pending = this.pendingFor(row.api_key_id, row.usage_date);
+      pending.requests += row.requests;
+      pending.rejected += row.rejected;
+    }
+  }
+
+  /**
+   * Drop a deleted key's counters
+   */
+  forget(keyId: string): void {
+    this.states.delete(keyId);
+  }
+
+  private pendingFor(keyId: string, date: string): ApiKeyUsage {
+    const id = `${keyId}|${date}`;
+    let usage = this.pending.get(id);
+    if (!usage) {
+      usage = { api_key_id: keyId, usage_date: date, requests: 0, rejected: 0 };
+      this.pending.set(id, usage);
+    }
+    return usage;
+  }
+}
+
+// Singleton instance
+let limiterInstance: ApiKeyLimiter | null = null;
+
+export function getApiKeyLimiter(): ApiKeyLimiter {
+  if (!limiterInstance) {
+    limiterInstance = new ApiKeyLimiter();
+  }
+  return limiterInstance;
+}
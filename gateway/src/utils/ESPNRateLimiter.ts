@@ -21,13 +21,15 @@ const WARNING_THRESHOLD = 1800;
 // Budget bucket types
 export type ESPNBudgetBucket = 'scoreboard' | 'gameSummary' | 'standings' | 'schedule' | 'reserve';
 
-// Bucket allocations
+// Bucket allocations (standings and schedule are carved out of the reserve).
+// Standings cover every team league plus historical seasons; schedule covers
+// daily season discovery and uncached team schedule fallbacks.
 const BUCKET_CONFIG: Record<ESPNBudgetBucket, { dailyLimit: number; isProtected: boolean }> = {
   scoreboard: { dailyLimit: 300, isProtected: true },
   gameSummary: { dailyLimit: 600, isProtected: true },
-  standings: { dailyLimit: 1, isProtected: true },
-  schedule: { dailyLimit: 0, isProtected: false },
-  reserve: { dailyLimit: 1099, isProtected: false },
+  standings: { dailyLimit: 50, isProtected: true },
+  schedule: { dailyLimit: 150, isProtected: false },
+  reserve: { dailyLimit: 900, isProtected: false },
 };
 
 // Backoff configuration
@@ -0,0 +1,72 @@
+import { ApiKeyLimiter } from '../ApiKeyLimiter';
+
+const NOON = Date.parse('2026-03-10T12:00:00Z');
+
+describe('ApiKeyLimiter', () => {
+  it('enforces the per-minute window and resets it', () => {
+    const limiter = new ApiKeyLimiter();
+    const limits = { id: 'key-1', rateLimitPerMinute: 2, dailyQuota: null };
+
+    expect(limiter.check(limits, NOON).allowed).toBe(true);
+    expect(limiter.check(limits, NOON + 1000).rateLimit.remaining).toBe(0);
+
+    const rejected = limiter.check(limits, NOON + 20 * 1000);
+    expect(rejected).toMatchObject({ allowed: false, reason: 'rate_limit', retryAfterMs: 40 * 1000 });
+
+    expect(limiter.check(limits, NOON + 60 * 1000).allowed).toBe(true);
+  });
+
+  it('enforces the daily quota from seeded usage until the next UTC day', () => {
+    const limiter = new ApiKeyLimiter();
+    const limits = { id: 'key-1', rateLimitPerMinute: 100, dailyQuota: 10 };
+
+    expect(limiter.needsSeed('key-1', NOON)).toBe(true);
+    limiter.seedDailyUsage('key-1', 9, NOON);
+    expect(limiter.needsSeed('key-1', NOON)).toBe(false);
+
+    expect(limiter.check(limits, NOON).dailyQuota).toEqual({ limit: 10, used: 10, remaining: 0 });
+    expect(limiter.check(limits, NOON + 1000)).toMatchObject({
+      allowed: false,
+      reason: 'daily_quota',
+      retryAfterMs: 12 * 60 * 60 * 1000 - 1000,
+    });
+
+    const tomorrow = NOON + 12 * 60 * 60 * 1000;
+    expect(limiter.needsSeed('key-1', tomorrow)).toBe(true);
+    expect(limiter.check(limits, tomorrow).dailyQuota.used).toBe(1);
+  });
+
+  it('drains usage per key and day, and restores it after a failed flush', () => {
+    const limiter = new ApiKeyLimiter();
+    const limits = { id: 'key-1', rateLimitPerMinute: 1, dailyQuota: null };
+    limiter.check(limits, NOON);
+    limiter.check(limits, NOON + 1000);
+
+    const usage = limiter.drainUsage();
+    expect(usage).toEqual([{ api_key_id: 'key-1', usage_date: '2026-03-10', requests: 1, rejected: 1 }]);
+    expect(limiter.drainUsage()).toEqual([]);
+
+    limiter.restoreUsage(usage);
+    limiter.check(limits, NOON + 2000);
+    expect(limiter.drainUsage()).toEqual([{ api_key_id: 'key-1', usage_date: '2026-03-10', requests: 1, rejected: 2 }]);
+  });
+
+  it('catches daily usage up with counts flushed by other instances', () => {
+    const limiter = new ApiKeyLimiter();
+    const limits = { id: 'key-1', rateLimitPerMinute: 100, dailyQuota: 10 };
+    limiter.seedDailyUsage('key-1', 2, NOON);
+    limiter.check(limits, NOON);
+    limiter.drainUsage();
+    limiter.check(limits, NOON + 1000);
+
+    expect(limiter.trackedKeyIds(NOON + 2000)).toEqual(['key-1']);
+
+    // Stored 3 from here plus 5 from another instance; 1 request still unflushed
+    limiter.syncDailyUsage('key-1', 8, NOON + 2000);
+    expect(limiter.check(limits, NOON + 3000).dailyQuota.used).toBe(10);
+
+    // A stale stored count never lowers the local one
+    limiter.syncDailyUsage('key-1', 1, NOON + 4000);
+    expect(limiter.check(limits, NOON + 5000).allowed).toBe(false);
+  });
+});
@@ -0,0 +1,107 @@
+import { PlayerStats, TeamTotals } from '../../types';
+import {
+  applyOpponentAdvancedStats,
+  applyPlayerAdvancedStats,
+  assistToTurnover,
+  effectiveFgPct,
+  estimatePossessions,
+  gameScore,
+  pace,
+  rating,
+  trueShootingPct,
+  usageRate,
+} from '../advancedStats';
+
+const player: PlayerStats = {
+  minutes: 36,
+  points: 30,
+  fgMade: 11,
+  fgAttempted: 20,
+  threeMade: 3,
+  threeAttempted: 8,
+  ftMade: 5,
+  ftAttempted: 6,
+  offRebounds: 1,
+  defRebounds: 6,
+  assists: 8,
+  steals: 2,
+  blocks: 1,
+  turnovers: 4,
+  fouls: 2,
+};
+
+const team: TeamTotals = {
+  minutes: 240,
+  points: 112,
+  fgMade: 42,
+  fgAttempted: 88,
+  threeMade: 13,
+  ftMade: 15,
+  ftAttempted: 20,
+  offRebounds: 10,
+  defRebounds: 34,
+  assists: 26,
+  turnovers: 13,
+};
+
+const opponent: TeamTotals = {
+  minutes: 240,
+  points: 104,
+  fgAttempted: 90,
+  ftAttempted: 18,
+  offRebounds: 12,
+  turnovers: 15,
+};
+
+describe('advanced stats', () => {
+  it('computes shooting efficiency', () => {
+    // 30 / (2 * (20 + 0.44 * 6)) = 0.6625
+    expect(trueShootingPct(30, 20, 6)).toBe(66.3);
+    expect(effectiveFgPct(11, 3, 20)).toBe(62.5);
+    expect(trueShootingPct(0, 0, 0)).toBe(0);
+  });
+
+  it('handles zero turnovers in assist ratio', () => {
+    expect(assistToTurnover(8, 4)).toBe(2);
+    expect(assistToTurnover(5, 0)).toBe(5);
+  });
+
+  it('computes game score', () => {
+    // 30 + 4.4 - 14 - 0.4 + 0.7 + 1.8 + 2 + 5.6 + 0.7 - 0.8 - 4
+    expect(gameScore(player)).toBe(26);
+  });
+
+  it('computes usage against team possessions used', () => {
+    // (20 + 2.64 + 4) * 48 / (36 * (88 + 8.8 + 13)) = 0.3235
+    expect(usageRate(player, team)).toBe(32.3);
+    expect(usageRate({ ...player, minutes: 0 }, team)).toBe(0);
+  });
+
+  it('computes possessions, pace and ratings', () => {
+    expect(estimatePossessions(team)).toBeCloseTo(99.8);
+    expect(estimatePossessions(opponent)).toBeCloseTo(100.92);
+    expect(pace(team, opponent, 'nba')).toBe(100.4);
+    expect(rating(112, 99.8)).toBe(112.2);
+    expect(rating(10, 0)).toBe(0);
+  });
+
+  it('normalizes pace to the league\'s regulation length', () => {
+    // Same possessions over 200 team minutes: a full 40-minute college game
+    expect(pace({ ...team, minutes: 200 }, opponent, 'ncaam')).toBe(100.4);
+    expect(pace({ ...team, minutes: 200 }, opponent, 'wnba')).toBe(100.4);
+    expect(pace({ ...team, minutes: 200 }, opponent, 'nba')).toBe(120.4);
+  });
+
+  it('fills player and opponent-dependent team fields', () => {
+    const stats = { ...player };
+    applyPlayerAdvancedStats(stats, team);
+    expect(stats.trueShootingPct).toBe(66.3);
+    expect(stats.usageRate).toBe(32.3);
+    expect(stats.gameScore).toBe(26);
+
+    const totals = { ...team, possessions: 99.8 };
+    applyOpponentAdvancedStats(totals, opponent, 'nba');
+    expect(totals.pace).toBe(100.4);
+    expect(totals.defensiveRating).toBe(104.2);
+  });
+});
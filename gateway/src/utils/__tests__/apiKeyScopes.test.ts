@@ -0,0 +1,57 @@
+import { decodeRequestPath, leaguesAllowed, requestLeagues, requestPlayerId } from '../apiKeyScopes';
+
+describe('requestLeagues', () => {
+  it('reads leagues from the query, path segments and prefixed IDs', () => {
+    expect(requestLeagues('/v1/scoreboard', { league: 'NBA' })).toEqual(['nba']);
+    expect(requestLeagues('/v1/leagues/nhl', {})).toEqual(['nhl']);
+    expect(requestLeagues('/v1/games/nba_401810365/boxscore', {})).toEqual(['nba']);
+    expect(requestLeagues('/v1/teams/nfl_12/schedule', { league: 'nba' }).sort()).toEqual(['nba', 'nfl']);
+    expect(requestLeagues('/v1/golf/scoreboard', { tour: 'lpga' })).toEqual(['pga']);
+  });
+
+  it('treats ?sport= like ?league=', () => {
+    expect(requestLeagues('/v1/players/search', { q: 'james', sport: 'NHL' })).toEqual(['nhl']);
+    expect(requestLeagues('/v1/players/search', { sport: 'nba', league: 'wnba' }).sort()).toEqual(['nba', 'wnba']);
+  });
+
+  it('leaves requests that name no league unscoped', () => {
+    expect(requestLeagues('/v1/health', {})).toEqual([]);
+    expect(requestLeagues('/v1/players/0f6f4a7b-2a11-4c55-9f38-6f1c1d3e3d43', {})).toEqual([]);
+    expect(requestLeagues('/v1/team-colors', {})).toEqual([]);
+  });
+});
+
+describe('decodeRequestPath', () => {
+  it('decodes percent-encoded league names and IDs before matching', () => {
+    const path = decodeRequestPath('/v1/games/%6Eba_401810365/boxscore');
+    expect(path).toBe('/v1/games/nba_401810365/boxscore');
+    expect(requestLeagues(path!, {})).toEqual(['nba']);
+  });
+
+  it('returns null for malformed encoding', () => {
+    expect(decodeRequestPath('/v1/games/%E0%A4%A/boxscore')).toBeNull();
+  });
+});
+
+describe('requestPlayerId', () => {
+  it('reads the player ID from player routes', () => {
+    const id = '0f6f4a7b-2a11-4c55-9f38-6f1c1d3e3d43';
+    expect(requestPlayerId(`/v1/players/${id}`)).toBe(id);
+    expect(requestPlayerId(`/v1/players/${id}/season/2025/gamelog`)).toBe(id);
+  });
+
+  it('ignores search, malformed IDs and other routes', () => {
+    expect(requestPlayerId('/v1/players/search')).toBeNull();
+    expect(requestPlayerId('/v1/players/not-a-uuid/splits')).toBeNull();
+    expect(requestPlayerId('/v1/teams/nba_13')).toBeNull();
+  });
+});
+
+describe('leaguesAllowed', () => {
+  it('requires every named league to be in scope', () => {
+    expect(leaguesAllowed(null, ['nba', 'nhl'])).toBe(true);
+    expect(leaguesAllowed(['nba'], [])).toBe(true);
+    expect(leaguesAllowed(['nba'], ['nba'])).toBe(true);
+    expect(leaguesAllowed(['nba'], ['nba', 'nhl'])).toBe(false);
+  });
+});
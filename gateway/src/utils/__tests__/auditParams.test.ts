@@ -0,0 +1,19 @@
+import { redactAuditParams } from '../auditParams';
+
+describe('redactAuditParams', () => {
+  it('redacts credential-like fields at any depth', () => {
+    expect(redactAuditParams({
+      query: { league: 'nba' },
+      body: { url: 'https://example.com', secret: 's3cret', nested: [{ apiKey: 'k', season: 2026 }] },
+    })).toEqual({
+      query: { league: 'nba' },
+      body: { url: 'https://example.com', secret: '[redacted]', nested: [{ apiKey: '[redacted]', season: 2026 }] },
+    });
+  });
+
+  it('leaves primitives and empty bodies alone', () => {
+    expect(redactAuditParams({})).toEqual({});
+    expect(redactAuditParams(null)).toBeNull();
+    expect(redactAuditParams(['a', 1])).toEqual(['a', 1]);
+  });
+});
@@ -0,0 +1,46 @@
+import { LeaderRow } from '../../db/repositories/leadersRepository';
+import { rankLeaders } from '../leaders';
+
+function row(playerId: string, perGame: string | null, total: string | null): LeaderRow {
+  return {
+    player_id: playerId,
+    display_name: playerId,
+    position: 'G',
+    team_id: 'nba_1',
+    headshot_url: null,
+    games_played: 40,
+    per_game: perGame,
+    total,
+  };
+}
+
+describe('rankLeaders', () => {
+  it('gives tied values the same rank and skips the next', () => {
+    const ranked = rankLeaders([
+      row('a', '30.1234', '1205'),
+      row('b', '28.004', '1120'),
+      row('c', '28.001', '1120'),
+      row('d', '25.5', '1020'),
+    ], 'perGame');
+
+    expect(ranked.map(r => r.rank)).toEqual([1, 2, 2, 4]);
+    expect(ranked[0].perGame).toBe(30.12);
+    expect(ranked[0].total).toBe(1205);
+  });
+
+  it('ranks by totals independently of per-game values', () => {
+    const ranked = rankLeaders([
+      row('a', '30', '1120'),
+      row('b', '28', '1120'),
+      row('c', '27', '1000'),
+    ], 'total');
+
+    expect(ranked.map(r => r.rank)).toEqual([1, 1, 3]);
+  });
+
+  it('keeps null totals for rate stats', () => {
+    const ranked = rankLeaders([row('a', '49.5', null)], 'perGame');
+    expect(ranked[0].total).toBeNull();
+    expect(ranked[0].gamesPlayed).toBe(40);
+  });
+});
@@ -0,0 +1,59 @@
+import { GameRecord } from '../../jobs/scheduleStore';
+import { computeTeamForm, summarizeMeetings } from '../matchupPreview';
+
+let nextId = 1;
+
+function final(startTimeUtc: string, homeTeamId: string, homeScore: number, awayTeamId: string, awayScore: number): GameRecord {
+  return {
+    id: `nba_${nextId++}`,
+    leagueId: 'nba',
+    seasonId: 'nba_2025-26',
+    gameDate: startTimeUtc.split('T')[0],
+    scoreboardDate: startTimeUtc.split('T')[0],
+    startTimeUtc,
+    homeTeamId,
+    awayTeamId,
+    homeScore,
+    awayScore,
+    status: 'final',
+    externalIds: {},
+    lastRefreshedAt: new Date(startTimeUtc),
+  };
+}
+
+describe('computeTeamForm', () => {
+  const games = [
+    final('2026-01-01T00:00:00Z', 'nba_13', 100, 'nba_2', 90),  // W
+    final('2026-01-03T00:00:00Z', 'nba_5', 101, 'nba_13', 99),  // L
+    final('2026-01-05T00:00:00Z', 'nba_13', 110, 'nba_7', 100), // W
+    final('2026-01-07T00:00:00Z', 'nba_9', 95, 'nba_13', 105),  // W
+    final('2026-01-20T00:00:00Z', 'nba_13', 80, 'nba_2', 120),  // After the preview game
+  ];
+
+  it('counts only final games before the preview game', () => {
+    const form = computeTeamForm('nba_13', games, '2026-01-10T00:00:00Z');
+
+    expect(form.lastTen).toEqual({ wins: 3, losses: 1, ties: 0 });
+    expect(form.streak).toBe('W2');
+    expect(form.seasonAverages).toMatchObject({ gamesPlayed: 4, pointsFor: 103.5, pointsAgainst: 96.5 });
+  });
+
+  it('returns an empty form without games', () => {
+    const form = computeTeamForm('nba_13', [], '2026-01-10T00:00:00Z');
+
+    expect(form.streak).toBeUndefined();
+    expect(form.seasonAverages.gamesPlayed).toBe(0);
+  });
+});
+
+describe('summarizeMeetings', () => {
+  it('credits wins to the preview home team at either venue', () => {
+    const summary = summarizeMeetings('nba_13', [
+      final('2026-01-01T00:00:00Z', 'nba_2', 90, 'nba_13', 100),
+      final('2025-12-01T00:00:00Z', 'nba_13', 95, 'nba_2', 99),
+    ]);
+
+    expect(summary).toMatchObject({ homeWins: 1, awayWins: 1, ties: 0 });
+    expect(summary.meetings.map(m => m.winnerId)).toEqual(['nba_13', 'nba_2']);
+  });
+});
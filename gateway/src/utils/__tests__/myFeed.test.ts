@@ -0,0 +1,163 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as redis from '../../cache/redis';
+import * as providers from '../../providers';
+import { Game } from '../../types';
+import * as scheduleStore from '../../jobs/scheduleStore';
+import { GameRecord, JsonScheduleStore, LeagueSeason } from '../../jobs/scheduleStore';
+import { storeScoreboardGames } from '../../jobs/scheduleSync';
+import { getFeedSchedule, mergeFeedItems, pickFeedGame, toFeedItem } from '../myFeed';
+import { recordToScheduleGame } from '../teamSchedule';
+
+function record(id: string, scoreboardDate: string, startTimeUtc: string, overrides: Partial<GameRecord> = {}): GameRecord {
+  return {
+    id,
+    leagueId: 'nba',
+    seasonId: 'nba_2025-26',
+    gameDate: scoreboardDate,
+    scoreboardDate,
+    startTimeUtc,
+    homeTeamId: 'nba_13',
+    awayTeamId: 'nba_2',
+    status: 'scheduled',
+    externalIds: {},
+    lastRefreshedAt: new Date('2026-01-10T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+const schedule = [
+  record('g1', '2026-01-10', '2026-01-11T00:30:00Z', { status: 'final', homeScore: 101, awayScore: 99 }),
+  record('g2', '2026-01-12', '2026-01-13T00:30:00Z'),
+  record('g3', '2026-01-15', '2026-01-16T03:00:00Z'),
+].map(game => recordToScheduleGame(game, 'nba_13'));
+
+describe('pickFeedGame', () => {
+  it('prefers the game on the date', () => {
+    expect(pickFeedGame(schedule, '2026-01-12')).toEqual({ game: schedule[1], relation: 'today' });
+  });
+
+  it('falls back to the next game, then the previous one', () => {
+    expect(pickFeedGame(schedule, '2026-01-13')?.game.gameId).toBe('g3');
+    expect(pickFeedGame(schedule, '2026-01-13')?.relation).toBe('next');
+    expect(pickFeedGame(schedule, '2026-02-01')).toEqual({ game: schedule[2], relation: 'previous' });
+  });
+
+  it('returns null without games', () => {
+    expect(pickFeedGame([], '2026-01-12')).toBeNull();
+  });
+});
+
+describe('toFeedItem', () => {
+  it('uses the cached scoreboard game for live scores', () => {
+    const live: Game = {
+      id: 'g2',
+      startTime: '2026-01-13T00:30:00Z',
+      status: 'live',
+      period: 'Q3',
+      homeTeam: { id: 'nba_13', abbrev: 'LAL', name: 'Lakers', city: 'Los Angeles', score: 70 },
+      awayTeam: { id: 'nba_2', abbrev: 'BOS', name: 'Celtics', city: 'Boston', score: 64 },
+    };
+    const item = toFeedItem('nba_2', 'nba', { game: schedule[1], relation: 'today' }, live);
+
+    expect(item.game).toMatchObject({ status: 'live', homeAway: 'away', teamScore: 64, opponentScore: 70 });
+    expect(item.matchup).toBe(live);
+  });
+
+  it('falls back to the schedule', () => {
+    const item = toFeedItem('nba_13', 'nba', { game: schedule[0], relation: 'previous' });
+    expect(item.game).toMatchObject({ gameId: 'g1', result: 'W', homeAway: 'home' });
+    expect(item.matchup).toBeUndefined();
+  });
+});
+
+describe('mergeFeedItems', () => {
+  it('sorts across leagues and merges head-to-head games', () => {
+    const nhl = recordToScheduleGame(
+      record('n1', '2026-01-12', '2026-01-12T23:00:00Z', { homeTeamId: 'nhl_1', awayTeamId: 'nhl_5' }),
+      'nhl_1'
+    );
+    const merged = mergeFeedItems([
+      toFeedItem('nba_13', 'nba', { game: schedule[1], relation: 'today' }),
+      toFeedItem('nhl_1', 'nhl', { game: nhl, relation: 'today' }),
+      toFeedItem('nba_2', 'nba', { game: schedule[1], relation: 'today' }),
+    ]);
+
+    expect(merged.map(item => item.game.gameId)).toEqual(['n1', 'g2']);
+    expect(merged[1].teamIds).toEqual(['nba_13', 'nba_2']);
+  });
+});
+
+describe('non-NBA favorite teams', () => {
+  function nhlGame(id: string, startTime: string, status: Game['status']): Game {
+    return {
+      id,
+      startTime,
+      status,
+      homeTeam: { id: 'nhl_6', abbrev: 'EDM', name: 'Oilers', city: 'Edmonton', score: status === 'final' ? 4 : undefined },
+      awayTeam: { id: 'nhl_21', abbrev: 'TOR', name: 'Maple Leafs', city: 'Toronto', score: status === 'final' ? 3 : undefined },
+    };
+  }
+
+  const season: LeagueSeason = {
+    id: 'nhl_2025-26',
+    leagueId: 'nhl',
+    seasonLabel: '2025-26',
+    startDate: '2025-10-07',
+    endDate: '2026-04-17',
+    status: 'regular',
+    scheduleSource: 'espn',
+  };
+
+  let store: JsonScheduleStore;
+
+  beforeEach(() => {
+    store = new JsonScheduleStore(path.join(os.tmpdir(), `my-feed-${process.pid}.json`));
+    jest.spyOn(scheduleStore, 'getScheduleStore').mockReturnValue(store);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('picks games stored by schedule sync', async () => {
+    await storeScoreboardGames('nhl', '2026-01-15', 'nhl_2025-26', [nhlGame('nhl_401802655', '2026-01-16T00:00:00Z', 'final')]);
+    await storeScoreboardGames('nhl', '2026-01-18', 'nhl_2025-26', [nhlGame('nhl_401802690', '2026-01-19T00:00:00Z', 'scheduled')]);
+
+    const pick = pickFeedGame(await getFeedSchedule('nhl_21', 'nhl', season), '2026-01-16');
+    expect(pick).toMatchObject({ relation: 'next', game: { gameId: 'nhl_401802690' } });
+
+    const item = toFeedItem('nhl_21', 'nhl', pick!);
+    expect(item).toMatchObject({ league: 'nhl', teamIds: ['nhl_21'] });
+    expect(item.game).toMatchObject({ gameId: 'nhl_401802690', homeAway: 'away' });
+  });
+
+  it('falls back to the provider schedule for teams in leagues not synced yet', async () => {
+    jest.spyOn(redis, 'getCachedResult').mockResolvedValue(null);
+    const setCachedResult = jest.spyOn(redis, 'setCachedResult').mockResolvedValue();
+    const fetchForLeague = jest.spyOn(providers, 'fetchForLeague').mockResolvedValue({
+      data: [
+        nhlGame('nhl_401802690', '2026-01-19T00:00:00Z', 'scheduled'),
+        nhlGame('nhl_401802655', '2026-01-16T00:00:00Z', 'final'),
+      ],
+      provider: 'espn',
+    });
+
+    const pick = pickFeedGame(await getFeedSchedule('nhl_21', 'nhl', season), '2026-01-15');
+
+    expect(fetchForLeague).toHaveBeenCalledWith('nhl', expect.any(Function));
+    expect(pick).toMatchObject({ relation: 'today', game: { gameId: 'nhl_401802655', result: 'L' } });
+    expect(setCachedResult).toHaveBeenCalledWith(
+      'team-schedule:nhl_21:2025-26',
+      expect.objectContaining({ provider: 'espn' }),
+      expect.any(Number)
+    );
+  });
+
+  it('drops the team when the provider schedule fails', async () => {
+    jest.spyOn(redis, 'getCachedResult').mockResolvedValue(null);
+    jest.spyOn(providers, 'fetchForLeague').mockRejectedValue(new Error('ESPN unavailable'));
+
+    await expect(getFeedSchedule('nhl_21', 'nhl', undefined)).resolves.toEqual([]);
+  });
+});
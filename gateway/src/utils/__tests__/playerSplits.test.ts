@@ -0,0 +1,71 @@
+import { NBASplitGameLine } from '../../db/repositories/playerRepository';
+import { computePlayerSplits, summarizeSplit } from '../playerSplits';
+
+function line(gameDate: string, overrides: Partial<NBASplitGameLine> = {}): NBASplitGameLine {
+  return {
+    game_date: gameDate,
+    is_home: true,
+    is_starter: true,
+    opponent_team_id: 'nba_2',
+    opponent_abbreviation: 'BOS',
+    won: true,
+    rest_days: 1,
+    dnp_reason: null,
+    minutes: 30,
+    points: 20,
+    fgm: 8,
+    fga: 16,
+    fg3m: 2,
+    fg3a: 5,
+    ftm: 2,
+    fta: 2,
+    reb: 5,
+    ast: 4,
+    stl: 1,
+    blk: 0,
+    tov: 2,
+    plus_minus: 5,
+    ...overrides,
+  };
+}
+
+describe('summarizeSplit', () => {
+  it('averages per game and recomputes percentages from totals', () => {
+    const split = summarizeSplit('HOME', 'Home', [
+      line('2025-11-01', { points: 30, fgm: 10, fga: 20 }),
+      line('2025-11-03', { points: 10, fgm: 2, fga: 4 }),
+    ]);
+
+    expect(split).toMatchObject({ gamesPlayed: 2, points: 20, fgPct: 50 });
+  });
+});
+
+describe('computePlayerSplits', () => {
+  const splits = computePlayerSplits([
+    line('2025-10-22', { rest_days: null }),
+    line('2025-10-23', { is_home: false, won: false, rest_days: 0, opponent_team_id: 'nba_5', opponent_abbreviation: 'CHI' }),
+    line('2025-10-26', { dnp_reason: 'Rest', rest_days: 2 }),
+    line('2025-11-02', { is_starter: false, won: null, rest_days: 6 }),
+  ]);
+
+  it('skips DNP lines', () => {
+    expect(splits.homeAway.map(s => [s.key, s.gamesPlayed])).toEqual([['HOME', 2], ['AWAY', 1]]);
+  });
+
+  it('groups by month in season order', () => {
+    expect(splits.byMonth.map(s => s.key)).toEqual(['OCT', 'NOV']);
+  });
+
+  it('orders opponents by games played', () => {
+    expect(splits.byOpponent.map(s => s.label)).toEqual(['BOS', 'CHI']);
+  });
+
+  it('leaves unfinished games out of the result split', () => {
+    expect(splits.result.map(s => [s.key, s.gamesPlayed])).toEqual([['W', 1], ['L', 1]]);
+  });
+
+  it('buckets role and rest days', () => {
+    expect(splits.role.map(s => s.key)).toEqual(['STARTER', 'BENCH']);
+    expect(splits.restDays.map(s => s.key)).toEqual(['REST_0', 'REST_3_PLUS']);
+  });
+});
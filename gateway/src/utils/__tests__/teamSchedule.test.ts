@@ -0,0 +1,102 @@
+import { Game } from '../../types';
+import { GameRecord, LeagueSeason } from '../../jobs/scheduleStore';
+import { isSeasonIndexed, mergeTeamSchedule } from '../teamSchedule';
+import { toLeagueSeasonLabel } from '../seasonUtils';
+
+function record(id: string, overrides: Partial<GameRecord> = {}): GameRecord {
+  return {
+    id,
+    leagueId: 'nba',
+    seasonId: 'nba_2025-26',
+    gameDate: '2026-01-16',
+    scoreboardDate: '2026-01-15',
+    startTimeUtc: '2026-01-16T00:30:00Z',
+    homeTeamId: 'nba_13',
+    awayTeamId: 'nba_2',
+    homeScore: 110,
+    awayScore: 104,
+    status: 'final',
+    externalIds: {},
+    lastRefreshedAt: new Date('2026-01-16T04:00:00Z'),
+    ...overrides,
+  };
+}
+
+function providerGame(id: string, startTime: string, homeId: string, awayId: string): Game {
+  const team = (teamId: string) => ({ id: teamId, abbrev: teamId, name: teamId, city: '' });
+  return {
+    id,
+    startTime,
+    status: 'scheduled',
+    homeTeam: team(homeId),
+    awayTeam: team(awayId),
+  };
+}
+
+describe('mergeTeamSchedule', () => {
+  it('reports the game from the team perspective', () => {
+    const [away] = mergeTeamSchedule('nba_2', [record('nba_1')], [], new Set());
+
+    expect(away).toMatchObject({
+      homeAway: 'away',
+      opponentId: 'nba_13',
+      teamScore: 104,
+      opponentScore: 110,
+      result: 'L',
+    });
+  });
+
+  it('fills unindexed dates from the provider and keeps records on indexed dates', () => {
+    const games = mergeTeamSchedule(
+      'nba_13',
+      [record('nba_1')],
+      [
+        providerGame('nba_1', '2026-01-16T00:30:00Z', 'nba_13', 'nba_2'),
+        providerGame('nba_9', '2026-01-15T23:00:00Z', 'nba_13', 'nba_5'),  // Indexed date, not synced
+        providerGame('nba_2', '2026-03-01T20:00:00Z', 'nba_7', 'nba_13'),
+      ],
+      new Set(['2026-01-15'])
+    );
+
+    expect(games.map(g => g.gameId)).toEqual(['nba_1', 'nba_2']);
+    expect(games[1]).toMatchObject({ scoreboardDate: '2026-03-01', homeAway: 'away', result: undefined });
+  });
+
+  it('falls back to provider games on indexed dates the store has no games for', () => {
+    const games = mergeTeamSchedule(
+      'nba_13',
+      [record('nba_1')],
+      [providerGame('nba_3', '2026-01-18T00:00:00Z', 'nba_13', 'nba_8')],
+      new Set(['2026-01-15', '2026-01-17'])
+    );
+
+    expect(games.map(g => g.gameId)).toEqual(['nba_1', 'nba_3']);
+  });
+});
+
+describe('isSeasonIndexed', () => {
+  const season: LeagueSeason = {
+    id: 'nba_2025-26',
+    leagueId: 'nba',
+    seasonLabel: '2025-26',
+    startDate: '2026-01-01',
+    endDate: '2026-01-03',
+    status: 'regular',
+    scheduleSource: 'manual',
+  };
+
+  it('requires an entry for every season date', () => {
+    expect(isSeasonIndexed(season, new Set(['2026-01-01', '2026-01-02', '2026-01-03']))).toBe(true);
+    expect(isSeasonIndexed(season, new Set(['2026-01-01', '2026-01-03']))).toBe(false);
+  });
+});
+
+describe('toLeagueSeasonLabel', () => {
+  it('normalizes split-year and single-year seasons', () => {
+    expect(toLeagueSeasonLabel('nba', '2025')).toBe('2025-26');
+    expect(toLeagueSeasonLabel('nba', '2025-26')).toBe('2025-26');
+    expect(toLeagueSeasonLabel('nba', '2025-27')).toBeNull();
+    expect(toLeagueSeasonLabel('mlb', '2026')).toBe('2026');
+    expect(toLeagueSeasonLabel('mlb', '2025-26')).toBeNull();
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Advanced basketball metrics
+ *
+ * Derived efficiency and pace numbers computed from box score counting
+ * stats. Percentages use the 0-100 scale like the rest of the box score.
+ * The season summary SQL in playerRepository mirrors these formulas.
+ */
+
+import { PlayerStats, TeamTotals } from '../types';
+
+/** Free throw attempts that end a possession (and-ones, technicals excluded) */
+const FTA_POSSESSION_FACTOR = 0.44;
+
+/** Regulation game length in minutes; WNBA and college games are 40 */
+const REGULATION_MINUTES: Record<string, number> = {
+  nba: 48,
+  wnba: 40,
+  ncaam: 40,
+  ncaaw: 40,
+};
+
+function round1(val: number): number {
+  return Math.round(val * 10) / 10;
+}
+
+/**
+ * True shooting %: points per scoring attempt, counting free throws
+ */
+export function trueShootingPct(points: number, fga: number, fta: number): number {
+  const attempts = 2 * (fga + FTA_POSSESSION_FACTOR * fta);
+  return attempts > 0 ? round1((points / attempts) * 100) : 0;
+}
+
+/**
+ * Effective FG %: field goal % with threes weighted 1.5x
+ */
+export function effectiveFgPct(fgm: number, fg3m: number, fga: number): number {
+  return fga > 0 ? round1(((fgm + 0.5 * fg3m) / fga) * 100) : 0;
+}
+
+/**
+ * Assist to turnover ratio; assists alone when there are no turnovers
+ */
+export function assistToTurnover(assists: number, turnovers: number): number {
+  return round1(turnovers > 0 ? assists / turnovers : assists);
+}
+
+/**
+ * Hollinger game score: a single-number summary of a box score line
+ */
+export function gameScore(stats: PlayerStats): number {
+  const s = (val: number | undefined) => val || 0;
+  return round1(
+    s(stats.points)
+    + 0.4 * s(stats.fgMade)
+    - 0.7 * s(stats.fgAttempted)
+    - 0.4 * (s(stats.ftAttempted) - s(stats.ftMade))
+    + 0.7 * s(stats.offRebounds)
+    + 0.3 * s(stats.defRebounds)
+    + s(stats.steals)
+    + 0.7 * s(stats.assists)
+    + 0.7 * s(stats.blocks)
+    - 0.4 * s(stats.fouls)
+    - s(stats.turnovers)
+  );
+}
+
+/**
+ * Usage rate: share of team possessions a player used while on the floor
+ */
+export function usageRate(player: PlayerStats, team: TeamTotals): number {
+  const minutes = player.minutes || 0;
+  const teamMinutes = team.minutes || 0;
+  const used = (s: PlayerStats) =>
+    (s.fgAttempted || 0) + FTA_POSSESSION_FACTOR * (s.ftAttempted || 0) + (s.turnovers || 0);
+  const teamUsed = used(team);
+  if (minutes <= 0 || teamUsed <= 0) return 0;
+  return round1((100 * used(player) * (teamMinutes / 5)) / (minutes * teamUsed));
+}
+
+/**
+ * Estimated team possessions from team totals
+ */
+export function estimatePossessions(team: TeamTotals): number {
+  return (team.fgAttempted || 0)
+    + FTA_POSSESSION_FACTOR * (team.ftAttempted || 0)
+    - (team.offRebounds || 0)
+    + (team.turnovers || 0);
+}
+
+/**
+ * Points per 100 possessions
+ */
+export function rating(points: number, possessions: number): number {
+  return possessions > 0 ? round1((points / possessions) * 100) : 0;
+}
+
+/**
+ * Possessions per regulation game (48 minutes in the NBA, 40 in the WNBA and
+ * college), averaging both teams' estimates. Team minutes are player minutes
+ * summed, so a regulation game is five times its length.
+ */
+export function pace(team: TeamTotals, opponent: TeamTotals, league: string): number {
+  const teamMinutes = team.minutes || 0;
+  if (teamMinutes <= 0) return 0;
+  const possessions = (estimatePossessions(team) + estimatePossessions(opponent)) / 2;
+  const regulationMinutes = REGULATION_MINUTES[league] ?? REGULATION_MINUTES.nba;
+  return round1((regulationMinutes * possessions) / (teamMinutes / 5));
+}
+
+/**
+ * Per-player metrics, once the player's team totals are known
+ */
+export function applyPlayerAdvancedStats(stats: PlayerStats, team: TeamTotals): void {
+  stats.trueShootingPct = trueShootingPct(stats.points || 0, stats.fgAttempted || 0, stats.ftAttempted || 0);
+  stats.effectiveFgPct = effectiveFgPct(stats.fgMade || 0, stats.threeMade || 0, stats.fgAttempted || 0);
+  stats.assistToTurnover = assistToTurnover(stats.assists || 0, stats.turnovers || 0);
+  stats.gameScore = gameScore(stats);
+  stats.usageRate = usageRate(stats, team);
+}
+
+/**
+ * Team metrics that need the opponent: pace and defensive rating
+ */
+export function applyOpponentAdvancedStats(team: TeamTotals, opponent: TeamTotals, league: string): void {
+  team.pace = pace(team, opponent, league);
+  team.defensiveRating = rating(opponent.points || 0, team.possessions || 0);
+}
@@ -0,0 +1,81 @@
+/**
+ * API key league scopes
+ *
+ * Works out which leagues a request touches from its path and query, before
+ * routing: ?league= or ?sport=, a league path segment (/v1/leagues/nba) and
+ * league-prefixed IDs (nba_401810365, nhl_6). Golf routes count as 'pga'.
+ * Player IDs carry no league, so apiKeyAuth looks up the player's sport for
+ * /v1/players/:id routes (see requestPlayerId). Other requests that name no
+ * league (health, unfiltered search) are unscoped.
+ */
+
+import { leagueConfig } from '../config';
+
+const PREFIXED_ID = /^([a-z]+)_/;
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function isLeague(value: string): boolean {
+  return Object.prototype.hasOwnProperty.call(leagueConfig, value);
+}
+
+/**
+ * Percent-decoded request path, as route params will see it, so encoded
+ * league names and IDs (%6Eba_401810365) can't slip past the scope check.
+ * Null when the path is not valid percent-encoding.
+ */
+export function decodeRequestPath(path: string): string | null {
+  try {
+    return decodeURIComponent(path);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Leagues named by a decoded request path and its query,
+ * e.g. '/v1/games/nba_401810365/boxscore' -> ['nba']
+ */
+export function requestLeagues(path: string, query: Record<string, unknown>): string[] {
+  const leagues = new Set<string>();
+
+  for (const value of [query.league, query.sport].flat()) {
+    if (typeof value === 'string') {
+      leagues.add(value.toLowerCase());
+    }
+  }
+
+  const segments = path.split('/').filter(Boolean);
+  if (segments[0] === 'v1' && segments[1] === 'golf') {
+    leagues.add('pga');
+  }
+  for (const segment of segments) {
+    const value = segment.toLowerCase();
+    const prefix = PREFIXED_ID.exec(value)?.[1];
+    if (isLeague(value)) {
+      leagues.add(value);
+    } else if (prefix && isLeague(prefix)) {
+      leagues.add(prefix);
+    }
+  }
+
+  return [...leagues];
+}
+
+/**
+ * The player ID of a /v1/players/:id route, e.g. '/v1/players/{uuid}/splits' -> '{uuid}'.
+ * Malformed IDs are left to the route's 400.
+ */
+export function requestPlayerId(path: string): string | null {
+  const segments = path.split('/').filter(Boolean);
+  if (segments[0] !== 'v1' || segments[1] !== 'players' || !UUID_RE.test(segments[2] ?? '')) {
+    return null;
+  }
+  return segments[2];
+}
+
+/**
+ * Whether a key's scopes cover every league a request names; null allows all
+ */
+export function leaguesAllowed(allowedLeagues: string[] | null, leagues: string[]): boolean {
+  return allowedLeagues === null || leagues.every(league => allowedLeagues.includes(league));
+}
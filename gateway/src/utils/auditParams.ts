@@ -0,0 +1,24 @@
+/**
+ * Audit params
+ *
+ * Request details stored in the admin audit log, with credential-like fields
+ * (webhook secrets, keys, tokens) replaced so the log never holds them.
+ */
+
+const REDACTED_FIELD = /secret|password|token|key/i;
+
+/**
+ * Deep copy of a value with credential-like fields redacted
+ */
+export function redactAuditParams(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactAuditParams);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([field, fieldValue]) => [
+      field,
+      REDACTED_FIELD.test(field) ? '[redacted]' : redactAuditParams(fieldValue),
+    ]));
+  }
+  return value;
+}
@@ -0,0 +1,51 @@
+/**
+ * Play-by-Play Enrichment
+ *
+ * Enriches play actor IDs with internal player UUIDs
+ * so the iOS app can open player profiles from a play
+ */
+
+import { Play } from '../types';
+import { findPlayerByProviderId } from '../db/repositories/playerRepository';
+import { logger } from './logger';
+
+/**
+ * Enrich plays with internal player IDs
+ * Converts ESPN player IDs (player_4395628) to internal UUIDs where known.
+ * Each distinct player is looked up once, however many plays they appear in.
+ */
+export async function enrichPlaysWithPlayerIds(
+  plays: Play[],
+  leaguePrefix: string
+): Promise<Play[]> {
+  const espnIds = new Set(
+    plays.flatMap(play => play.playerIds).filter(id => id.startsWith('player_'))
+  );
+
+  const idMap = new Map<string, string>();
+  await Promise.all(
+    Array.from(espnIds).map(async (playerId) => {
+      try {
+        const dbPlayer = await findPlayerByProviderId(leaguePrefix, 'espn', playerId.replace('player_', ''));
+        if (dbPlayer) {
+          idMap.set(playerId, dbPlayer.id);
+        }
+      } catch (error) {
+        logger.error('Failed to enrich play player', {
+          playerId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        // Keep ESPN ID as fallback
+      }
+    })
+  );
+
+  if (idMap.size === 0) {
+    return plays;
+  }
+
+  return plays.map(play => ({
+    ...play,
+    playerIds: play.playerIds.map(id => idMap.get(id) ?? id),
+  }));
+}
@@ -0,0 +1,44 @@
+/**
+ * Roster Enrichment
+ *
+ * Enriches roster players with internal player UUIDs
+ * so the iOS app can open player profiles from a roster
+ */
+
+import { RosterResponse } from '../types';
+import { findPlayerByProviderId } from '../db/repositories/playerRepository';
+import { logger } from './logger';
+
+/**
+ * Enrich roster with internal player IDs
+ * Converts ESPN player IDs (player_4395628) to internal UUIDs where known
+ */
+export async function enrichRosterWithPlayerIds(
+  roster: RosterResponse,
+  leaguePrefix: string
+): Promise<RosterResponse> {
+  const players = await Promise.all(
+    roster.players.map(async (player) => {
+      if (!player.id.startsWith('player_')) {
+        return player;
+      }
+
+      const espnId = player.id.replace('player_', '');
+
+      try {
+        const dbPlayer = await findPlayerByProviderId(leaguePrefix, 'espn', espnId);
+        return dbPlayer ? { ...player, id: dbPlayer.id } : player;
+      } catch (error) {
+        logger.error('Failed to enrich roster player', {
+          playerId: player.id,
+          name: player.name,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        // Keep ESPN ID as fallback
+        return player;
+      }
+    })
+  );
+
+  return { ...roster, players };
+}
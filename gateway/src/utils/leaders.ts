@@ -0,0 +1,47 @@
+/**
+ * League leader ranking
+ *
+ * Turns ordered leader rows into ranked entries. Ties (equal values after
+ * rounding) share a rank and the next rank skips ahead, e.g. 1, 2, 2, 4.
+ */
+
+import { LeaderRow } from '../db/repositories/leadersRepository';
+import { LeaderEntry } from '../types';
+
+function toNumber(val: string | number | null, decimals: number): number | null {
+  if (val === null || val === undefined) return null;
+  const num = Number(val);
+  if (isNaN(num)) return null;
+  const factor = 10 ** decimals;
+  return Math.round(num * factor) / factor;
+}
+
+/**
+ * Rank rows already sorted by the ranked value.
+ * Totals keep one decimal (NFL sacks come in halves).
+ */
+export function rankLeaders(rows: LeaderRow[], rankBy: 'perGame' | 'total'): LeaderEntry[] {
+  const entries: LeaderEntry[] = [];
+
+  rows.forEach((row, idx) => {
+    const entry: LeaderEntry = {
+      rank: idx + 1,
+      playerId: row.player_id,
+      displayName: row.display_name,
+      position: row.position,
+      teamId: row.team_id,
+      headshotUrl: row.headshot_url,
+      gamesPlayed: Number(row.games_played),
+      perGame: toNumber(row.per_game, 2),
+      total: toNumber(row.total, 1),
+    };
+
+    const previous = entries[idx - 1];
+    if (previous && previous[rankBy] === entry[rankBy]) {
+      entry.rank = previous.rank;
+    }
+    entries.push(entry);
+  });
+
+  return entries;
+}
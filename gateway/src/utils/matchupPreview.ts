@@ -0,0 +1,110 @@
+/**
+ * Matchup preview assembly
+ *
+ * Head-to-head, last-ten record, streak and scoring averages computed from
+ * synced GameRecords.
+ */
+
+import { HeadToHeadMeeting, MatchupPreview, TeamForm, TeamSeasonAverages } from '../types';
+import { GameRecord } from '../jobs/scheduleStore';
+
+type GameOutcome = 'W' | 'L' | 'T';
+
+/**
+ * Scores from the team's perspective, or null if the team didn't play or
+ * the game has no final score
+ */
+function teamScores(game: GameRecord, teamId: string): { scored: number; allowed: number } | null {
+  if (game.status !== 'final' || game.homeScore === undefined || game.awayScore === undefined) {
+    return null;
+  }
+  if (game.homeTeamId === teamId) return { scored: game.homeScore, allowed: game.awayScore };
+  if (game.awayTeamId === teamId) return { scored: game.awayScore, allowed: game.homeScore };
+  return null;
+}
+
+function outcome(scores: { scored: number; allowed: number }): GameOutcome {
+  if (scores.scored === scores.allowed) return 'T';
+  return scores.scored > scores.allowed ? 'W' : 'L';
+}
+
+/**
+ * Last-ten record, current streak and scoring averages for a team.
+ * Only final games starting before `beforeUtc` count.
+ */
+export function computeTeamForm(
+  teamId: string,
+  seasonGames: GameRecord[],
+  beforeUtc: string,
+  boxScore?: Record<string, number>
+): TeamForm {
+  const before = new Date(beforeUtc).getTime();
+  const played = seasonGames
+    .filter(game => new Date(game.startTimeUtc).getTime() < before)
+    .sort((a, b) => b.startTimeUtc.localeCompare(a.startTimeUtc))
+    .flatMap(game => {
+      const scores = teamScores(game, teamId);
+      return scores ? [scores] : [];
+    });
+
+  const outcomes = played.map(outcome);
+  const lastTen = { wins: 0, losses: 0, ties: 0 };
+  for (const result of outcomes.slice(0, 10)) {
+    if (result === 'W') lastTen.wins++;
+    else if (result === 'L') lastTen.losses++;
+    else lastTen.ties++;
+  }
+
+  let streakLength = 0;
+  while (streakLength < outcomes.length && outcomes[streakLength] === outcomes[0]) {
+    streakLength++;
+  }
+
+  const average = (values: number[]) =>
+    Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) / 10;
+
+  const seasonAverages: TeamSeasonAverages = {
+    gamesPlayed: played.length,
+    pointsFor: played.length > 0 ? average(played.map(s => s.scored)) : undefined,
+    pointsAgainst: played.length > 0 ? average(played.map(s => s.allowed)) : undefined,
+    boxScore,
+  };
+
+  return {
+    teamId,
+    lastTen,
+    streak: outcomes.length > 0 ? `${outcomes[0]}${streakLength}` : undefined,
+    seasonAverages,
+  };
+}
+
+/**
+ * Head-to-head summary from the home team's perspective
+ */
+export function summarizeMeetings(homeTeamId: string, meetings: GameRecord[]): MatchupPreview['headToHead'] {
+  const summary: MatchupPreview['headToHead'] = { meetings: [], homeWins: 0, awayWins: 0, ties: 0 };
+
+  for (const game of meetings) {
+    const scores = teamScores(game, homeTeamId);
+    const result = scores ? outcome(scores) : undefined;
+
+    if (result === 'W') summary.homeWins++;
+    else if (result === 'L') summary.awayWins++;
+    else if (result === 'T') summary.ties++;
+
+    const meeting: HeadToHeadMeeting = {
+      gameId: game.id,
+      date: game.scoreboardDate,
+      homeTeamId: game.homeTeamId,
+      awayTeamId: game.awayTeamId,
+      homeScore: game.homeScore,
+      awayScore: game.awayScore,
+      winnerId: game.homeScore !== undefined && game.awayScore !== undefined && game.homeScore !== game.awayScore
+        ? (game.homeScore > game.awayScore ? game.homeTeamId : game.awayTeamId)
+        : undefined,
+    };
+    summary.meetings.push(meeting);
+  }
+
+  return summary;
+}
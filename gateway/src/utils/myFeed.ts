@@ -0,0 +1,122 @@
+/**
+ * "My teams" feed assembly
+ *
+ * Picks each favorite team's game for a date (or its next/previous game)
+ * from its schedule (synced GameRecords, or the provider's schedule for teams
+ * with none) and merges the picks into one time-sorted list.
+ */
+
+import { FeedItem, Game, TeamScheduleGame, TeamScheduleResponse } from '../types';
+import { getCachedResult, setCachedResult, cacheKeys } from '../cache/redis';
+import { getScheduleTTL } from '../cache/CachePolicy';
+import { fetchForLeague } from '../providers';
+import { getScheduleStore, LeagueSeason } from '../jobs/scheduleStore';
+import { logger } from './logger';
+import { gameToScheduleGame, recordToScheduleGame } from './teamSchedule';
+
+export interface FeedPick {
+  game: TeamScheduleGame;
+  relation: FeedItem['relation'];
+}
+
+/**
+ * A team's season schedule from the provider, for teams the schedule store
+ * holds no games for (leagues not synced yet). Shares the team schedule
+ * route's cache entry, which holds the same provider-only schedule then.
+ * Provider failures drop the team from the feed rather than failing it.
+ */
+async function getProviderSchedule(
+  teamId: string,
+  league: string,
+  season: LeagueSeason | undefined
+): Promise<TeamScheduleGame[]> {
+  const seasonLabel = season?.seasonLabel;
+  const cacheKey = cacheKeys.teamSchedule(teamId, seasonLabel ?? 'current');
+  const cached = await getCachedResult<TeamScheduleResponse>(cacheKey);
+  if (cached) return cached.data.games;
+
+  try {
+    const result = await fetchForLeague(league, p => p.fetchTeamSchedule(teamId, seasonLabel));
+    const schedule: TeamScheduleResponse = {
+      teamId,
+      season: seasonLabel ?? 'current',
+      lastUpdated: new Date().toISOString(),
+      games: result.data
+        .map(game => gameToScheduleGame(game, teamId))
+        .sort((a, b) => a.startTime.localeCompare(b.startTime)),
+    };
+    await setCachedResult(cacheKey, { data: schedule, provider: result.provider }, getScheduleTTL());
+    return schedule.games;
+  } catch (error) {
+    logger.warn('Feed: Provider schedule fallback failed', {
+      teamId,
+      season: seasonLabel,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
+
+/**
+ * A team's schedule for the feed, ordered by start time: its synced games,
+ * or the provider's schedule when the store has none for it
+ */
+export async function getFeedSchedule(
+  teamId: string,
+  league: string,
+  season: LeagueSeason | undefined
+): Promise<TeamScheduleGame[]> {
+  const records = season ? await getScheduleStore().getGamesForTeam(teamId, season.id) : [];
+  if (records.length > 0) {
+    return records.map(record => recordToScheduleGame(record, teamId));
+  }
+  return getProviderSchedule(teamId, league, season);
+}
+
+/**
+ * A team's game on `date`; otherwise its next game, otherwise its most recent.
+ * Games must be ordered by start time.
+ */
+export function pickFeedGame(games: TeamScheduleGame[], date: string): FeedPick | null {
+  const today = games.find(game => game.scoreboardDate === date);
+  if (today) return { game: today, relation: 'today' };
+
+  const next = games.find(game => game.scoreboardDate > date);
+  if (next) return { game: next, relation: 'next' };
+
+  const previous = [...games].reverse().find(game => game.scoreboardDate < date);
+  return previous ? { game: previous, relation: 'previous' } : null;
+}
+
+/**
+ * Feed entry for a team's pick. A cached scoreboard game is fresher than the
+ * schedule (live scores and clock), so it wins when present.
+ */
+export function toFeedItem(teamId: string, league: string, pick: FeedPick, matchup?: Game): FeedItem {
+  return {
+    teamIds: [teamId],
+    league,
+    relation: pick.relation,
+    game: matchup ? gameToScheduleGame(matchup, teamId) : pick.game,
+    matchup,
+  };
+}
+
+/**
+ * One entry per game (two favorite teams meeting share an entry), sorted by
+ * start time, then league
+ */
+export function mergeFeedItems(items: FeedItem[]): FeedItem[] {
+  const byGame = new Map<string, FeedItem>();
+  for (const item of items) {
+    const existing = byGame.get(item.game.gameId);
+    if (existing) {
+      existing.teamIds.push(...item.teamIds);
+    } else {
+      byGame.set(item.game.gameId, item);
+    }
+  }
+
+  return [...byGame.values()].sort((a, b) =>
+    Date.parse(a.game.startTime) - Date.parse(b.game.startTime) || a.league.localeCompare(b.league));
+}
@@ -0,0 +1,133 @@
+/**
+ * Player split assembly
+ *
+ * Groups a season's game log lines into home/away, month, opponent,
+ * result, role and rest-day splits with per-game averages.
+ */
+
+import { NBASplitGameLine } from '../db/repositories/playerRepository';
+import { PlayerSplits, SplitLine } from '../types/playerSplits';
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const MONTH_LABELS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+interface SplitGroup {
+  key: string;
+  label: string;
+  lines: NBASplitGameLine[];
+}
+
+function round1(val: number): number {
+  return Math.round(val * 10) / 10;
+}
+
+/** Month index (0-11) of a game date, read from the YYYY-MM-DD prefix */
+function monthIndex(gameDate: Date | string): number {
+  const iso = gameDate instanceof Date ? gameDate.toISOString() : String(gameDate);
+  return parseInt(iso.slice(5, 7), 10) - 1;
+}
+
+/**
+ * Per-game averages for a group of game lines.
+ * Percentages are recomputed from made/attempted totals.
+ */
+export function summarizeSplit(key: string, label: string, lines: NBASplitGameLine[]): SplitLine {
+  const total = (pick: (line: NBASplitGameLine) => number | null) =>
+    lines.reduce((sum, line) => sum + Number(pick(line) ?? 0), 0);
+  const perGame = (pick: (line: NBASplitGameLine) => number | null) =>
+    lines.length > 0 ? round1(total(pick) / lines.length) : 0;
+  const pct = (made: number, attempted: number) =>
+    attempted > 0 ? round1((made / attempted) * 100) : 0;
+
+  return {
+    key,
+    label,
+    gamesPlayed: lines.length,
+    minutes: perGame(l => l.minutes),
+    points: perGame(l => l.points),
+    rebounds: perGame(l => l.reb),
+    assists: perGame(l => l.ast),
+    steals: perGame(l => l.stl),
+    blocks: perGame(l => l.blk),
+    turnovers: perGame(l => l.tov),
+    fgPct: pct(total(l => l.fgm), total(l => l.fga)),
+    fg3Pct: pct(total(l => l.fg3m), total(l => l.fg3a)),
+    ftPct: pct(total(l => l.ftm), total(l => l.fta)),
+    plusMinus: perGame(l => l.plus_minus),
+  };
+}
+
+/**
+ * Bucket lines by key, keeping first-seen order, and drop empty buckets
+ */
+function groupBy(
+  lines: NBASplitGameLine[],
+  keyOf: (line: NBASplitGameLine) => { key: string; label: string } | null
+): SplitGroup[] {
+  const groups = new Map<string, SplitGroup>();
+  for (const line of lines) {
+    const bucket = keyOf(line);
+    if (!bucket) continue;
+    const group = groups.get(bucket.key) ?? { ...bucket, lines: [] };
+    group.lines.push(line);
+    groups.set(bucket.key, group);
+  }
+  return [...groups.values()];
+}
+
+function toSplitLines(groups: SplitGroup[]): SplitLine[] {
+  return groups.map(group => summarizeSplit(group.key, group.label, group.lines));
+}
+
+/** Order fixed buckets by a key list, skipping buckets with no games */
+function inOrder(groups: SplitGroup[], keys: string[]): SplitGroup[] {
+  return keys.flatMap(key => groups.filter(group => group.key === key));
+}
+
+/**
+ * Compute all splits from a season's game lines (sorted by date ascending).
+ * DNP lines are excluded from every split.
+ */
+export function computePlayerSplits(gameLines: NBASplitGameLine[]): PlayerSplits {
+  const played = gameLines.filter(line => !line.dnp_reason);
+
+  const homeAway = groupBy(played, line =>
+    line.is_home ? { key: 'HOME', label: 'Home' } : { key: 'AWAY', label: 'Away' });
+
+  const byMonth = groupBy(played, line => {
+    const month = monthIndex(line.game_date);
+    return { key: MONTHS[month], label: MONTH_LABELS[month] };
+  });
+
+  const byOpponent = groupBy(played, line => line.opponent_team_id
+    ? { key: line.opponent_team_id, label: line.opponent_abbreviation ?? line.opponent_team_id }
+    : null);
+
+  const result = groupBy(played, line => {
+    if (line.won === null) return null;
+    return line.won ? { key: 'W', label: 'Wins' } : { key: 'L', label: 'Losses' };
+  });
+
+  const role = groupBy(played, line =>
+    line.is_starter ? { key: 'STARTER', label: 'Starter' } : { key: 'BENCH', label: 'Bench' });
+
+  const restDays = groupBy(played, line => {
+    if (line.rest_days === null || line.rest_days < 0) return null;
+    const days = Number(line.rest_days);
+    if (days === 0) return { key: 'REST_0', label: 'Back-to-back' };
+    if (days >= 3) return { key: 'REST_3_PLUS', label: '3+ days rest' };
+    return { key: `REST_${days}`, label: `${days} day${days === 1 ? '' : 's'} rest` };
+  });
+
+  return {
+    homeAway: toSplitLines(inOrder(homeAway, ['HOME', 'AWAY'])),
+    byMonth: toSplitLines(byMonth),
+    byOpponent: toSplitLines(byOpponent).sort((a, b) => b.gamesPlayed - a.gamesPlayed || a.label.localeCompare(b.label)),
+    result: toSplitLines(inOrder(result, ['W', 'L'])),
+    role: toSplitLines(inOrder(role, ['STARTER', 'BENCH'])),
+    restDays: toSplitLines(inOrder(restDays, ['REST_0', 'REST_1', 'REST_2', 'REST_3_PLUS'])),
+  };
+}
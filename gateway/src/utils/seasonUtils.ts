@@ -3,7 +3,8 @@
  */
 
 /**
- * Get current NBA season based on current date.
+ * Guess the current NBA season from the month, for when league_seasons has
+ * nothing stored (prefer getCurrentSeasonYear in jobs/seasonCalendar).
  * October-December = current year's season; January-September = previous year's.
  */
 export function getCurrentSeason(): number {
@@ -11,6 +12,20 @@ export function getCurrentSeason(): number {
   return now.getMonth() >= 9 ? now.getFullYear() : now.getFullYear() - 1;
 }
 
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in the given IANA time zone
+ */
+export function toDateInTimeZone(instant: Date, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(instant);
+  const part = (type: string) => parts.find(p => p.type === type)?.value;
+  return `${part('year')}-${part('month')}-${part('day')}`;
+}
+
 /**
  * Convert a season start year to a display label.
  * e.g., 2025 -> "2025-26"
@@ -19,3 +34,49 @@ export function seasonLabel(season: number): string {
   const nextYear = (season + 1) % 100;
   return `${season}-${nextYear.toString().padStart(2, '0')}`;
 }
+
+/**
+ * Leagues whose seasons span two calendar years (labelled "2025-26")
+ */
+export function isSplitYearLeague(league: string): boolean {
+  return league === 'nba' || league === 'nhl' || league === 'ncaam' || league === 'ncaaw';
+}
+
+/**
+ * Normalize a requested season ("2025", "2025-26") to the league's season label.
+ * Split-year leagues use the start year: "2025" -> "2025-26". Returns null
+ * for malformed input.
+ */
+export function toLeagueSeasonLabel(league: string, season: string): string | null {
+  const match = /^(\d{4})(?:-(\d{2}))?$/.exec(season);
+  if (!match) {
+    return null;
+  }
+  const startYear = parseInt(match[1], 10);
+  if (!isSplitYearLeague(league)) {
+    return match[2] ? null : String(startYear);
+  }
+  const label = seasonLabel(startYear);
+  return !match[2] || label === season ? label : null;
+}
+
+/**
+ * Season phase on a given date (YYYY-MM-DD), from the season's stored boundaries.
+ * Seasons without preseason/postseason dates go straight from offseason to regular
+ * and back.
+ */
+export function computeSeasonStatus(
+  season: { startDate: string; endDate: string; preseasonStart?: string; postseasonEnd?: string },
+  date: string
+): 'preseason' | 'regular' | 'postseason' | 'offseason' {
+  if (season.preseasonStart && date >= season.preseasonStart && date < season.startDate) {
+    return 'preseason';
+  }
+  if (date >= season.startDate && date <= season.endDate) {
+    return 'regular';
+  }
+  if (season.postseasonEnd && date > season.endDate && date <= season.postseasonEnd) {
+    return 'postseason';
+  }
+  return 'offseason';
+}
@@ -0,0 +1,115 @@
+/**
+ * Team schedule assembly
+ *
+ * Builds one team's season schedule from synced GameRecords, filling dates
+ * the game_dates index has not reached yet with provider games.
+ */
+
+import { Game, TeamScheduleGame } from '../types';
+import { GameRecord, LeagueSeason } from '../jobs/scheduleStore';
+import { getScoreboardDate } from '../jobs/scheduleSync';
+
+/**
+ * Win/loss/tie from the team's perspective (final games only)
+ */
+function gameResult(
+  status: TeamScheduleGame['status'],
+  teamScore?: number,
+  opponentScore?: number
+): TeamScheduleGame['result'] {
+  if (status !== 'final' || teamScore === undefined || opponentScore === undefined) {
+    return undefined;
+  }
+  if (teamScore === opponentScore) return 'T';
+  return teamScore > opponentScore ? 'W' : 'L';
+}
+
+/**
+ * Schedule entry from a synced game record
+ */
+export function recordToScheduleGame(record: GameRecord, teamId: string): TeamScheduleGame {
+  const isHome = record.homeTeamId === teamId;
+  const teamScore = isHome ? record.homeScore : record.awayScore;
+  const opponentScore = isHome ? record.awayScore : record.homeScore;
+
+  return {
+    gameId: record.id,
+    startTime: record.startTimeUtc,
+    scoreboardDate: record.scoreboardDate,
+    status: record.status,
+    homeAway: isHome ? 'home' : 'away',
+    opponentId: isHome ? record.awayTeamId : record.homeTeamId,
+    teamScore,
+    opponentScore,
+    result: gameResult(record.status, teamScore, opponentScore),
+    period: record.period,
+    clock: record.clock,
+  };
+}
+
+/**
+ * Schedule entry from a provider game
+ */
+export function gameToScheduleGame(game: Game, teamId: string): TeamScheduleGame {
+  const isHome = game.homeTeam.id === teamId;
+  const team = isHome ? game.homeTeam : game.awayTeam;
+  const opponent = isHome ? game.awayTeam : game.homeTeam;
+
+  return {
+    gameId: game.id,
+    startTime: game.startTime,
+    scoreboardDate: getScoreboardDate(game.startTime),
+    status: game.status,
+    homeAway: isHome ? 'home' : 'away',
+    opponentId: opponent.id,
+    teamScore: team.score,
+    opponentScore: opponent.score,
+    result: gameResult(game.status, team.score, opponent.score),
+    period: game.period,
+    clock: game.clock,
+  };
+}
+
+/**
+ * Whether every date of the season (pre- and postseason included) has a
+ * game_dates entry, i.e. the synced games are the complete schedule
+ */
+export function isSeasonIndexed(season: LeagueSeason, indexedDates: Set<string>): boolean {
+  const date = new Date(`${season.preseasonStart || season.startDate}T00:00:00Z`);
+  const end = season.postseasonEnd || season.endDate;
+
+  for (let day = date.toISOString().split('T')[0]; day <= end; day = date.toISOString().split('T')[0]) {
+    if (!indexedDates.has(day)) {
+      return false;
+    }
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return true;
+}
+
+/**
+ * Merge synced records with provider games. Records win on indexed dates
+ * where the store has them; provider games fill the dates the index has not
+ * reached and indexed dates the store holds no games for.
+ */
+export function mergeTeamSchedule(
+  teamId: string,
+  records: GameRecord[],
+  providerGames: Game[],
+  indexedDates: Set<string>
+): TeamScheduleGame[] {
+  const games = records.map(record => recordToScheduleGame(record, teamId));
+  const seen = new Set(games.map(game => game.gameId));
+  const storedDates = new Set(records.map(record => record.scoreboardDate));
+
+  for (const providerGame of providerGames) {
+    const game = gameToScheduleGame(providerGame, teamId);
+    if (seen.has(game.gameId) || (indexedDates.has(game.scoreboardDate) && storedDates.has(game.scoreboardDate))) {
+      continue;
+    }
+    seen.add(game.gameId);
+    games.push(game);
+  }
+
+  return games.sort((a, b) => a.startTime.localeCompare(b.startTime));
+}
@@ -0,0 +1,165 @@
+/**
+ * Webhook Dispatcher
+ *
+ * POSTs signed events to subscription URLs. A delivery succeeds on any 2xx;
+ * anything else is retried with backoff (30s, 2m, 10m, 30m). Deliveries that
+ * fail every attempt are written to the dead-letter log, where /v1/admin can
+ * list and replay them.
+ *
+ * Retries are held in memory, so a restart drops deliveries still waiting
+ * for their next attempt.
+ */
+
+import http from 'http';
+import https from 'https';
+import axios from 'axios';
+import {
+  WebhookSubscription,
+  insertWebhookDeadLetter,
+} from '../db/repositories/webhookRepository';
+import { logger } from '../utils/logger';
+import { signWebhookPayload, WebhookEvent } from './webhookEvents';
+import { getBlockedHostReason, publicOnlyLookup } from './webhookTargets';
+
+export const WEBHOOK_RETRY_DELAYS_MS = [30 * 1000, 2 * 60 * 1000, 10 * 60 * 1000, 30 * 60 * 1000];
+const REQUEST_TIMEOUT_MS = 10000;
+
+export interface DeliveryAttempt {
+  status?: number;
+  error?: string;
+}
+
+export interface DeliveryResult {
+  delivered: boolean;
+  attempts: number;
+  last: DeliveryAttempt;
+}
+
+export type WebhookTransport = (
+  url: string,
+  body: string,
+  headers: Record<string, string>
+) => Promise<{ status: number }>;
+
+// Agents that refuse to connect to hostnames resolving to non-public addresses
+const httpAgent = new http.Agent({ lookup: publicOnlyLookup });
+const httpsAgent = new https.Agent({ lookup: publicOnlyLookup });
+
+/**
+ * POST with axios; never throws for HTTP error statuses. Throws for targets
+ * on non-public addresses (see webhookTargets).
+ */
+const axiosTransport: WebhookTransport = async (url, body, headers) => {
+  // IP-literal hosts skip DNS lookup, so they are checked here
+  const blockedReason = getBlockedHostReason(new URL(url));
+  if (blockedReason) {
+    throw new Error(blockedReason);
+  }
+
+  const response = await axios.post(url, body, {
+    headers,
+    timeout: REQUEST_TIMEOUT_MS,
+    validateStatus: () => true,
+    // Partners get the event, not our redirects
+    maxRedirects: 0,
+    httpAgent,
+    httpsAgent,
+    proxy: false,
+  });
+  return { status: response.status };
+};
+
+export class WebhookDispatcher {
+  constructor(
+    private readonly transport: WebhookTransport = axiosTransport,
+    private readonly retryDelaysMs: number[] = WEBHOOK_RETRY_DELAYS_MS,
+    private readonly deadLetter: typeof insertWebhookDeadLetter = insertWebhookDeadLetter
+  ) {}
+
+  /**
+   * Deliver with retries; resolves once delivered or dead-lettered
+   */
+  async deliver(subscription: WebhookSubscription, event: WebhookEvent): Promise<DeliveryResult> {
+    const body = JSON.stringify(event);
+    const maxAttempts = this.retryDelaysMs.length + 1;
+    let last: DeliveryAttempt = {};
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      last = await this.attempt(subscription, event, body, attempt);
+      if (last.status !== undefined && last.status >= 200 && last.status < 300) {
+        return { delivered: true, attempts: attempt, last };
+      }
+
+      logger.warn('WebhookDispatcher: Delivery attempt failed', {
+        subscriptionId: subscription.id,
+        eventId: event.id,
+        attempt,
+        status: last.status,
+        error: last.error,
+      });
+
+      if (attempt < maxAttempts) {
+        await sleep(this.retryDelaysMs[attempt - 1]);
+      }
+    }
+
+    const stored = await this.deadLetter({
+      subscription_id: subscription.id,
+      event_id: event.id,
+      event_type: event.type,
+      payload: event,
+      attempts: maxAttempts,
+      last_status: last.status ?? null,
+      last_error: last.error ?? null,
+    });
+    if (stored) {
+      logger.error('WebhookDispatcher: Delivery dead-lettered', {
+        subscriptionId: subscription.id,
+        eventId: event.id,
+        attempts: maxAttempts,
+      });
+    } else {
+      logger.warn('WebhookDispatcher: Subscription deleted during retries, dropping delivery', {
+        subscriptionId: subscription.id,
+        eventId: event.id,
+      });
+    }
+
+    return { delivered: false, attempts: maxAttempts, last };
+  }
+
+  private async attempt(
+    subscription: WebhookSubscription,
+    event: WebhookEvent,
+    body: string,
+    attempt: number
+  ): Promise<DeliveryAttempt> {
+    try {
+      const { status } = await this.transport(subscription.url, body, {
+        'content-type': 'application/json',
+        'user-agent': 'BoxScore-Webhooks/1.0',
+        'x-boxscore-event': event.type,
+        'x-boxscore-delivery': event.id,
+        'x-boxscore-attempt': String(attempt),
+        // Signed per attempt so the timestamp stays fresh on retries
+        'x-boxscore-signature': signWebhookPayload(subscription.secret, body),
+      });
+      return { status, error: status >= 300 ? `HTTP ${status}` : undefined };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+let dispatcherInstance: WebhookDispatcher | null = null;
+
+export function getWebhookDispatcher(): WebhookDispatcher {
+  if (!dispatcherInstance) {
+    dispatcherInstance = new WebhookDispatcher();
+  }
+  return dispatcherInstance;
+}
@@ -0,0 +1,166 @@
+import crypto from 'crypto';
+import { Game } from '../../types';
+import { WebhookSubscription } from '../../db/repositories/webhookRepository';
+import { WebhookDispatcher, WebhookTransport } from '../WebhookDispatcher';
+import { buildWebhookEvents, matchesSubscription, signWebhookPayload, WebhookEvent } from '../webhookEvents';
+import { getBlockedHostReason, isPublicAddress, publicOnlyLookup } from '../webhookTargets';
+
+function game(overrides: Partial<Game> = {}): Game {
+  return {
+    id: 'nba_401810365',
+    startTime: '2026-01-16T00:30:00Z',
+    status: 'live',
+    period: 'Q2',
+    clock: '4:10',
+    homeTeam: { id: 'nba_13', abbrev: 'LAL', name: 'Lakers', city: 'Los Angeles', score: 52 },
+    awayTeam: { id: 'nba_2', abbrev: 'BOS', name: 'Celtics', city: 'Boston', score: 48 },
+    ...overrides,
+  };
+}
+
+function subscription(overrides: Partial<WebhookSubscription> = {}): WebhookSubscription {
+  return {
+    id: '6f1c1d3e-3d43-4c55-9f38-0f6f4a7b2a11',
+    url: 'https://partner.example.com/hooks',
+    secret: 'test-secret-0123456789',
+    description: null,
+    league: null,
+    team_id: null,
+    game_id: null,
+    events: ['game.status', 'game.score'],
+    active: true,
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides,
+  };
+}
+
+function scoreEvent(): WebhookEvent {
+  const g = game();
+  return buildWebhookEvents('nba', [{ gameId: g.id, homeScore: 52 }], new Map([[g.id, g]]))[0];
+}
+
+describe('signWebhookPayload', () => {
+  it('signs "<timestamp>.<body>" with HMAC-SHA256', () => {
+    const body = JSON.stringify({ hello: 'world' });
+    const expected = crypto.createHmac('sha256', 'secret').update(`1700000000.${body}`).digest('hex');
+    expect(signWebhookPayload('secret', body, 1700000000)).toBe(`t=1700000000,v1=${expected}`);
+  });
+});
+
+describe('buildWebhookEvents', () => {
+  it('emits status and score events for the changes in a diff', () => {
+    const g = game();
+    const events = buildWebhookEvents(
+      'nba',
+      [{ gameId: g.id, status: 'live', homeScore: 52 }, { gameId: 'nba_missing', status: 'final' }],
+      new Map([[g.id, g]])
+    );
+
+    expect(events.map(event => event.type)).toEqual(['game.status', 'game.score']);
+    expect(events[0].id).not.toBe(events[1].id);
+    expect(events[0].data).toEqual({
+      league: 'nba',
+      gameId: 'nba_401810365',
+      status: 'live',
+      period: 'Q2',
+      clock: '4:10',
+      homeTeam: { id: 'nba_13', abbrev: 'LAL', score: 52 },
+      awayTeam: { id: 'nba_2', abbrev: 'BOS', score: 48 },
+    });
+  });
+});
+
+describe('matchesSubscription', () => {
+  const event = scoreEvent();
+
+  it('matches on event type and every filter given', () => {
+    expect(matchesSubscription(subscription(), event)).toBe(true);
+    expect(matchesSubscription(subscription({ events: ['game.status'] }), event)).toBe(false);
+    expect(matchesSubscription(subscription({ league: 'nhl' }), event)).toBe(false);
+    expect(matchesSubscription(subscription({ team_id: 'nba_2' }), event)).toBe(true);
+    expect(matchesSubscription(subscription({ team_id: 'nba_5' }), event)).toBe(false);
+    expect(matchesSubscription(subscription({ league: 'nba', game_id: 'nba_1' }), event)).toBe(false);
+  });
+});
+
+describe('WebhookDispatcher', () => {
+  it('delivers signed events and stops on 2xx', async () => {
+    const transport = jest.fn<ReturnType<WebhookTransport>, Parameters<WebhookTransport>>()
+      .mockResolvedValueOnce({ status: 503 })
+      .mockResolvedValueOnce({ status: 204 });
+    const deadLetter = jest.fn().mockResolvedValue(true);
+    const event = scoreEvent();
+
+    const result = await new WebhookDispatcher(transport, [0, 0], deadLetter).deliver(subscription(), event);
+
+    expect(result).toEqual({ delivered: true, attempts: 2, last: { status: 204 } });
+    expect(deadLetter).not.toHaveBeenCalled();
+
+    const [url, body, headers] = transport.mock.calls[1];
+    expect(url).toBe('https://partner.example.com/hooks');
+    expect(headers['x-boxscore-attempt']).toBe('2');
+    expect(headers['x-boxscore-delivery']).toBe(event.id);
+    const [, timestamp, digest] = /^t=(\d+),v1=([0-9a-f]+)$/.exec(headers['x-boxscore-signature'])!;
+    expect(digest).toBe(
+      crypto.createHmac('sha256', 'test-secret-0123456789').update(`${timestamp}.${body}`).digest('hex')
+    );
+  });
+
+  it('dead-letters after the final attempt fails', async () => {
+    const transport = jest.fn<ReturnType<WebhookTransport>, Parameters<WebhookTransport>>()
+      .mockResolvedValueOnce({ status: 500 })
+      .mockRejectedValueOnce(new Error('ECONNRESET'));
+    const deadLetter = jest.fn().mockResolvedValue(true);
+    const event = scoreEvent();
+
+    const result = await new WebhookDispatcher(transport, [0], deadLetter).deliver(subscription(), event);
+
+    expect(result).toEqual({ delivered: false, attempts: 2, last: { error: 'ECONNRESET' } });
+    expect(transport).toHaveBeenCalledTimes(2);
+    expect(deadLetter).toHaveBeenCalledWith(expect.objectContaining({
+      subscription_id: '6f1c1d3e-3d43-4c55-9f38-0f6f4a7b2a11',
+      event_id: event.id,
+      event_type: 'game.score',
+      attempts: 2,
+      last_status: null,
+      last_error: 'ECONNRESET',
+    }));
+  });
+
+  it('drops the delivery when the subscription was deleted while retrying', async () => {
+    const transport = jest.fn<ReturnType<WebhookTransport>, Parameters<WebhookTransport>>()
+      .mockResolvedValue({ status: 500 });
+    const deadLetter = jest.fn().mockResolvedValue(false);
+
+    const result = await new WebhookDispatcher(transport, [0], deadLetter).deliver(subscription(), scoreEvent());
+
+    expect(result.delivered).toBe(false);
+    expect(deadLetter).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('webhook targets', () => {
+  it('only treats publicly routable addresses as public', () => {
+    expect(isPublicAddress('93.184.216.34')).toBe(true);
+    expect(isPublicAddress('2606:2800:220:1::1')).toBe(true);
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1']) {
+      expect(isPublicAddress(address)).toBe(false);
+    }
+  });
+
+  it('rejects localhost and non-public IP literal hosts', () => {
+    expect(getBlockedHostReason(new URL('https://partner.example.com/hooks'))).toBeNull();
+    expect(getBlockedHostReason(new URL('http://localhost:3000/hooks'))).toBe('url must not point at localhost');
+    expect(getBlockedHostReason(new URL('http://169.254.169.254/latest/meta-data'))).toBe('url must point at a public address');
+    expect(getBlockedHostReason(new URL('http://[::1]/hooks'))).toBe('url must point at a public address');
+  });
+
+  it('fails lookups that resolve to non-public addresses', async () => {
+    const error = await new Promise<NodeJS.ErrnoException | null>(resolve => {
+      publicOnlyLookup('localhost', {}, err => resolve(err));
+    });
+
+    expect(error?.code).toBe('EWEBHOOKTARGET');
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Webhook events
+ *
+ * Builds webhook events from scoreboard poller diffs, matches them against
+ * subscription filters and signs request bodies.
+ *
+ * Signature header (Stripe-style, so partners can reject replays):
+ *   X-BoxScore-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ */
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { Game } from '../types';
+import { GameDiff } from '../jobs/scoreboardPoller';
+import { WebhookEventType, WebhookSubscription } from '../db/repositories/webhookRepository';
+
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: {
+    league: string;
+    gameId: string;
+    status: Game['status'];
+    period?: string;
+    clock?: string;
+    homeTeam: { id: string; abbrev: string; score?: number };
+    awayTeam: { id: string; abbrev: string; score?: number };
+  };
+}
+
+type SubscriptionFilter = Pick<WebhookSubscription, 'league' | 'team_id' | 'game_id' | 'events'>;
+
+/**
+ * Events for one poller update: a status event for every status transition
+ * and a score event for every score change. `games` holds the updated games.
+ */
+export function buildWebhookEvents(league: string, changes: GameDiff[], games: Map<string, Game>): WebhookEvent[] {
+  const events: WebhookEvent[] = [];
+  const createdAt = new Date().toISOString();
+
+  for (const diff of changes) {
+    const game = games.get(diff.gameId);
+    if (!game) continue;
+
+    const data: WebhookEvent['data'] = {
+      league,
+      gameId: game.id,
+      status: game.status,
+      period: game.period,
+      clock: game.clock,
+      homeTeam: { id: game.homeTeam.id, abbrev: game.homeTeam.abbrev, score: game.homeTeam.score },
+      awayTeam: { id: game.awayTeam.id, abbrev: game.awayTeam.abbrev, score: game.awayTeam.score },
+    };
+
+    if (diff.status !== undefined) {
+      events.push({ id: uuidv4(), type: 'game.status', createdAt, data });
+    }
+    if (diff.homeScore !== undefined || diff.awayScore !== undefined) {
+      events.push({ id: uuidv4(), type: 'game.score', createdAt, data });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Whether a subscription wants an event. Filters are optional and combine with AND.
+ */
+export function matchesSubscription(subscription: SubscriptionFilter, event: WebhookEvent): boolean {
+  const { data } = event;
+  if (!subscription.events.includes(event.type)) return false;
+  if (subscription.league && subscription.league !== data.league) return false;
+  if (subscription.game_id && subscription.game_id !== data.gameId) return false;
+  if (subscription.team_id
+    && subscription.team_id !== data.homeTeam.id
+    && subscription.team_id !== data.awayTeam.id) return false;
+  return true;
+}
+
+/**
+ * Signature header value for a request body
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
@@ -0,0 +1,98 @@
+/**
+ * Webhook target checks
+ *
+ * Webhook URLs are partner-supplied, so deliveries must never reach the
+ * gateway's own network: loopback, private, link-local (cloud metadata) and
+ * other non-public addresses are refused, both for IP-literal hosts and for
+ * whatever a hostname resolves to at connect time.
+ */
+
+import dns from 'dns';
+import net from 'net';
+
+const blockedAddresses = new net.BlockList();
+
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],        // "this" network
+  ['10.0.0.0', 8],       // private
+  ['100.64.0.0', 10],    // carrier-grade NAT
+  ['127.0.0.0', 8],      // loopback
+  ['169.254.0.0', 16],   // link-local (cloud metadata)
+  ['172.16.0.0', 12],    // private
+  ['192.0.0.0', 24],     // IETF protocol assignments
+  ['192.168.0.0', 16],   // private
+  ['198.18.0.0', 15],    // benchmarking
+  ['224.0.0.0', 4],      // multicast
+  ['240.0.0.0', 4],      // reserved and broadcast
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+
+// IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) are matched by the IPv4 rules
+for (const [network, prefix] of [
+  ['::', 128],           // unspecified
+  ['::1', 128],          // loopback
+  ['fc00::', 7],         // unique local
+  ['fe80::', 10],        // link-local
+  ['ff00::', 8],         // multicast
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is publicly routable
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return !blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Why a webhook URL's host can never be delivered to, or null when it may be.
+ * Hostnames pass here; their addresses are checked when connecting.
+ */
+export function getBlockedHostReason(url: URL): string | null {
+  // URL keeps IPv6 literals bracketed
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    return 'url must not point at localhost';
+  }
+  if (net.isIP(host) !== 0 && !isPublicAddress(host)) {
+    return 'url must point at a public address';
+  }
+  return null;
+}
+
+/**
+ * dns.lookup for HTTP agents that fails when a hostname resolves to any
+ * non-public address, so a connection never opens to one
+ */
+export function publicOnlyLookup(
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void
+): void {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+
+    const blocked = addresses.find(entry => !isPublicAddress(entry.address));
+    if (blocked || addresses.length === 0) {
+      const refused: NodeJS.ErrnoException = new Error(
+        `Webhook host ${hostname} resolves to a non-public address${blocked ? ` (${blocked.address})` : ''}`
+      );
+      refused.code = 'EWEBHOOKTARGET';
+      callback(refused, '');
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}